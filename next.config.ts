@@ -15,7 +15,7 @@ const nextConfig: NextConfig = {
         // metadata). /demo is a client-side redirect into robots-blocked
         // /dashboard. Served as a header (NOT robots.txt disallow) so Google
         // can actually see the noindex.
-        source: "/(agents|events|models|reports|optimizations|feedback|demo)",
+        source: "/(agents|events|models|reports|optimizations|feedback|traces|demo)",
         headers: [{ key: "X-Robots-Tag", value: "noindex, nofollow" }],
       },
     ];
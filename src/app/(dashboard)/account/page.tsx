@@ -17,7 +17,7 @@ import {
   Trash2,
   Award,
 } from "lucide-react";
-import { formatRelativeTime } from "@/lib/utils";
+import { formatRelativeTime, parseApiError } from "@/lib/utils";
 
 export default function AccountPage() {
   const { logout } = useAuth();
@@ -71,10 +71,7 @@ export default function AccountPage() {
       setProfile(updated);
       showMessage("success", "Profile updated successfully");
     } catch (err) {
-      showMessage(
-        "error",
-        err instanceof Error ? err.message : "Failed to update profile",
-      );
+      showMessage("error", parseApiError(err));
     } finally {
       setSaving(false);
     }
@@ -98,10 +95,7 @@ export default function AccountPage() {
       setConfirmPassword("");
       showMessage("success", "Password changed successfully");
     } catch (err) {
-      showMessage(
-        "error",
-        err instanceof Error ? err.message : "Failed to change password",
-      );
+      showMessage("error", parseApiError(err));
     } finally {
       setSaving(false);
     }
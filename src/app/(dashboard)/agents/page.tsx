@@ -1,7 +1,9 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useMemo } from "react";
+import { useSearchParams } from "next/navigation";
 import { Card } from "@/components/ui/Card";
+import { ApiErrorState } from "@/components/ui/ApiErrorState";
 import { TimeRangeSelector } from "@/components/layout/TimeRangeSelector";
 import {
   Table,
@@ -27,48 +29,38 @@ import {
   OnboardingScreen,
   LoadingSpinner,
 } from "@/hooks/useApiConfiguration";
+import { useDisplayCurrency } from "@/contexts/DisplayCurrencyContext";
+import { useApiData } from "@/hooks/useApiData";
+import { useQueryTimeRange } from "@/hooks/useQueryState";
 
 export default function AgentsPage() {
   const { isConfigured } = useApiConfiguration();
-  const [timeRange, setTimeRange] = useState("7d");
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [agents, setAgents] = useState<AgentStats[]>([]);
-  const [showOnboarding, setShowOnboarding] = useState(false);
-
-  useEffect(() => {
-    async function fetchData() {
-      if (!api.hasProjectAccess()) {
-        setLoading(false);
-        return;
-      }
-
-      setLoading(true);
-      setError(null);
-
-      try {
-        const data = await api.getAgentStats(timeRange, 50);
-        setAgents(data);
-        setShowOnboarding(false);
-      } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : "Failed to fetch data";
-        if (
-          errorMessage.includes("401") ||
-          errorMessage.includes("Invalid API key")
-        ) {
-          setShowOnboarding(true);
-          setError(null);
-        } else {
-          setError(errorMessage);
-        }
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    fetchData();
-  }, [timeRange]);
+  const { fx } = useDisplayCurrency();
+  const [timeRange, setTimeRange] = useQueryTimeRange();
+  /* Deep links from an event's detail drawer point at one row. */
+  const focused = useSearchParams().get("agent");
+  const {
+    data: agents,
+    loading,
+    error,
+    refetch,
+  } = useApiData(
+    (signal) => api.getAgentStats(timeRange, 50, signal),
+    [timeRange],
+    [] as AgentStats[],
+  );
+  // A focused agent outside the top 50 is fetched on its own and listed
+  // last, so the link still lands on its row.
+  const focusMissing =
+    !loading && !!focused && !agents.some((a) => a.agent_name === focused);
+  const { data: focusedAgent } = useApiData(
+    (signal) =>
+      focusMissing && focused
+        ? api.getAgentStat(timeRange, focused, signal)
+        : Promise.resolve(null),
+    [timeRange, focused, focusMissing],
+    null as AgentStats | null,
+  );
 
   const summary = useMemo(() => {
     const totalCost = agents.reduce((sum, a) => sum + a.total_cost, 0);
@@ -88,9 +80,14 @@ export default function AgentsPage() {
       topAgent: sorted[0] ?? null,
     };
   }, [agents]);
+  const rows =
+    focusMissing && focusedAgent
+      ? [...summary.sorted, focusedAgent]
+      : summary.sorted;
 
   // Show onboarding if not configured or invalid API key
-  if (isConfigured === false || showOnboarding) return <OnboardingScreen />;
+  if (isConfigured === false || error?.kind === "unauthorized")
+    return <OnboardingScreen />;
   if (isConfigured === null) return <LoadingSpinner />;
 
   return (
@@ -109,11 +106,7 @@ export default function AgentsPage() {
       </div>
 
       {/* Error State */}
-      {error && (
-        <Card className="border-red-900/50 bg-red-950/20">
-          <p className="text-red-400">{error}</p>
-        </Card>
-      )}
+      {error && <ApiErrorState error={error} onRetry={refetch} />}
 
       {/* Summary Cards */}
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-4">
@@ -131,6 +124,7 @@ export default function AgentsPage() {
         <HeroStatCard
           label="Total Spend"
           value={formatCurrency(summary.totalCost)}
+          fx={fx}
           sub={
             summary.topAgent && summary.totalCost > 0
               ? `${((summary.topAgent.total_cost / summary.totalCost) * 100).toFixed(0)}% from top agent`
@@ -197,15 +191,24 @@ export default function AgentsPage() {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {summary.sorted.map((agent, index) => {
+              {rows.map((agent, index) => {
                 const share =
                   summary.totalCost > 0
                     ? (agent.total_cost / summary.totalCost) * 100
                     : 0;
                 return (
-                  <TableRow key={agent.agent_name}>
+                  <TableRow
+                    key={agent.agent_name}
+                    className={
+                      agent.agent_name === focused
+                        ? "bg-primary-900/20 hover:bg-primary-900/30"
+                        : undefined
+                    }
+                  >
                     <TableCell className="font-mono text-xs text-neutral-600 tabular-nums">
-                      {String(index + 1).padStart(2, "0")}
+                      {index < summary.sorted.length
+                        ? String(index + 1).padStart(2, "0")
+                        : "—"}
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-3">
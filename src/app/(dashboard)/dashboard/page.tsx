@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import {
   DollarSign,
   Activity,
@@ -12,31 +12,48 @@ import {
   Gauge,
   KeyRound,
   ArrowRight,
+  AlertTriangle,
+  ShieldAlert,
 } from "lucide-react";
 import { Card } from "@/components/ui/Card";
+import { ApiErrorState } from "@/components/ui/ApiErrorState";
 import { TimeRangeSelector } from "@/components/layout/TimeRangeSelector";
 import { MainTimeSeriesChart } from "@/components/charts/MainTimeSeriesChart";
+import { BudgetBurnDownChart } from "@/components/charts/BudgetBurnDownChart";
 import { ModelDonut } from "@/components/charts/ModelDonut";
 import { AgentRankList } from "@/components/dashboard/AgentRankList";
-import { HeroStatCard, type Delta } from "@/components/dashboard/HeroStatCard";
+import { AnomaliesPanel } from "@/components/dashboard/AnomaliesPanel";
+import {
+  HeroStatCard,
+  toHeroDelta,
+  type Delta,
+} from "@/components/dashboard/HeroStatCard";
 import { MetricCardSkeleton, ChartSkeleton } from "@/components/ui/Skeleton";
 import {
   api,
+  isAbortError,
   getStoredApiKeyForProject,
   getFallbackProjectKey,
   AnalyticsOverview,
   AgentStats,
   ModelStats,
   TimeSeriesPoint,
+  TimeSeriesBreakdownPoint,
+  type ProjectBudgetSettings,
 } from "@/lib/api";
 import {
   formatCurrency,
   formatNumber,
   formatLatency,
   formatPercentage,
-  parseApiError,
+  toApiFailure,
+  type ApiFailure,
 } from "@/lib/utils";
 import { useAutoRefresh, formatLastRefresh } from "@/hooks/useAutoRefresh";
+import { useApiData } from "@/hooks/useApiData";
+import { useActiveProject } from "@/contexts/ActiveProjectContext";
+import { useDisplayCurrency } from "@/contexts/DisplayCurrencyContext";
+import { useQueryState, useQueryTimeRange } from "@/hooks/useQueryState";
 import {
   useApiConfiguration,
   OnboardingScreen,
@@ -45,6 +62,22 @@ import {
 import { OpenAIImportModal } from "@/components/onboarding/OpenAIImportModal";
 import { isDemoMode } from "@/lib/demo/demo";
 import { track } from "@/lib/analytics";
+import {
+  formatTimeRange,
+  isHourlyRange,
+  metricDelta,
+  previousTimeRange,
+  timeRangeHours,
+  toAbsoluteRange,
+} from "@/lib/timeRange";
+import { forecastHistoryRange, forecastSpend } from "@/lib/forecast";
+import { burnDownHistoryRange } from "@/lib/budgetBurn";
+import { budgetPeriodMeta, budgetPeriodOf } from "@/lib/budgetPeriod";
+import {
+  anomalyBucket,
+  anomalyHistoryRange,
+  detectAnomalies,
+} from "@/lib/anomalies";
 
 /** Percent change of the second half of the window vs the first half. */
 function seriesDelta(
@@ -172,9 +205,16 @@ function SnapshotStat({
 
 export default function DashboardPage() {
   const { isConfigured } = useApiConfiguration();
-  const [timeRange, setTimeRange] = useState("7d");
+  const { fx } = useDisplayCurrency();
+  const [timeRange, setTimeRange] = useQueryTimeRange();
+  const [compareParam, setCompareParam] = useQueryState<"" | "previous">(
+    "compare",
+    "",
+    ["previous"],
+  );
+  const compare = compareParam === "previous";
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiFailure | null>(null);
   const [showOnboarding, setShowOnboarding] = useState(false);
 
   const [overview, setOverview] = useState<AnalyticsOverview | null>(null);
@@ -182,6 +222,17 @@ export default function DashboardPage() {
   const [models, setModels] = useState<ModelStats[]>([]);
   const [timeSeries, setTimeSeries] = useState<TimeSeriesPoint[]>([]);
   const [importOpen, setImportOpen] = useState(false);
+  const [previousPeriod, setPreviousPeriod] = useState<{
+    key: string;
+    overview: AnalyticsOverview;
+    timeSeries: TimeSeriesPoint[];
+  } | null>(null);
+
+  const { activeProject, activeProjectId } = useActiveProject();
+
+  // Each run aborts the one before it — a new time range, a refresh or an
+  // unmount — so a slow response for an old range never lands on a new one.
+  const runRef = useRef<AbortController | null>(null);
 
   const fetchData = useCallback(async () => {
     // Don't fetch if not configured
@@ -189,14 +240,20 @@ export default function DashboardPage() {
       return;
     }
 
+    runRef.current?.abort();
+    const controller = new AbortController();
+    runRef.current = controller;
+    const { signal } = controller;
+
     try {
       const [overviewData, agentsData, modelsData, timeSeriesData] =
         await Promise.all([
-          api.getOverview(timeRange),
-          api.getAgentStats(timeRange),
-          api.getModelStats(timeRange),
-          api.getTimeSeries(timeRange),
+          api.getOverview(timeRange, signal),
+          api.getAgentStats(timeRange, 10, signal),
+          api.getModelStats(timeRange, 10, signal),
+          api.getTimeSeries(timeRange, signal),
         ]);
+      if (signal.aborted) return;
 
       setOverview(overviewData);
       setAgents(agentsData);
@@ -216,29 +273,95 @@ export default function DashboardPage() {
         }
       }
     } catch (err) {
-      const errorMessage = parseApiError(err);
+      if (signal.aborted || isAbortError(err)) return;
+      const failure = toApiFailure(err);
 
       // If we get a 401 (invalid API key), show onboarding instead of error
-      if (
-        errorMessage.includes("401") ||
-        errorMessage.includes("Invalid API key") ||
-        errorMessage.includes("session has expired")
-      ) {
+      if (failure.kind === "unauthorized") {
         setShowOnboarding(true);
         setError(null);
       } else {
-        setError(errorMessage);
+        setError(failure);
       }
     }
   }, [timeRange]);
 
+  // The forecast is fitted on its own history, whatever window is on
+  // screen; a failed fetch just leaves the run-rate in place. Refreshes
+  // refetch it too, which also moves the history on past UTC midnight.
+  const { data: forecastHistory, refetch: refetchForecast } = useApiData(
+    (signal) => api.getTimeSeries(forecastHistoryRange(), signal),
+    [activeProjectId],
+    [] as TimeSeriesPoint[],
+  );
+  const forecast = useMemo(
+    () => forecastSpend(forecastHistory),
+    [forecastHistory],
+  );
+
+  // The window before this one, for the chart overlay and the card deltas.
+  // Kept apart from fetchData so the toggle never blanks the page, but
+  // refreshed with it.
+  const rangeKey = JSON.stringify(timeRange);
+  const periodKey = `${activeProjectId ?? ""} ${rangeKey}`;
+  const previousRef = useRef<AbortController | null>(null);
+
+  const fetchPrevious = useCallback(async () => {
+    previousRef.current?.abort();
+    if (!compare || !api.hasProjectAccess()) return;
+
+    const controller = new AbortController();
+    previousRef.current = controller;
+    const before = previousTimeRange(timeRange);
+    try {
+      const [overview, timeSeries] = await Promise.all([
+        api.getOverview(before, controller.signal),
+        api.getTimeSeries(before, controller.signal),
+      ]);
+      if (controller.signal.aborted) return;
+      setPreviousPeriod({ key: periodKey, overview, timeSeries });
+    } catch {
+      // Silently fail - the page keeps its in-window deltas
+    }
+  }, [compare, timeRange, periodKey]);
+
+  // Spikes in the window, each bucket measured against the ones before it —
+  // so the breakdown reaches back a baseline's length past the window.
+  const bucket = anomalyBucket(timeRange);
+  const {
+    data: breakdown,
+    loading: anomaliesLoading,
+    refetch: refetchBreakdown,
+  } = useApiData(
+    (signal) =>
+      api.getTimeSeriesBreakdown(
+        anomalyHistoryRange(timeRange),
+        bucket,
+        signal,
+      ),
+    [rangeKey, activeProjectId],
+    [] as TimeSeriesBreakdownPoint[],
+  );
+  const anomalies = useMemo(
+    () => detectAnomalies(breakdown, bucket, toAbsoluteRange(timeRange).start),
+    [breakdown, bucket, timeRange],
+  );
+
+  const refreshAll = useCallback(async () => {
+    refetchForecast();
+    refetchBreakdown();
+    await Promise.all([fetchData(), fetchPrevious()]);
+  }, [fetchData, fetchPrevious, refetchForecast, refetchBreakdown]);
+
   // Auto-refresh hook
   const { isRefreshing, lastRefresh, refresh, autoRefreshEnabled } =
     useAutoRefresh({
-      onRefresh: fetchData,
+      onRefresh: refreshAll,
     });
 
   useEffect(() => {
+    let cancelled = false;
+
     async function initialFetch() {
       // Skip fetch if not configured
       if (!api.hasProjectAccess()) {
@@ -249,12 +372,82 @@ export default function DashboardPage() {
       setLoading(true);
       setError(null);
       await fetchData();
-      setLoading(false);
+      if (!cancelled) setLoading(false);
     }
 
     initialFetch();
+    return () => {
+      cancelled = true;
+      runRef.current?.abort();
+    };
   }, [fetchData]);
 
+  useEffect(() => {
+    // Data fetching: fetchPrevious only sets state once its requests answer.
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    fetchPrevious();
+    return () => previousRef.current?.abort();
+  }, [fetchPrevious]);
+
+  const previous =
+    compare && previousPeriod?.key === periodKey ? previousPeriod : null;
+
+  // The budget burn-down, over whatever period the budget runs. Members who
+  // can't read the budget just don't see it.
+  const budgetProjectId = activeProject?.id ?? null;
+  const { data: budget } = useApiData(
+    (signal) =>
+      budgetProjectId
+        ? api.getProjectBudget(budgetProjectId, signal)
+        : Promise.resolve(null),
+    [budgetProjectId],
+    null as ProjectBudgetSettings | null,
+  );
+  const budgetPeriod = useMemo(
+    () => (budget ? budgetPeriodOf(budget) : null),
+    [budget],
+  );
+  const budgetMeta = budgetPeriodMeta(budget?.budget_period ?? "monthly");
+  const { data: budgetHistory } = useApiData(
+    (signal) =>
+      budgetPeriod
+        ? api.getTimeSeries(burnDownHistoryRange(budgetPeriod), signal)
+        : Promise.resolve([]),
+    [budgetProjectId, budgetPeriod?.key],
+    [] as TimeSeriesPoint[],
+  );
+
+  // Only a window that runs up to now leads into the projection.
+  const chartForecast =
+    !isHourlyRange(timeRange) &&
+    (typeof timeRange === "string" || !timeRange.end)
+      ? forecast
+      : null;
+
+  // True period-over-period deltas while comparing; otherwise the second
+  // half of the window against the first.
+  const periodDeltas =
+    previous && overview
+      ? {
+          cost: metricDelta(overview.total_cost, previous.overview.total_cost),
+          calls: metricDelta(
+            overview.total_calls,
+            previous.overview.total_calls,
+          ),
+          tokens: metricDelta(
+            overview.total_tokens,
+            previous.overview.total_tokens,
+          ),
+          successRate: metricDelta(
+            overview.success_rate,
+            previous.overview.success_rate,
+          ),
+        }
+      : null;
+  const deltaLabel = periodDeltas
+    ? `vs ${formatTimeRange(previousTimeRange(timeRange))}`
+    : "vs the first half of the window";
+
   // ── Derived insight values ────────────────────────────────────────────
   const insights = useMemo(() => {
     const byCost = [...agents].sort((a, b) => b.total_cost - a.total_cost);
@@ -264,14 +457,7 @@ export default function DashboardPage() {
     const byCalls = [...models].sort((a, b) => b.total_calls - a.total_calls);
 
     const windowCost = timeSeries.reduce((s, p) => s + p.cost, 0);
-    const daysMap: Record<string, number> = {
-      "1h": 1 / 24,
-      "24h": 1,
-      "7d": 7,
-      "30d": 30,
-      "90d": 90,
-    };
-    const days = daysMap[timeRange] ?? 7;
+    const days = timeRangeHours(timeRange) / 24;
     const projectedMonthly = days > 0 ? (windowCost / days) * 30.4 : 0;
 
     const failedCalls = overview
@@ -347,14 +533,7 @@ export default function DashboardPage() {
       </div>
 
       {/* Error State */}
-      {error && (
-        <Card className="border-red-900/50 bg-red-950/20">
-          <p className="text-red-400">{error}</p>
-          <p className="mt-2 text-sm text-neutral-400">
-            Make sure the backend is running and accessible.
-          </p>
-        </Card>
-      )}
+      {error && <ApiErrorState error={error} onRetry={refresh} />}
 
       {/* Zero-events state: quick OpenAI import entry point. Disappears the
           moment the project has any tracked events. */}
@@ -412,10 +591,16 @@ export default function DashboardPage() {
             <HeroStatCard
               label="Total Spend"
               value={formatCurrency(overview.total_cost)}
+              fx={fx}
               sub={`${formatCurrency(overview.avg_cost_per_call)} / call`}
               icon={<DollarSign size={15} />}
               iconClassName="bg-sky-500/10 text-sky-400"
-              delta={seriesDelta(timeSeries, "cost")}
+              delta={
+                periodDeltas
+                  ? toHeroDelta(periodDeltas.cost)
+                  : seriesDelta(timeSeries, "cost")
+              }
+              deltaLabel={deltaLabel}
               upIsBad
               sparkline={{
                 data: timeSeries.map((p) => p.cost),
@@ -428,7 +613,12 @@ export default function DashboardPage() {
               sub={`${formatNumber(overview.avg_tokens_per_call)} tok / call`}
               icon={<Activity size={15} />}
               iconClassName="bg-violet-500/10 text-violet-400"
-              delta={seriesDelta(timeSeries, "calls")}
+              delta={
+                periodDeltas
+                  ? toHeroDelta(periodDeltas.calls)
+                  : seriesDelta(timeSeries, "calls")
+              }
+              deltaLabel={deltaLabel}
               sparkline={{
                 data: timeSeries.map((p) => p.calls),
                 color: "#a78bfa",
@@ -440,7 +630,12 @@ export default function DashboardPage() {
               sub={`${formatNumber(overview.total_input_tokens)} in · ${formatNumber(overview.total_output_tokens)} out`}
               icon={<Zap size={15} />}
               iconClassName="bg-amber-500/10 text-amber-400"
-              delta={seriesDelta(timeSeries, "tokens")}
+              delta={
+                periodDeltas
+                  ? toHeroDelta(periodDeltas.tokens)
+                  : seriesDelta(timeSeries, "tokens")
+              }
+              deltaLabel={deltaLabel}
               sparkline={{
                 data: timeSeries.map((p) => p.tokens),
                 color: "#fbbf24",
@@ -455,6 +650,10 @@ export default function DashboardPage() {
                   : "No failures in window"
               }
               icon={<Gauge size={15} />}
+              delta={
+                periodDeltas ? toHeroDelta(periodDeltas.successRate) : undefined
+              }
+              deltaLabel={deltaLabel}
               iconClassName={
                 overview.success_rate >= 97
                   ? "bg-emerald-500/10 text-emerald-400"
@@ -469,11 +668,19 @@ export default function DashboardPage() {
       {!loading && overview && (
         <Card padding="none" className="overflow-x-auto">
           <div className="grid min-w-175 grid-cols-3 lg:grid-cols-6 divide-x divide-white/4">
-            <SnapshotStat
-              label="Projected / mo"
-              value={formatCurrency(insights.projectedMonthly)}
-              sub="At current run rate"
-            />
+            {forecast ? (
+              <SnapshotStat
+                label="Projected / mo"
+                value={formatCurrency(forecast.month.p50)}
+                sub={`${formatCurrency(forecast.month.p10)} – ${formatCurrency(forecast.month.p90)} by month end`}
+              />
+            ) : (
+              <SnapshotStat
+                label="Projected / mo"
+                value={formatCurrency(insights.projectedMonthly)}
+                sub="At current run rate"
+              />
+            )}
             <SnapshotStat
               label="Cost / 1K tok"
               value={formatCurrency(insights.costPer1k)}
@@ -529,7 +736,15 @@ export default function DashboardPage() {
           {loading ? (
             <ChartSkeleton />
           ) : timeSeries.length > 0 ? (
-            <MainTimeSeriesChart data={timeSeries} range={timeRange} />
+            <MainTimeSeriesChart
+              data={timeSeries}
+              range={timeRange}
+              previous={previous?.timeSeries}
+              compare={compare}
+              onCompareChange={(on) => setCompareParam(on ? "previous" : "")}
+              forecast={chartForecast}
+              anomalies={anomalies}
+            />
           ) : (
             <div className="flex h-64 items-center justify-center text-neutral-500">
               No data available
@@ -538,6 +753,59 @@ export default function DashboardPage() {
         </div>
       </Card>
 
+      {/* Cost spikes */}
+      <Card>
+        <div className="flex items-center gap-2 mb-5">
+          <div className="flex h-7 w-7 items-center justify-center rounded-lg bg-red-500/10 text-red-400">
+            <AlertTriangle size={14} />
+          </div>
+          <div>
+            <h3 className="text-[15px] font-semibold text-white tracking-tight">
+              Anomalies
+            </h3>
+            <p className="text-[12.5px] text-neutral-500 mt-0.5">
+              Cost spikes against each series&apos; recent median
+            </p>
+          </div>
+        </div>
+        {anomaliesLoading ? (
+          <ChartSkeleton />
+        ) : (
+          <AnomaliesPanel anomalies={anomalies} bucket={bucket} />
+        )}
+      </Card>
+
+      {/* Budget burn-down */}
+      {budget?.monthly_budget_usd != null &&
+        budgetPeriod &&
+        budgetHistory.length > 0 && (
+          <Card>
+            <div className="flex items-center gap-2 mb-5">
+              <div className="flex h-7 w-7 items-center justify-center rounded-lg bg-amber-500/10 text-amber-400">
+                <ShieldAlert size={14} />
+              </div>
+              <div>
+                <h3 className="text-[15px] font-semibold text-white tracking-tight">
+                  Budget Burn-down
+                </h3>
+                <p className="text-[12.5px] text-neutral-500 mt-0.5">
+                  {budgetPeriod.key} spend against the{" "}
+                  {budgetMeta.label.toLowerCase()} budget, at the recent pace
+                </p>
+              </div>
+            </div>
+            <BudgetBurnDownChart
+              history={budgetHistory}
+              budget={budget.monthly_budget_usd}
+              thresholds={budget.budget_alert_thresholds}
+              currency={budget.budget_currency}
+              fxRate={budget.fx_rate}
+              period={budgetPeriod}
+              periodLabel={budgetMeta.noun}
+            />
+          </Card>
+        )}
+
       {/* Model share + agent ranking */}
       <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
         <Card>
@@ -1,7 +1,9 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useSearchParams } from "next/navigation";
 import { Card } from "@/components/ui/Card";
+import { ApiErrorState } from "@/components/ui/ApiErrorState";
 import {
   Table,
   TableHeader,
@@ -12,113 +14,145 @@ import {
 } from "@/components/ui/Table";
 import { Badge } from "@/components/ui/Badge";
 import { TableSkeleton } from "@/components/ui/Skeleton";
-import { api, Event } from "@/lib/api";
+import { EventFiltersPanel } from "@/components/events/EventFiltersPanel";
+import { EventDetailDrawer } from "@/components/events/EventDetailDrawer";
+import { TimeRangeSelector } from "@/components/layout/TimeRangeSelector";
 import {
+  api,
+  Event,
+  EventFilters,
+  EventFilterOptions,
+  EventStreamStatus,
+} from "@/lib/api";
+import {
+  countEventFilters,
+  eventFilterParams,
+  eventFilterQueryPatch,
+  eventFiltersFromParams,
+} from "@/lib/eventFilters";
+import { toAbsoluteRange } from "@/lib/timeRange";
+import {
+  cn,
   formatCurrency,
   formatNumber,
   formatLatency,
   formatRelativeTime,
 } from "@/lib/utils";
-import { List, RefreshCw, Filter, X, Wrench } from "lucide-react";
+import {
+  List,
+  RefreshCw,
+  Filter,
+  Wrench,
+  Radio,
+  Pause,
+  Play,
+  ArrowUp,
+} from "lucide-react";
 import {
   useApiConfiguration,
   OnboardingScreen,
   LoadingSpinner,
 } from "@/hooks/useApiConfiguration";
+import { useDisplayCurrency } from "@/contexts/DisplayCurrencyContext";
+import { useApiData } from "@/hooks/useApiData";
+import { useLiveEvents } from "@/hooks/useLiveEvents";
+import { useQueryNumber, setQueryParams } from "@/hooks/useQueryState";
+
+const STREAM_STATUS_LABEL: Record<EventStreamStatus, string> = {
+  connecting: "Connecting…",
+  live: "Live",
+  reconnecting: "Reconnecting…",
+  closed: "Disconnected",
+};
 
 export default function EventsPage() {
   const { isConfigured } = useApiConfiguration();
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [events, setEvents] = useState<Event[]>([]);
-  const [page, setPage] = useState(0);
-  const [totalCount, setTotalCount] = useState(0);
-  const [showOnboarding, setShowOnboarding] = useState(false);
+  // Amounts are formatted at the display rate; re-render when it changes.
+  useDisplayCurrency();
+  const [page, setPage] = useQueryNumber("page");
 
-  // Filters
-  const [agentFilter, setAgentFilter] = useState("");
-  const [modelFilter, setModelFilter] = useState("");
-  const [agentOptions, setAgentOptions] = useState<string[]>([]);
-  const [modelOptions, setModelOptions] = useState<string[]>([]);
+  // Filters live in the query string. Re-parsed from their canonical form so
+  // `filters` keeps its identity while only the page changes.
+  const searchParams = useSearchParams();
+  const filterQuery = eventFilterParams(
+    eventFiltersFromParams(searchParams),
+  ).toString();
+  const filters = useMemo(
+    () => eventFiltersFromParams(new URLSearchParams(filterQuery)),
+    [filterQuery],
+  );
+  const [filterOptions, setFilterOptions] = useState<EventFilterOptions>({
+    agents: [],
+    models: [],
+    workflows: [],
+    steps: [],
+    tools: [],
+  });
   const [showFilters, setShowFilters] = useState(false);
+  const [live, setLive] = useState(false);
+  const [selected, setSelected] = useState<Event | null>(null);
+  const closeDetail = useCallback(() => setSelected(null), []);
 
   const pageSize = 50;
 
-  // Fetch distinct agent names and models for filter dropdowns
-  const fetchFilterOptions = useCallback(async () => {
-    try {
-      // Fetch a larger batch of events to extract unique values
-      const allEvents = await api.getEvents(1000, 0);
-      const agents = [...new Set(allEvents.map((e) => e.agent_name))].sort();
-      const models = [...new Set(allEvents.map((e) => e.model))].sort();
-      setAgentOptions(agents);
-      setModelOptions(models);
-    } catch {
-      // Silently fail - filters just won't have options
-    }
-  }, []);
-
-  const fetchData = useCallback(async () => {
-    if (!api.hasProjectAccess()) {
-      setLoading(false);
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
-    try {
+  const {
+    data: { events, totalCount },
+    loading,
+    error,
+    refetch,
+  } = useApiData(
+    async (signal) => {
       const [eventsData, countData] = await Promise.all([
-        api.getEvents(
-          pageSize,
-          page * pageSize,
-          agentFilter || undefined,
-          modelFilter || undefined,
-        ),
-        api.getEventCount(),
+        api.getEvents(pageSize, page * pageSize, filters, signal),
+        api.getEventCount(filters, signal),
       ]);
+      return { events: eventsData, totalCount: countData.count };
+    },
+    [page, filters],
+    { events: [] as Event[], totalCount: 0 },
+  );
 
-      setEvents(eventsData);
-      setTotalCount(countData.count);
-      setShowOnboarding(false);
-    } catch (err) {
-      const errorMessage =
-        err instanceof Error ? err.message : "Failed to fetch data";
-      if (
-        errorMessage.includes("401") ||
-        errorMessage.includes("Invalid API key")
-      ) {
-        setShowOnboarding(true);
-        setError(null);
-      } else {
-        setError(errorMessage);
-      }
-    } finally {
-      setLoading(false);
-    }
-  }, [page, agentFilter, modelFilter]);
+  const liveEvents = useLiveEvents({ enabled: live, filters });
 
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+  // Streamed rows sit on top of the first page. The page was fetched when
+  // live mode started, so the two can overlap by a few events.
+  const rows = useMemo(() => {
+    if (!live) return events;
+    const streamed = new Set(liveEvents.rows.map((e) => e.id));
+    return [...liveEvents.rows, ...events.filter((e) => !streamed.has(e.id))];
+  }, [live, liveEvents.rows, events]);
 
+  // Distinct values for the filter dropdowns
   useEffect(() => {
-    if (api.hasProjectAccess()) {
-      fetchFilterOptions();
-    }
-  }, [fetchFilterOptions]);
+    if (!api.hasProjectAccess()) return;
+    const controller = new AbortController();
+    api
+      .getEventFilterOptions(controller.signal)
+      .then(setFilterOptions)
+      .catch(() => {
+        // Silently fail - filters just won't have options
+      });
+    return () => controller.abort();
+  }, []);
 
-  // Reset page when filters change
-  useEffect(() => {
+  // A filter change starts again from the first page. Done here rather than
+  // in an effect so the old page number never reaches a request.
+  const applyFilters = (next: EventFilters) =>
+    setQueryParams({ ...eventFilterQueryPatch(next), page: null });
+
+  // New rows only make sense on top of the newest page.
+  const toggleLive = () => {
+    setLive(!live);
     setPage(0);
-  }, [agentFilter, modelFilter]);
+  };
 
   // Show onboarding if not configured or invalid API key
-  if (isConfigured === false || showOnboarding) return <OnboardingScreen />;
+  if (isConfigured === false || error?.kind === "unauthorized")
+    return <OnboardingScreen />;
   if (isConfigured === null) return <LoadingSpinner />;
 
   const totalPages = Math.ceil(totalCount / pageSize);
-  const hasActiveFilters = agentFilter || modelFilter;
+  const activeFilterCount = countEventFilters(filters);
 
   return (
     <div className="space-y-8">
@@ -131,24 +165,62 @@ export default function EventsPage() {
           </p>
         </div>
         <div className="flex flex-wrap items-center gap-2">
+          {live && (
+            <button
+              onClick={liveEvents.paused ? liveEvents.resume : liveEvents.pause}
+              className="flex min-h-11 items-center gap-2 rounded-lg border border-neutral-700 bg-neutral-800/50 px-4 py-2 text-sm font-medium text-neutral-200 hover:border-neutral-600 hover:bg-neutral-800 sm:min-h-0"
+            >
+              {liveEvents.paused ? <Play size={16} /> : <Pause size={16} />}
+              {liveEvents.paused ? "Resume" : "Pause"}
+            </button>
+          )}
+          <TimeRangeSelector
+            value={
+              filters.start ? { start: filters.start, end: filters.end } : null
+            }
+            onChange={(range) => {
+              // Events only filter on timestamps; a preset counts back from now.
+              const { start, end } = toAbsoluteRange(range);
+              applyFilters({ ...filters, start, end });
+            }}
+            onClear={() =>
+              applyFilters({ ...filters, start: undefined, end: undefined })
+            }
+          />
+          <button
+            onClick={toggleLive}
+            aria-pressed={live}
+            className={cn(
+              "flex min-h-11 items-center gap-2 rounded-lg border px-4 py-2 text-sm font-medium transition-colors sm:min-h-0",
+              live
+                ? "border-emerald-700 bg-emerald-950/40 text-emerald-400"
+                : "border-neutral-700 bg-neutral-800/50 text-neutral-200 hover:border-neutral-600 hover:bg-neutral-800",
+            )}
+          >
+            <Radio size={16} />
+            Live
+          </button>
           <button
             onClick={() => setShowFilters(!showFilters)}
             className={`flex min-h-11 items-center gap-2 rounded-lg border px-4 py-2 text-sm font-medium transition-colors sm:min-h-0 ${
-              hasActiveFilters
+              activeFilterCount > 0
                 ? "border-primary-600 bg-primary-900/30 text-primary-400"
                 : "border-neutral-700 bg-neutral-800/50 text-neutral-200 hover:border-neutral-600 hover:bg-neutral-800"
             }`}
           >
             <Filter size={16} />
             Filters
-            {hasActiveFilters && (
+            {activeFilterCount > 0 && (
               <span className="flex h-5 w-5 items-center justify-center rounded-full bg-primary-600 text-xs text-white">
-                {(agentFilter ? 1 : 0) + (modelFilter ? 1 : 0)}
+                {activeFilterCount}
               </span>
             )}
           </button>
           <button
-            onClick={fetchData}
+            onClick={() => {
+              api.clearCache("/v1/events");
+              refetch();
+            }}
             disabled={loading}
             className="flex min-h-11 items-center gap-2 rounded-lg border border-neutral-700 bg-neutral-800/50 px-4 py-2 text-sm font-medium text-neutral-200 hover:border-neutral-600 hover:bg-neutral-800 disabled:opacity-50 sm:min-h-0"
           >
@@ -160,63 +232,21 @@ export default function EventsPage() {
 
       {/* Filters Panel */}
       {showFilters && (
-        <Card>
-          <div className="flex flex-wrap items-end gap-4">
-            <div className="min-w-50 flex-1">
-              <label className="mb-1.5 block text-sm font-medium text-neutral-300">
-                Agent Name
-              </label>
-              <select
-                value={agentFilter}
-                onChange={(e) => setAgentFilter(e.target.value)}
-                className="w-full rounded-lg border border-neutral-700 bg-neutral-800 px-3 py-2 text-sm text-neutral-200 focus:border-primary-500 focus:outline-none"
-              >
-                <option value="">All Agents</option>
-                {agentOptions.map((agent) => (
-                  <option key={agent} value={agent}>
-                    {agent}
-                  </option>
-                ))}
-              </select>
-            </div>
-            <div className="min-w-50 flex-1">
-              <label className="mb-1.5 block text-sm font-medium text-neutral-300">
-                Model
-              </label>
-              <select
-                value={modelFilter}
-                onChange={(e) => setModelFilter(e.target.value)}
-                className="w-full rounded-lg border border-neutral-700 bg-neutral-800 px-3 py-2 text-sm text-neutral-200 focus:border-primary-500 focus:outline-none"
-              >
-                <option value="">All Models</option>
-                {modelOptions.map((model) => (
-                  <option key={model} value={model}>
-                    {model}
-                  </option>
-                ))}
-              </select>
-            </div>
-            {hasActiveFilters && (
-              <button
-                onClick={() => {
-                  setAgentFilter("");
-                  setModelFilter("");
-                }}
-                className="flex items-center gap-1.5 rounded-lg border border-neutral-700 bg-neutral-800/50 px-3 py-2 text-sm text-neutral-400 hover:border-neutral-600 hover:text-neutral-200"
-              >
-                <X size={14} />
-                Clear
-              </button>
-            )}
-          </div>
-        </Card>
+        <EventFiltersPanel
+          key={JSON.stringify(filters)}
+          value={filters}
+          options={filterOptions}
+          onChange={applyFilters}
+        />
       )}
 
       {/* Error State */}
-      {error && (
-        <Card className="border-red-900/50 bg-red-950/20">
-          <p className="text-red-400">{error}</p>
-        </Card>
+      {error && <ApiErrorState error={error} onRetry={refetch} />}
+      {live && liveEvents.error && (
+        <ApiErrorState
+          error={liveEvents.error}
+          onRetry={liveEvents.reconnect}
+        />
       )}
 
       {/* Stats */}
@@ -230,20 +260,61 @@ export default function EventsPage() {
             <p className="text-2xl font-semibold text-white">
               {formatNumber(totalCount)}
             </p>
+            {live && liveEvents.rows.length > 0 && (
+              <p className="text-xs text-emerald-400">
+                +{formatNumber(liveEvents.rows.length)} since going live
+              </p>
+            )}
           </div>
         </div>
       </Card>
 
       {/* Events Table */}
       <Card padding="none">
-        <div className="border-b border-neutral-800 px-4 py-4 sm:px-6">
+        <div className="flex items-center justify-between gap-3 border-b border-neutral-800 px-4 py-4 sm:px-6">
           <h3 className="text-lg font-medium text-white">Event Log</h3>
+          {live && (
+            <span
+              role="status"
+              className={cn(
+                "flex items-center gap-2 text-xs font-medium",
+                liveEvents.paused
+                  ? "text-neutral-400"
+                  : liveEvents.status === "live"
+                    ? "text-emerald-400"
+                    : "text-amber-400",
+              )}
+            >
+              <span
+                className={cn(
+                  "h-2 w-2 rounded-full bg-current",
+                  liveEvents.status === "live" &&
+                    !liveEvents.paused &&
+                    "animate-pulse",
+                )}
+                aria-hidden
+              />
+              {liveEvents.paused
+                ? "Paused"
+                : STREAM_STATUS_LABEL[liveEvents.status]}
+            </span>
+          )}
         </div>
-        {loading ? (
+        {live && liveEvents.unseen.length > 0 && (
+          <button
+            onClick={liveEvents.resume}
+            className="flex w-full items-center justify-center gap-2 border-b border-neutral-800 bg-primary-900/20 px-4 py-2 text-sm font-medium text-primary-400 hover:bg-primary-900/30"
+          >
+            <ArrowUp size={14} />
+            {formatNumber(liveEvents.unseen.length)} new{" "}
+            {liveEvents.unseen.length === 1 ? "event" : "events"}
+          </button>
+        )}
+        {loading && !(live && liveEvents.rows.length > 0) ? (
           <div className="p-6">
             <TableSkeleton rows={10} />
           </div>
-        ) : events.length > 0 ? (
+        ) : rows.length > 0 ? (
           <>
             <Table>
               <TableHeader>
@@ -263,8 +334,8 @@ export default function EventsPage() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {events.map((event) => (
-                  <TableRow key={event.id}>
+                {rows.map((event) => (
+                  <TableRow key={event.id} onClick={() => setSelected(event)}>
                     <TableCell>
                       <span
                         className="text-neutral-400"
@@ -342,7 +413,7 @@ export default function EventsPage() {
             </Table>
 
             {/* Pagination */}
-            {totalPages > 1 && (
+            {totalPages > 1 && !live && (
               <div className="flex flex-col gap-3 border-t border-neutral-800 px-4 py-4 sm:flex-row sm:items-center sm:justify-between sm:px-6">
                 <p className="text-sm text-neutral-400">
                   Showing {page * pageSize + 1} to{" "}
@@ -369,10 +440,22 @@ export default function EventsPage() {
           </>
         ) : (
           <div className="flex h-64 items-center justify-center text-neutral-500">
-            No events recorded yet
+            {live
+              ? "Waiting for new events…"
+              : activeFilterCount > 0
+                ? "No events match these filters"
+                : "No events recorded yet"}
           </div>
         )}
       </Card>
+
+      {selected && (
+        <EventDetailDrawer
+          event={selected}
+          onClose={closeDetail}
+          onSelect={setSelected}
+        />
+      )}
     </div>
   );
 }
@@ -43,6 +43,7 @@ import {
   AttachmentMeta,
 } from "@/lib/api";
 import { formatRelativeTime, parseApiError } from "@/lib/utils";
+import { useQueryState, useQueryNumber } from "@/hooks/useQueryState";
 
 /* -------------------------------------------------------------------------- */
 /*  Constants                                                                  */
@@ -109,7 +110,7 @@ interface QuickSubmitItem {
   hintAction?: {
     type?: FeedbackType;
     status?: FeedbackStatus;
-    sortBy?: "recent" | "popular" | "oldest";
+    sortBy?: FeedbackSort;
   };
 }
 
@@ -148,6 +149,9 @@ const DESC_MAX = 5000;
 const COMMENT_MAX = 2000;
 const PAGE_SIZE = 12;
 
+const SORT_OPTIONS = ["recent", "popular", "oldest"] as const;
+type FeedbackSort = (typeof SORT_OPTIONS)[number];
+
 /**
  * Best-effort environment detection from build-time config and API URL.
  * Users can always override via the dropdown.
@@ -225,46 +229,42 @@ export default function FeedbackPage() {
   const searchParams = useSearchParams();
   const focusId = searchParams.get("feedback_id");
 
-  /* ---- Read initial filters from URL query params ---- */
-  const urlType = searchParams.get("type") as FeedbackType | null;
-  const urlStatus = searchParams.get("status") as FeedbackStatus | null;
-  const urlPriority = searchParams.get("priority") as FeedbackPriority | null;
-  const urlSortBy = searchParams.get("sort_by") as
-    | "recent"
-    | "popular"
-    | "oldest"
-    | null;
-
   /* ---- Data state ---- */
   const [items, setItems] = useState<FeedbackItem[]>([]);
   const [summary, setSummary] = useState<FeedbackSummaryResponse | null>(null);
   const [listTotal, setListTotal] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
 
-  /* ---- Filters ---- */
-  const [typeFilter, setTypeFilter] = useState<FeedbackType | "all">(
-    urlType && Object.keys(TYPE_META).includes(urlType) ? urlType : "all",
+  /* ---- Filters (kept in the query string) ---- */
+  const [typeFilter, setTypeFilter] = useQueryState<FeedbackType | "all">(
+    "type",
+    "all",
+    Object.keys(TYPE_META) as FeedbackType[],
   );
-  const [statusFilter, setStatusFilter] = useState<FeedbackStatus | "all">(
-    urlStatus && Object.keys(STATUS_STYLES).includes(urlStatus)
-      ? urlStatus
-      : "all",
+  const [statusFilter, setStatusFilter] = useQueryState<FeedbackStatus | "all">(
+    "status",
+    "all",
+    Object.keys(STATUS_STYLES) as FeedbackStatus[],
   );
-  const [priorityFilter, setPriorityFilter] = useState<
+  const [priorityFilter, setPriorityFilter] = useQueryState<
     FeedbackPriority | "all"
-  >(
-    urlPriority && Object.keys(PRIORITY_STYLES).includes(urlPriority)
-      ? urlPriority
-      : "all",
-  );
-  const [sortBy, setSortBy] = useState<"recent" | "popular" | "oldest">(
-    urlSortBy && ["recent", "popular", "oldest"].includes(urlSortBy)
-      ? urlSortBy
-      : "recent",
+  >("priority", "all", Object.keys(PRIORITY_STYLES) as FeedbackPriority[]);
+  const [sortBy, setSortBy] = useQueryState<FeedbackSort>(
+    "sort_by",
+    "recent",
+    SORT_OPTIONS,
   );
-  const [searchInput, setSearchInput] = useState("");
-  const [searchValue, setSearchValue] = useState("");
-  const [page, setPage] = useState(0);
+  const [searchValue, setSearchValue] = useQueryState("q", "");
+  const [searchInput, setSearchInput] = useState(searchValue);
+  const [page, setPage] = useQueryNumber("page");
+
+  // The box follows the URL when it changes from outside (a saved view, the
+  // back button), but not for the trimmed echo of what is being typed.
+  const [syncedSearch, setSyncedSearch] = useState(searchValue);
+  if (syncedSearch !== searchValue) {
+    setSyncedSearch(searchValue);
+    if (searchInput.trim() !== searchValue) setSearchInput(searchValue);
+  }
 
   /* ---- Modal ---- */
   const [showModal, setShowModal] = useState(false);
@@ -307,12 +307,14 @@ export default function FeedbackPage() {
 
   /* ---- Debounced search ---- */
   useEffect(() => {
+    const next = searchInput.trim();
+    if (next === searchValue) return;
     const handler = window.setTimeout(() => {
-      setSearchValue(searchInput.trim());
+      setSearchValue(next);
       setPage(0);
     }, 400);
     return () => window.clearTimeout(handler);
-  }, [searchInput]);
+  }, [searchInput, searchValue, setSearchValue, setPage]);
 
   /* ---- Data fetching ---- */
   const fetchSummary = useCallback(async () => {
@@ -736,9 +738,7 @@ export default function FeedbackPage() {
               <FilterSelect
                 label="Sort"
                 value={sortBy}
-                onChange={(value) =>
-                  setSortBy(value as "recent" | "popular" | "oldest")
-                }
+                onChange={(value) => setSortBy(value as FeedbackSort)}
                 options={[
                   { value: "recent", label: "Most recent" },
                   { value: "popular", label: "Most popular" },
@@ -862,7 +862,7 @@ export default function FeedbackPage() {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setPage((prev) => Math.max(0, prev - 1))}
+                onClick={() => setPage(Math.max(0, page - 1))}
                 disabled={page === 0}
               >
                 Previous
@@ -870,9 +870,7 @@ export default function FeedbackPage() {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() =>
-                  setPage((prev) => Math.min(totalPages - 1, prev + 1))
-                }
+                onClick={() => setPage(Math.min(totalPages - 1, page + 1))}
                 disabled={page >= totalPages - 1}
               >
                 Next
@@ -6,9 +6,11 @@ import { usePathname } from "next/navigation";
 import { Menu, Grid2x2Plus } from "lucide-react";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { NotificationBell } from "@/components/layout/NotificationBell";
+import { ReconnectingIndicator } from "@/components/layout/ReconnectingIndicator";
 import { DemoExperience } from "@/components/demo/DemoExperience";
 import { VerifyEmailBanner } from "@/components/dashboard/VerifyEmailBanner";
 import { ActiveProjectProvider } from "@/contexts/ActiveProjectContext";
+import { DisplayCurrencyProvider } from "@/contexts/DisplayCurrencyContext";
 import { useAuth } from "@/contexts/AuthContext";
 
 export default function DashboardLayout({
@@ -91,8 +93,9 @@ export default function DashboardLayout({
           <NotificationBell />
         </div>
         <VerifyEmailBanner />
-        {children}
+        <DisplayCurrencyProvider>{children}</DisplayCurrencyProvider>
       </main>
+      <ReconnectingIndicator />
       <DemoExperience />
     </ActiveProjectProvider>
   );
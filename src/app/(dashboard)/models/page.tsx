@@ -1,8 +1,10 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useMemo } from "react";
+import { useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { Card } from "@/components/ui/Card";
+import { ApiErrorState } from "@/components/ui/ApiErrorState";
 import { TimeRangeSelector } from "@/components/layout/TimeRangeSelector";
 import {
   Table,
@@ -14,6 +16,7 @@ import {
 } from "@/components/ui/Table";
 import { TableSkeleton } from "@/components/ui/Skeleton";
 import { HeroStatCard } from "@/components/dashboard/HeroStatCard";
+import { ModelSwapSimulator } from "@/components/models/ModelSwapSimulator";
 import { api, ModelStats } from "@/lib/api";
 import { formatCurrency, formatNumber, formatLatency } from "@/lib/utils";
 import { Cpu, DollarSign, Zap, Scale, Database } from "lucide-react";
@@ -22,6 +25,9 @@ import {
   OnboardingScreen,
   LoadingSpinner,
 } from "@/hooks/useApiConfiguration";
+import { useDisplayCurrency } from "@/contexts/DisplayCurrencyContext";
+import { useApiData } from "@/hooks/useApiData";
+import { useQueryTimeRange } from "@/hooks/useQueryState";
 
 /** Best-effort provider tag from the model id — purely cosmetic. */
 function providerOf(model: string): { name: string; className: string } {
@@ -39,45 +45,32 @@ function providerOf(model: string): { name: string; className: string } {
 
 export default function ModelsPage() {
   const { isConfigured } = useApiConfiguration();
-  const [timeRange, setTimeRange] = useState("7d");
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [models, setModels] = useState<ModelStats[]>([]);
-  const [showOnboarding, setShowOnboarding] = useState(false);
-
-  useEffect(() => {
-    async function fetchData() {
-      if (!api.hasProjectAccess()) {
-        setLoading(false);
-        return;
-      }
-
-      setLoading(true);
-      setError(null);
-
-      try {
-        const data = await api.getModelStats(timeRange, 50);
-        setModels(data);
-        setShowOnboarding(false);
-      } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : "Failed to fetch data";
-        if (
-          errorMessage.includes("401") ||
-          errorMessage.includes("Invalid API key")
-        ) {
-          setShowOnboarding(true);
-          setError(null);
-        } else {
-          setError(errorMessage);
-        }
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    fetchData();
-  }, [timeRange]);
+  const { fx } = useDisplayCurrency();
+  const [timeRange, setTimeRange] = useQueryTimeRange();
+  /* Deep links from an event's detail drawer point at one row. */
+  const focused = useSearchParams().get("model");
+  const {
+    data: models,
+    loading,
+    error,
+    refetch,
+  } = useApiData(
+    (signal) => api.getModelStats(timeRange, 50, signal),
+    [timeRange],
+    [] as ModelStats[],
+  );
+  // A focused model outside the top 50 is fetched on its own and listed
+  // last, so the link still lands on its row.
+  const focusMissing =
+    !loading && !!focused && !models.some((m) => m.model === focused);
+  const { data: focusedModel } = useApiData(
+    (signal) =>
+      focusMissing && focused
+        ? api.getModelStat(timeRange, focused, signal)
+        : Promise.resolve(null),
+    [timeRange, focused, focusMissing],
+    null as ModelStats | null,
+  );
 
   const summary = useMemo(() => {
     const totalCost = models.reduce((sum, m) => sum + m.total_cost, 0);
@@ -96,9 +89,14 @@ export default function ModelsPage() {
       topModel: sorted[0] ?? null,
     };
   }, [models]);
+  const rows =
+    focusMissing && focusedModel
+      ? [...summary.sorted, focusedModel]
+      : summary.sorted;
 
   // Show onboarding if not configured or invalid API key
-  if (isConfigured === false || showOnboarding) return <OnboardingScreen />;
+  if (isConfigured === false || error?.kind === "unauthorized")
+    return <OnboardingScreen />;
   if (isConfigured === null) return <LoadingSpinner />;
 
   return (
@@ -126,11 +124,7 @@ export default function ModelsPage() {
       </div>
 
       {/* Error State */}
-      {error && (
-        <Card className="border-red-900/50 bg-red-950/20">
-          <p className="text-red-400">{error}</p>
-        </Card>
-      )}
+      {error && <ApiErrorState error={error} onRetry={refetch} />}
 
       {/* Summary Cards */}
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-4">
@@ -148,6 +142,7 @@ export default function ModelsPage() {
         <HeroStatCard
           label="Total Spend"
           value={formatCurrency(summary.totalCost)}
+          fx={fx}
           sub={
             summary.totalCalls > 0
               ? `${formatCurrency(summary.totalCost / summary.totalCalls)} / call blended`
@@ -204,7 +199,7 @@ export default function ModelsPage() {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {summary.sorted.map((model) => {
+              {rows.map((model) => {
                 const share =
                   summary.totalCost > 0
                     ? (model.total_cost / summary.totalCost) * 100
@@ -215,7 +210,14 @@ export default function ModelsPage() {
                     : 0;
                 const provider = providerOf(model.model);
                 return (
-                  <TableRow key={model.model}>
+                  <TableRow
+                    key={model.model}
+                    className={
+                      model.model === focused
+                        ? "bg-primary-900/20 hover:bg-primary-900/30"
+                        : undefined
+                    }
+                  >
                     <TableCell>
                       <div className="flex items-center gap-2.5">
                         <span
@@ -291,6 +293,9 @@ export default function ModelsPage() {
           </div>
         )}
       </Card>
+
+      {/* What-if */}
+      <ModelSwapSimulator timeRange={timeRange} />
     </div>
   );
 }
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
 import Link from "next/link";
 import { Card, MetricCard } from "@/components/ui/Card";
+import { ApiErrorState } from "@/components/ui/ApiErrorState";
 import { useAuth } from "@/contexts/AuthContext";
 import { trackDemo } from "@/lib/demo/demo";
 import { demoOptimizationSummary } from "@/lib/demo/demoData";
@@ -13,9 +14,18 @@ import {
   api,
   OptimizationSuggestion,
   OptimizationSummary,
+  ProjectMember,
   Recommendation,
+  RecommendationEffectiveness,
+  RecommendationStatus,
+  RecommendationUpdate,
 } from "@/lib/api";
-import { formatCurrency, formatPercentage, parseApiError } from "@/lib/utils";
+import {
+  formatCurrency,
+  formatPercentage,
+  toApiFailure,
+  type ApiFailure,
+} from "@/lib/utils";
 import {
   Zap,
   TrendingDown,
@@ -25,25 +35,33 @@ import {
   CheckCircle2,
   ChevronRight,
   ArrowRight,
+  KanbanSquare,
   Cpu,
   Database,
   Clock,
   RefreshCw,
   XCircle,
-  Check,
   X,
   AlertCircle,
   Timer,
-  Binary,
 } from "lucide-react";
 import {
   useApiConfiguration,
   OnboardingScreen,
   LoadingSpinner,
 } from "@/hooks/useApiConfiguration";
+import { useDisplayCurrency } from "@/contexts/DisplayCurrencyContext";
+import { useActiveProject } from "@/contexts/ActiveProjectContext";
+import { useApiData } from "@/hooks/useApiData";
 import {
   ImplementationModal,
   FeedbackDialog,
+  EffectivenessPanel,
+  OptimizationTypeIcon,
+  RecommendationBoard,
+  RecommendationDrawer,
+  isOpen,
+  suggestionFor,
 } from "@/components/optimizations";
 
 // Priority badge colors
@@ -118,35 +136,11 @@ function ConfidenceBadge({
   );
 }
 
-// Optimization type icons - expanded to include all types
-function OptimizationTypeIcon({ type }: { type: string }) {
-  const icons: Record<string, React.ReactNode> = {
-    model_downgrade: <Cpu size={20} className="text-blue-400" />,
-    caching: <Database size={20} className="text-purple-400" />,
-    prompt_optimization: <Lightbulb size={20} className="text-yellow-400" />,
-    batching: <RefreshCw size={20} className="text-green-400" />,
-    token_reduction: <TrendingDown size={20} className="text-orange-400" />,
-    error_reduction: <XCircle size={20} className="text-red-400" />,
-    anomaly_alert: <AlertCircle size={20} className="text-amber-400" />,
-    latency: <Timer size={20} className="text-cyan-400" />,
-    non_llm_candidate: <Binary size={20} className="text-teal-400" />,
-  };
-  return icons[type] || <Zap size={20} className="text-gray-400" />;
-}
-
-// Single optimization card with action buttons
+// Single optimization card
 function OptimizationCard({
   suggestion,
-  recommendation,
-  onImplement,
-  onDismiss,
-  isActioning,
 }: {
   suggestion: OptimizationSuggestion;
-  recommendation?: Recommendation;
-  onImplement?: (rec: Recommendation) => void;
-  onDismiss?: (id: string) => void;
-  isActioning?: boolean;
 }) {
   const [expanded, setExpanded] = useState(false);
   const estimatedMonthlySavings = suggestion.estimated_savings_monthly;
@@ -405,38 +399,14 @@ function OptimizationCard({
               )}
             </div>
           )}
-
-          {/* Action Buttons */}
-          {recommendation && onImplement && onDismiss && (
-            <div className="mt-4 flex flex-wrap items-center gap-3 pt-4 border-t border-neutral-800">
-              <button
-                onClick={() => onImplement(recommendation)}
-                disabled={isActioning}
-                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 transition-colors disabled:opacity-50"
-              >
-                <Check size={16} />
-                Implement
-              </button>
-              <button
-                onClick={() => onDismiss(recommendation.id)}
-                disabled={isActioning}
-                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-neutral-700 text-neutral-300 text-sm font-medium hover:bg-neutral-600 transition-colors disabled:opacity-50"
-              >
-                <X size={16} />
-                Dismiss
-              </button>
-              <span className="text-xs text-neutral-500 ml-auto">
-                Expires{" "}
-                {new Date(recommendation.expires_at).toLocaleDateString()}
-              </span>
-            </div>
-          )}
         </div>
       </div>
     </Card>
   );
 }
 
+const PRIORITY_ORDER = ["high", "medium", "low"];
+
 /**
  * Demo-only conversion CTA placed right after the optimization list — the
  * moment the "$/month savings" proof has just landed.
@@ -495,12 +465,16 @@ function DemoOptimizationsCTA() {
 
 export default function OptimizationsPage() {
   const { isConfigured } = useApiConfiguration();
+  // Amounts are formatted at the display rate; re-render when it changes.
+  useDisplayCurrency();
   const { isDemo } = useAuth();
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiFailure | null>(null);
   const [suggestions, setSuggestions] = useState<OptimizationSuggestion[]>([]);
   const [summary, setSummary] = useState<OptimizationSummary | null>(null);
   const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
+  const [effectiveness, setEffectiveness] =
+    useState<RecommendationEffectiveness | null>(null);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [isActioning, setIsActioning] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -509,6 +483,18 @@ export default function OptimizationsPage() {
   const [dismissDialogId, setDismissDialogId] = useState<string | null>(null);
   const [implementedRecommendation, setImplementedRecommendation] =
     useState<Recommendation | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const { activeProject } = useActiveProject();
+  const projectId = activeProject?.id ?? null;
+  const { data: members } = useApiData(
+    (signal) =>
+      projectId
+        ? api.getProjectMembers(projectId, signal)
+        : Promise.resolve([]),
+    [projectId],
+    [] as ProjectMember[],
+  );
 
   const fetchData = useCallback(async () => {
     if (!api.hasProjectAccess()) {
@@ -520,27 +506,30 @@ export default function OptimizationsPage() {
     setError(null);
 
     try {
-      const [suggestionsData, summaryData, recommendationsData] =
-        await Promise.all([
-          api.generateOptimizationRecommendations(),
-          api.getOptimizationSummary(),
-          api.getPendingRecommendations(),
-        ]);
+      const [
+        suggestionsData,
+        summaryData,
+        recommendationsData,
+        effectivenessData,
+      ] = await Promise.all([
+        api.generateOptimizationRecommendations(),
+        api.getOptimizationSummary(),
+        api.getRecommendationBoard(),
+        // Secondary to the suggestions; the page stands without it.
+        api.getRecommendationEffectiveness().catch(() => null),
+      ]);
       setSuggestions(suggestionsData);
       setSummary(summaryData);
       setRecommendations(recommendationsData);
+      setEffectiveness(effectivenessData);
       setShowOnboarding(false);
     } catch (err) {
-      const errorMessage =
-        err instanceof Error ? err.message : "Failed to fetch data";
-      if (
-        errorMessage.includes("401") ||
-        errorMessage.includes("Invalid API key")
-      ) {
+      const failure = toApiFailure(err);
+      if (failure.kind === "unauthorized") {
         setShowOnboarding(true);
         setError(null);
       } else {
-        setError(errorMessage);
+        setError(failure);
       }
     } finally {
       setLoading(false);
@@ -551,28 +540,58 @@ export default function OptimizationsPage() {
     fetchData();
   }, [fetchData]);
 
-  // Find matching recommendation for a suggestion
-  const findRecommendation = (
-    suggestion: OptimizationSuggestion,
-  ): Recommendation | undefined => {
-    return recommendations.find(
-      (r) =>
-        r.type === suggestion.type &&
-        r.agent_name === suggestion.agent_name &&
-        r.model === suggestion.model &&
-        r.alternative_model === suggestion.alternative_model,
+  // Replace a recommendation with the server's copy after a change
+  const replaceRecommendation = (updated: Recommendation) =>
+    setRecommendations((prev) =>
+      prev.map((r) => (r.id === updated.id ? updated : r)),
     );
+
+  // Handle a move, assignment or snooze from the board
+  const handleUpdate = async (
+    recommendation: Recommendation,
+    changes: RecommendationUpdate,
+  ) => {
+    setIsActioning(true);
+    try {
+      replaceRecommendation(
+        await api.updateRecommendation(recommendation.id, changes),
+      );
+    } finally {
+      setIsActioning(false);
+    }
+  };
+
+  // Dropping a card on a column: implementing and dismissing go through
+  // their own flows, and a snooze needs a date, which the drawer asks for.
+  const handleMove = (
+    recommendation: Recommendation,
+    status: RecommendationStatus,
+  ) => {
+    if (status === "implemented") {
+      handleImplement(recommendation);
+    } else if (status === "dismissed") {
+      setDismissDialogId(recommendation.id);
+    } else if (status === "snoozed") {
+      setOpenId(recommendation.id);
+    } else {
+      handleUpdate(recommendation, { status }).catch((err) =>
+        setError(toApiFailure(err)),
+      );
+    }
   };
 
   // Handle implement action
   const handleImplement = async (recommendation: Recommendation) => {
     setIsActioning(true);
     try {
-      await api.markRecommendationImplemented(recommendation.id);
-      // Remove from local state
-      setRecommendations((prev) =>
-        prev.filter((r) => r.id !== recommendation.id),
+      const { implemented_at } = await api.markRecommendationImplemented(
+        recommendation.id,
       );
+      replaceRecommendation({
+        ...recommendation,
+        status: "implemented",
+        updated_at: implemented_at,
+      });
       // Show success message
       setSuccessMessage(
         `Marked as implemented! Estimated savings: ${formatCurrency(recommendation.estimated_monthly_savings)}/month`,
@@ -582,7 +601,7 @@ export default function OptimizationsPage() {
       setImplementedRecommendation(recommendation);
     } catch (err) {
       console.error("Failed to mark as implemented:", err);
-      setError(parseApiError(err));
+      setError(toApiFailure(err));
     } finally {
       setIsActioning(false);
     }
@@ -595,10 +614,6 @@ export default function OptimizationsPage() {
     setIsActioning(true);
     try {
       await api.dismissRecommendation(dismissDialogId, feedback);
-      // Remove from local state
-      setRecommendations((prev) =>
-        prev.filter((r) => r.id !== dismissDialogId),
-      );
       setDismissDialogId(null);
       // Show success message
       setSuccessMessage(
@@ -609,7 +624,7 @@ export default function OptimizationsPage() {
       await fetchData();
     } catch (err) {
       console.error("Failed to dismiss:", err);
-      setError(parseApiError(err));
+      setError(toApiFailure(err));
     } finally {
       setIsActioning(false);
     }
@@ -625,10 +640,18 @@ export default function OptimizationsPage() {
   if (isConfigured === false || showOnboarding) return <OnboardingScreen />;
   if (isConfigured === null) return <LoadingSpinner />;
 
-  // Group suggestions by priority
-  const highPriority = suggestions.filter((s) => s.priority === "high");
-  const mediumPriority = suggestions.filter((s) => s.priority === "medium");
-  const lowPriority = suggestions.filter((s) => s.priority === "low");
+  const openCount = recommendations.filter(isOpen).length;
+  const openRecommendation = recommendations.find((r) => r.id === openId);
+  const openSuggestion =
+    openRecommendation && suggestionFor(openRecommendation, suggestions);
+
+  // Findings with no recommendation to act on, such as anomaly alerts
+  const untracked = suggestions
+    .filter((s) => !recommendations.some((r) => suggestionFor(r, [s])))
+    .sort(
+      (a, b) =>
+        PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority),
+    );
 
   return (
     <div className="space-y-8">
@@ -644,7 +667,10 @@ export default function OptimizationsPage() {
           </p>
         </div>
         <button
-          onClick={fetchData}
+          onClick={() => {
+            api.clearCache("/v1/optimizations");
+            fetchData();
+          }}
           disabled={loading}
           className="flex items-center gap-2 px-4 py-2 rounded-lg bg-neutral-800 text-white text-sm hover:bg-neutral-700 transition-colors disabled:opacity-50"
         >
@@ -654,19 +680,7 @@ export default function OptimizationsPage() {
       </div>
 
       {/* Error State */}
-      {error && (
-        <Card className="border-red-900/50 bg-red-950/20">
-          <div className="flex items-center gap-3">
-            <AlertTriangle className="text-red-400" size={20} />
-            <div>
-              <p className="text-red-400">{error}</p>
-              <p className="mt-1 text-sm text-neutral-400">
-                Make sure the backend is running and you have some event data.
-              </p>
-            </div>
-          </div>
-        </Card>
-      )}
+      {error && <ApiErrorState error={error} onRetry={fetchData} />}
 
       {/* Success Toast */}
       {successMessage && (
@@ -708,60 +722,24 @@ export default function OptimizationsPage() {
             icon={<Lightbulb size={20} />}
           />
           <MetricCard
-            title="Pending Actions"
-            value={recommendations.length.toString()}
+            title="Open Recommendations"
+            value={openCount.toString()}
             subtitle={
-              recommendations.length === 0
+              openCount === 0
                 ? "All reviewed!"
-                : "Awaiting your decision"
+                : `${recommendations.filter((r) => isOpen(r) && !r.assignee).length} unassigned`
             }
             icon={
-              recommendations.length === 0 ? (
-                <CheckCircle2 size={20} />
-              ) : (
-                <Clock size={20} />
-              )
+              openCount === 0 ? <CheckCircle2 size={20} /> : <Clock size={20} />
             }
           />
         </div>
       )}
 
-      {/* Effectiveness Stats */}
-      {!loading &&
-        summary?.effectiveness &&
-        summary.effectiveness.total_recommendations > 0 && (
-          <Card className="border-neutral-700">
-            <h3 className="font-medium text-white mb-3">
-              Recommendation Effectiveness
-            </h3>
-            <div className="flex flex-wrap gap-6 text-sm">
-              <div>
-                <span className="text-neutral-500">Total:</span>{" "}
-                <span className="text-white">
-                  {summary.effectiveness.total_recommendations}
-                </span>
-              </div>
-              <div>
-                <span className="text-neutral-500">Implemented:</span>{" "}
-                <span className="text-emerald-400">
-                  {summary.effectiveness.implemented}
-                </span>
-              </div>
-              <div>
-                <span className="text-neutral-500">Dismissed:</span>{" "}
-                <span className="text-red-400">
-                  {summary.effectiveness.dismissed}
-                </span>
-              </div>
-              <div>
-                <span className="text-neutral-500">Implementation Rate:</span>{" "}
-                <span className="text-blue-400">
-                  {formatPercentage(summary.effectiveness.implementation_rate)}
-                </span>
-              </div>
-            </div>
-          </Card>
-        )}
+      {/* Effectiveness */}
+      {!loading && effectiveness && effectiveness.total_recommendations > 0 && (
+        <EffectivenessPanel effectiveness={effectiveness} />
+      )}
 
       {/* Loading State */}
       {loading && (
@@ -899,67 +877,36 @@ export default function OptimizationsPage() {
         </>
       )}
 
-      {/* High Priority Suggestions */}
-      {highPriority.length > 0 && (
-        <div>
-          <h2 className="mb-4 flex items-center gap-2 text-lg font-medium text-white">
-            <AlertTriangle size={18} className="text-red-400" />
-            High Priority ({highPriority.length})
-          </h2>
-          <div className="space-y-4">
-            {highPriority.map((suggestion, idx) => (
-              <OptimizationCard
-                key={idx}
-                suggestion={suggestion}
-                recommendation={findRecommendation(suggestion)}
-                onImplement={handleImplement}
-                onDismiss={(id) => setDismissDialogId(id)}
-                isActioning={isActioning}
-              />
-            ))}
-          </div>
-        </div>
-      )}
-
-      {/* Medium Priority Suggestions */}
-      {mediumPriority.length > 0 && (
+      {/* Lifecycle board */}
+      {!loading && recommendations.length > 0 && (
         <div>
-          <h2 className="mb-4 flex items-center gap-2 text-lg font-medium text-white">
-            <Clock size={18} className="text-yellow-400" />
-            Medium Priority ({mediumPriority.length})
+          <h2 className="mb-1 flex items-center gap-2 text-lg font-medium text-white">
+            <KanbanSquare size={18} className="text-sky-400" />
+            Recommendations
           </h2>
-          <div className="space-y-4">
-            {mediumPriority.map((suggestion, idx) => (
-              <OptimizationCard
-                key={idx}
-                suggestion={suggestion}
-                recommendation={findRecommendation(suggestion)}
-                onImplement={handleImplement}
-                onDismiss={(id) => setDismissDialogId(id)}
-                isActioning={isActioning}
-              />
-            ))}
-          </div>
+          <p className="mb-4 text-sm text-neutral-500">
+            Give each one an owner and move it along; drag a card to change its
+            status, or open it for comments and history.
+          </p>
+          <RecommendationBoard
+            recommendations={recommendations}
+            suggestions={suggestions}
+            onOpen={(rec) => setOpenId(rec.id)}
+            onMove={handleMove}
+          />
         </div>
       )}
 
-      {/* Low Priority Suggestions */}
-      {lowPriority.length > 0 && (
+      {/* Suggestions with nothing to act on */}
+      {!loading && untracked.length > 0 && (
         <div>
           <h2 className="mb-4 flex items-center gap-2 text-lg font-medium text-white">
-            <Lightbulb size={18} className="text-green-400" />
-            Low Priority ({lowPriority.length})
+            <AlertTriangle size={18} className="text-amber-400" />
+            Other Findings ({untracked.length})
           </h2>
           <div className="space-y-4">
-            {lowPriority.map((suggestion, idx) => (
-              <OptimizationCard
-                key={idx}
-                suggestion={suggestion}
-                recommendation={findRecommendation(suggestion)}
-                onImplement={handleImplement}
-                onDismiss={(id) => setDismissDialogId(id)}
-                isActioning={isActioning}
-              />
+            {untracked.map((suggestion, idx) => (
+              <OptimizationCard key={idx} suggestion={suggestion} />
             ))}
           </div>
         </div>
@@ -1032,6 +979,27 @@ export default function OptimizationsPage() {
       </Card>
 
       {/* Modals */}
+      {openRecommendation && (
+        <RecommendationDrawer
+          recommendation={openRecommendation}
+          members={members}
+          detail={
+            openSuggestion && <OptimizationCard suggestion={openSuggestion} />
+          }
+          busy={isActioning}
+          onClose={() => setOpenId(null)}
+          onUpdate={(changes) => handleUpdate(openRecommendation, changes)}
+          onImplement={() => handleImplement(openRecommendation)}
+          onDismiss={() => setDismissDialogId(openRecommendation.id)}
+          onCommented={() =>
+            replaceRecommendation({
+              ...openRecommendation,
+              comment_count: (openRecommendation.comment_count ?? 0) + 1,
+            })
+          }
+        />
+      )}
+
       <FeedbackDialog
         isOpen={dismissDialogId !== null}
         onClose={() => setDismissDialogId(null)}
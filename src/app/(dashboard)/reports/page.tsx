@@ -1,8 +1,10 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useSearchParams } from "next/navigation";
 import { FileDown, Printer, RefreshCw, FileText } from "lucide-react";
 import { Card } from "@/components/ui/Card";
+import { ApiErrorState } from "@/components/ui/ApiErrorState";
 import { ChartSkeleton, MetricCardSkeleton } from "@/components/ui/Skeleton";
 import { ReportDocument } from "@/components/reports/ReportDocument";
 import {
@@ -12,20 +14,45 @@ import {
 import { exportReportCsv } from "@/lib/reportCsv";
 import { downloadReportPdf } from "@/lib/reportPdf";
 import { api, ExecutiveReport } from "@/lib/api";
-import { parseApiError } from "@/lib/utils";
+import { PRICING_BASES } from "@/lib/pricing";
+import { cn, toApiFailure, type ApiFailure } from "@/lib/utils";
 import {
   useApiConfiguration,
   OnboardingScreen,
   LoadingSpinner,
 } from "@/hooks/useApiConfiguration";
+import { useDisplayCurrency } from "@/contexts/DisplayCurrencyContext";
+import { setQueryParams } from "@/hooks/useQueryState";
+import { usePricingBasis } from "@/hooks/usePricingBasis";
+
+const DEFAULT_RANGE = "30d";
+
+/** The picker emits a preset or a custom window; each clears the other. */
+function setReportRange(next: ReportRange) {
+  setQueryParams({
+    range: next.range === DEFAULT_RANGE ? null : next.range,
+    start: next.start,
+    end: next.end,
+  });
+}
 
 export default function ReportsPage() {
   const { isConfigured } = useApiConfiguration();
-  const [range, setRange] = useState<ReportRange>({ range: "30d" });
+  // Amounts are formatted at the display rate; re-render when it changes.
+  useDisplayCurrency();
+  const searchParams = useSearchParams();
+  const preset = searchParams.get("range") || DEFAULT_RANGE;
+  const start = searchParams.get("start");
+  const end = searchParams.get("end");
+  const range = useMemo<ReportRange>(
+    () => (start && end ? { start, end } : { range: preset }),
+    [preset, start, end],
+  );
   const [report, setReport] = useState<ExecutiveReport | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiFailure | null>(null);
   const [showOnboarding, setShowOnboarding] = useState(false);
+  const [basis, setBasis] = usePricingBasis();
 
   const fetchReport = useCallback(async () => {
     if (!api.hasProjectAccess()) {
@@ -39,25 +66,22 @@ export default function ReportsPage() {
       setReport(data);
       setShowOnboarding(false);
     } catch (err) {
-      const msg = parseApiError(err);
-      if (
-        msg.includes("401") ||
-        msg.includes("Invalid API key") ||
-        msg.includes("session has expired")
-      ) {
+      const failure = toApiFailure(err);
+      if (failure.kind === "unauthorized") {
         setShowOnboarding(true);
         setError(null);
       } else {
-        setError(msg);
+        setError(failure);
       }
     } finally {
       setLoading(false);
     }
   }, [range]);
 
+  // The request reads the basis itself; switching it fetches the report again.
   useEffect(() => {
     fetchReport();
-  }, [fetchReport]);
+  }, [fetchReport, basis]);
 
   if (isConfigured === false || showOnboarding) return <OnboardingScreen />;
   if (isConfigured === null) return <LoadingSpinner />;
@@ -76,9 +100,34 @@ export default function ReportsPage() {
           </p>
         </div>
         <div className="flex flex-wrap items-center gap-3">
-          <ReportRangePicker value={range} onChange={setRange} />
+          <ReportRangePicker value={range} onChange={setReportRange} />
+          <div
+            role="radiogroup"
+            aria-label="Pricing basis"
+            className="flex rounded-lg border border-white/6 p-0.5"
+          >
+            {PRICING_BASES.map((b) => (
+              <button
+                key={b.value}
+                role="radio"
+                aria-checked={basis === b.value}
+                onClick={() => setBasis(b.value)}
+                className={cn(
+                  "rounded-md px-2.5 py-1 text-[13px] transition-colors",
+                  basis === b.value
+                    ? "bg-white/8 text-white"
+                    : "text-neutral-500 hover:text-neutral-300",
+                )}
+              >
+                {b.label}
+              </button>
+            ))}
+          </div>
           <button
-            onClick={fetchReport}
+            onClick={() => {
+              api.clearCache("/v1/analytics/report");
+              fetchReport();
+            }}
             disabled={loading}
             className="flex items-center gap-2 rounded-lg border border-white/6 px-3 py-1.5 text-[13px] text-neutral-400 transition-colors hover:border-white/12 hover:text-white disabled:opacity-50"
             title="Refresh"
@@ -103,12 +152,9 @@ export default function ReportsPage() {
       </div>
 
       {error && (
-        <Card className="no-print border-red-900/50 bg-red-950/20 print:hidden">
-          <p className="text-red-400">{error}</p>
-          <p className="mt-2 text-sm text-neutral-400">
-            Make sure the backend is running and accessible.
-          </p>
-        </Card>
+        <div className="no-print print:hidden">
+          <ApiErrorState error={error} onRetry={fetchReport} />
+        </div>
       )}
 
       {loading && !report ? (
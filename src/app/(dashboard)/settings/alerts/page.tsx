@@ -0,0 +1,336 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  AlertCircle,
+  AlertTriangle,
+  BellRing,
+  Check,
+  ChevronLeft,
+  Edit,
+  Info,
+  Plus,
+  RefreshCw,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Card } from "@/components/ui/Card";
+import { ApiErrorState } from "@/components/ui/ApiErrorState";
+import { AlertRuleEditor } from "@/components/settings/AlertRuleEditor";
+import { useDisplayCurrency } from "@/contexts/DisplayCurrencyContext";
+import { useAlertRules } from "@/hooks/useAlertRules";
+import { useApiData } from "@/hooks/useApiData";
+import {
+  api,
+  type AlertRule,
+  type AlertRuleInput,
+  type EventFilterOptions,
+  type NotificationSeverity,
+} from "@/lib/api";
+import {
+  DEFAULT_ALERT_RULE,
+  alertRuleInput,
+  describeAlertRule,
+  formatMinutes,
+} from "@/lib/alerts";
+import { cn, formatRelativeTime, parseApiError } from "@/lib/utils";
+
+const SEVERITY_CONFIG: Record<
+  NotificationSeverity,
+  { icon: typeof Info; color: string }
+> = {
+  info: { icon: Info, color: "text-sky-400 bg-sky-900/30" },
+  warning: { icon: AlertTriangle, color: "text-amber-400 bg-amber-900/30" },
+  critical: { icon: AlertCircle, color: "text-red-400 bg-red-900/30" },
+};
+
+const NO_OPTIONS: EventFilterOptions = {
+  agents: [],
+  models: [],
+  workflows: [],
+  steps: [],
+  tools: [],
+};
+
+function SeverityBadge({ severity }: { severity: NotificationSeverity }) {
+  const config = SEVERITY_CONFIG[severity];
+  const Icon = config.icon;
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium capitalize ${config.color}`}
+    >
+      <Icon size={10} />
+      {severity}
+    </span>
+  );
+}
+
+/** "new" while creating a rule, a rule id while editing one. */
+type Editing = string | null;
+
+export default function AlertsPage() {
+  // Amounts are formatted at the display rate; re-render when it changes.
+  useDisplayCurrency();
+  const { projectId, rules, loading, error, create, update, remove } =
+    useAlertRules();
+  const { data: options } = useApiData(
+    (signal) => api.getEventFilterOptions(signal),
+    [],
+    NO_OPTIONS,
+  );
+
+  const [editing, setEditing] = useState<Editing>(null);
+  const [removingRule, setRemovingRule] = useState<string | null>(null);
+  const [busyRule, setBusyRule] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const editingRule =
+    editing && editing !== "new" ? rules.find((r) => r.id === editing) : null;
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const handleSave = async (input: AlertRuleInput) => {
+    if (editingRule) {
+      await update(editingRule.id, input);
+      showSuccess(`Saved "${input.name}"`);
+    } else {
+      await create(input);
+      showSuccess(`Created "${input.name}"`);
+    }
+    setEditing(null);
+  };
+
+  const handleToggle = async (rule: AlertRule) => {
+    setBusyRule(rule.id);
+    setActionError(null);
+    try {
+      await update(rule.id, { enabled: !rule.enabled });
+    } catch (err) {
+      setActionError(parseApiError(err));
+    } finally {
+      setBusyRule(null);
+    }
+  };
+
+  const handleRemove = async (rule: AlertRule) => {
+    setBusyRule(rule.id);
+    setActionError(null);
+    try {
+      await remove(rule.id);
+      setRemovingRule(null);
+      showSuccess(`Deleted "${rule.name}"`);
+    } catch (err) {
+      setActionError(parseApiError(err));
+    } finally {
+      setBusyRule(null);
+    }
+  };
+
+  if (error) {
+    return <ApiErrorState error={error} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-4">
+          <Link
+            href="/settings"
+            className="p-2 rounded-lg hover:bg-neutral-800 transition-colors"
+          >
+            <ChevronLeft size={20} className="text-neutral-400" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-white">Alert Rules</h1>
+            <p className="mt-1 text-neutral-400">
+              Notify the team when a metric crosses a threshold
+            </p>
+          </div>
+        </div>
+        {projectId && editing !== "new" && (
+          <button
+            onClick={() => setEditing("new")}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-500 text-white font-medium transition-colors"
+          >
+            <Plus size={18} />
+            New Rule
+          </button>
+        )}
+      </div>
+
+      {successMessage && (
+        <div className="flex items-center gap-2 p-4 rounded-lg bg-emerald-900/30 border border-emerald-700 text-emerald-400">
+          <Check size={18} />
+          {successMessage}
+        </div>
+      )}
+
+      {actionError && (
+        <div className="flex items-center gap-2 p-4 rounded-lg bg-red-900/30 border border-red-700 text-red-400">
+          <AlertTriangle size={18} />
+          {actionError}
+          <button onClick={() => setActionError(null)} className="ml-auto">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {projectId && (editing === "new" || editingRule) && (
+        <AlertRuleEditor
+          key={editing}
+          projectId={projectId}
+          initial={
+            editingRule ? alertRuleInput(editingRule) : DEFAULT_ALERT_RULE
+          }
+          isNew={!editingRule}
+          options={options}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      <Card>
+        <div className="flex items-start gap-4">
+          <div className="flex h-12 w-12 shrink-0 items-center justify-center rounded-lg bg-amber-900/30 text-amber-400">
+            <BellRing size={24} />
+          </div>
+          <div className="min-w-0 flex-1">
+            <h3 className="text-lg font-medium text-white">Rules</h3>
+            <p className="text-sm text-neutral-400">
+              Firings arrive in the notification bell, alongside budget alerts
+            </p>
+
+            {loading && rules.length === 0 ? (
+              <div className="mt-6 flex justify-center">
+                <RefreshCw
+                  className="animate-spin text-neutral-400"
+                  size={24}
+                />
+              </div>
+            ) : !projectId ? (
+              <p className="mt-4 text-sm text-neutral-500">
+                Alert rules belong to a project. Sign in and choose a project
+                from the switcher to create them; an API key on its own
+                can&apos;t.
+              </p>
+            ) : rules.length === 0 ? (
+              <p className="mt-4 text-sm text-neutral-500">
+                No alert rules yet. Create one to watch cost, errors, latency or
+                repeated work for the whole project or a single agent, model,
+                workflow or step.
+              </p>
+            ) : (
+              <div className="mt-4 divide-y divide-neutral-800">
+                {rules.map((rule) => (
+                  <div key={rule.id} className="py-4 first:pt-0 last:pb-0">
+                    <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                      <div className="min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span
+                            className={cn(
+                              "font-medium",
+                              rule.enabled ? "text-white" : "text-neutral-500",
+                            )}
+                          >
+                            {rule.name}
+                          </span>
+                          <SeverityBadge severity={rule.severity} />
+                          {!rule.enabled && (
+                            <span className="px-2 py-0.5 rounded-full text-xs bg-neutral-700/40 text-neutral-400">
+                              Paused
+                            </span>
+                          )}
+                        </div>
+                        <p className="mt-0.5 text-sm text-neutral-400">
+                          {describeAlertRule(rule)}
+                        </p>
+                        <p className="mt-0.5 text-xs text-neutral-500">
+                          Cooldown {formatMinutes(rule.cooldown_minutes)} ·{" "}
+                          {rule.last_fired_at
+                            ? `last fired ${formatRelativeTime(rule.last_fired_at)}`
+                            : "has not fired"}
+                        </p>
+                      </div>
+
+                      <div className="flex shrink-0 items-center gap-2">
+                        <button
+                          type="button"
+                          role="switch"
+                          aria-checked={rule.enabled}
+                          onClick={() => handleToggle(rule)}
+                          disabled={busyRule === rule.id}
+                          title={rule.enabled ? "Pause rule" : "Resume rule"}
+                          className={cn(
+                            "relative h-5 w-9 rounded-full transition-colors disabled:opacity-50",
+                            rule.enabled ? "bg-primary-600" : "bg-neutral-700",
+                          )}
+                        >
+                          <span
+                            className={cn(
+                              "absolute top-0.5 left-0.5 h-4 w-4 rounded-full bg-white transition-transform",
+                              rule.enabled && "translate-x-4",
+                            )}
+                          />
+                        </button>
+                        <button
+                          onClick={() => setEditing(rule.id)}
+                          className="p-1.5 rounded-lg hover:bg-neutral-700 text-neutral-400 hover:text-white transition-colors"
+                          title="Edit rule"
+                        >
+                          <Edit size={14} />
+                        </button>
+                        <button
+                          onClick={() => setRemovingRule(rule.id)}
+                          className="p-1.5 rounded-lg hover:bg-red-900/30 text-neutral-400 hover:text-red-400 transition-colors"
+                          title="Delete rule"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </div>
+
+                    {/* Delete confirmation */}
+                    {removingRule === rule.id && (
+                      <div className="mt-3 p-3 rounded-lg bg-red-900/20 border border-red-900/50">
+                        <p className="text-sm text-red-300">
+                          Delete <strong>{rule.name}</strong>? Notifications it
+                          already sent stay in the bell.
+                        </p>
+                        <div className="mt-2 flex gap-2">
+                          <button
+                            onClick={() => handleRemove(rule)}
+                            disabled={busyRule === rule.id}
+                            className="flex items-center gap-1 px-3 py-1 rounded-lg bg-red-600 hover:bg-red-500 text-white text-sm disabled:opacity-50"
+                          >
+                            {busyRule === rule.id ? (
+                              <RefreshCw size={12} className="animate-spin" />
+                            ) : (
+                              <Trash2 size={12} />
+                            )}
+                            Delete
+                          </button>
+                          <button
+                            onClick={() => setRemovingRule(null)}
+                            className="px-3 py-1 rounded-lg bg-neutral-700 hover:bg-neutral-600 text-white text-sm"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -5,16 +5,22 @@ import Link from "next/link";
 import { useSearchParams } from "next/navigation";
 import { Card } from "@/components/ui/Card";
 import { BudgetSettingsCard } from "@/components/settings/BudgetSettingsCard";
+import { PricingOverridesCard } from "@/components/settings/PricingOverridesCard";
 import {
   api,
   getStoredApiKeyForProject,
   getFallbackProjectKey,
   storeProjectApiKey,
   removeStoredProjectApiKey,
+  type CurrencyCode,
 } from "@/lib/api";
+import { CURRENCIES } from "@/lib/currency";
 import { useActiveProject } from "@/contexts/ActiveProjectContext";
+import { useDisplayCurrency } from "@/contexts/DisplayCurrencyContext";
+import { FxNote } from "@/components/ui/FxNote";
 import { useAuth } from "@/contexts/AuthContext";
 import { track } from "@/lib/analytics";
+import { parseApiError } from "@/lib/utils";
 import {
   Key,
   Check,
@@ -34,6 +40,8 @@ import {
   AlertTriangle,
   Users,
   Pencil,
+  BellRing,
+  Coins,
 } from "lucide-react";
 
 interface ProjectInfo {
@@ -60,6 +68,71 @@ const DEFAULT_CONFIG: SavedConfig = {
   refreshInterval: 30,
 };
 
+/** The rate amounts are being shown at, once the saved currency applies. */
+function DisplayCurrencyStatus() {
+  const { currency, fx, loading, error } = useDisplayCurrency();
+  if (loading) {
+    return (
+      <p className="mt-3 text-[11px] text-neutral-500">
+        Fetching the {currency} rate…
+      </p>
+    );
+  }
+  if (error && fx.code !== currency) {
+    return (
+      <p className="mt-3 text-[11px] text-red-400">
+        Couldn&apos;t load the {currency} rate, so amounts stay in USD: {error}
+      </p>
+    );
+  }
+  return <FxNote className="mt-3" />;
+}
+
+/** The project's currency. Saved as soon as it's picked, for every member. */
+function DisplayCurrencySelect() {
+  const { currency, canEdit, saveCurrency } = useDisplayCurrency();
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const change = async (next: CurrencyCode) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await saveCurrency(next);
+    } catch (err) {
+      setError(parseApiError(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+        <span className="text-neutral-300">Currency</span>
+        <select
+          value={currency}
+          disabled={!canEdit || saving}
+          onChange={(e) => change(e.target.value as CurrencyCode)}
+          className="rounded-lg border border-neutral-700 bg-neutral-800/50 px-3 py-2 text-sm text-white focus:border-primary-500 focus:outline-none disabled:opacity-60"
+        >
+          {Object.entries(CURRENCIES).map(([code, { label }]) => (
+            <option key={code} value={code}>
+              {code} — {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {!canEdit && (
+        <p className="mt-2 text-[11px] text-neutral-500">
+          Set by the project&apos;s admins.
+        </p>
+      )}
+      {error && <p className="mt-2 text-[11px] text-red-400">{error}</p>}
+    </>
+  );
+}
+
 function CopyButton({ text }: { text: string }) {
   const [copied, setCopied] = useState(false);
 
@@ -217,8 +290,9 @@ export default function SettingsPage() {
   const saveConfig = async () => {
     setIsSaving(true);
     try {
-      // Only the refresh preferences are editable here — merge them into the
-      // stored config so the per-project API key map is never clobbered.
+      // Merge the refresh preferences into the stored config so the
+      // per-project API key map is never clobbered. The display currency is
+      // saved on the project as soon as it's picked.
       let saved: Record<string, unknown> = {};
       try {
         saved = JSON.parse(localStorage.getItem("agentcost_config") || "{}");
@@ -667,6 +741,41 @@ export default function SettingsPage() {
       {/* Budget Guardrails */}
       {project && <BudgetSettingsCard projectId={project.id} />}
 
+      {/* Contract Pricing */}
+      {project && <PricingOverridesCard />}
+
+      {/* Alert Rules */}
+      {project && (
+        <Card>
+          <div className="flex items-start gap-4">
+            <div className="flex h-12 w-12 shrink-0 items-center justify-center rounded-lg bg-amber-900/30 text-amber-400">
+              <BellRing size={24} />
+            </div>
+            <div className="min-w-0 flex-1">
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <h3 className="text-lg font-medium text-white">
+                    Alert Rules
+                  </h3>
+                  <p className="text-sm text-neutral-400">
+                    Get notified when cost, errors, latency or waste cross a
+                    threshold
+                  </p>
+                </div>
+                <Link
+                  href="/settings/alerts"
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-neutral-700 hover:bg-neutral-600 text-white transition-colors"
+                >
+                  <BellRing size={16} />
+                  Manage Alerts
+                  <ChevronRight size={16} />
+                </Link>
+              </div>
+            </div>
+          </div>
+        </Card>
+      )}
+
       {/* Danger Zone - Delete Project */}
       {project && (
         <Card className="border-red-900/50">
@@ -802,6 +911,25 @@ export default function SettingsPage() {
         </Card>
       )}
 
+      {/* Display Currency */}
+      <Card>
+        <div className="flex items-start gap-4">
+          <div className="flex h-12 w-12 shrink-0 items-center justify-center rounded-lg bg-amber-900/30 text-amber-400">
+            <Coins size={24} />
+          </div>
+          <div className="min-w-0 flex-1">
+            <h3 className="text-lg font-medium text-white">Display Currency</h3>
+            <p className="text-sm text-neutral-400">
+              Show this project&apos;s spend in your currency — for every
+              member, and in the reports they export. Amounts are recorded in
+              USD and converted at a daily reference rate.
+            </p>
+            <DisplayCurrencySelect />
+            <DisplayCurrencyStatus />
+          </div>
+        </div>
+      </Card>
+
       {/* Auto-Refresh */}
       <Card>
         <div className="flex items-start gap-4">
@@ -4,6 +4,7 @@ import React, { useState, useEffect, useCallback } from "react";
 import { Card } from "@/components/ui/Card";
 import {
   api,
+  ApiError,
   removeStoredProjectApiKey,
   ProjectMember,
   PendingInvitation,
@@ -239,9 +240,7 @@ export default function TeamPage() {
       try {
         membersData = await api.getProjectMembers(resolvedProjectId);
       } catch (membersErr) {
-        const msg =
-          membersErr instanceof Error ? membersErr.message : String(membersErr);
-        if (msg.includes("403") || msg.toLowerCase().includes("don't have access")) {
+        if (membersErr instanceof ApiError && membersErr.status === 403) {
           setStaleConfig(true);
           setError(null);
           setIsLoading(false);
@@ -0,0 +1,245 @@
+"use client";
+
+import { useMemo } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Card } from "@/components/ui/Card";
+import { ApiErrorState } from "@/components/ui/ApiErrorState";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from "@/components/ui/Table";
+import { Badge } from "@/components/ui/Badge";
+import { TableSkeleton } from "@/components/ui/Skeleton";
+import { HeroStatCard } from "@/components/dashboard/HeroStatCard";
+import { TraceWaterfall } from "@/components/charts/TraceWaterfall";
+import { api, TraceDetail } from "@/lib/api";
+import {
+  formatCurrency,
+  formatNumber,
+  formatLatency,
+  formatDate,
+} from "@/lib/utils";
+import {
+  ArrowLeft,
+  DollarSign,
+  Activity,
+  Timer,
+  TriangleAlert,
+  Wrench,
+} from "lucide-react";
+import {
+  useApiConfiguration,
+  OnboardingScreen,
+  LoadingSpinner,
+} from "@/hooks/useApiConfiguration";
+import { useDisplayCurrency } from "@/contexts/DisplayCurrencyContext";
+import { useApiData } from "@/hooks/useApiData";
+
+export default function TraceDetailPage() {
+  const { isConfigured } = useApiConfiguration();
+  const { fx } = useDisplayCurrency();
+  const params = useParams<{ traceId: string }>();
+  const traceId = decodeURIComponent(params.traceId);
+
+  const {
+    data: trace,
+    loading,
+    error,
+    refetch,
+  } = useApiData<TraceDetail | null>(
+    (signal) => api.getTrace(traceId, signal),
+    [traceId],
+    null,
+  );
+
+  // Offsets are measured from the first call's start, so a row reads as
+  // "this call began 2.4s into the run".
+  const calls = useMemo(() => {
+    if (!trace) return [];
+    // Events are stamped when the call returned; back out the start.
+    const rows = trace.events.map((e) => ({
+      event: e,
+      start: Date.parse(e.timestamp) - e.latency_ms,
+    }));
+    const origin = Math.min(...rows.map((r) => r.start));
+    return rows
+      .sort((a, b) => a.start - b.start)
+      .map((r) => ({ event: r.event, offsetMs: r.start - origin }));
+  }, [trace]);
+
+  if (isConfigured === false || error?.kind === "unauthorized")
+    return <OnboardingScreen />;
+  if (isConfigured === null) return <LoadingSpinner />;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href="/traces"
+          className="inline-flex items-center gap-1.5 text-sm text-neutral-500 hover:text-neutral-300"
+        >
+          <ArrowLeft size={14} aria-hidden />
+          All traces
+        </Link>
+        <h1 className="mt-2 font-mono text-2xl font-semibold tracking-tight text-white break-all">
+          {traceId}
+        </h1>
+        <p className="mt-1 text-sm text-neutral-500">
+          {trace?.workflow ?? "Workflow run"}
+          {trace?.started_at && <> · started {formatDate(trace.started_at)}</>}
+        </p>
+      </div>
+
+      {error && <ApiErrorState error={error} onRetry={refetch} />}
+
+      {!loading && !error && !trace && (
+        <Card>
+          <p className="text-neutral-400">
+            No calls were recorded for this trace. It may be older than the
+            retention window.
+          </p>
+        </Card>
+      )}
+
+      {trace && (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-4">
+          <HeroStatCard
+            label="Run Cost"
+            value={formatCurrency(trace.total_cost)}
+            fx={fx}
+            sub={`${formatNumber(trace.total_tokens)} tokens`}
+            icon={<DollarSign size={15} />}
+            iconClassName="bg-emerald-500/10 text-emerald-400"
+          />
+          <HeroStatCard
+            label="Calls"
+            value={formatNumber(trace.calls)}
+            sub={`Depth ${trace.max_depth}`}
+            icon={<Activity size={15} />}
+            iconClassName="bg-sky-500/10 text-sky-400"
+          />
+          <HeroStatCard
+            label="Duration"
+            value={
+              trace.duration_ms != null ? formatLatency(trace.duration_ms) : "—"
+            }
+            sub="First call start to last call end"
+            icon={<Timer size={15} />}
+            iconClassName="bg-violet-500/10 text-violet-400"
+          />
+          <HeroStatCard
+            label="Failed Calls"
+            value={formatNumber(trace.failed_calls)}
+            sub={trace.failed_calls > 0 ? "Paid for, returned nothing" : "None"}
+            icon={<TriangleAlert size={15} />}
+            iconClassName={
+              trace.failed_calls > 0
+                ? "bg-amber-500/10 text-amber-400"
+                : "bg-emerald-500/10 text-emerald-400"
+            }
+          />
+        </div>
+      )}
+
+      {/* Waterfall */}
+      {trace && trace.events.length > 0 && (
+        <Card padding="none">
+          <TraceWaterfall events={trace.events} workflow={trace.workflow} />
+        </Card>
+      )}
+
+      {/* Calls */}
+      {(loading || trace) && (
+        <Card padding="none">
+          <div className="border-b border-white/6 px-4 py-4 sm:px-6">
+            <h3 className="text-[15px] font-semibold tracking-tight text-white">
+              Calls in this run
+            </h3>
+            <p className="mt-1 text-sm text-neutral-500">
+              In the order they started, offset from the start of the run.
+            </p>
+          </div>
+          {loading ? (
+            <div className="p-6">
+              <TableSkeleton rows={6} />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">Start</TableHead>
+                  <TableHead>Step</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Agent</TableHead>
+                  <TableHead className="text-right">Tokens (In/Out)</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Latency</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {calls.map(({ event, offsetMs }) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="text-right font-mono text-neutral-500">
+                      +{formatLatency(offsetMs)}
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-neutral-200">
+                        {event.step_name ?? "—"}
+                      </span>
+                      {event.tool_name && (
+                        <Wrench
+                          size={11}
+                          className="ml-1.5 inline text-neutral-500"
+                          aria-label="tool"
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <span className="font-mono text-sm text-neutral-300">
+                        {event.model}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-neutral-400">
+                      {event.agent_name}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-sm">
+                      <span className="text-blue-400">
+                        {formatNumber(event.input_tokens)}
+                      </span>
+                      <span className="mx-1 text-neutral-600">/</span>
+                      <span className="text-green-400">
+                        {formatNumber(event.output_tokens)}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-emerald-400">
+                      {formatCurrency(event.cost)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatLatency(event.latency_ms)}
+                    </TableCell>
+                    <TableCell>
+                      {event.success ? (
+                        <Badge variant="success">Success</Badge>
+                      ) : (
+                        <span title={event.error ?? undefined}>
+                          <Badge variant="error">Failed</Badge>
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Card } from "@/components/ui/Card";
+import { ApiErrorState } from "@/components/ui/ApiErrorState";
+import { TimeRangeSelector } from "@/components/layout/TimeRangeSelector";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from "@/components/ui/Table";
+import { Badge } from "@/components/ui/Badge";
+import { TableSkeleton } from "@/components/ui/Skeleton";
+import { api, TraceSummary, TraceSortKey, TimeRange } from "@/lib/api";
+import {
+  cn,
+  formatCurrency,
+  formatNumber,
+  formatLatency,
+  formatRelativeTime,
+} from "@/lib/utils";
+import { ArrowDown, ArrowUp, GitBranch, X } from "lucide-react";
+import {
+  useApiConfiguration,
+  OnboardingScreen,
+  LoadingSpinner,
+} from "@/hooks/useApiConfiguration";
+import { useDisplayCurrency } from "@/contexts/DisplayCurrencyContext";
+import { useApiData } from "@/hooks/useApiData";
+import {
+  useQueryState,
+  useQueryNumber,
+  useQueryTimeRange,
+} from "@/hooks/useQueryState";
+
+const PAGE_SIZE = 25;
+
+const SORT_KEYS: TraceSortKey[] = [
+  "cost",
+  "calls",
+  "duration",
+  "depth",
+  "failed",
+  "recent",
+];
+
+const ORDERS = ["asc", "desc"] as const;
+
+function SortableHead({
+  label,
+  sortKey,
+  sort,
+  order,
+  onSort,
+  className,
+}: {
+  label: string;
+  sortKey: TraceSortKey;
+  sort: TraceSortKey;
+  order: "asc" | "desc";
+  onSort: (key: TraceSortKey) => void;
+  className?: string;
+}) {
+  const active = sort === sortKey;
+  return (
+    <TableHead className={className}>
+      <button
+        onClick={() => onSort(sortKey)}
+        aria-pressed={active}
+        className={cn(
+          "inline-flex items-center gap-1 uppercase tracking-wider transition-colors",
+          active ? "text-white" : "hover:text-neutral-200",
+        )}
+      >
+        {label}
+        {active &&
+          (order === "asc" ? (
+            <ArrowUp size={12} aria-hidden />
+          ) : (
+            <ArrowDown size={12} aria-hidden />
+          ))}
+      </button>
+    </TableHead>
+  );
+}
+
+export default function TracesPage() {
+  const { isConfigured } = useApiConfiguration();
+  // Amounts are formatted at the display rate; re-render when it changes.
+  useDisplayCurrency();
+  const router = useRouter();
+
+  // Everything that scopes the list lives in the URL, so tail links from
+  // the Workflows page arrive pre-scoped and any view can be shared.
+  const [timeRange, setTimeRange] = useQueryTimeRange();
+  const [workflowFilter, setWorkflowFilter] = useQueryState("workflow", "");
+  const [minCostParam, setMinCost] = useQueryState("min_cost", "");
+  const [sort, setSort] = useQueryState<TraceSortKey>(
+    "sort",
+    "cost",
+    SORT_KEYS,
+  );
+  const [order, setOrder] = useQueryState("order", "desc", ORDERS);
+  const [page, setPage] = useQueryNumber("page");
+  const minCost = Number(minCostParam) > 0 ? Number(minCostParam) : null;
+
+  const [workflowOptions, setWorkflowOptions] = useState<string[]>([]);
+
+  const {
+    data: { traces, hasMore },
+    loading,
+    error,
+    refetch,
+  } = useApiData(
+    async (signal) => {
+      // One extra row tells us whether a next page exists without a
+      // separate count query.
+      const data = await api.getTraces(
+        timeRange,
+        {
+          workflow: workflowFilter || undefined,
+          minCost: minCost ?? undefined,
+          sort,
+          order,
+          limit: PAGE_SIZE + 1,
+          offset: page * PAGE_SIZE,
+        },
+        signal,
+      );
+      return {
+        traces: data.slice(0, PAGE_SIZE),
+        hasMore: data.length > PAGE_SIZE,
+      };
+    },
+    [timeRange, workflowFilter, minCost, sort, order, page],
+    { traces: [] as TraceSummary[], hasMore: false },
+  );
+
+  useEffect(() => {
+    if (!api.hasProjectAccess()) return;
+    const controller = new AbortController();
+    api
+      .getWorkflowStats(timeRange, 50, controller.signal)
+      .then((rows) => setWorkflowOptions(rows.map((w) => w.workflow).sort()))
+      .catch(() => {
+        // The picker just stays empty; the list itself still works.
+      });
+    return () => controller.abort();
+  }, [timeRange]);
+
+  // Any change to what is listed starts again from the first page — set in
+  // the same update, so the old page number never reaches a request.
+  const handleRange = (range: TimeRange) => {
+    setTimeRange(range);
+    setPage(0);
+  };
+
+  const handleWorkflow = (workflow: string) => {
+    setWorkflowFilter(workflow);
+    setPage(0);
+  };
+
+  const clearMinCost = () => {
+    setMinCost("");
+    setPage(0);
+  };
+
+  const handleSort = (key: TraceSortKey) => {
+    if (key === sort) {
+      setOrder(order === "desc" ? "asc" : "desc");
+    } else {
+      setSort(key);
+      setOrder("desc");
+    }
+    setPage(0);
+  };
+
+  if (isConfigured === false || error?.kind === "unauthorized")
+    return <OnboardingScreen />;
+  if (isConfigured === null) return <LoadingSpinner />;
+
+  const sortProps = { sort, order, onSort: handleSort };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col items-start gap-3 sm:flex-row sm:items-center sm:justify-between sm:gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight text-white">
+            Traces
+          </h1>
+          <p className="mt-1 text-sm text-neutral-500">
+            Individual workflow runs — open one to see every call it made
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={workflowFilter}
+            onChange={(e) => handleWorkflow(e.target.value)}
+            aria-label="Workflow"
+            className="min-h-11 rounded-lg border border-neutral-700 bg-neutral-800 px-3 py-2 text-sm text-neutral-200 focus:border-primary-500 focus:outline-none sm:min-h-0"
+          >
+            <option value="">All workflows</option>
+            {workflowOptions.map((w) => (
+              <option key={w} value={w}>
+                {w}
+              </option>
+            ))}
+          </select>
+          <TimeRangeSelector value={timeRange} onChange={handleRange} />
+        </div>
+      </div>
+
+      {minCost != null && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-neutral-400">
+          Showing runs costing at least
+          <button
+            onClick={clearMinCost}
+            className="inline-flex items-center gap-1.5 rounded-full border border-amber-800 bg-amber-900/30 px-2.5 py-0.5 text-xs font-medium text-amber-400 hover:bg-amber-900/50"
+          >
+            {formatCurrency(minCost)}
+            <X size={12} aria-label="Clear cost filter" />
+          </button>
+        </div>
+      )}
+
+      {error && <ApiErrorState error={error} onRetry={refetch} />}
+
+      <Card padding="none">
+        {loading ? (
+          <div className="p-6">
+            <TableSkeleton rows={8} />
+          </div>
+        ) : traces.length > 0 ? (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Trace</TableHead>
+                  <TableHead>Workflow</TableHead>
+                  <SortableHead label="Started" sortKey="recent" {...sortProps} />
+                  <SortableHead
+                    label="Calls"
+                    sortKey="calls"
+                    className="text-right"
+                    {...sortProps}
+                  />
+                  <SortableHead
+                    label="Cost"
+                    sortKey="cost"
+                    className="text-right"
+                    {...sortProps}
+                  />
+                  <SortableHead
+                    label="Depth"
+                    sortKey="depth"
+                    className="text-right"
+                    {...sortProps}
+                  />
+                  <SortableHead
+                    label="Failed"
+                    sortKey="failed"
+                    className="text-right"
+                    {...sortProps}
+                  />
+                  <SortableHead
+                    label="Duration"
+                    sortKey="duration"
+                    className="text-right"
+                    {...sortProps}
+                  />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {traces.map((t) => (
+                  <TableRow
+                    key={t.trace_id}
+                    onClick={() =>
+                      router.push(`/traces/${encodeURIComponent(t.trace_id)}`)
+                    }
+                  >
+                    <TableCell>
+                      <Link
+                        href={`/traces/${encodeURIComponent(t.trace_id)}`}
+                        onClick={(e) => e.stopPropagation()}
+                        className="font-mono text-sm text-primary-400 hover:text-primary-300"
+                      >
+                        {t.trace_id}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-neutral-300">
+                      {t.workflow ?? "—"}
+                    </TableCell>
+                    <TableCell>
+                      {t.started_at ? (
+                        <span
+                          className="text-neutral-400"
+                          title={new Date(t.started_at).toLocaleString()}
+                        >
+                          {formatRelativeTime(t.started_at)}
+                        </span>
+                      ) : (
+                        <span className="text-neutral-600">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-neutral-300">
+                      {formatNumber(t.calls)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-white">
+                      {formatCurrency(t.total_cost)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-neutral-400">
+                      {t.max_depth}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {t.failed_calls > 0 ? (
+                        <Badge variant="error">{t.failed_calls}</Badge>
+                      ) : (
+                        <span className="text-neutral-500">0</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-neutral-400">
+                      {t.duration_ms != null
+                        ? formatLatency(t.duration_ms)
+                        : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {(page > 0 || hasMore) && (
+              <div className="flex flex-col gap-3 border-t border-neutral-800 px-4 py-4 sm:flex-row sm:items-center sm:justify-between sm:px-6">
+                <p className="text-sm text-neutral-400">
+                  Showing {page * PAGE_SIZE + 1} to{" "}
+                  {page * PAGE_SIZE + traces.length}
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setPage(Math.max(0, page - 1))}
+                    disabled={page === 0}
+                    className="min-h-11 rounded-lg border border-neutral-700 bg-neutral-800/50 px-3 py-1.5 text-sm font-medium text-neutral-200 hover:border-neutral-600 disabled:opacity-50 sm:min-h-0"
+                  >
+                    Previous
+                  </button>
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={!hasMore}
+                    className="min-h-11 rounded-lg border border-neutral-700 bg-neutral-800/50 px-3 py-1.5 text-sm font-medium text-neutral-200 hover:border-neutral-600 disabled:opacity-50 sm:min-h-0"
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="flex h-64 flex-col items-center justify-center gap-2 text-neutral-500">
+            <GitBranch size={20} aria-hidden />
+            No traced runs in this window
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 "use client";
 
 import { useState, useEffect, useMemo } from "react";
+import Link from "next/link";
 import { Card } from "@/components/ui/Card";
+import { ApiErrorState } from "@/components/ui/ApiErrorState";
 import { TimeRangeSelector } from "@/components/layout/TimeRangeSelector";
 import {
   Table,
@@ -16,6 +18,7 @@ import { TableSkeleton } from "@/components/ui/Skeleton";
 import { HeroStatCard } from "@/components/dashboard/HeroStatCard";
 import {
   api,
+  isAbortError,
   WorkflowStats,
   StepStats,
   ToolStats,
@@ -25,7 +28,9 @@ import {
 } from "@/lib/api";
 import { RunCostDistribution } from "@/components/charts/RunCostDistribution";
 import { PreDeploymentCard } from "@/components/dashboard/PreDeploymentCard";
+import { CacheSimulator } from "@/components/workflows/CacheSimulator";
 import { formatCurrency, formatNumber, formatLatency } from "@/lib/utils";
+import { timeRangeParams } from "@/lib/timeRange";
 import {
   Workflow as WorkflowIcon,
   DollarSign,
@@ -40,6 +45,9 @@ import {
   OnboardingScreen,
   LoadingSpinner,
 } from "@/hooks/useApiConfiguration";
+import { useDisplayCurrency } from "@/contexts/DisplayCurrencyContext";
+import { useApiData } from "@/hooks/useApiData";
+import { useQueryState, useQueryTimeRange } from "@/hooks/useQueryState";
 
 /**
  * A step running more than once per run is the loop signal. One extra call
@@ -80,88 +88,60 @@ function EmptyState() {
 
 export default function WorkflowsPage() {
   const { isConfigured } = useApiConfiguration();
-  const [timeRange, setTimeRange] = useState("7d");
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [showOnboarding, setShowOnboarding] = useState(false);
-
-  const [workflows, setWorkflows] = useState<WorkflowStats[]>([]);
-  const [steps, setSteps] = useState<StepStats[]>([]);
-  const [tools, setTools] = useState<ToolStats[]>([]);
-  const [repeats, setRepeats] = useState<RepeatedWorkFinding[]>([]);
-  const [outcomes, setOutcomes] = useState<OutcomeStats[]>([]);
-  const [distribution, setDistribution] = useState<Distribution | null>(null);
-  // null = "whichever workflow spends most", which is what the server picks.
-  const [focusWorkflow, setFocusWorkflow] = useState<string | null>(null);
+  const { fx } = useDisplayCurrency();
+  const [timeRange, setTimeRange] = useQueryTimeRange();
+  // "" = "whichever workflow spends most", which is what the server picks.
+  const [focusWorkflow, setFocusWorkflow] = useQueryState("workflow", "");
   const [showPreDeploy, setShowPreDeploy] = useState(false);
+  const [distribution, setDistribution] = useState<Distribution | null>(null);
 
-  useEffect(() => {
-    async function fetchData() {
-      if (!api.hasProjectAccess()) {
-        setLoading(false);
-        return;
-      }
-
-      setLoading(true);
-      setError(null);
-
-      try {
-        const [workflowData, stepData, toolData, repeatData, outcomeData] =
-          await Promise.all([
-            api.getWorkflowStats(timeRange, 20),
-            api.getStepStats(timeRange, undefined, 50),
-            api.getToolStats(timeRange, 25),
-            api.getRepeatedWork(timeRange, 15),
-            api.getOutcomeStats(timeRange, 20),
-          ]);
-        setWorkflows(workflowData);
-        setSteps(stepData);
-        setTools(toolData);
-        setRepeats(repeatData);
-        setOutcomes(outcomeData);
-        setShowOnboarding(false);
-      } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : "Failed to fetch data";
-        if (
-          errorMessage.includes("401") ||
-          errorMessage.includes("Invalid API key")
-        ) {
-          setShowOnboarding(true);
-          setError(null);
-        } else {
-          setError(errorMessage);
-        }
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    fetchData();
-  }, [timeRange]);
+  const {
+    data: { workflows, steps, tools, repeats, outcomes },
+    loading,
+    error,
+    refetch,
+  } = useApiData(
+    async (signal) => {
+      const [workflows, steps, tools, repeats, outcomes] = await Promise.all([
+        api.getWorkflowStats(timeRange, 20, signal),
+        api.getStepStats(timeRange, undefined, 50, signal),
+        api.getToolStats(timeRange, 25, signal),
+        api.getRepeatedWork(timeRange, 15, signal),
+        api.getOutcomeStats(timeRange, 20, signal),
+      ]);
+      return { workflows, steps, tools, repeats, outcomes };
+    },
+    [timeRange],
+    {
+      workflows: [] as WorkflowStats[],
+      steps: [] as StepStats[],
+      tools: [] as ToolStats[],
+      repeats: [] as RepeatedWorkFinding[],
+      outcomes: [] as OutcomeStats[],
+    },
+  );
 
   // Kept apart from the main fetch: picking a different workflow should
-  // re-draw the chart, not reload the four tables under it.
+  // re-draw the chart, not reload the four tables under it. The chart owns
+  // the workflow picker, so the previous distribution stays up until the
+  // next one arrives rather than unmounting the picker mid-choice.
   useEffect(() => {
-    let cancelled = false;
-    async function fetchDistribution() {
-      if (!api.hasProjectAccess()) return;
-      try {
-        const data = await api.getRunCostDistribution(
-          timeRange,
-          focusWorkflow ?? undefined,
-        );
-        if (!cancelled) setDistribution(data);
-      } catch {
+    if (!api.hasProjectAccess()) return;
+    const controller = new AbortController();
+    api
+      .getRunCostDistribution(
+        timeRange,
+        focusWorkflow || undefined,
+        24,
+        controller.signal,
+      )
+      .then(setDistribution)
+      .catch((err) => {
         // The tables below are the page's job; a missing chart must not
         // surface an error banner over data that loaded fine.
-        if (!cancelled) setDistribution(null);
-      }
-    }
-    fetchDistribution();
-    return () => {
-      cancelled = true;
-    };
+        if (!isAbortError(err)) setDistribution(null);
+      });
+    return () => controller.abort();
   }, [timeRange, focusWorkflow]);
 
   const summary = useMemo(() => {
@@ -177,7 +157,8 @@ export default function WorkflowsPage() {
     return { totalCost, totalRuns, wasted, priciest, loopingSteps };
   }, [workflows, repeats, steps]);
 
-  if (isConfigured === false || showOnboarding) return <OnboardingScreen />;
+  if (isConfigured === false || error?.kind === "unauthorized")
+    return <OnboardingScreen />;
   if (isConfigured === null) return <LoadingSpinner />;
 
   const hasData = workflows.length > 0;
@@ -218,11 +199,7 @@ export default function WorkflowsPage() {
         </Card>
       )}
 
-      {error && (
-        <Card className="border-red-900/50 bg-red-950/20">
-          <p className="text-red-400">{error}</p>
-        </Card>
-      )}
+      {error && <ApiErrorState error={error} onRetry={refetch} />}
 
       {/* Summary */}
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-4">
@@ -236,6 +213,7 @@ export default function WorkflowsPage() {
         <HeroStatCard
           label="Traced Spend"
           value={formatCurrency(summary.totalCost)}
+          fx={fx}
           sub={
             summary.totalRuns > 0
               ? `${formatCurrency(summary.totalCost / summary.totalRuns)} per run blended`
@@ -258,6 +236,7 @@ export default function WorkflowsPage() {
         <HeroStatCard
           label="Repeated Work"
           value={formatCurrency(summary.wasted)}
+          fx={fx}
           sub={
             repeats.length > 0
               ? `${repeats.length} spot${repeats.length === 1 ? "" : "s"} inside single runs`
@@ -277,9 +256,23 @@ export default function WorkflowsPage() {
         <Card padding="none">
           <RunCostDistribution
             data={distribution}
-            workflows={workflows.map((w) => w.workflow)}
+            workflows={
+              // A deep-linked workflow outside the top 20 still gets a chip.
+              focusWorkflow &&
+              !workflows.some((w) => w.workflow === focusWorkflow)
+                ? [...workflows.map((w) => w.workflow), focusWorkflow]
+                : workflows.map((w) => w.workflow)
+            }
             selected={distribution.workflow}
             onSelect={setFocusWorkflow}
+            tailHref={`/traces?${timeRangeParams(
+              timeRange,
+              new URLSearchParams({
+                workflow: distribution.workflow ?? "",
+                min_cost: String(distribution.tail_threshold),
+                sort: "cost",
+              }),
+            ).toString()}`}
           />
         </Card>
       )}
@@ -316,7 +309,14 @@ export default function WorkflowsPage() {
               </TableHeader>
               <TableBody>
                 {workflows.map((w) => (
-                  <TableRow key={w.workflow}>
+                  <TableRow
+                    key={w.workflow}
+                    className={
+                      w.workflow === focusWorkflow
+                        ? "bg-primary-900/20 hover:bg-primary-900/30"
+                        : undefined
+                    }
+                  >
                     <TableCell className="font-medium text-white">
                       {w.workflow}
                     </TableCell>
@@ -505,6 +505,7 @@ export default function WorkflowsPage() {
                   <TableHead className="text-right">Repeats</TableHead>
                   <TableHead className="text-right">Spent</TableHead>
                   <TableHead className="text-right">Avoidable</TableHead>
+                  <TableHead>Run</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -526,6 +527,14 @@ export default function WorkflowsPage() {
                     <TableCell className="text-right text-amber-400">
                       {formatCurrency(r.wasted_cost)}
                     </TableCell>
+                    <TableCell>
+                      <Link
+                        href={`/traces/${encodeURIComponent(r.trace_id)}`}
+                        className="font-mono text-xs text-primary-400 hover:text-primary-300"
+                      >
+                        {r.trace_id}
+                      </Link>
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -534,6 +543,9 @@ export default function WorkflowsPage() {
         </Card>
       )}
 
+      {/* Cache simulator */}
+      {!loading && hasData && <CacheSimulator timeRange={timeRange} />}
+
       {/* Tools */}
       {!loading && tools.length > 0 && (
         <Card padding="none">
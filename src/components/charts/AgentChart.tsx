@@ -9,7 +9,7 @@ import {
   ResponsiveContainer,
   Cell,
 } from "recharts";
-import { formatCurrency } from "@/lib/utils";
+import { formatCurrency, formatCurrencyAxis } from "@/lib/utils";
 
 interface AgentChartProps {
   data: Array<{
@@ -48,7 +48,7 @@ export function AgentChart({ data }: AgentChartProps) {
             axisLine={false}
             tickLine={false}
             tick={{ fill: "#9ca3af", fontSize: 12 }}
-            tickFormatter={(value) => `$${value}`}
+            tickFormatter={(value) => formatCurrencyAxis(value)}
           />
           <YAxis
             type="category"
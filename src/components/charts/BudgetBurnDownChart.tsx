@@ -0,0 +1,355 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+  ReferenceLine,
+} from "recharts";
+import { format } from "date-fns";
+import { cn, dayBucketDate } from "@/lib/utils";
+import type { BudgetCurrency, TimeSeriesPoint } from "@/lib/api";
+import { burnDown, type BurnDownRow } from "@/lib/budgetBurn";
+import type { BudgetPeriod } from "@/lib/budgetPeriod";
+
+const ACTUAL_COLOR = "#38bdf8";
+const PROJECTED_COLOR = "#7dd3fc";
+const IDEAL_COLOR = "#737373";
+const BUDGET_COLOR = "#f87171";
+const THRESHOLD_COLOR = "#fbbf24";
+
+/** Largest share of spend the what-if slider takes off, in percent. */
+const MAX_CUT = 50;
+
+function formatAmount(
+  value: number,
+  currency: BudgetCurrency,
+  digits = 0,
+): string {
+  return new Intl.NumberFormat(currency === "INR" ? "en-IN" : "en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(value);
+}
+
+function dayLabel(iso: string): string {
+  return format(dayBucketDate(iso), "MMM d");
+}
+
+interface ChartRow extends BurnDownRow {
+  tick: string;
+}
+
+interface TooltipPayloadEntry {
+  payload?: ChartRow;
+}
+
+function BurnTooltip({
+  active,
+  payload,
+  currency,
+}: {
+  active?: boolean;
+  payload?: TooltipPayloadEntry[];
+  currency: BudgetCurrency;
+}) {
+  if (!active || !payload?.length || !payload[0].payload) return null;
+  const row = payload[0].payload;
+  const lines = [
+    row.actual != null && {
+      label: "Spent",
+      color: ACTUAL_COLOR,
+      value: row.actual,
+    },
+    row.actual == null &&
+      row.projected != null && {
+        label: "Projected",
+        color: PROJECTED_COLOR,
+        value: row.projected,
+      },
+    { label: "On track", color: IDEAL_COLOR, value: row.ideal },
+  ].filter((l) => l !== false);
+  return (
+    <div className="rounded-xl border border-white/10 bg-[#101016]/95 backdrop-blur-md px-4 py-3 shadow-2xl">
+      <p className="text-[11px] font-medium uppercase tracking-wider text-neutral-500 mb-2">
+        {format(dayBucketDate(row.timestamp), "EEE, MMM d")}
+      </p>
+      <div className="space-y-1.5">
+        {lines.map((l) => (
+          <div
+            key={l.label}
+            className="flex items-center justify-between gap-6"
+          >
+            <span className="flex items-center gap-1.5 text-[12px] text-neutral-400">
+              <span
+                className="h-1.5 w-1.5 rounded-full"
+                style={{ backgroundColor: l.color }}
+              />
+              {l.label}
+            </span>
+            <span className="text-[12.5px] font-medium text-white tabular-nums">
+              {formatAmount(l.value, currency, 2)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface BudgetBurnDownChartProps {
+  /** USD spend in day buckets, from before the period (see burnDownHistoryRange). */
+  history: TimeSeriesPoint[];
+  /** In `currency`. */
+  budget: number;
+  /** Alert thresholds, in percent of the budget. */
+  thresholds: number[];
+  currency: BudgetCurrency;
+  /** USD → `currency`. */
+  fxRate: number;
+  period: BudgetPeriod;
+  /** Names the period in the summary, e.g. "quarter". */
+  periodLabel: string;
+}
+
+/**
+ * Cumulative spend against the straight line to the budget, run on at the
+ * recent pace to the day it runs out. Thresholds are marked on the budget
+ * axis; the slider shows how far a cut in spend would move that day.
+ */
+export function BudgetBurnDownChart({
+  history,
+  budget,
+  thresholds,
+  currency,
+  fxRate,
+  period,
+  periodLabel,
+}: BudgetBurnDownChartProps) {
+  const [cut, setCut] = useState(0);
+
+  const baseline = useMemo(
+    () => burnDown({ history, budget, thresholds, period, fxRate }),
+    [history, budget, thresholds, period, fxRate],
+  );
+  const burn = useMemo(
+    () =>
+      cut > 0
+        ? burnDown({
+            history,
+            budget,
+            thresholds,
+            period,
+            fxRate,
+            cut: cut / 100,
+          })
+        : baseline,
+    [baseline, history, budget, thresholds, period, fxRate, cut],
+  );
+
+  const rows = useMemo(
+    (): ChartRow[] =>
+      burn.rows.map((row) => ({ ...row, tick: dayLabel(row.timestamp) })),
+    [burn],
+  );
+
+  const periodEnd = Date.parse(period.end);
+  const runsOut = burn.exhausted_on;
+  const runsOutInPeriod = runsOut != null && Date.parse(runsOut) < periodEnd;
+  const alreadyOut = burn.spent >= budget;
+  const maxValue = Math.max(budget, burn.projected_total, burn.spent);
+
+  const summary = alreadyOut
+    ? `Budget used up on ${dayLabel(runsOut!)}`
+    : runsOutInPeriod
+      ? `At this pace the budget runs out on ${dayLabel(runsOut!)}, ${Math.round(
+          (periodEnd - Date.parse(runsOut!)) / 86_400_000,
+        )} days before the ${periodLabel} ends`
+      : `At this pace the budget lasts the ${periodLabel}, ending at ${Math.round(
+          (burn.projected_total / budget) * 100,
+        )}%`;
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-baseline justify-between gap-x-4 gap-y-1">
+        <p
+          className={cn(
+            "text-[13px] font-medium",
+            alreadyOut
+              ? "text-red-400"
+              : runsOutInPeriod
+                ? "text-amber-400"
+                : "text-emerald-400",
+          )}
+        >
+          {summary}
+        </p>
+        <p className="text-[12px] text-neutral-500 tabular-nums">
+          {formatAmount(burn.pace, currency, 2)}/day over the last 7 days
+          {cut > 0 && ` after a ${cut}% cut`}
+        </p>
+      </div>
+
+      <div className="h-56 min-w-0 sm:h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            data={rows}
+            margin={{ top: 10, right: 6, left: 6, bottom: 0 }}
+          >
+            <defs>
+              <linearGradient id="burnDownFill" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="0%" stopColor={ACTUAL_COLOR} stopOpacity={0.28} />
+                <stop offset="100%" stopColor={ACTUAL_COLOR} stopOpacity={0} />
+              </linearGradient>
+            </defs>
+            <CartesianGrid
+              strokeDasharray="3 3"
+              stroke="rgba(255,255,255,0.05)"
+              vertical={false}
+            />
+            <XAxis
+              dataKey="tick"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: "#737373", fontSize: 11 }}
+              dy={10}
+              minTickGap={32}
+            />
+            <YAxis
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: "#737373", fontSize: 11 }}
+              domain={[0, maxValue > 0 ? maxValue * 1.08 : 1]}
+              tickFormatter={(v) => formatAmount(v as number, currency)}
+              width={64}
+              tickCount={5}
+            />
+            <Tooltip
+              content={<BurnTooltip currency={currency} />}
+              cursor={{
+                stroke: "rgba(255,255,255,0.15)",
+                strokeDasharray: "4 4",
+              }}
+            />
+            {burn.thresholds
+              .filter((t) => t.percent < 100)
+              .map((t) => (
+                <ReferenceLine
+                  key={t.percent}
+                  y={t.amount}
+                  stroke={THRESHOLD_COLOR}
+                  strokeOpacity={0.35}
+                  strokeDasharray="2 4"
+                  label={{
+                    value: `${t.percent}%`,
+                    position: "insideTopLeft",
+                    fill: "#a3a3a3",
+                    fontSize: 10,
+                  }}
+                />
+              ))}
+            <ReferenceLine
+              y={budget}
+              stroke={BUDGET_COLOR}
+              strokeOpacity={0.7}
+              label={{
+                value: "Budget",
+                position: "insideTopLeft",
+                fill: BUDGET_COLOR,
+                fontSize: 10,
+              }}
+            />
+            {runsOutInPeriod && (
+              <ReferenceLine
+                x={dayLabel(runsOut!)}
+                stroke={BUDGET_COLOR}
+                strokeDasharray="4 4"
+              />
+            )}
+            <Line
+              type="linear"
+              dataKey="ideal"
+              stroke={IDEAL_COLOR}
+              strokeWidth={1}
+              strokeDasharray="5 5"
+              dot={false}
+              activeDot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              type="monotone"
+              dataKey="projected"
+              stroke={PROJECTED_COLOR}
+              strokeWidth={1.5}
+              strokeDasharray="5 4"
+              dot={false}
+              activeDot={false}
+              isAnimationActive={false}
+            />
+            <Area
+              type="monotone"
+              dataKey="actual"
+              stroke={ACTUAL_COLOR}
+              strokeWidth={2}
+              fill="url(#burnDownFill)"
+              activeDot={{
+                r: 4,
+                fill: ACTUAL_COLOR,
+                stroke: "#0a0a0b",
+                strokeWidth: 2,
+              }}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-4 flex flex-col gap-3 border-t border-white/6 pt-3 sm:flex-row sm:items-center sm:justify-between">
+        <label className="flex items-center gap-3 text-[12px] text-neutral-400">
+          What if spend dropped by
+          <input
+            type="range"
+            min={0}
+            max={MAX_CUT}
+            step={5}
+            value={cut}
+            onChange={(e) => setCut(Number(e.target.value))}
+            disabled={alreadyOut}
+            className="w-32 accent-sky-400 disabled:opacity-40"
+          />
+          <span className="w-9 font-medium text-neutral-200 tabular-nums">
+            {cut}%
+          </span>
+        </label>
+        {cut > 0 && !alreadyOut && (
+          <p className="text-[12px] text-neutral-500 tabular-nums">
+            {baseline.exhausted_on
+              ? `Runs out ${dayLabel(baseline.exhausted_on)}`
+              : "Never runs out"}{" "}
+            →{" "}
+            <span className="font-medium text-neutral-200">
+              {runsOut ? dayLabel(runsOut) : "never"}
+            </span>
+            , {formatAmount(burn.projected_total, currency)} by the end of the{" "}
+            {periodLabel}
+          </p>
+        )}
+      </div>
+      {burn.thresholds.some((t) => t.crossed_on) && (
+        <p className="mt-2 text-[11px] text-neutral-500">
+          {burn.thresholds
+            .filter((t) => t.crossed_on)
+            .map((t) => `${t.percent}% on ${dayLabel(t.crossed_on!)}`)
+            .join(" · ")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -10,7 +10,11 @@ import {
   CartesianGrid,
 } from "recharts";
 import { format } from "date-fns";
-import { formatCurrency, dayBucketDate } from "@/lib/utils";
+import {
+  formatCurrency,
+  formatCurrencyAxis,
+  dayBucketDate,
+} from "@/lib/utils";
 
 interface CostChartProps {
   data: Array<{
@@ -61,13 +65,7 @@ export function CostChart({ data }: CostChartProps) {
             tickLine={false}
             tick={{ fill: "#9ca3af", fontSize: 11 }}
             domain={yDomain}
-            tickFormatter={(value) => {
-              if (value === 0) return "$0";
-              if (value >= 1000) return `$${(value / 1000).toFixed(1)}k`;
-              if (value >= 1) return `$${value.toFixed(0)}`;
-              if (value >= 0.01) return `$${value.toFixed(2)}`;
-              return `$${value.toFixed(4)}`;
-            }}
+            tickFormatter={(value) => formatCurrencyAxis(value)}
             width={55}
             tickCount={5}
           />
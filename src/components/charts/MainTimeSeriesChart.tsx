@@ -4,6 +4,7 @@ import { useMemo, useState } from "react";
 import {
   ComposedChart,
   Area,
+  Line,
   XAxis,
   YAxis,
   Tooltip,
@@ -12,8 +13,18 @@ import {
   ReferenceLine,
 } from "recharts";
 import { format } from "date-fns";
-import { formatCurrency, formatNumber, cn, dayBucketDate } from "@/lib/utils";
+import {
+  formatCurrency,
+  formatCurrencyAxis,
+  formatNumber,
+  cn,
+  dayBucketDate,
+} from "@/lib/utils";
 import type { TimeSeriesPoint } from "@/lib/api";
+import { isHourlyRange, type TimeRange } from "@/lib/timeRange";
+import { projectedDaysAfter, type SpendForecast } from "@/lib/forecast";
+import { describeAnomaly, type Anomaly } from "@/lib/anomalies";
+import { FxNote } from "@/components/ui/FxNote";
 
 type Metric = "cost" | "calls" | "tokens";
 
@@ -29,30 +40,92 @@ const METRICS: {
 ];
 
 function axisTickFormat(metric: Metric, value: number): string {
-  if (metric === "cost") {
-    if (value >= 1000) return `$${(value / 1000).toFixed(1)}k`;
-    if (value >= 1) return `$${value.toFixed(0)}`;
-    return value === 0 ? "$0" : `$${value.toFixed(2)}`;
-  }
+  if (metric === "cost") return formatCurrencyAxis(value);
   if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
   if (value >= 1000) return `${(value / 1000).toFixed(0)}k`;
   return `${value}`;
 }
 
+const FORECAST_COLOR = "#7dd3fc";
+const ANOMALY_COLOR = "#f87171";
+
+interface ChartRow extends Partial<Record<Metric, number>> {
+  timestamp: string;
+  label: string;
+  tick: string;
+  /** The same bucket of the previous window, when comparing. */
+  previous?: TimeSeriesPoint & { label: string };
+  /**
+   * Projected spend. Days still to come carry only this; the last real day
+   * carries its own cost, so the projection starts from it.
+   */
+  projection?: { p10: number; p50: number; p90: number };
+  /** Cost spikes detected in this bucket. */
+  anomalies?: Anomaly[];
+}
+
+/**
+ * The anomalies of each bucket of `data`, by index: each goes to the
+ * bucket it falls in, so one a few seconds off the chart's own timestamps
+ * still lands.
+ */
+function bucketAnomalies(
+  data: TimeSeriesPoint[],
+  anomalies: Anomaly[],
+): (Anomaly[] | undefined)[] {
+  const starts = data.map((p) => Date.parse(p.timestamp));
+  const width = starts.length > 1 ? starts[1] - starts[0] : 0;
+  const out: (Anomaly[] | undefined)[] = data.map(() => undefined);
+  for (const a of anomalies) {
+    const at = Date.parse(a.timestamp);
+    const i = starts.findIndex((s) => Math.abs(at - s) <= width / 2);
+    if (i >= 0) (out[i] ??= []).push(a);
+  }
+  return out;
+}
+
 interface TooltipPayloadEntry {
-  payload?: TimeSeriesPoint & { label: string };
+  payload?: ChartRow;
 }
 
 /** Dark glass tooltip showing all three metrics for the hovered point. */
 function ChartTooltip({
   active,
   payload,
+  hourly = false,
 }: {
   active?: boolean;
   payload?: TooltipPayloadEntry[];
+  hourly?: boolean;
 }) {
   if (!active || !payload?.length || !payload[0].payload) return null;
   const point = payload[0].payload;
+  if (point.cost === undefined && point.projection) {
+    return (
+      <div className="rounded-xl border border-white/10 bg-[#101016]/95 backdrop-blur-md px-4 py-3 shadow-2xl">
+        <p className="text-[11px] font-medium uppercase tracking-wider text-neutral-500 mb-2">
+          {point.label} · projected
+        </p>
+        <div className="flex items-center justify-between gap-6">
+          <span className="flex items-center gap-1.5 text-[12px] text-neutral-400">
+            <span
+              className="h-1.5 w-1.5 rounded-full"
+              style={{ backgroundColor: FORECAST_COLOR }}
+            />
+            Spend
+          </span>
+          <span className="text-[12.5px] font-medium text-white tabular-nums">
+            {formatCurrency(point.projection.p50)}
+          </span>
+        </div>
+        <p className="mt-2 border-t border-white/6 pt-2 text-[11px] text-neutral-500 tabular-nums">
+          p10–p90 {formatCurrency(point.projection.p10)} –{" "}
+          {formatCurrency(point.projection.p90)}
+        </p>
+        <FxNote className="mt-1" />
+      </div>
+    );
+  }
   return (
     <div className="rounded-xl border border-white/10 bg-[#101016]/95 backdrop-blur-md px-4 py-3 shadow-2xl">
       <p className="text-[11px] font-medium uppercase tracking-wider text-neutral-500 mb-2">
@@ -69,11 +142,36 @@ function ChartTooltip({
               {m.label}
             </span>
             <span className="text-[12.5px] font-medium text-white tabular-nums">
-              {m.format(point[m.key])}
+              {m.format(point[m.key] ?? 0)}
+              {point.previous && (
+                <span className="ml-2 font-normal text-neutral-500">
+                  {m.format(point.previous[m.key])}
+                </span>
+              )}
             </span>
           </div>
         ))}
       </div>
+      {point.previous && (
+        <p className="mt-2 border-t border-white/6 pt-2 text-[11px] text-neutral-500">
+          vs {point.previous.label}
+        </p>
+      )}
+      {point.anomalies && (
+        <div className="mt-2 max-w-72 space-y-1 border-t border-white/6 pt-2">
+          {point.anomalies.slice(0, 3).map((a) => (
+            <p key={a.id} className="text-[11px] text-red-300">
+              {describeAnomaly(a, hourly ? "hour" : "day")}
+            </p>
+          ))}
+          {point.anomalies.length > 3 && (
+            <p className="text-[11px] text-neutral-500">
+              +{point.anomalies.length - 3} more
+            </p>
+          )}
+        </div>
+      )}
+      <FxNote className="mt-2 border-t border-white/6 pt-2" />
     </div>
   );
 }
@@ -81,40 +179,105 @@ function ChartTooltip({
 interface MainTimeSeriesChartProps {
   data: TimeSeriesPoint[];
   /** Active range, e.g. "24h" — controls x-axis label format. */
-  range: string;
+  range: TimeRange;
+  /**
+   * The window of equal length before `range`, overlaid bucket by bucket
+   * while `compare` is on.
+   */
+  previous?: TimeSeriesPoint[];
+  compare?: boolean;
+  /** Shows the "Compare to previous period" toggle. */
+  onCompareChange?: (compare: boolean) => void;
+  /**
+   * Drawn on day buckets while Spend is selected: the days left in the
+   * month, with the month and quarter totals below the chart.
+   */
+  forecast?: SpendForecast | null;
+  /** Marked on the Spend line, and listed in the tooltip of their bucket. */
+  anomalies?: Anomaly[];
 }
 
 /**
  * Full-width activity chart with a Spend / Calls / Tokens switcher, a dashed
  * period-average reference line, and a tooltip that always shows all three
- * metrics regardless of the selected series.
+ * metrics regardless of the selected series. Given a forecast, Spend runs on
+ * past the last bucket as a dashed projection inside its p10–p90 band.
  */
-export function MainTimeSeriesChart({ data, range }: MainTimeSeriesChartProps) {
+export function MainTimeSeriesChart({
+  data,
+  range,
+  previous,
+  compare = false,
+  onCompareChange,
+  forecast,
+  anomalies,
+}: MainTimeSeriesChartProps) {
   const [metric, setMetric] = useState<Metric>("cost");
   const active = METRICS.find((m) => m.key === metric)!;
-  const hourly = range === "1h" || range === "24h";
-
-  const formattedData = useMemo(
-    () =>
-      data.map((item) => {
-        // Hour buckets read naturally in the viewer's zone; day buckets must
-        // keep their UTC calendar date (see dayBucketDate).
-        const d = hourly ? new Date(item.timestamp) : dayBucketDate(item.timestamp);
-        return {
-          ...item,
-          label: format(d, hourly ? "MMM d, HH:mm" : "EEE, MMM d"),
-          tick: format(d, hourly ? "HH:mm" : "MMM d"),
-        };
-      }),
-    [data, hourly],
-  );
+  const hourly = isHourlyRange(range);
+  const projecting = !!forecast && !hourly && metric === "cost";
+
+  const formattedData = useMemo((): ChartRow[] => {
+    // Hour buckets read naturally in the viewer's zone; day buckets must
+    // keep their UTC calendar date (see dayBucketDate).
+    const bucketDate = (iso: string) =>
+      hourly ? new Date(iso) : dayBucketDate(iso);
+    const labelFormat = hourly ? "MMM d, HH:mm" : "EEE, MMM d";
+    // Aligned from the end, so both windows' latest buckets line up when the
+    // previous one came back a bucket short or long.
+    const offset = (previous?.length ?? 0) - data.length;
+    const spikes = bucketAnomalies(data, anomalies ?? []);
+    const rows: ChartRow[] = data.map((item, i) => {
+      const d = bucketDate(item.timestamp);
+      const prev = compare ? previous?.[i + offset] : undefined;
+      return {
+        ...item,
+        label: format(d, labelFormat),
+        tick: format(d, hourly ? "HH:mm" : "MMM d"),
+        previous: prev && {
+          ...prev,
+          label: format(bucketDate(prev.timestamp), labelFormat),
+        },
+        anomalies: spikes[i],
+      };
+    });
+    const last = rows[rows.length - 1];
+    if (!projecting || !forecast || !last) return rows;
+
+    const ahead = projectedDaysAfter(forecast, last.timestamp);
+    if (ahead.length === 0) return rows;
+    const cost = last.cost ?? 0;
+    rows[rows.length - 1] = {
+      ...last,
+      projection: { p10: cost, p50: cost, p90: cost },
+    };
+    for (const { timestamp, p10, p50, p90 } of ahead) {
+      const d = dayBucketDate(timestamp);
+      rows.push({
+        timestamp,
+        label: format(d, labelFormat),
+        tick: format(d, "MMM d"),
+        projection: { p10, p50, p90 },
+      });
+    }
+    return rows;
+  }, [data, previous, compare, hourly, projecting, forecast, anomalies]);
 
   const average = useMemo(() => {
     if (data.length === 0) return 0;
     return data.reduce((s, d) => s + d[metric], 0) / data.length;
   }, [data, metric]);
 
-  const maxValue = Math.max(...data.map((d) => d[metric]), 0);
+  const maxValue = Math.max(
+    ...formattedData.map((d) =>
+      Math.max(
+        d[metric] ?? 0,
+        d.previous?.[metric] ?? 0,
+        d.projection?.p90 ?? 0,
+      ),
+    ),
+    0,
+  );
 
   return (
     <div>
@@ -137,12 +300,50 @@ export function MainTimeSeriesChart({ data, range }: MainTimeSeriesChartProps) {
             </button>
           ))}
         </div>
-        <div className="flex items-center gap-2 text-[12px] text-neutral-500">
-          <span
-            className="inline-block h-0 w-5 border-t border-dashed"
-            style={{ borderColor: "#525252" }}
-          />
-          period average
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-[12px] text-neutral-500">
+          {projecting && formattedData.some((d) => d.cost === undefined) && (
+            <span className="flex items-center gap-2">
+              <span
+                className="inline-block h-2.5 w-5 rounded-sm border-t-2 border-dashed"
+                style={{
+                  borderColor: FORECAST_COLOR,
+                  backgroundColor: "rgba(125,211,252,0.15)",
+                }}
+              />
+              projected (p10–p90)
+            </span>
+          )}
+          {compare && (
+            <span className="flex items-center gap-2">
+              <span
+                className="inline-block h-0 w-5 border-t-2 border-dashed"
+                style={{ borderColor: "#a3a3a3" }}
+              />
+              previous period
+            </span>
+          )}
+          <span className="flex items-center gap-2">
+            <span
+              className="inline-block h-0 w-5 border-t border-dashed"
+              style={{ borderColor: "#525252" }}
+            />
+            period average
+          </span>
+          {onCompareChange && (
+            <button
+              type="button"
+              onClick={() => onCompareChange(!compare)}
+              aria-pressed={compare}
+              className={cn(
+                "rounded-lg border px-2.5 py-1 text-[12px] font-medium transition-colors",
+                compare
+                  ? "border-white/15 bg-white/8 text-white"
+                  : "border-white/6 text-neutral-500 hover:text-neutral-300",
+              )}
+            >
+              Compare to previous period
+            </button>
+          )}
         </div>
       </div>
 
@@ -182,7 +383,7 @@ export function MainTimeSeriesChart({ data, range }: MainTimeSeriesChartProps) {
               tickCount={5}
             />
             <Tooltip
-              content={<ChartTooltip />}
+              content={<ChartTooltip hourly={hourly} />}
               cursor={{
                 stroke: "rgba(255,255,255,0.15)",
                 strokeDasharray: "4 4",
@@ -194,6 +395,43 @@ export function MainTimeSeriesChart({ data, range }: MainTimeSeriesChartProps) {
               strokeDasharray="5 5"
               strokeWidth={1}
             />
+            {compare && (
+              <Line
+                type="monotone"
+                dataKey={(row: ChartRow) => row.previous?.[metric]}
+                stroke="#a3a3a3"
+                strokeWidth={1.5}
+                strokeDasharray="5 4"
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            )}
+            {projecting && (
+              <Area
+                type="monotone"
+                dataKey={(row: ChartRow) =>
+                  row.projection && [row.projection.p10, row.projection.p90]
+                }
+                stroke="none"
+                fill={FORECAST_COLOR}
+                fillOpacity={0.15}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            )}
+            {projecting && (
+              <Line
+                type="monotone"
+                dataKey={(row: ChartRow) => row.projection?.p50}
+                stroke={FORECAST_COLOR}
+                strokeWidth={1.5}
+                strokeDasharray="5 4"
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            )}
             <Area
               type="monotone"
               dataKey={metric}
@@ -207,9 +445,52 @@ export function MainTimeSeriesChart({ data, range }: MainTimeSeriesChartProps) {
                 strokeWidth: 2,
               }}
             />
+            {metric === "cost" && anomalies && anomalies.length > 0 && (
+              <Line
+                dataKey="cost"
+                stroke="none"
+                legendType="none"
+                activeDot={false}
+                isAnimationActive={false}
+                dot={({ cx, cy, index, payload }) =>
+                  (payload as ChartRow).anomalies ? (
+                    <circle
+                      key={index}
+                      cx={cx}
+                      cy={cy}
+                      r={4.5}
+                      fill={ANOMALY_COLOR}
+                      stroke="#0a0a0b"
+                      strokeWidth={2}
+                    />
+                  ) : (
+                    <g key={index} />
+                  )
+                }
+              />
+            )}
           </ComposedChart>
         </ResponsiveContainer>
       </div>
+
+      {forecast && (
+        <div className="mt-4 flex flex-wrap gap-x-8 gap-y-2 border-t border-white/6 pt-3 text-[12px] text-neutral-500">
+          {[forecast.month, forecast.quarter].map((period) => (
+            <span key={period.label} className="tabular-nums">
+              End of {period.label}:{" "}
+              <span className="font-medium text-neutral-200">
+                {formatCurrency(period.p50)}
+              </span>{" "}
+              ({formatCurrency(period.p10)} – {formatCurrency(period.p90)})
+            </span>
+          ))}
+          <span>
+            {forecast.method === "holt-winters"
+              ? `Weekly pattern and trend over ${forecast.history_days} days`
+              : `Run-rate over ${forecast.history_days} days`}
+          </span>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,331 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+  ReferenceLine,
+} from "recharts";
+import { format } from "date-fns";
+import { dayBucketDate, formatCurrency, formatCurrencyAxis } from "@/lib/utils";
+import type { RecommendationOutcome } from "@/lib/api";
+
+const COST_COLOR = "#38bdf8";
+const BASELINE_COLOR = "#737373";
+const ACTUAL_COLOR = "#34d399";
+const ESTIMATED_COLOR = "#a78bfa";
+
+interface OutcomeRow {
+  date: string;
+  tick: string;
+  cost: number;
+  baseline?: number;
+  /** Savings since implementation, through the end of the day. */
+  saved?: number;
+  expected?: number;
+}
+
+/**
+ * Day rows for the charts. Savings accumulate from the first day with a
+ * baseline; the estimate accrues evenly at a thirtieth of the monthly figure.
+ */
+function outcomeRows(outcome: RecommendationOutcome): OutcomeRow[] {
+  const perDay = outcome.estimated_monthly_savings / 30;
+  let saved = 0;
+  let days = 0;
+  return outcome.daily.map((p) => {
+    const row: OutcomeRow = {
+      date: p.date,
+      tick: format(dayBucketDate(p.date), "MMM d"),
+      cost: p.cost,
+    };
+    if (p.baseline_cost != null) {
+      saved += p.baseline_cost - p.cost;
+      days += 1;
+      row.baseline = p.baseline_cost;
+      row.saved = saved;
+      row.expected = perDay * days;
+    }
+    return row;
+  });
+}
+
+interface Series {
+  key: keyof OutcomeRow;
+  label: string;
+  color: string;
+  dashed?: boolean;
+}
+
+interface TooltipPayloadEntry {
+  payload?: OutcomeRow;
+}
+
+function OutcomeTooltip({
+  active,
+  payload,
+  lines,
+}: {
+  active?: boolean;
+  payload?: TooltipPayloadEntry[];
+  lines: Series[];
+}) {
+  if (!active || !payload?.length || !payload[0].payload) return null;
+  const row = payload[0].payload;
+  const shown = lines.filter((l) => row[l.key] != null);
+  return (
+    <div className="rounded-xl border border-white/10 bg-[#101016]/95 backdrop-blur-md px-4 py-3 shadow-2xl">
+      <p className="text-[11px] font-medium uppercase tracking-wider text-neutral-500 mb-2">
+        {format(dayBucketDate(row.date), "EEE, MMM d")}
+      </p>
+      <div className="space-y-1.5">
+        {shown.map((l) => (
+          <div key={l.key} className="flex items-center justify-between gap-6">
+            <span className="flex items-center gap-1.5 text-[12px] text-neutral-400">
+              <span
+                className="h-1.5 w-1.5 rounded-full"
+                style={{ backgroundColor: l.color }}
+              />
+              {l.label}
+            </span>
+            <span className="text-[12.5px] font-medium text-white tabular-nums">
+              {formatCurrency(row[l.key] as number)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const COST_SERIES: Series[] = [
+  { key: "cost", label: "Cost", color: COST_COLOR },
+  {
+    key: "baseline",
+    label: "Without the change",
+    color: BASELINE_COLOR,
+    dashed: true,
+  },
+];
+
+const SAVINGS_SERIES: Series[] = [
+  { key: "saved", label: "Saved", color: ACTUAL_COLOR },
+  { key: "expected", label: "Estimated", color: ESTIMATED_COLOR, dashed: true },
+];
+
+const axisProps = {
+  axisLine: false,
+  tickLine: false,
+  tick: { fill: "#737373", fontSize: 11 },
+} as const;
+
+function Legend({ items }: { items: Series[] }) {
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-1">
+      {items.map((i) => (
+        <span
+          key={i.label}
+          className="flex items-center gap-1.5 text-[11px] text-neutral-500"
+        >
+          <span
+            className="h-0 w-3 border-t-2"
+            style={{
+              borderColor: i.color,
+              borderStyle: i.dashed ? "dashed" : "solid",
+            }}
+          />
+          {i.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * The changed scope's daily cost around the implementation date, against
+ * what its traffic would have cost before; and the savings that adds up to,
+ * against the recommendation's estimate.
+ */
+export function RecommendationOutcomeChart({
+  outcome,
+}: {
+  outcome: RecommendationOutcome;
+}) {
+  const rows = useMemo(() => outcomeRows(outcome), [outcome]);
+  const implementedTick = rows.find((r) => r.baseline != null)?.tick;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="min-w-0">
+        <div className="mb-2 flex flex-wrap items-baseline justify-between gap-2">
+          <p className="text-[12px] font-medium text-neutral-300">
+            Daily cost, before and after
+          </p>
+          <Legend items={COST_SERIES} />
+        </div>
+        <div className="h-52">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart
+              data={rows}
+              margin={{ top: 10, right: 6, left: 6, bottom: 0 }}
+            >
+              <defs>
+                <linearGradient
+                  id="outcomeCostFill"
+                  x1="0"
+                  y1="0"
+                  x2="0"
+                  y2="1"
+                >
+                  <stop offset="0%" stopColor={COST_COLOR} stopOpacity={0.25} />
+                  <stop offset="100%" stopColor={COST_COLOR} stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke="rgba(255,255,255,0.05)"
+                vertical={false}
+              />
+              <XAxis dataKey="tick" {...axisProps} dy={10} minTickGap={32} />
+              <YAxis
+                {...axisProps}
+                tickFormatter={(v) => formatCurrencyAxis(v as number)}
+                width={56}
+                tickCount={5}
+              />
+              <Tooltip
+                content={<OutcomeTooltip lines={COST_SERIES} />}
+                cursor={{
+                  stroke: "rgba(255,255,255,0.15)",
+                  strokeDasharray: "4 4",
+                }}
+              />
+              {implementedTick && (
+                <ReferenceLine
+                  x={implementedTick}
+                  stroke="#fbbf24"
+                  strokeDasharray="4 4"
+                  label={{
+                    value: "Implemented",
+                    position: "insideTopLeft",
+                    fill: "#fbbf24",
+                    fontSize: 10,
+                  }}
+                />
+              )}
+              <Line
+                type="monotone"
+                dataKey="baseline"
+                stroke={BASELINE_COLOR}
+                strokeWidth={1.5}
+                strokeDasharray="5 4"
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+              <Area
+                type="monotone"
+                dataKey="cost"
+                stroke={COST_COLOR}
+                strokeWidth={2}
+                fill="url(#outcomeCostFill)"
+                activeDot={{
+                  r: 4,
+                  fill: COST_COLOR,
+                  stroke: "#0a0a0b",
+                  strokeWidth: 2,
+                }}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="min-w-0">
+        <div className="mb-2 flex flex-wrap items-baseline justify-between gap-2">
+          <p className="text-[12px] font-medium text-neutral-300">
+            Savings to date
+          </p>
+          <Legend items={SAVINGS_SERIES} />
+        </div>
+        <div className="h-52">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart
+              data={rows.filter((r) => r.saved != null)}
+              margin={{ top: 10, right: 6, left: 6, bottom: 0 }}
+            >
+              <defs>
+                <linearGradient
+                  id="outcomeSavedFill"
+                  x1="0"
+                  y1="0"
+                  x2="0"
+                  y2="1"
+                >
+                  <stop
+                    offset="0%"
+                    stopColor={ACTUAL_COLOR}
+                    stopOpacity={0.25}
+                  />
+                  <stop
+                    offset="100%"
+                    stopColor={ACTUAL_COLOR}
+                    stopOpacity={0}
+                  />
+                </linearGradient>
+              </defs>
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke="rgba(255,255,255,0.05)"
+                vertical={false}
+              />
+              <XAxis dataKey="tick" {...axisProps} dy={10} minTickGap={32} />
+              <YAxis
+                {...axisProps}
+                tickFormatter={(v) => formatCurrencyAxis(v as number)}
+                width={56}
+                tickCount={5}
+              />
+              <Tooltip
+                content={<OutcomeTooltip lines={SAVINGS_SERIES} />}
+                cursor={{
+                  stroke: "rgba(255,255,255,0.15)",
+                  strokeDasharray: "4 4",
+                }}
+              />
+              <Line
+                type="linear"
+                dataKey="expected"
+                stroke={ESTIMATED_COLOR}
+                strokeWidth={1.5}
+                strokeDasharray="5 4"
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+              <Area
+                type="monotone"
+                dataKey="saved"
+                stroke={ACTUAL_COLOR}
+                strokeWidth={2}
+                fill="url(#outcomeSavedFill)"
+                activeDot={{
+                  r: 4,
+                  fill: ACTUAL_COLOR,
+                  stroke: "#0a0a0b",
+                  strokeWidth: 2,
+                }}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 "use client";
 
 import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
 import {
   BarChart,
   Bar,
@@ -13,7 +15,13 @@ import {
   ReferenceLine,
 } from "recharts";
 import { formatNumber } from "@/lib/utils";
+import {
+  currencySymbol,
+  getDisplayFx,
+  toDisplayCurrency,
+} from "@/lib/currency";
 import type { RunCostDistribution as Distribution } from "@/lib/api";
+import { FxNote } from "@/components/ui/FxNote";
 
 /**
  * Two colours, both doing a job: one hue for the body of the distribution and
@@ -27,13 +35,15 @@ const BODY = "#0284c7";
 const TAIL = "#d97706";
 
 /** Costs here run from cents to fractions of a cent, so no fixed precision works. */
-function formatCost(value: number): string {
-  if (value === 0) return "$0";
-  if (value >= 100) return `$${value.toFixed(0)}`;
-  if (value >= 1) return `$${value.toFixed(2)}`;
-  if (value >= 0.01) return `$${value.toFixed(3)}`;
-  if (value >= 0.0001) return `$${value.toFixed(5)}`;
-  return `$${value.toExponential(1)}`;
+function formatCost(usd: number): string {
+  const sym = currencySymbol(getDisplayFx().code);
+  const value = toDisplayCurrency(usd);
+  if (value === 0) return `${sym}0`;
+  if (value >= 100) return `${sym}${value.toFixed(0)}`;
+  if (value >= 1) return `${sym}${value.toFixed(2)}`;
+  if (value >= 0.01) return `${sym}${value.toFixed(3)}`;
+  if (value >= 0.0001) return `${sym}${value.toFixed(5)}`;
+  return `${sym}${value.toExponential(1)}`;
 }
 
 interface Bucket {
@@ -64,6 +74,7 @@ function ChartTooltip({
       {bucket.is_tail && (
         <p className="mt-1 text-xs text-amber-400">In the most expensive 5%</p>
       )}
+      <FxNote className="mt-1" />
     </div>
   );
 }
@@ -86,12 +97,16 @@ export function RunCostDistribution({
   workflows,
   selected,
   onSelect,
+  tailHref,
 }: {
   data: Distribution | null;
   workflows: string[];
   selected: string | null;
   onSelect: (workflow: string) => void;
+  /** Where the tail bar and its rows lead — the runs behind them. */
+  tailHref?: string;
 }) {
+  const router = useRouter();
   const [showTable, setShowTable] = useState(false);
 
   const buckets = useMemo(() => data?.histogram ?? [], [data]);
@@ -157,6 +172,17 @@ export function RunCostDistribution({
               </>
             ) : null}
             .
+            {tailHref && (
+              <>
+                {" "}
+                <Link
+                  href={tailHref}
+                  className="text-primary-400 underline underline-offset-2 hover:text-primary-300"
+                >
+                  Open those runs
+                </Link>
+              </>
+            )}
           </p>
         </div>
       )}
@@ -256,7 +282,16 @@ export function RunCostDistribution({
               isAnimationActive={false}
             >
               {buckets.map((b, i) => (
-                <Cell key={i} fill={b.is_tail ? TAIL : BODY} />
+                <Cell
+                  key={i}
+                  fill={b.is_tail ? TAIL : BODY}
+                  cursor={b.is_tail && tailHref ? "pointer" : undefined}
+                  onClick={
+                    b.is_tail && tailHref
+                      ? () => router.push(tailHref)
+                      : undefined
+                  }
+                />
               ))}
             </Bar>
           </BarChart>
@@ -290,13 +325,22 @@ export function RunCostDistribution({
                     {formatNumber(b.count)}
                   </td>
                   <td className="px-4 py-1.5 text-right sm:px-6">
-                    <span
-                      className={
-                        b.is_tail ? "text-amber-400" : "text-neutral-500"
-                      }
-                    >
-                      {b.is_tail ? "Top 5%" : "Typical"}
-                    </span>
+                    {b.is_tail && tailHref ? (
+                      <Link
+                        href={tailHref}
+                        className="text-amber-400 underline underline-offset-2 hover:text-amber-300"
+                      >
+                        Top 5%
+                      </Link>
+                    ) : (
+                      <span
+                        className={
+                          b.is_tail ? "text-amber-400" : "text-neutral-500"
+                        }
+                      >
+                        {b.is_tail ? "Top 5%" : "Typical"}
+                      </span>
+                    )}
                   </td>
                 </tr>
               ))}
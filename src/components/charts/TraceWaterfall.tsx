@@ -0,0 +1,392 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ChevronDown, ChevronRight, Wrench } from "lucide-react";
+import { cn, formatCurrency, formatLatency } from "@/lib/utils";
+import type { Event } from "@/lib/api";
+
+/** Same model palette as the donut, so a model keeps its colour across pages. */
+const COLORS = [
+  "#38bdf8",
+  "#a78bfa",
+  "#34d399",
+  "#fbbf24",
+  "#fb7185",
+  "#818cf8",
+  "#f472b6",
+  "#2dd4bf",
+];
+
+type Mode = "time" | "cost";
+
+/**
+ * Busy time over wall time above this and the calls under a span were
+ * overlapping. Below it they ran one after another.
+ */
+const PARALLEL_RATIO = 1.2;
+
+interface Span {
+  key: string;
+  label: string;
+  kind: "workflow" | "step" | "tool" | "call";
+  /** Milliseconds from the first call's start. */
+  start: number;
+  end: number;
+  cost: number;
+  /** Sum of call latencies underneath — compared with end - start. */
+  busy: number;
+  callCount: number;
+  children: Span[];
+  event?: Event;
+}
+
+interface Row {
+  span: Span;
+  depth: number;
+  x: number;
+  w: number;
+}
+
+function startOf(e: Event): number {
+  // Events are stamped when the call returned.
+  return Date.parse(e.timestamp) - e.latency_ms;
+}
+
+function group(
+  key: string,
+  label: string,
+  kind: Span["kind"],
+  children: Span[],
+): Span {
+  return {
+    key,
+    label,
+    kind,
+    start: Math.min(...children.map((c) => c.start)),
+    end: Math.max(...children.map((c) => c.end)),
+    cost: children.reduce((s, c) => s + c.cost, 0),
+    busy: children.reduce((s, c) => s + c.busy, 0),
+    callCount: children.reduce((s, c) => s + c.callCount, 0),
+    children,
+  };
+}
+
+/** Bucket items by a key, keeping buckets in order of first appearance. */
+function bucket<T>(items: T[], keyOf: (item: T) => string): [string, T[]][] {
+  const map = new Map<string, T[]>();
+  for (const item of items) {
+    const k = keyOf(item);
+    const list = map.get(k);
+    if (list) list.push(item);
+    else map.set(k, [item]);
+  }
+  return [...map];
+}
+
+/**
+ * Rebuild workflow → step → tool → call from the flat event list. A tool
+ * whose name matches its step is the step itself (that is how the SDK's
+ * tool() context records it), so it does not get a level of its own.
+ */
+function buildTree(events: Event[], workflow: string | null): Span | null {
+  if (events.length === 0) return null;
+  const origin = Math.min(...events.map(startOf));
+  const sorted = [...events].sort((a, b) => startOf(a) - startOf(b));
+
+  const leaf = (e: Event): Span => ({
+    key: e.id,
+    label: e.model,
+    kind: "call",
+    start: startOf(e) - origin,
+    end: startOf(e) - origin + e.latency_ms,
+    cost: e.cost,
+    busy: e.latency_ms,
+    callCount: 1,
+    children: [],
+    event: e,
+  });
+
+  const steps = bucket(sorted, (e) => e.step_name ?? "").map(
+    ([stepName, stepEvents]) => {
+      const label = stepName || "(no step)";
+      const tools = bucket(stepEvents, (e) =>
+        e.tool_name && e.tool_name !== stepName ? e.tool_name : "",
+      );
+      const children = tools.flatMap(([toolName, toolEvents]) =>
+        toolName
+          ? [
+              group(
+                `${stepName}/${toolName}`,
+                toolName,
+                "tool",
+                toolEvents.map(leaf),
+              ),
+            ]
+          : toolEvents.map(leaf),
+      );
+      const isTool = stepEvents.every((e) => e.tool_name === stepName);
+      return group(`step:${stepName}`, label, isTool ? "tool" : "step", children);
+    },
+  );
+
+  return group("root", workflow ?? "Run", "workflow", steps);
+}
+
+/**
+ * Time mode places each span where it ran. Cost mode lays spans end to end
+ * with widths proportional to spend, flame-graph style, so the expensive
+ * branch is the wide one regardless of how long it took.
+ */
+function layout(
+  root: Span,
+  mode: Mode,
+  collapsed: Set<string>,
+): { rows: Row[]; total: number } {
+  const rows: Row[] = [];
+  const total = mode === "time" ? root.end : root.cost;
+  let cursor = 0;
+
+  const visit = (span: Span, depth: number) => {
+    const row: Row = { span, depth, x: 0, w: 0 };
+    rows.push(row);
+    if (mode === "time") {
+      row.x = span.start;
+      row.w = span.end - span.start;
+    } else {
+      row.x = cursor;
+      row.w = span.cost;
+    }
+    if (collapsed.has(span.key) || span.children.length === 0) {
+      if (mode === "cost") cursor += span.cost;
+      return;
+    }
+    for (const child of span.children) visit(child, depth + 1);
+  };
+  visit(root, 0);
+  return { rows, total };
+}
+
+function pct(value: number, total: number): string {
+  return total > 0 ? `${(value / total) * 100}%` : "0%";
+}
+
+export function TraceWaterfall({
+  events,
+  workflow,
+}: {
+  events: Event[];
+  workflow: string | null;
+}) {
+  const [mode, setMode] = useState<Mode>("time");
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const root = useMemo(() => buildTree(events, workflow), [events, workflow]);
+
+  const modelColor = useMemo(() => {
+    // Priciest model first, so the dominant spend gets the strongest hue.
+    const spend = new Map<string, number>();
+    for (const e of events) {
+      spend.set(e.model, (spend.get(e.model) ?? 0) + e.cost);
+    }
+    const models = [...spend].sort((a, b) => b[1] - a[1]).map(([m]) => m);
+    return new Map(models.map((m, i) => [m, COLORS[i % COLORS.length]]));
+  }, [events]);
+
+  const { rows, total } = useMemo(
+    () =>
+      root ? layout(root, mode, collapsed) : { rows: [] as Row[], total: 0 },
+    [root, mode, collapsed],
+  );
+
+  if (!root) return null;
+
+  const toggle = (key: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const formatAxis = (v: number) =>
+    mode === "time" ? formatLatency(v) : formatCurrency(v);
+
+  return (
+    <div>
+      {/* Header + mode switch */}
+      <div className="flex flex-col gap-3 border-b border-white/6 px-4 py-4 sm:flex-row sm:items-start sm:justify-between sm:px-6">
+        <div className="min-w-0">
+          <h3 className="text-[15px] font-semibold tracking-tight text-white">
+            Where the run spent its time and money
+          </h3>
+          <p className="mt-1 text-sm text-neutral-500">
+            {mode === "time"
+              ? "Bars sit where each call ran. Stacked bars ran one after another; overlapping bars ran in parallel."
+              : "Bar widths are proportional to spend, so the widest branch is the one that cost the most."}
+          </p>
+        </div>
+        <div className="flex shrink-0 rounded-lg border border-white/6 p-0.5">
+          {(["time", "cost"] as Mode[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={cn(
+                "rounded-md px-2.5 py-1 text-xs font-medium transition-colors",
+                mode === m
+                  ? "bg-white/10 text-white"
+                  : "text-neutral-400 hover:text-neutral-200",
+              )}
+            >
+              {m === "time" ? "By latency" : "By cost"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Legend: model colours, named so identity is never colour-alone */}
+      <div className="flex flex-wrap items-center gap-4 px-4 pt-4 sm:px-6">
+        {[...modelColor].map(([model, color]) => (
+          <span
+            key={model}
+            className="inline-flex items-center gap-2 text-xs text-neutral-400"
+          >
+            <span
+              className="h-2.5 w-2.5 rounded-sm"
+              style={{ backgroundColor: color }}
+              aria-hidden
+            />
+            <span className="font-mono">{model}</span>
+          </span>
+        ))}
+      </div>
+
+      {/* Axis */}
+      <div className="flex items-center gap-3 px-4 pt-3 sm:px-6">
+        <div className="w-44 shrink-0 sm:w-56" />
+        <div className="relative h-4 flex-1 text-[10.5px] text-neutral-600 tabular-nums">
+          {[0, 0.25, 0.5, 0.75, 1].map((f) => (
+            <span
+              key={f}
+              className="absolute -translate-x-1/2 first:translate-x-0 last:-translate-x-full"
+              style={{ left: `${f * 100}%` }}
+            >
+              {formatAxis(total * f)}
+            </span>
+          ))}
+        </div>
+        <div className="w-24 shrink-0" />
+      </div>
+
+      {/* Rows */}
+      <div className="px-4 pb-4 pt-1 sm:px-6">
+        {rows.map(({ span, depth, x, w }) => {
+          const isGroup = span.children.length > 0;
+          const isCollapsed = collapsed.has(span.key);
+          const wall = span.end - span.start;
+          const concurrency = wall > 0 ? span.busy / wall : 1;
+          const color =
+            span.event && modelColor.get(span.event.model);
+          const failed = span.event && !span.event.success;
+
+          return (
+            <div
+              key={span.key}
+              className="group flex items-center gap-3 border-b border-white/4 py-1 last:border-0"
+            >
+              {/* Label */}
+              <div
+                className="flex w-44 shrink-0 items-center gap-1 text-xs sm:w-56"
+                style={{ paddingLeft: depth * 12 }}
+              >
+                {isGroup ? (
+                  <button
+                    onClick={() => toggle(span.key)}
+                    aria-expanded={!isCollapsed}
+                    aria-label={`${isCollapsed ? "Expand" : "Collapse"} ${span.label}`}
+                    className="text-neutral-500 hover:text-neutral-200"
+                  >
+                    {isCollapsed ? (
+                      <ChevronRight size={13} />
+                    ) : (
+                      <ChevronDown size={13} />
+                    )}
+                  </button>
+                ) : (
+                  <span className="w-[13px]" aria-hidden />
+                )}
+                {span.kind === "tool" && (
+                  <Wrench
+                    size={11}
+                    className="shrink-0 text-neutral-500"
+                    aria-label="tool"
+                  />
+                )}
+                <span
+                  className={cn(
+                    "truncate",
+                    span.kind === "call"
+                      ? "font-mono text-neutral-500"
+                      : "font-medium text-neutral-200",
+                  )}
+                  title={span.label}
+                >
+                  {span.label}
+                </span>
+                {isGroup && span.callCount > 1 && (
+                  <span
+                    className={cn(
+                      "ml-auto shrink-0 pl-1 text-[10.5px]",
+                      concurrency >= PARALLEL_RATIO
+                        ? "text-sky-400"
+                        : "text-neutral-600",
+                    )}
+                    title={`${span.callCount} calls, ${formatLatency(span.busy)} of call time in ${formatLatency(wall)} wall time`}
+                  >
+                    {concurrency >= PARALLEL_RATIO
+                      ? `${concurrency.toFixed(1)}× parallel`
+                      : "serial"}
+                  </span>
+                )}
+              </div>
+
+              {/* Bar */}
+              <div className="relative h-5 flex-1 rounded bg-white/2">
+                <div
+                  className={cn(
+                    "absolute top-0.5 bottom-0.5 rounded-sm",
+                    !span.event && "border border-white/10 bg-white/8",
+                    failed && "ring-1 ring-red-500",
+                  )}
+                  style={{
+                    left: pct(x, total),
+                    width: pct(w, total),
+                    minWidth: 2,
+                    backgroundColor: color || undefined,
+                  }}
+                  title={
+                    span.event
+                      ? `${span.event.model} · ${formatCurrency(span.cost)} · ${formatLatency(span.event.latency_ms)}${failed ? ` · failed: ${span.event.error ?? "error"}` : ""}`
+                      : `${span.label} · ${formatCurrency(span.cost)} · ${formatLatency(wall)}`
+                  }
+                />
+              </div>
+
+              {/* Values */}
+              <div className="w-24 shrink-0 text-right text-xs tabular-nums">
+                <span className="block text-neutral-200">
+                  {formatCurrency(span.cost)}
+                </span>
+                <span className="block text-neutral-600">
+                  {formatLatency(span.event ? span.event.latency_ms : wall)}
+                  {isGroup && root.cost > 0 && (
+                    <> · {((span.cost / root.cost) * 100).toFixed(0)}%</>
+                  )}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { ArrowUpRight } from "lucide-react";
+import { formatCurrency, cn } from "@/lib/utils";
+import { eventFilterParams } from "@/lib/eventFilters";
+import {
+  anomalyEventFilters,
+  describeAnomaly,
+  type Anomaly,
+  type AnomalyDimension,
+} from "@/lib/anomalies";
+import type { TimeSeriesBucket } from "@/lib/api";
+
+type Tab = "all" | AnomalyDimension;
+
+const TABS: { value: Tab; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "agent", label: "Agents" },
+  { value: "model", label: "Models" },
+  { value: "workflow", label: "Workflows" },
+];
+
+interface AnomaliesPanelProps {
+  /** Newest first, as detectAnomalies returns them. */
+  anomalies: Anomaly[];
+  bucket: TimeSeriesBucket;
+}
+
+interface Spike {
+  /** The project total when it spiked too, else the strongest series. */
+  lead: Anomaly;
+  also: Anomaly[];
+}
+
+/**
+ * One spike per bucket: a single incident usually trips its agent, its
+ * model and the project total at once, and listing all three reads as three.
+ */
+function groupByBucket(anomalies: Anomaly[]): Spike[] {
+  const byBucket = new Map<string, Anomaly[]>();
+  for (const a of anomalies) {
+    byBucket.set(a.timestamp, [...(byBucket.get(a.timestamp) ?? []), a]);
+  }
+  return [...byBucket.values()].map((group) => {
+    const lead =
+      group.find((a) => a.dimension === null) ??
+      [...group].sort((a, b) => b.z_score - a.z_score)[0];
+    return { lead, also: group.filter((a) => a !== lead) };
+  });
+}
+
+function eventsHref(anomaly: Anomaly, bucket: TimeSeriesBucket): string {
+  return `/events?${eventFilterParams(anomalyEventFilters(anomaly, bucket))}`;
+}
+
+/**
+ * Cost spikes in the window, each with the agent and model that drove it
+ * and a link to the events behind it. Tabs narrow the list to the spikes
+ * of one dimension.
+ */
+export function AnomaliesPanel({ anomalies, bucket }: AnomaliesPanelProps) {
+  const [tab, setTab] = useState<Tab>("all");
+  const spikes = useMemo(
+    () =>
+      tab === "all"
+        ? groupByBucket(anomalies)
+        : anomalies
+            .filter((a) => a.dimension === tab)
+            .map((lead) => ({ lead, also: [] })),
+    [anomalies, tab],
+  );
+
+  return (
+    <div>
+      <div className="mb-4 flex w-fit items-center gap-1 rounded-xl border border-white/6 bg-white/2 p-1">
+        {TABS.map((t) => (
+          <button
+            key={t.value}
+            type="button"
+            onClick={() => setTab(t.value)}
+            className={cn(
+              "px-3 py-1 text-[12px] font-medium rounded-lg transition-all duration-200",
+              tab === t.value
+                ? "bg-white/8 text-white shadow-sm"
+                : "text-neutral-500 hover:text-neutral-300",
+            )}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      {spikes.length === 0 ? (
+        <p className="py-6 text-center text-[13px] text-neutral-500">
+          No cost spikes in this window.
+        </p>
+      ) : (
+        <ul className="divide-y divide-white/4">
+          {spikes.map(({ lead, also }) => (
+            <li
+              key={lead.id}
+              className="flex items-start justify-between gap-4 py-3"
+            >
+              <div className="flex min-w-0 items-start gap-3">
+                <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-red-400" />
+                <div className="min-w-0">
+                  <p className="text-[13px] text-neutral-200">
+                    {describeAnomaly(lead, bucket)}
+                  </p>
+                  <p className="mt-0.5 text-[12px] text-neutral-500 tabular-nums">
+                    {formatCurrency(lead.cost)} against a usual{" "}
+                    {formatCurrency(lead.baseline)}
+                    {also.length > 0 &&
+                      ` · also flagged: ${also
+                        .map((a) => `${a.dimension} ${a.key}`)
+                        .join(", ")}`}
+                  </p>
+                </div>
+              </div>
+              <Link
+                href={eventsHref(lead, bucket)}
+                className="flex shrink-0 items-center gap-1 text-[12px] text-neutral-500 hover:text-white"
+              >
+                Events
+                <ArrowUpRight size={13} />
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -3,14 +3,21 @@
 import { ReactNode } from "react";
 import { TrendingUp, TrendingDown, Minus } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { MetricDelta } from "@/lib/api";
+import { describeFx, type DisplayFx } from "@/lib/currency";
 import { Sparkline } from "./Sparkline";
 
 export interface Delta {
-  /** Percent change vs the first half of the selected window. */
+  /** Percent change vs the comparison period (`deltaLabel`). */
   value: number;
   direction: "up" | "down" | "neutral";
 }
 
+/** Map the backend MetricDelta onto HeroStatCard's Delta shape. */
+export function toHeroDelta(d: MetricDelta): Delta {
+  return { value: Math.abs(d.change_percent), direction: d.direction };
+}
+
 interface HeroStatCardProps {
   label: string;
   value: string;
@@ -19,12 +26,19 @@ interface HeroStatCardProps {
   /** Tailwind classes for the icon tile, e.g. "bg-sky-500/10 text-sky-400". */
   iconClassName: string;
   delta?: Delta;
+  /** What `delta` compares against, shown on hover, e.g. "vs previous 7 days". */
+  deltaLabel?: string;
   /**
    * Whether an upward delta is bad news (costs) or good news (success rate).
    * Controls the red/green coloring only — never the arrow direction.
    */
   upIsBad?: boolean;
   sparkline?: { data: number[]; color: string };
+  /**
+   * The rate `value` was converted from USD at. Tags the card with the
+   * currency, and the rate and its date on hover; nothing in USD.
+   */
+  fx?: DisplayFx;
 }
 
 export function HeroStatCard({
@@ -34,9 +48,12 @@ export function HeroStatCard({
   icon,
   iconClassName,
   delta,
+  deltaLabel,
   upIsBad = false,
   sparkline,
+  fx,
 }: HeroStatCardProps) {
+  const fxText = fx ? describeFx(fx) : null;
   const deltaColor =
     !delta || delta.direction === "neutral"
       ? "text-neutral-500"
@@ -60,6 +77,14 @@ export function HeroStatCard({
             <span className="text-[12px] font-medium uppercase tracking-[0.08em] text-neutral-500">
               {label}
             </span>
+            {fxText && (
+              <span
+                title={fxText}
+                className="rounded border border-white/10 px-1 text-[10px] font-medium text-neutral-400"
+              >
+                {fx!.code}
+              </span>
+            )}
           </div>
 
           <p className="text-[1.7rem] leading-none font-semibold tracking-tight text-white tabular-nums">
@@ -69,6 +94,7 @@ export function HeroStatCard({
           <div className="mt-2.5 flex items-center gap-2.5 text-[12.5px]">
             {delta && (
               <span
+                title={deltaLabel}
                 className={cn(
                   "inline-flex items-center gap-1 font-medium tabular-nums",
                   deltaColor,
@@ -0,0 +1,493 @@
+"use client";
+
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import Link from "next/link";
+import {
+  ArrowUpRight,
+  Check,
+  Copy,
+  TriangleAlert,
+  Wrench,
+  X,
+} from "lucide-react";
+import { Badge } from "@/components/ui/Badge";
+import { api, Event, ModelPricing } from "@/lib/api";
+import { useApiData } from "@/hooks/useApiData";
+import { usePricingBasis } from "@/hooks/usePricingBasis";
+import { usePricingOverrides } from "@/hooks/usePricingOverrides";
+import { overrideOn } from "@/lib/pricing";
+import {
+  cn,
+  formatCurrency,
+  formatDate,
+  formatLatency,
+  formatNumber,
+  formatRelativeTime,
+} from "@/lib/utils";
+
+/**
+ * Recorded and list cost closer than this (relative) count as a match:
+ * backends round to six decimals, which is several percent on a tiny call.
+ */
+const COST_TOLERANCE = 0.02;
+
+interface EventDetailDrawerProps {
+  event: Event;
+  onClose: () => void;
+  /** Open another event in the drawer — a sibling from the same trace. */
+  onSelect: (event: Event) => void;
+}
+
+function CopyButton({ text, label }: { text: string; label: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <button
+      onClick={handleCopy}
+      aria-label={label}
+      className="flex shrink-0 items-center gap-1 rounded-md px-1.5 py-0.5 text-xs text-neutral-400 hover:bg-neutral-800 hover:text-neutral-200"
+    >
+      {copied ? (
+        <>
+          <Check size={12} className="text-emerald-400" />
+          <span className="text-emerald-400">Copied</span>
+        </>
+      ) : (
+        <>
+          <Copy size={12} />
+          <span>Copy</span>
+        </>
+      )}
+    </button>
+  );
+}
+
+/**
+ * Catalog entry for a model. Events sometimes carry a provider prefix
+ * ("openai/gpt-4o") the catalog doesn't, so that is tried second.
+ */
+function findPricing(
+  catalog: ModelPricing[],
+  model: string,
+): ModelPricing | null {
+  const byName = new Map(
+    catalog.map((p) => [p.model_name.toLowerCase(), p] as const),
+  );
+  const name = model.toLowerCase();
+  return (
+    byName.get(name) ?? byName.get(name.slice(name.indexOf("/") + 1)) ?? null
+  );
+}
+
+/**
+ * One line on how the recorded cost compares with `listCost`, the call
+ * priced from the catalog (null when the model isn't in it), or with the
+ * contract rate in force that day when `contract` is set.
+ */
+function costVerdict(
+  event: Event,
+  listCost: number | null,
+  catalogLoaded: boolean,
+  catalogFailed: boolean,
+  contract = false,
+): { text: string; warn: boolean } {
+  if (contract && listCost != null) {
+    const gap = listCost > 0 ? (event.cost - listCost) / listCost : 0;
+    if (Math.abs(gap) <= COST_TOLERANCE) {
+      return { text: "Matches the contract price.", warn: false };
+    }
+    return {
+      text: `${Math.abs(gap * 100).toFixed(1)}% ${gap > 0 ? "above" : "below"} the contract price.`,
+      warn: true,
+    };
+  }
+  if (catalogFailed) {
+    return { text: "The pricing catalog could not be loaded.", warn: false };
+  }
+  if (listCost == null) {
+    return catalogLoaded
+      ? { text: `${event.model} is not in the pricing catalog.`, warn: true }
+      : { text: "Checking against the pricing catalog…", warn: false };
+  }
+  if (!event.success && event.cost === 0) {
+    return { text: "Not billed: the call failed.", warn: false };
+  }
+  if (listCost <= 0) {
+    return { text: "The catalog lists this model as free.", warn: false };
+  }
+  const gap = (event.cost - listCost) / listCost;
+  if (Math.abs(gap) <= COST_TOLERANCE) {
+    return { text: "Matches the catalog list price.", warn: false };
+  }
+  return {
+    text: `${Math.abs(gap * 100).toFixed(1)}% ${gap > 0 ? "above" : "below"} the catalog list price.`,
+    warn: true,
+  };
+}
+
+function Field({
+  label,
+  children,
+  mono,
+}: {
+  label: string;
+  children: ReactNode;
+  mono?: boolean;
+}) {
+  return (
+    <div className="min-w-0">
+      <dt className="text-xs text-neutral-500">{label}</dt>
+      <dd
+        className={cn(
+          "mt-0.5 truncate text-sm text-neutral-200",
+          mono && "font-mono",
+        )}
+      >
+        {children ?? <span className="text-neutral-600">—</span>}
+      </dd>
+    </div>
+  );
+}
+
+function SectionTitle({ children }: { children: ReactNode }) {
+  return (
+    <h4 className="mb-3 text-xs font-medium uppercase tracking-wider text-neutral-400">
+      {children}
+    </h4>
+  );
+}
+
+function DeepLink({ href, children }: { href: string; children: string }) {
+  return (
+    <Link
+      href={href}
+      className="inline-flex items-center gap-1 rounded-lg border border-neutral-700 bg-neutral-800/50 px-3 py-1.5 text-sm text-neutral-200 hover:border-neutral-600 hover:bg-neutral-800"
+    >
+      {children}
+      <ArrowUpRight size={13} className="text-neutral-500" />
+    </Link>
+  );
+}
+
+/**
+ * Slide-over with everything known about one call: its fields, what the
+ * catalog says it should have cost, the rest of its trace and links to the
+ * views it belongs to.
+ */
+export function EventDetailDrawer({
+  event,
+  onClose,
+  onSelect,
+}: EventDetailDrawerProps) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const {
+    data: catalog,
+    loading: catalogLoading,
+    error: catalogError,
+  } = useApiData((signal) => api.getPricing(signal), [], [] as ModelPricing[]);
+
+  const {
+    data: trace,
+    loading: traceLoading,
+    error: traceError,
+  } = useApiData(
+    (signal) =>
+      event.trace_id
+        ? api.getTrace(event.trace_id, signal)
+        : Promise.resolve(null),
+    [event.trace_id],
+    null,
+  );
+
+  const [basis] = usePricingBasis();
+  const { overrides } = usePricingOverrides();
+  const contract =
+    basis === "contract"
+      ? overrideOn(overrides, event.model, event.timestamp)
+      : null;
+
+  const listPricing = useMemo(
+    () => findPricing(catalog, event.model),
+    [catalog, event.model],
+  );
+  const pricing = contract ?? listPricing;
+
+  const expectedCost = pricing
+    ? (event.input_tokens * pricing.input +
+        event.output_tokens * pricing.output) /
+      1000
+    : null;
+  const verdict = costVerdict(
+    event,
+    expectedCost,
+    !catalogLoading,
+    catalogError != null,
+    contract != null,
+  );
+
+  const siblings = useMemo(
+    () =>
+      (trace?.events ?? [])
+        .map((e) => ({ e, start: Date.parse(e.timestamp) - e.latency_ms }))
+        .sort((a, b) => a.start - b.start)
+        .map(({ e }) => e),
+    [trace],
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-end bg-black/50"
+      onClick={onClose}
+    >
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label="Event details"
+        className="flex h-full w-full max-w-xl flex-col border-l border-neutral-800 bg-neutral-950 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 border-b border-neutral-800 px-5 py-4">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <h3 className="truncate font-medium text-white">
+                {event.agent_name}
+              </h3>
+              {event.success ? (
+                <Badge variant="success">Success</Badge>
+              ) : (
+                <Badge variant="error">Failed</Badge>
+              )}
+            </div>
+            <p
+              className="mt-0.5 text-sm text-neutral-500"
+              title={formatDate(event.timestamp)}
+            >
+              <span className="font-mono">{event.model}</span> ·{" "}
+              {formatRelativeTime(event.timestamp)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="p-1 text-neutral-400 transition-colors hover:text-white"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-6 overflow-y-auto px-5 py-5">
+          {/* Error */}
+          {event.error && (
+            <section className="rounded-lg border border-red-900/50 bg-red-950/20 p-3">
+              <div className="mb-1.5 flex items-center justify-between gap-2">
+                <span className="flex items-center gap-1.5 text-sm font-medium text-red-400">
+                  <TriangleAlert size={14} />
+                  Error
+                </span>
+                <CopyButton text={event.error} label="Copy error" />
+              </div>
+              <pre className="whitespace-pre-wrap break-words font-mono text-xs text-neutral-300">
+                {event.error}
+              </pre>
+            </section>
+          )}
+
+          {/* Fields */}
+          <section>
+            <SectionTitle>Call</SectionTitle>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-3">
+              <div className="col-span-2 min-w-0">
+                <dt className="text-xs text-neutral-500">Event ID</dt>
+                <dd className="mt-0.5 flex items-center gap-2">
+                  <span className="truncate font-mono text-sm text-neutral-200">
+                    {event.id}
+                  </span>
+                  <CopyButton text={event.id} label="Copy event ID" />
+                </dd>
+              </div>
+              <Field label="Timestamp">
+                {new Date(event.timestamp).toLocaleString()}
+              </Field>
+              <Field label="Project" mono>
+                {event.project_id}
+              </Field>
+              <Field label="Agent">{event.agent_name}</Field>
+              <Field label="Model" mono>
+                {event.model}
+              </Field>
+              <Field label="Workflow">{event.workflow}</Field>
+              <Field label="Step">
+                {event.step_name && (
+                  <>
+                    {event.step_name}
+                    {event.tool_name && (
+                      <Wrench
+                        size={11}
+                        className="ml-1.5 inline text-neutral-500"
+                        aria-label="tool"
+                      />
+                    )}
+                  </>
+                )}
+              </Field>
+              <Field label="Tool">{event.tool_name}</Field>
+              <Field label="Trace ID" mono>
+                {event.trace_id}
+              </Field>
+              <Field label="Input Tokens">
+                {formatNumber(event.input_tokens)}
+              </Field>
+              <Field label="Output Tokens">
+                {formatNumber(event.output_tokens)}
+              </Field>
+              <Field label="Total Tokens">
+                {formatNumber(event.total_tokens)}
+              </Field>
+              <Field label="Latency">{formatLatency(event.latency_ms)}</Field>
+            </dl>
+          </section>
+
+          {/* Cost check */}
+          <section>
+            <SectionTitle>Cost</SectionTitle>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-3">
+              <Field label="Recorded">
+                <span className="font-mono text-emerald-400">
+                  {formatCurrency(event.cost)}
+                </span>
+              </Field>
+              <Field label="Per 1K tokens">
+                {event.total_tokens > 0
+                  ? formatCurrency((event.cost / event.total_tokens) * 1000)
+                  : null}
+              </Field>
+              {pricing && (
+                <>
+                  <Field
+                    label={`${contract ? "Contract" : "List"} price in / out per 1K`}
+                  >
+                    <span className="font-mono">
+                      {formatCurrency(pricing.input)} /{" "}
+                      {formatCurrency(pricing.output)}
+                    </span>
+                  </Field>
+                  <Field label={`At ${contract ? "contract" : "list"} price`}>
+                    <span className="font-mono">
+                      {formatCurrency(expectedCost ?? 0)}
+                    </span>
+                  </Field>
+                </>
+              )}
+            </dl>
+            <p
+              className={cn(
+                "mt-3 text-sm",
+                verdict.warn ? "text-amber-400" : "text-neutral-500",
+              )}
+            >
+              {verdict.text}
+            </p>
+          </section>
+
+          {/* Trace siblings */}
+          {event.trace_id && (
+            <section>
+              <SectionTitle>Other calls in this trace</SectionTitle>
+              {traceLoading ? (
+                <p className="text-sm text-neutral-500">Loading trace…</p>
+              ) : traceError ? (
+                <p className="text-sm text-red-400">{traceError.message}</p>
+              ) : siblings.length <= 1 ? (
+                <p className="text-sm text-neutral-500">
+                  This is the only call recorded for the trace.
+                </p>
+              ) : (
+                <ul className="divide-y divide-neutral-800/50 rounded-lg border border-neutral-800">
+                  {siblings.map((e) => (
+                    <li key={e.id}>
+                      <button
+                        onClick={() => onSelect(e)}
+                        disabled={e.id === event.id}
+                        className={cn(
+                          "flex w-full items-center gap-3 px-3 py-2 text-left text-sm transition-colors",
+                          e.id === event.id
+                            ? "bg-primary-900/20"
+                            : "hover:bg-neutral-800/40",
+                        )}
+                      >
+                        <span className="min-w-0 flex-1 truncate text-neutral-200">
+                          {e.step_name ?? e.agent_name}
+                        </span>
+                        <span className="font-mono text-xs text-neutral-500">
+                          {e.model}
+                        </span>
+                        <span className="w-16 text-right font-mono text-xs text-emerald-400">
+                          {formatCurrency(e.cost)}
+                        </span>
+                        <span className="w-14 text-right font-mono text-xs text-neutral-400">
+                          {formatLatency(e.latency_ms)}
+                        </span>
+                        <span
+                          className={cn(
+                            "h-2 w-2 shrink-0 rounded-full",
+                            e.success ? "bg-emerald-500" : "bg-red-500",
+                          )}
+                          aria-label={e.success ? "Success" : "Failed"}
+                        />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          )}
+
+          {/* Deep links */}
+          <section>
+            <SectionTitle>Open in</SectionTitle>
+            <div className="flex flex-wrap gap-2">
+              <DeepLink
+                href={`/agents?agent=${encodeURIComponent(event.agent_name)}`}
+              >
+                Agent
+              </DeepLink>
+              <DeepLink
+                href={`/models?model=${encodeURIComponent(event.model)}`}
+              >
+                Model
+              </DeepLink>
+              {event.workflow && (
+                <DeepLink
+                  href={`/workflows?workflow=${encodeURIComponent(event.workflow)}`}
+                >
+                  Workflow
+                </DeepLink>
+              )}
+              {event.trace_id && (
+                <DeepLink
+                  href={`/traces/${encodeURIComponent(event.trace_id)}`}
+                >
+                  Trace
+                </DeepLink>
+              )}
+            </div>
+          </section>
+        </div>
+      </aside>
+    </div>
+  );
+}
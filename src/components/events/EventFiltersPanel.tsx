@@ -0,0 +1,318 @@
+"use client";
+
+import { useState } from "react";
+import { X } from "lucide-react";
+import { Card } from "@/components/ui/Card";
+import type { EventFilters, EventFilterOptions } from "@/lib/api";
+
+interface EventFiltersPanelProps {
+  value: EventFilters;
+  options: EventFilterOptions;
+  onChange: (filters: EventFilters) => void;
+}
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-neutral-700 bg-neutral-800 px-3 py-2 text-sm text-neutral-200 [color-scheme:dark] placeholder:text-neutral-500 focus:border-primary-500 focus:outline-none";
+
+const LABEL_CLASS = "mb-1.5 block text-sm font-medium text-neutral-300";
+
+/** ISO timestamp → the local "YYYY-MM-DDTHH:mm" a datetime-local input shows. */
+function toLocalInput(iso?: string): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  const local = new Date(d.getTime() - d.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+function toNumber(value: string): number | undefined {
+  if (value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** Undefined instead of "" so a cleared field drops out of the query. */
+function text(value: string): string | undefined {
+  return value || undefined;
+}
+
+/** Trim typed values on the way out; a field of spaces is no filter. */
+function clean(f: EventFilters): EventFilters {
+  const out: EventFilters = {};
+  for (const [k, v] of Object.entries(f)) {
+    const value = typeof v === "string" ? v.trim() : v;
+    if (value != null && value !== "") Object.assign(out, { [k]: value });
+  }
+  return out;
+}
+
+function rangeError(f: EventFilters): string | null {
+  if (f.minCost != null && f.maxCost != null && f.minCost > f.maxCost) {
+    return "Minimum cost is above the maximum.";
+  }
+  if (
+    f.minLatencyMs != null &&
+    f.maxLatencyMs != null &&
+    f.minLatencyMs > f.maxLatencyMs
+  ) {
+    return "Minimum latency is above the maximum.";
+  }
+  if (f.start && f.end && Date.parse(f.start) >= Date.parse(f.end)) {
+    return "The window must end after it starts.";
+  }
+  return null;
+}
+
+/**
+ * Every Events page filter. Dropdowns apply as soon as they change; the
+ * typed fields apply on Enter or with the Apply button, so a half-typed
+ * trace id doesn't fire a request per keystroke.
+ *
+ * Holds its own draft of `value`. Give it a `key` derived from `value` so
+ * the draft starts over when the applied filters change from outside.
+ */
+export function EventFiltersPanel({
+  value,
+  options,
+  onChange,
+}: EventFiltersPanelProps) {
+  const [draft, setDraft] = useState<EventFilters>(value);
+  const error = rangeError(draft);
+
+  const set = (patch: Partial<EventFilters>) =>
+    setDraft((prev) => ({ ...prev, ...patch }));
+
+  const select = (patch: Partial<EventFilters>) => {
+    const next = { ...draft, ...patch };
+    setDraft(next);
+    if (!rangeError(next)) onChange(clean(next));
+  };
+
+  const hasAny = Object.values(value).some((v) => v != null && v !== "");
+
+  return (
+    <Card>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!error) onChange(clean(draft));
+        }}
+        className="space-y-4"
+      >
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <div>
+            <label className={LABEL_CLASS}>Agent Name</label>
+            <select
+              value={draft.agentName ?? ""}
+              onChange={(e) => select({ agentName: text(e.target.value) })}
+              className={FIELD_CLASS}
+            >
+              <option value="">All Agents</option>
+              {options.agents.map((agent) => (
+                <option key={agent} value={agent}>
+                  {agent}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={LABEL_CLASS}>Model</label>
+            <select
+              value={draft.model ?? ""}
+              onChange={(e) => select({ model: text(e.target.value) })}
+              className={FIELD_CLASS}
+            >
+              <option value="">All Models</option>
+              {options.models.map((model) => (
+                <option key={model} value={model}>
+                  {model}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={LABEL_CLASS}>Workflow</label>
+            <select
+              value={draft.workflow ?? ""}
+              onChange={(e) => select({ workflow: text(e.target.value) })}
+              className={FIELD_CLASS}
+            >
+              <option value="">All Workflows</option>
+              {options.workflows.map((workflow) => (
+                <option key={workflow} value={workflow}>
+                  {workflow}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={LABEL_CLASS}>Status</label>
+            <select
+              value={draft.status ?? ""}
+              onChange={(e) =>
+                select({
+                  status: text(e.target.value) as EventFilters["status"],
+                })
+              }
+              className={FIELD_CLASS}
+            >
+              <option value="">Any Status</option>
+              <option value="success">Success</option>
+              <option value="failure">Failed</option>
+            </select>
+          </div>
+          <div>
+            <label className={LABEL_CLASS}>Step</label>
+            <select
+              value={draft.stepName ?? ""}
+              onChange={(e) => select({ stepName: text(e.target.value) })}
+              className={FIELD_CLASS}
+            >
+              <option value="">All Steps</option>
+              {options.steps.map((step) => (
+                <option key={step} value={step}>
+                  {step}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={LABEL_CLASS}>Tool</label>
+            <select
+              value={draft.toolName ?? ""}
+              onChange={(e) => select({ toolName: text(e.target.value) })}
+              className={FIELD_CLASS}
+            >
+              <option value="">All Tools</option>
+              {options.tools.map((tool) => (
+                <option key={tool} value={tool}>
+                  {tool}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={LABEL_CLASS}>Trace ID</label>
+            <input
+              value={draft.traceId ?? ""}
+              onChange={(e) => set({ traceId: text(e.target.value) })}
+              placeholder="Exact trace id"
+              className={`${FIELD_CLASS} font-mono`}
+            />
+          </div>
+          <div>
+            <label className={LABEL_CLASS}>Error Contains</label>
+            <input
+              value={draft.errorContains ?? ""}
+              onChange={(e) => set({ errorContains: text(e.target.value) })}
+              placeholder="e.g. rate limit"
+              className={FIELD_CLASS}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <div>
+            <label className={LABEL_CLASS}>Cost (USD)</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={draft.minCost ?? ""}
+                onChange={(e) => set({ minCost: toNumber(e.target.value) })}
+                placeholder="Min"
+                aria-label="Minimum cost"
+                className={FIELD_CLASS}
+              />
+              <span className="text-neutral-600">–</span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={draft.maxCost ?? ""}
+                onChange={(e) => set({ maxCost: toNumber(e.target.value) })}
+                placeholder="Max"
+                aria-label="Maximum cost"
+                className={FIELD_CLASS}
+              />
+            </div>
+          </div>
+          <div>
+            <label className={LABEL_CLASS}>Latency (ms)</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={draft.minLatencyMs ?? ""}
+                onChange={(e) =>
+                  set({ minLatencyMs: toNumber(e.target.value) })
+                }
+                placeholder="Min"
+                aria-label="Minimum latency"
+                className={FIELD_CLASS}
+              />
+              <span className="text-neutral-600">–</span>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={draft.maxLatencyMs ?? ""}
+                onChange={(e) =>
+                  set({ maxLatencyMs: toNumber(e.target.value) })
+                }
+                placeholder="Max"
+                aria-label="Maximum latency"
+                className={FIELD_CLASS}
+              />
+            </div>
+          </div>
+          <div>
+            <label className={LABEL_CLASS}>From</label>
+            <input
+              type="datetime-local"
+              value={toLocalInput(draft.start)}
+              onChange={(e) => set({ start: fromLocalInput(e.target.value) })}
+              className={FIELD_CLASS}
+            />
+          </div>
+          <div>
+            <label className={LABEL_CLASS}>To</label>
+            <input
+              type="datetime-local"
+              value={toLocalInput(draft.end)}
+              onChange={(e) => set({ end: fromLocalInput(e.target.value) })}
+              className={FIELD_CLASS}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          {error && <p className="mr-auto text-sm text-amber-400">{error}</p>}
+          {hasAny && (
+            <button
+              type="button"
+              onClick={() => onChange({})}
+              className="flex items-center gap-1.5 rounded-lg border border-neutral-700 bg-neutral-800/50 px-3 py-2 text-sm text-neutral-400 hover:border-neutral-600 hover:text-neutral-200"
+            >
+              <X size={14} />
+              Clear
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={!!error}
+            className="rounded-lg border border-primary-600 bg-primary-900/30 px-4 py-2 text-sm font-medium text-primary-400 hover:bg-primary-900/50 disabled:opacity-50"
+          >
+            Apply
+          </button>
+        </div>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { api, API_RECONNECTING_EVENT } from "@/lib/api";
+
+/**
+ * A small pill shown while any request is waiting to retry — typically the
+ * backend waking from a cold start. Pages keep their loading state
+ * meanwhile; this tells the user why it is taking longer than usual.
+ */
+export function ReconnectingIndicator() {
+  const [pending, setPending] = useState(() => api.getPendingRetries());
+
+  useEffect(() => {
+    const handleChange = (e: Event) => {
+      setPending((e as CustomEvent<{ pending: number }>).detail.pending);
+    };
+    window.addEventListener(API_RECONNECTING_EVENT, handleChange);
+    return () =>
+      window.removeEventListener(API_RECONNECTING_EVENT, handleChange);
+  }, []);
+
+  if (pending === 0) return null;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="fixed bottom-4 left-1/2 z-40 flex -translate-x-1/2 items-center gap-2 rounded-full border border-amber-800 bg-amber-950/90 px-3 py-1.5 text-xs font-medium text-amber-300 shadow-lg backdrop-blur print:hidden"
+    >
+      <Loader2 size={12} className="animate-spin" aria-hidden />
+      Reconnecting…
+    </div>
+  );
+}
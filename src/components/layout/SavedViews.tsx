@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { usePathname, useSearchParams } from "next/navigation";
+import { Bookmark, Plus, Trash2, Loader2 } from "lucide-react";
+import { cn, parseApiError } from "@/lib/utils";
+import { useSavedViews } from "@/hooks/useSavedViews";
+import type { SavedView } from "@/lib/api";
+
+interface SavedViewsProps {
+  /** Called after following a view, to close the mobile drawer. */
+  onNavigate?: () => void;
+}
+
+/** Where the reader is in a list, not what they are looking at. */
+const TRANSIENT_PARAMS = ["page"];
+
+function viewQuery(params: URLSearchParams): string {
+  const query = new URLSearchParams(params);
+  for (const key of TRANSIENT_PARAMS) query.delete(key);
+  return query.toString();
+}
+
+function viewHref(view: SavedView): string {
+  return view.query ? `${view.path}?${view.query}` : view.path;
+}
+
+/**
+ * The project's saved views in the sidebar: a link per view, and a form that
+ * saves the current page with its filters under a name for the whole team.
+ */
+export function SavedViews({ onNavigate }: SavedViewsProps) {
+  const pathname = usePathname();
+  const query = viewQuery(new URLSearchParams(useSearchParams()));
+  const { views, save, remove } = useSavedViews();
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const closeForm = () => {
+    setAdding(false);
+    setName("");
+    setError(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await save(trimmed, pathname, query);
+      closeForm();
+    } catch (err) {
+      setError(parseApiError(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    if (!confirm(`Delete the saved view "${view.name}" for everyone?`)) return;
+    setError(null);
+    try {
+      await remove(view.id);
+    } catch (err) {
+      setError(parseApiError(err));
+    }
+  };
+
+  return (
+    <div className="pt-4">
+      <div className="flex items-center justify-between px-3 pb-1">
+        <span className="text-xs font-medium uppercase tracking-wider text-neutral-500">
+          Saved views
+        </span>
+        {!adding && (
+          <button
+            onClick={() => setAdding(true)}
+            aria-label="Save current view"
+            title="Save current view"
+            className="flex h-6 w-6 items-center justify-center rounded text-neutral-500 hover:bg-neutral-800 hover:text-white"
+          >
+            <Plus size={14} />
+          </button>
+        )}
+      </div>
+
+      {adding && (
+        <form onSubmit={handleSave} className="space-y-2 px-3 py-2">
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Escape" && closeForm()}
+            placeholder="Name this view"
+            maxLength={80}
+            className="w-full rounded-lg border border-neutral-700 bg-neutral-800 px-2.5 py-1.5 text-sm text-neutral-200 placeholder:text-neutral-500 focus:border-primary-500 focus:outline-none"
+          />
+          <div className="flex items-center justify-end gap-2">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="rounded px-2 py-1 text-xs text-neutral-400 hover:text-white"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy || !name.trim()}
+              className="flex items-center gap-1 rounded border border-primary-600 bg-primary-900/30 px-2 py-1 text-xs font-medium text-primary-400 hover:bg-primary-900/50 disabled:opacity-50"
+            >
+              {busy && <Loader2 size={12} className="animate-spin" />}
+              Save
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="px-3 py-1 text-xs text-red-400">{error}</p>}
+
+      {views.length === 0 && !adding && (
+        <p className="px-3 py-1.5 text-xs text-neutral-600">
+          Save a page with its filters to share it with your team.
+        </p>
+      )}
+
+      {views.map((view) => {
+        const isActive = pathname === view.path && query === view.query;
+        return (
+          <div key={view.id} className="group relative">
+            <Link
+              href={viewHref(view)}
+              onClick={onNavigate}
+              title={
+                view.created_by
+                  ? `Saved by ${view.created_by.name || view.created_by.email}`
+                  : undefined
+              }
+              className={cn(
+                "flex items-center gap-3 rounded-lg px-3 py-2 pr-9 text-sm transition-colors",
+                isActive
+                  ? "bg-primary-600/10 text-primary-400"
+                  : "text-neutral-400 hover:bg-neutral-800 hover:text-white",
+              )}
+            >
+              <Bookmark size={16} className="shrink-0" />
+              <span className="truncate">{view.name}</span>
+            </Link>
+            <button
+              onClick={() => handleDelete(view)}
+              aria-label={`Delete saved view ${view.name}`}
+              className="absolute right-2 top-1/2 hidden h-6 w-6 -translate-y-1/2 items-center justify-center rounded text-neutral-500 hover:text-red-400 focus:flex group-hover:flex"
+            >
+              <Trash2 size={13} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -22,14 +22,17 @@ import {
   FileText,
   Grid2x2Plus,
   Workflow,
+  GitBranch,
 } from "lucide-react";
 import { useState, useEffect, useRef } from "react";
 import { ProjectSwitcher } from "@/components/layout/ProjectSwitcher";
+import { SavedViews } from "@/components/layout/SavedViews";
 
 const navigation = [
   { name: "Overview", href: "/dashboard", icon: LayoutDashboard },
   { name: "Agents", href: "/agents", icon: Users },
   { name: "Workflows", href: "/workflows", icon: Workflow },
+  { name: "Traces", href: "/traces", icon: GitBranch },
   { name: "Models", href: "/models", icon: Cpu },
   { name: "Reports", href: "/reports", icon: FileText },
   { name: "Events", href: "/events", icon: List },
@@ -218,6 +221,9 @@ export function Sidebar({ mobileOpen = false, onMobileClose }: SidebarProps) {
             );
           })}
 
+          {/* Saved views */}
+          {!isCollapsed && <SavedViews onNavigate={onMobileClose} />}
+
           {/* Documentation Dropdown */}
           {!isCollapsed && (
             <div ref={docsMenuRef} className="relative pt-2">
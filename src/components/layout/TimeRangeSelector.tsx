@@ -1,34 +1,103 @@
 "use client";
 
 import { useState } from "react";
+import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { ChevronDown } from "lucide-react";
+import {
+  TIME_RANGE_PRESETS,
+  formatTimeRange,
+  monthStart,
+  sameTimeRange,
+  type AbsoluteRange,
+  type TimeRange,
+} from "@/lib/timeRange";
 
 interface TimeRangeSelectorProps {
-  value: string;
-  onChange: (value: string) => void;
+  /** Null only alongside `onClear`, for "no window at all". */
+  value: TimeRange | null;
+  onChange: (value: TimeRange) => void;
+  /** Offer an "All time" entry that calls this. */
+  onClear?: () => void;
 }
 
-const ranges = [
-  { value: "1h", label: "Last hour" },
-  { value: "24h", label: "Last 24 hours" },
-  { value: "7d", label: "Last 7 days" },
-  { value: "30d", label: "Last 30 days" },
-  { value: "90d", label: "Last 90 days" },
-];
+/** Billing-aligned windows, worked out when the menu opens. */
+function calendarRanges(): { label: string; value: AbsoluteRange }[] {
+  return [
+    {
+      label: "This month",
+      value: { start: monthStart(0).toISOString() },
+    },
+    {
+      label: "Last month",
+      value: {
+        start: monthStart(-1).toISOString(),
+        end: monthStart(0).toISOString(),
+      },
+    },
+  ];
+}
+
+function toDateInput(iso: string | undefined, exclusive = false): string {
+  if (!iso) return "";
+  const d = new Date(Date.parse(iso) - (exclusive ? 1 : 0));
+  return Number.isNaN(d.getTime()) ? "" : format(d, "yyyy-MM-dd");
+}
+
+const itemClass = (active: boolean) =>
+  cn(
+    "block w-full px-4 py-2.5 text-left text-sm transition-colors sm:py-2",
+    active
+      ? "bg-primary-600/10 text-primary-400"
+      : "text-neutral-300 hover:bg-neutral-700",
+  );
 
-export function TimeRangeSelector({ value, onChange }: TimeRangeSelectorProps) {
+export function TimeRangeSelector({
+  value,
+  onChange,
+  onClear,
+}: TimeRangeSelectorProps) {
   const [open, setOpen] = useState(false);
+  const [customOpen, setCustomOpen] = useState(false);
+  const absolute = value && typeof value !== "string" ? value : null;
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
 
-  const selectedRange = ranges.find((r) => r.value === value) || ranges[2];
+  const label = value ? formatTimeRange(value) : "All time";
+
+  const choose = (next: TimeRange) => {
+    onChange(next);
+    setOpen(false);
+  };
+
+  const toggle = () => {
+    if (!open) {
+      setCustomOpen(false);
+      setFrom(toDateInput(absolute?.start));
+      setTo(toDateInput(absolute?.end, true));
+    }
+    setOpen(!open);
+  };
+
+  // Whole local days, the end day included: the window runs up to the
+  // midnight after it.
+  const applyCustom = () => {
+    if (!from || !to || from > to) return;
+    const end = new Date(`${to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    choose({
+      start: new Date(`${from}T00:00:00`).toISOString(),
+      end: end.toISOString(),
+    });
+  };
 
   return (
     <div className="relative">
       <button
-        onClick={() => setOpen(!open)}
+        onClick={toggle}
         className="flex min-h-11 items-center gap-2 whitespace-nowrap rounded-lg border border-neutral-700 bg-neutral-800/50 px-4 py-2 text-sm font-medium text-neutral-200 hover:border-neutral-600 hover:bg-neutral-800 sm:min-h-0"
       >
-        <span>{selectedRange.label}</span>
+        <span>{label}</span>
         <ChevronDown
           size={16}
           className={cn("transition-transform", open && "rotate-180")}
@@ -38,24 +107,81 @@ export function TimeRangeSelector({ value, onChange }: TimeRangeSelectorProps) {
       {open && (
         <>
           <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
-          <div className="absolute left-0 z-20 mt-2 w-48 animate-slide-down rounded-lg border border-neutral-700 bg-neutral-800 py-1 shadow-xl sm:left-auto sm:right-0">
-            {ranges.map((range) => (
+          <div className="absolute left-0 z-20 mt-2 w-64 animate-slide-down rounded-lg border border-neutral-700 bg-neutral-800 py-1 shadow-xl sm:left-auto sm:right-0">
+            {onClear && (
               <button
-                key={range.value}
                 onClick={() => {
-                  onChange(range.value);
+                  onClear();
                   setOpen(false);
                 }}
-                className={cn(
-                  "block w-full px-4 py-2.5 text-left text-sm transition-colors sm:py-2",
-                  range.value === value
-                    ? "bg-primary-600/10 text-primary-400"
-                    : "text-neutral-300 hover:bg-neutral-700",
+                className={itemClass(value === null)}
+              >
+                All time
+              </button>
+            )}
+            {TIME_RANGE_PRESETS.map((range) => (
+              <button
+                key={range.value}
+                onClick={() => choose(range.value)}
+                className={itemClass(range.value === value)}
+              >
+                {range.label}
+              </button>
+            ))}
+            <div className="my-1 border-t border-neutral-700" />
+            {calendarRanges().map((range) => (
+              <button
+                key={range.label}
+                onClick={() => choose(range.value)}
+                className={itemClass(
+                  !!absolute && sameTimeRange(range.value, absolute),
                 )}
               >
                 {range.label}
               </button>
             ))}
+            <button
+              onClick={() => setCustomOpen(!customOpen)}
+              className={itemClass(customOpen)}
+            >
+              Custom range…
+            </button>
+            {customOpen && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  applyCustom();
+                }}
+                className="space-y-2 px-4 pb-3 pt-1"
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="date"
+                    value={from}
+                    max={to || undefined}
+                    onChange={(e) => setFrom(e.target.value)}
+                    aria-label="Start date"
+                    className="w-full rounded-lg border border-neutral-700 bg-neutral-900 px-2 py-1.5 text-[12.5px] text-neutral-200 [color-scheme:dark] focus:border-neutral-500 focus:outline-none"
+                  />
+                  <span className="text-neutral-500">–</span>
+                  <input
+                    type="date"
+                    value={to}
+                    min={from || undefined}
+                    onChange={(e) => setTo(e.target.value)}
+                    aria-label="End date"
+                    className="w-full rounded-lg border border-neutral-700 bg-neutral-900 px-2 py-1.5 text-[12.5px] text-neutral-200 [color-scheme:dark] focus:border-neutral-500 focus:outline-none"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={!from || !to || from > to}
+                  className="w-full rounded-lg bg-primary-600 px-3 py-1.5 text-[12.5px] font-medium text-white hover:bg-primary-500 disabled:opacity-40"
+                >
+                  Apply
+                </button>
+              </form>
+            )}
           </div>
         </>
       )}
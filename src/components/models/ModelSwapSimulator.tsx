@@ -0,0 +1,467 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  ArrowRight,
+  CheckCircle2,
+  FlaskConical,
+  Lightbulb,
+  RefreshCw,
+  XCircle,
+} from "lucide-react";
+import { Card } from "@/components/ui/Card";
+import { ApiErrorState } from "@/components/ui/ApiErrorState";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from "@/components/ui/Table";
+import { TableSkeleton } from "@/components/ui/Skeleton";
+import {
+  api,
+  type ModelPricing,
+  type RecommendationDraft,
+  type UsageMixRow,
+} from "@/lib/api";
+import {
+  SWAP_SCOPES,
+  simulateSwap,
+  splitStepValue,
+  swapScopeValues,
+  type SwapResult,
+  type SwapScope,
+} from "@/lib/modelSwap";
+import {
+  formatTimeRange,
+  timeRangeHours,
+  type TimeRange,
+} from "@/lib/timeRange";
+import { usePricingBasis } from "@/hooks/usePricingBasis";
+import { useApiData } from "@/hooks/useApiData";
+import { cn, formatCurrency, formatNumber, parseApiError } from "@/lib/utils";
+
+function Delta({ current, simulated }: { current: number; simulated: number }) {
+  const delta = simulated - current;
+  const percent = current > 0 ? (delta / current) * 100 : 0;
+  return (
+    <span
+      className={cn(
+        "font-mono tabular-nums",
+        delta < 0
+          ? "text-emerald-400"
+          : delta > 0
+            ? "text-red-400"
+            : "text-neutral-500",
+      )}
+    >
+      {delta > 0 ? "+" : delta < 0 ? "−" : ""}
+      {formatCurrency(Math.abs(delta))}
+      {current > 0 && delta !== 0 && (
+        <span className="ml-1 text-[11px] opacity-80">
+          ({percent > 0 ? "+" : ""}
+          {percent.toFixed(1)}%)
+        </span>
+      )}
+    </span>
+  );
+}
+
+/** The swap as a pending recommendation, worded like the engine's. */
+function toRecommendation(
+  scope: SwapScope,
+  value: string,
+  target: string,
+  share: number,
+  result: SwapResult,
+  range: TimeRange,
+): RecommendationDraft {
+  const models = [...new Set(result.agents.flatMap((a) => a.models))].filter(
+    (m) => m !== target,
+  );
+  const step = scope === "step" ? splitStepValue(value) : null;
+  const moved = share < 1 ? `${Math.round(share * 100)}% of ` : "";
+  const savings = result.current - result.simulated;
+  const perCall = (tokens: number) =>
+    result.calls > 0 ? formatNumber(Math.round(tokens / result.calls)) : "0";
+  return {
+    type: "model_downgrade",
+    title: `Move ${moved}${value} to ${target}`,
+    description: `Simulated on observed traffic (${formatTimeRange(range)}): about ${formatNumber(
+      Math.round(result.calls),
+    )} calls a month averaging ${perCall(result.input_tokens)} input and ${perCall(
+      result.output_tokens,
+    )} output tokens, repriced from ${models.join(", ") || "its current model"} to ${target}.`,
+    agent_name:
+      scope === "agent"
+        ? value
+        : result.agents.length === 1
+          ? result.agents[0].agent_name
+          : null,
+    workflow: scope === "workflow" ? value : (step?.workflow ?? null),
+    step_name: step?.step_name ?? null,
+    model: models.length === 1 ? models[0] : null,
+    alternative_model: target,
+    estimated_monthly_savings: Math.round(savings * 100) / 100,
+    estimated_savings_percent:
+      result.current > 0
+        ? Math.round((savings / result.current) * 1000) / 10
+        : 0,
+    action_items: [
+      `Change the model parameter to ${target} for ${scope} ${value}`,
+      share < 1
+        ? `Route ${Math.round(share * 100)}% of its traffic to ${target} and keep the rest where it is`
+        : `Shadow ${target} on a sample of calls before cutting over`,
+      "Compare output quality and failure rate against the current model for a week",
+    ],
+    source: "simulator",
+  };
+}
+
+/**
+ * What-if for a model swap the engine didn't suggest: an agent, workflow or
+ * step's observed token mix repriced on any model in the catalog, for some
+ * or all of its traffic, and saved as a recommendation if it's worth doing.
+ */
+export function ModelSwapSimulator({ timeRange }: { timeRange: TimeRange }) {
+  const {
+    data: mix,
+    loading: mixLoading,
+    error: mixError,
+    refetch,
+  } = useApiData(
+    (signal) => api.getUsageMix(timeRange, signal),
+    [timeRange],
+    [] as UsageMixRow[],
+  );
+  const { data: catalog } = useApiData(
+    (signal) => api.getPricing(signal),
+    [],
+    [] as ModelPricing[],
+  );
+  const [basis] = usePricingBasis();
+
+  const [scope, setScope] = useState<SwapScope>("agent");
+  const [picked, setPicked] = useState("");
+  const [targetName, setTargetName] = useState("");
+  const [sharePercent, setSharePercent] = useState(100);
+  const [saving, setSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+
+  const values = useMemo(() => swapScopeValues(mix, scope), [mix, scope]);
+  const value = values.includes(picked) ? picked : (values[0] ?? "");
+  const target = catalog.find((m) => m.model_name === targetName.trim());
+  const share = sharePercent / 100;
+
+  const result = useMemo(
+    () =>
+      value && target
+        ? simulateSwap(
+            mix,
+            scope,
+            value,
+            target,
+            share,
+            timeRangeHours(timeRange),
+          )
+        : null,
+    [mix, scope, value, target, share, timeRange],
+  );
+  const savings = result ? result.current - result.simulated : 0;
+
+  const handleSave = async () => {
+    if (!result || !target) return;
+    setSaving(true);
+    setSaveMessage(null);
+    try {
+      await api.createRecommendation(
+        toRecommendation(
+          scope,
+          value,
+          target.model_name,
+          share,
+          result,
+          timeRange,
+        ),
+      );
+      setSaveMessage({
+        type: "success",
+        text: "Saved to your pending recommendations.",
+      });
+    } catch (err) {
+      setSaveMessage({ type: "error", text: parseApiError(err) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fieldClass =
+    "w-full rounded-lg border border-white/6 bg-white/2 px-3 py-2 text-[13px] text-white placeholder:text-neutral-600 focus:border-white/20 focus:outline-none";
+
+  return (
+    <Card padding="none">
+      <div className="border-b border-white/6 px-4 py-4 sm:px-6">
+        <h3 className="flex items-center gap-2 text-[15px] font-semibold tracking-tight text-white">
+          <FlaskConical size={15} className="text-violet-400" />
+          Model Swap Simulator
+        </h3>
+        <p className="text-[12.5px] text-neutral-500 mt-0.5">
+          Reprice an agent, workflow or step on another model, using the token
+          mix it actually sent in the selected window
+        </p>
+      </div>
+
+      {mixError ? (
+        <div className="p-6">
+          <ApiErrorState error={mixError} onRetry={refetch} />
+        </div>
+      ) : mixLoading ? (
+        <div className="p-6">
+          <TableSkeleton rows={4} />
+        </div>
+      ) : mix.length === 0 ? (
+        <div className="flex h-40 items-center justify-center text-neutral-500">
+          No usage to simulate in this window
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-4 px-4 py-5 sm:px-6 md:grid-cols-[auto_1fr_1fr_auto]">
+            <div>
+              <label className="mb-1 block text-[11.5px] text-neutral-500">
+                Swap
+              </label>
+              <div className="inline-flex rounded-lg border border-white/6 p-0.5">
+                {SWAP_SCOPES.map((s) => (
+                  <button
+                    key={s.value}
+                    type="button"
+                    onClick={() => {
+                      setScope(s.value);
+                      setSaveMessage(null);
+                    }}
+                    className={cn(
+                      "rounded-md px-2.5 py-1 text-[13px] transition-colors",
+                      scope === s.value
+                        ? "bg-white/8 text-white"
+                        : "text-neutral-500 hover:text-neutral-300",
+                    )}
+                  >
+                    {s.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="mb-1 block text-[11.5px] text-neutral-500">
+                {SWAP_SCOPES.find((s) => s.value === scope)!.label}
+              </label>
+              <select
+                value={value}
+                onChange={(e) => {
+                  setPicked(e.target.value);
+                  setSaveMessage(null);
+                }}
+                disabled={values.length === 0}
+                className={fieldClass}
+              >
+                {values.length === 0 && <option value="">None traced</option>}
+                {values.map((v) => (
+                  <option key={v} value={v}>
+                    {v}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="mb-1 block text-[11.5px] text-neutral-500">
+                Target model
+              </label>
+              <input
+                type="text"
+                list="model-swap-targets"
+                value={targetName}
+                onChange={(e) => {
+                  setTargetName(e.target.value);
+                  setSaveMessage(null);
+                }}
+                placeholder="Search the pricing catalog"
+                className={cn(
+                  fieldClass,
+                  "font-mono",
+                  targetName.trim() && !target && "border-amber-500/40",
+                )}
+              />
+              <datalist id="model-swap-targets">
+                {catalog.map((m) => (
+                  <option key={m.model_name} value={m.model_name}>
+                    {m.provider}
+                  </option>
+                ))}
+              </datalist>
+              {targetName.trim() && !target && (
+                <p className="mt-1 text-[11px] text-amber-400">
+                  Not in the pricing catalog
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="mb-1 block text-[11.5px] text-neutral-500">
+                Traffic moved
+              </label>
+              <div className="flex items-center gap-3 py-1.5">
+                <input
+                  type="range"
+                  min={5}
+                  max={100}
+                  step={5}
+                  value={sharePercent}
+                  onChange={(e) => setSharePercent(Number(e.target.value))}
+                  className="w-28 accent-violet-400"
+                />
+                <span className="w-10 text-[13px] font-medium text-neutral-200 tabular-nums">
+                  {sharePercent}%
+                </span>
+              </div>
+            </div>
+          </div>
+
+          {!result || !target ? (
+            <div className="flex h-32 items-center justify-center border-t border-white/6 text-[13px] text-neutral-500">
+              Pick a target model to see the repriced cost
+            </div>
+          ) : (
+            <div className="border-t border-white/6">
+              <div className="grid grid-cols-1 gap-4 px-4 py-5 sm:grid-cols-3 sm:px-6">
+                <div>
+                  <p className="text-[11.5px] text-neutral-500">
+                    Now, per month
+                  </p>
+                  <p className="mt-1 text-xl font-semibold text-white tabular-nums">
+                    {formatCurrency(result.current)}
+                  </p>
+                </div>
+                <div>
+                  <p className="flex items-center gap-1 text-[11.5px] text-neutral-500">
+                    <ArrowRight size={11} />
+                    On {target.model_name}
+                  </p>
+                  <p className="mt-1 text-xl font-semibold text-white tabular-nums">
+                    {formatCurrency(result.simulated)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-[11.5px] text-neutral-500">Change</p>
+                  <p className="mt-1 text-xl font-semibold">
+                    <Delta
+                      current={result.current}
+                      simulated={result.simulated}
+                    />
+                  </p>
+                </div>
+              </div>
+              <p className="px-4 pb-4 text-[11.5px] text-neutral-500 sm:px-6">
+                {formatNumber(Math.round(result.calls))} calls a month ·{" "}
+                {formatNumber(Math.round(result.input_tokens))} input and{" "}
+                {formatNumber(Math.round(result.output_tokens))} output tokens ·{" "}
+                {target.model_name} at {formatCurrency(target.input)} /{" "}
+                {formatCurrency(target.output)} per 1K list
+                {result.unchanged_calls > 0 &&
+                  ` · ${formatNumber(Math.round(result.unchanged_calls))} calls already on it are unchanged`}
+                {basis === "contract" && " · current cost is at contract price"}
+              </p>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Agent</TableHead>
+                    <TableHead>Current model</TableHead>
+                    <TableHead className="text-right">Calls / mo</TableHead>
+                    <TableHead className="text-right">Now</TableHead>
+                    <TableHead className="text-right">Simulated</TableHead>
+                    <TableHead className="text-right">Delta</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.agents.map((a) => (
+                    <TableRow key={a.agent_name}>
+                      <TableCell className="font-medium text-white">
+                        {a.agent_name}
+                      </TableCell>
+                      <TableCell className="font-mono text-[12px] text-neutral-400">
+                        {a.models.join(", ")}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-neutral-300">
+                        {formatNumber(Math.round(a.calls))}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-neutral-300">
+                        {formatCurrency(a.current)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-white">
+                        {formatCurrency(a.simulated)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Delta current={a.current} simulated={a.simulated} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="flex flex-wrap items-center gap-4 border-t border-white/6 px-4 py-4 sm:px-6">
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving || savings <= 0}
+                  title={
+                    savings <= 0
+                      ? "Only a swap that saves money can be saved as a recommendation"
+                      : undefined
+                  }
+                  className="flex items-center gap-2 rounded-lg bg-violet-500/15 px-3 py-1.5 text-[13px] font-medium text-violet-300 transition-colors hover:bg-violet-500/25 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {saving ? (
+                    <RefreshCw size={14} className="animate-spin" />
+                  ) : (
+                    <Lightbulb size={14} />
+                  )}
+                  Save as recommendation
+                </button>
+                {saveMessage && (
+                  <div
+                    className={cn(
+                      "flex items-center gap-2 text-[13px]",
+                      saveMessage.type === "success"
+                        ? "text-emerald-400"
+                        : "text-red-400",
+                    )}
+                  >
+                    {saveMessage.type === "success" ? (
+                      <CheckCircle2 size={14} />
+                    ) : (
+                      <XCircle size={14} />
+                    )}
+                    {saveMessage.text}
+                    {saveMessage.type === "success" && (
+                      <Link
+                        href="/optimizations"
+                        className="text-neutral-300 underline-offset-2 hover:text-white hover:underline"
+                      >
+                        View in Optimizations
+                      </Link>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
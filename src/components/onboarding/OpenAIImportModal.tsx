@@ -17,7 +17,7 @@ import {
   SpendProvider,
   SPEND_PROVIDERS,
 } from "@/lib/integrations";
-import { formatCurrency } from "@/lib/utils";
+import { formatCurrency, formatCurrencyAxis } from "@/lib/utils";
 import { track } from "@/lib/analytics";
 
 interface OpenAIImportModalProps {
@@ -248,9 +248,7 @@ export function OpenAIImportModal({ isOpen, onClose }: OpenAIImportModalProps) {
                         minTickGap={28}
                       />
                       <YAxis
-                        tickFormatter={(v: number) =>
-                          v >= 1 ? `$${v.toFixed(0)}` : `$${v.toFixed(2)}`
-                        }
+                        tickFormatter={(value) => formatCurrencyAxis(value)}
                         tick={{ fill: "#737373", fontSize: 11 }}
                         axisLine={false}
                         tickLine={false}
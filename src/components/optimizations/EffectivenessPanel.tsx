@@ -0,0 +1,266 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronRight, Timer } from "lucide-react";
+import { Card } from "@/components/ui/Card";
+import { RecommendationOutcomeChart } from "@/components/charts/RecommendationOutcomeChart";
+import type {
+  RecommendationEffectiveness,
+  RecommendationOutcome,
+} from "@/lib/api";
+import { cn, formatCurrency, formatDate, formatPercentage } from "@/lib/utils";
+
+const TYPE_LABELS: Record<string, string> = {
+  model_downgrade: "Model switches",
+  caching: "Caching",
+  prompt_optimization: "Prompt changes",
+  batching: "Batching",
+  token_reduction: "Token reduction",
+  error_reduction: "Error reduction",
+  non_llm_candidate: "Non-LLM replacements",
+};
+
+function typeLabel(type: string): string {
+  if (TYPE_LABELS[type]) return TYPE_LABELS[type];
+  const words = type.replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function accuracyColor(accuracy: number): string {
+  if (accuracy >= 85) return "text-emerald-400";
+  if (accuracy >= 60) return "text-amber-400";
+  return "text-red-400";
+}
+
+function accuracyBar(accuracy: number): string {
+  if (accuracy >= 85) return "bg-emerald-500";
+  if (accuracy >= 60) return "bg-amber-500";
+  return "bg-red-500";
+}
+
+function Stat({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div>
+      <span className="text-neutral-500">{label}:</span> {children}
+    </div>
+  );
+}
+
+function OutcomeRow({
+  outcome,
+  selected,
+  onSelect,
+}: {
+  outcome: RecommendationOutcome;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const actual = outcome.actual_monthly_savings;
+  const daysIn = outcome.daily.filter((p) => p.baseline_cost != null).length;
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      aria-pressed={selected}
+      className={cn(
+        "flex w-full items-center gap-4 px-4 py-3 text-left transition-colors",
+        selected ? "bg-neutral-800/60" : "hover:bg-neutral-800/30",
+      )}
+    >
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium text-white">
+          {outcome.title}
+        </p>
+        <p className="mt-0.5 truncate text-xs text-neutral-500">
+          {typeLabel(outcome.type)}
+          {outcome.agent_name && ` · ${outcome.agent_name}`} · implemented{" "}
+          {formatDate(outcome.implemented_at)}
+        </p>
+      </div>
+      <div className="shrink-0 text-right text-xs tabular-nums">
+        <p className="text-neutral-400">
+          est. {formatCurrency(outcome.estimated_monthly_savings)}/mo
+        </p>
+        {actual != null ? (
+          <p className="text-white">actual {formatCurrency(actual)}/mo</p>
+        ) : (
+          <p className="flex items-center justify-end gap-1 text-neutral-500">
+            <Timer size={11} /> measuring, day {daysIn}
+          </p>
+        )}
+      </div>
+      <span
+        className={cn(
+          "w-14 shrink-0 text-right text-sm font-medium tabular-nums",
+          outcome.accuracy != null
+            ? accuracyColor(outcome.accuracy)
+            : "text-neutral-600",
+        )}
+        title="Accuracy of the savings estimate"
+      >
+        {outcome.accuracy != null ? formatPercentage(outcome.accuracy) : "—"}
+      </span>
+      <ChevronRight
+        size={14}
+        className={cn(
+          "shrink-0 transition-transform",
+          selected ? "rotate-90 text-white" : "text-neutral-600",
+        )}
+      />
+    </button>
+  );
+}
+
+/**
+ * What implemented recommendations actually saved: totals, how accurate the
+ * estimates were by kind of change, and for each one its cost before and
+ * after the change went in.
+ */
+export function EffectivenessPanel({
+  effectiveness,
+}: {
+  effectiveness: RecommendationEffectiveness;
+}) {
+  const outcomes = effectiveness.recommendations ?? [];
+  const byType = effectiveness.by_type ?? [];
+  const [selectedId, setSelectedId] = useState<string | null>(
+    () =>
+      (outcomes.find((o) => o.actual_monthly_savings != null) ?? outcomes[0])
+        ?.recommendation_id ?? null,
+  );
+  const measuredCount = outcomes.filter(
+    (o) => o.actual_monthly_savings != null,
+  ).length;
+
+  return (
+    <Card className="border-neutral-700">
+      <h3 className="font-medium text-white">Recommendation Effectiveness</h3>
+      <p className="mt-1 text-sm text-neutral-500">
+        Savings measured on each change&apos;s own traffic, against what the
+        same calls cost before it.
+      </p>
+
+      <div className="mt-4 flex flex-wrap gap-6 text-sm">
+        <Stat label="Total">
+          <span className="text-white">
+            {effectiveness.total_recommendations}
+          </span>
+        </Stat>
+        <Stat label="Implemented">
+          <span className="text-emerald-400">{effectiveness.implemented}</span>
+        </Stat>
+        <Stat label="Dismissed">
+          <span className="text-red-400">{effectiveness.dismissed}</span>
+        </Stat>
+        <Stat label="Implementation Rate">
+          <span className="text-blue-400">
+            {formatPercentage(effectiveness.implementation_rate)}
+          </span>
+        </Stat>
+        {measuredCount > 0 && (
+          <>
+            <Stat label="Estimated vs actual">
+              <span className="text-white tabular-nums">
+                {formatCurrency(effectiveness.total_estimated_savings)} →{" "}
+                {formatCurrency(effectiveness.total_actual_savings)}/mo
+              </span>
+            </Stat>
+            <Stat label="Accuracy">
+              <span className={accuracyColor(effectiveness.savings_accuracy)}>
+                {formatPercentage(effectiveness.savings_accuracy)}
+              </span>
+            </Stat>
+          </>
+        )}
+      </div>
+
+      {byType.length > 0 && (
+        <div className="mt-6">
+          <p className="mb-3 text-xs font-medium uppercase tracking-wider text-neutral-400">
+            Accuracy by type
+          </p>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {byType.map((t) => (
+              <div
+                key={t.type}
+                className="rounded-lg border border-neutral-800 bg-neutral-900/40 p-3"
+              >
+                <div className="flex items-baseline justify-between gap-2">
+                  <span className="text-sm text-neutral-300">
+                    {typeLabel(t.type)}
+                  </span>
+                  <span
+                    className={cn(
+                      "text-sm font-medium tabular-nums",
+                      t.accuracy != null
+                        ? accuracyColor(t.accuracy)
+                        : "text-neutral-600",
+                    )}
+                  >
+                    {t.accuracy != null ? formatPercentage(t.accuracy) : "—"}
+                  </span>
+                </div>
+                <div className="mt-2 h-1.5 w-full overflow-hidden rounded-full bg-neutral-800">
+                  {t.accuracy != null && (
+                    <div
+                      className={cn("h-full", accuracyBar(t.accuracy))}
+                      style={{ width: `${Math.min(100, t.accuracy)}%` }}
+                    />
+                  )}
+                </div>
+                <p className="mt-1.5 text-xs text-neutral-500 tabular-nums">
+                  {t.measured > 0
+                    ? `${formatCurrency(t.estimated_savings)} est. → ${formatCurrency(t.actual_savings)}/mo actual`
+                    : "Still measuring"}
+                  {" · "}
+                  {t.measured} of {t.implemented} measured
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-6">
+        <p className="mb-3 text-xs font-medium uppercase tracking-wider text-neutral-400">
+          Implemented recommendations
+        </p>
+        {outcomes.length === 0 ? (
+          <p className="rounded-lg border border-dashed border-neutral-800 px-4 py-6 text-center text-sm text-neutral-500">
+            Mark a recommendation as implemented to start measuring what it
+            saves.
+          </p>
+        ) : (
+          <div className="divide-y divide-neutral-800 overflow-hidden rounded-lg border border-neutral-800 bg-neutral-900/40">
+            {outcomes.map((o) => (
+              <div key={o.recommendation_id}>
+                <OutcomeRow
+                  outcome={o}
+                  selected={o.recommendation_id === selectedId}
+                  onSelect={() =>
+                    setSelectedId(
+                      o.recommendation_id === selectedId
+                        ? null
+                        : o.recommendation_id,
+                    )
+                  }
+                />
+                {o.recommendation_id === selectedId && (
+                  <div className="border-t border-neutral-800 px-4 py-4">
+                    <RecommendationOutcomeChart outcome={o} />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
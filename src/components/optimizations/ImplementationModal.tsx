@@ -14,8 +14,17 @@ import {
     Timer,
     Zap,
     X,
+    Download,
 } from "lucide-react";
-import { Recommendation } from "@/lib/api";
+import { Recommendation, SnippetTarget } from "@/lib/api";
+import {
+    SNIPPET_GENERATORS,
+    modelEnvVar,
+    modelSwitchPatch,
+    type ConfigPatch,
+    type SnippetContext,
+} from "@/lib/snippets";
+import { useSnippetTarget } from "@/hooks/useSnippetTarget";
 import { formatCurrency } from "@/lib/utils";
 
 interface ImplementationModalProps {
@@ -29,23 +38,29 @@ interface ActionStep {
     description: string;
     code?: string;
     language?: string;
+    /** Set when the change lands in a config file rather than in code. */
+    patch?: ConfigPatch;
 }
 
-function generateImplementationSteps(rec: Recommendation): ActionStep[] {
+function generateImplementationSteps(rec: Recommendation, target: SnippetTarget): ActionStep[] {
     const steps: ActionStep[] = [];
+    const generator = SNIPPET_GENERATORS[target];
+    const model = rec.model || "gpt-4o";
+    const ctx: SnippetContext = {
+        model,
+        alternative: rec.alternative_model || model,
+        envVar: modelEnvVar(rec.agent_name),
+    };
 
     switch (rec.type) {
         case "model_downgrade":
             if (rec.model && rec.alternative_model) {
                 steps.push({
                     title: "Update your agent configuration",
-                    description: `Change the model parameter from "${rec.model}" to "${rec.alternative_model}" in your agent code.`,
-                    code: `# Before
-model = "${rec.model}"
-
-# After
-model = "${rec.alternative_model}"`,
-                    language: "python",
+                    description: `Change the model from "${rec.model}" to "${rec.alternative_model}". Reading it from ${ctx.envVar} keeps the switch, and any rollback, a config change.`,
+                    code: generator.modelSwitch(ctx),
+                    language: generator.language,
+                    patch: modelSwitchPatch(ctx),
                 });
 
                 steps.push({
@@ -64,13 +79,8 @@ model = "${rec.alternative_model}"`,
             steps.push({
                 title: "Identify cacheable patterns",
                 description: `The "${rec.agent_name || "agent"}" agent has repeated queries that can be cached. Implement a cache layer for identical inputs.`,
-                code: `from functools import lru_cache
-
-@lru_cache(maxsize=1000)
-def cached_llm_call(prompt_hash: str):
-    # Your LLM call here
-    return response`,
-                language: "python",
+                code: generator.responseCache(ctx),
+                language: generator.language,
             });
 
             steps.push({
@@ -93,15 +103,8 @@ def cached_llm_call(prompt_hash: str):
             steps.push({
                 title: "Add retry logic",
                 description: "Implement exponential backoff for transient errors to avoid wasted calls.",
-                code: `import tenacity
-
-@tenacity.retry(
-    stop=tenacity.stop_after_attempt(3),
-    wait=tenacity.wait_exponential(min=1, max=10)
-)
-def resilient_llm_call(prompt):
-    return llm.call(prompt)`,
-                language: "python",
+                code: generator.retry(ctx),
+                language: generator.language,
             });
 
             steps.push({
@@ -136,13 +139,8 @@ def resilient_llm_call(prompt):
             steps.push({
                 title: "Consider streaming",
                 description: "Use streaming responses for better perceived performance in user-facing applications.",
-                code: `# Enable streaming for faster first-token
-response = await client.chat.completions.create(
-    model="${rec.model || "gpt-4"}",
-    messages=messages,
-    stream=True
-)`,
-                language: "python",
+                code: generator.streaming(ctx),
+                language: generator.language,
             });
 
             steps.push({
@@ -211,6 +209,21 @@ function CopyButton({ text }: { text: string }) {
     );
 }
 
+/**
+ * Save a config change as a .patch file
+ */
+function downloadPatch(patch: ConfigPatch) {
+    const blob = new Blob([patch.diff], { type: "text/x-diff;charset=utf-8;" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = patch.filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
+
 /**
  * Get icon for recommendation type
  */
@@ -240,9 +253,12 @@ export function ImplementationModal({
     onClose,
     recommendation,
 }: ImplementationModalProps) {
+    const [target, setTarget] = useSnippetTarget();
+
     if (!isOpen || !recommendation) return null;
 
-    const steps = generateImplementationSteps(recommendation);
+    const steps = generateImplementationSteps(recommendation, target);
+    const hasCode = steps.some((step) => step.code);
     const trackingInfo = getTrackingInfo(recommendation);
 
     return (
@@ -296,9 +312,27 @@ export function ImplementationModal({
 
                     {/* Steps */}
                     <div className="space-y-4">
-                        <h3 className="text-sm font-medium text-neutral-300 uppercase tracking-wide">
-                            Implementation Steps
-                        </h3>
+                        <div className="flex flex-wrap items-center justify-between gap-3">
+                            <h3 className="text-sm font-medium text-neutral-300 uppercase tracking-wide">
+                                Implementation Steps
+                            </h3>
+                            {hasCode && (
+                                <label className="flex items-center gap-2 text-xs text-neutral-400">
+                                    Your stack
+                                    <select
+                                        value={target}
+                                        onChange={(e) => setTarget(e.target.value as SnippetTarget)}
+                                        className="rounded-md border border-neutral-700 bg-neutral-800 px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-primary-500"
+                                    >
+                                        {(Object.keys(SNIPPET_GENERATORS) as SnippetTarget[]).map((t) => (
+                                            <option key={t} value={t}>
+                                                {SNIPPET_GENERATORS[t].label}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </label>
+                            )}
+                        </div>
 
                         {steps.map((step, idx) => (
                             <div
@@ -325,6 +359,21 @@ export function ImplementationModal({
                                             </pre>
                                         </div>
                                     )}
+
+                                    {step.patch && (
+                                        <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-neutral-500">
+                                            <button
+                                                onClick={() => step.patch && downloadPatch(step.patch)}
+                                                className="flex items-center gap-1 text-primary-400 hover:text-primary-300 transition-colors"
+                                            >
+                                                <Download size={12} />
+                                                Download {step.patch.path} patch
+                                            </button>
+                                            <span>
+                                                Apply with <code className="text-neutral-400">patch -p1 &lt; {step.patch.filename}</code>
+                                            </span>
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                         ))}
@@ -0,0 +1,34 @@
+import {
+  AlertCircle,
+  Binary,
+  Cpu,
+  Database,
+  Lightbulb,
+  RefreshCw,
+  Timer,
+  TrendingDown,
+  XCircle,
+  Zap,
+} from "lucide-react";
+
+// Optimization type icons - expanded to include all types
+export function OptimizationTypeIcon({
+  type,
+  size = 20,
+}: {
+  type: string;
+  size?: number;
+}) {
+  const icons: Record<string, React.ReactNode> = {
+    model_downgrade: <Cpu size={size} className="text-blue-400" />,
+    caching: <Database size={size} className="text-purple-400" />,
+    prompt_optimization: <Lightbulb size={size} className="text-yellow-400" />,
+    batching: <RefreshCw size={size} className="text-green-400" />,
+    token_reduction: <TrendingDown size={size} className="text-orange-400" />,
+    error_reduction: <XCircle size={size} className="text-red-400" />,
+    anomaly_alert: <AlertCircle size={size} className="text-amber-400" />,
+    latency: <Timer size={size} className="text-cyan-400" />,
+    non_llm_candidate: <Binary size={size} className="text-teal-400" />,
+  };
+  return icons[type] || <Zap size={size} className="text-gray-400" />;
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import { useState } from "react";
+import { AlarmClock, MessageSquare } from "lucide-react";
+import type {
+  OptimizationSuggestion,
+  Recommendation,
+  RecommendationPerson,
+  RecommendationStatus,
+} from "@/lib/api";
+import {
+  cn,
+  formatCurrency,
+  formatDate,
+  formatRelativeTime,
+} from "@/lib/utils";
+import { OptimizationTypeIcon } from "./OptimizationTypeIcon";
+
+export const BOARD_COLUMNS: {
+  status: RecommendationStatus;
+  label: string;
+  accent: string;
+}[] = [
+  { status: "new", label: "New", accent: "bg-sky-400" },
+  { status: "investigating", label: "Investigating", accent: "bg-violet-400" },
+  { status: "in_progress", label: "In progress", accent: "bg-amber-400" },
+  { status: "implemented", label: "Implemented", accent: "bg-emerald-400" },
+  { status: "dismissed", label: "Dismissed", accent: "bg-neutral-500" },
+  { status: "snoozed", label: "Snoozed", accent: "bg-neutral-300" },
+];
+
+export const OPEN_STATUSES = ["new", "investigating", "in_progress"] as const;
+
+/**
+ * Implemented is final — the effectiveness tracking is measuring it. Any
+ * other recommendation can go anywhere, including back to New.
+ */
+export function canMove(
+  from: RecommendationStatus,
+  to: RecommendationStatus,
+): boolean {
+  return from !== to && from !== "implemented";
+}
+
+export function statusOf(rec: Recommendation): RecommendationStatus {
+  return rec.status ?? "new";
+}
+
+/** Still waiting on someone: New, Investigating or In progress. */
+export function isOpen(rec: Recommendation): boolean {
+  return OPEN_STATUSES.some((s) => s === statusOf(rec));
+}
+
+export function statusLabel(status: RecommendationStatus): string {
+  return BOARD_COLUMNS.find((c) => c.status === status)?.label ?? status;
+}
+
+export function personName(person: RecommendationPerson): string {
+  return person.name || person.email;
+}
+
+/** The engine's current suggestion a recommendation was made from, if any. */
+export function suggestionFor(
+  rec: Recommendation,
+  suggestions: OptimizationSuggestion[],
+): OptimizationSuggestion | undefined {
+  return suggestions.find(
+    (s) =>
+      s.type === rec.type &&
+      s.agent_name === rec.agent_name &&
+      s.model === rec.model &&
+      s.alternative_model === rec.alternative_model,
+  );
+}
+
+export function Avatar({ person }: { person: RecommendationPerson }) {
+  return (
+    <span
+      title={personName(person)}
+      className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-linear-to-br from-primary-500 to-primary-700 text-[10px] font-medium text-white"
+    >
+      {personName(person).charAt(0).toUpperCase()}
+    </span>
+  );
+}
+
+const PRIORITY_DOT: Record<string, string> = {
+  high: "bg-red-400",
+  medium: "bg-yellow-400",
+  low: "bg-green-400",
+};
+
+function BoardCard({
+  rec,
+  priority,
+  dragging,
+  onOpen,
+  onDragStart,
+  onDragEnd,
+}: {
+  rec: Recommendation;
+  priority?: string;
+  dragging: boolean;
+  onOpen: () => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}) {
+  const status = statusOf(rec);
+  return (
+    <button
+      type="button"
+      draggable={status !== "implemented"}
+      onClick={onOpen}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        e.dataTransfer.setData("text/plain", rec.id);
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+      className={cn(
+        "w-full rounded-lg border border-neutral-800 bg-neutral-900 p-3 text-left transition-colors hover:border-neutral-700",
+        dragging && "opacity-40",
+      )}
+    >
+      <div className="flex items-start gap-2">
+        <span className="mt-0.5 shrink-0">
+          <OptimizationTypeIcon type={rec.type} size={14} />
+        </span>
+        <p className="line-clamp-2 text-[13px] font-medium text-white">
+          {rec.title}
+        </p>
+      </div>
+      <div className="mt-2 flex items-center gap-2 text-[11.5px] text-neutral-500">
+        {priority && (
+          <span
+            className={cn("h-1.5 w-1.5 rounded-full", PRIORITY_DOT[priority])}
+            title={`${priority} priority`}
+          />
+        )}
+        {rec.agent_name && (
+          <span className="truncate font-mono">{rec.agent_name}</span>
+        )}
+        {rec.estimated_monthly_savings > 0 && (
+          <span className="ml-auto shrink-0 text-emerald-400 tabular-nums">
+            {formatCurrency(rec.estimated_monthly_savings)}/mo
+          </span>
+        )}
+      </div>
+      <div className="mt-2.5 flex items-center gap-2 text-[11.5px] text-neutral-500">
+        {rec.assignee ? (
+          <span className="flex min-w-0 items-center gap-1.5">
+            <Avatar person={rec.assignee} />
+            <span className="truncate">{personName(rec.assignee)}</span>
+          </span>
+        ) : (
+          <span className="text-neutral-600">Unassigned</span>
+        )}
+        <span className="ml-auto flex shrink-0 items-center gap-2">
+          {status === "snoozed" && rec.snoozed_until && (
+            <span className="flex items-center gap-1">
+              <AlarmClock size={11} />
+              {formatDate(rec.snoozed_until)}
+            </span>
+          )}
+          {(status === "implemented" || status === "dismissed") &&
+            rec.updated_at && <span>{formatRelativeTime(rec.updated_at)}</span>}
+          {(rec.comment_count ?? 0) > 0 && (
+            <span className="flex items-center gap-1">
+              <MessageSquare size={11} />
+              {rec.comment_count}
+            </span>
+          )}
+        </span>
+      </div>
+    </button>
+  );
+}
+
+/**
+ * Recommendations by where they are in their lifecycle. Cards open the
+ * recommendation; dragging one to another column asks to move it there.
+ */
+export function RecommendationBoard({
+  recommendations,
+  suggestions,
+  onOpen,
+  onMove,
+}: {
+  recommendations: Recommendation[];
+  suggestions: OptimizationSuggestion[];
+  onOpen: (rec: Recommendation) => void;
+  onMove: (rec: Recommendation, status: RecommendationStatus) => void;
+}) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overStatus, setOverStatus] = useState<RecommendationStatus | null>(
+    null,
+  );
+  const dragging = recommendations.find((r) => r.id === draggingId);
+
+  return (
+    <div className="grid auto-cols-[minmax(15rem,1fr)] grid-flow-col gap-3 overflow-x-auto pb-2">
+      {BOARD_COLUMNS.map((column) => {
+        const cards = recommendations.filter(
+          (r) => statusOf(r) === column.status,
+        );
+        const savings = cards.reduce(
+          (sum, r) => sum + r.estimated_monthly_savings,
+          0,
+        );
+        const droppable =
+          dragging != null && canMove(statusOf(dragging), column.status);
+        return (
+          <section
+            key={column.status}
+            aria-label={column.label}
+            onDragOver={(e) => {
+              if (!droppable) return;
+              e.preventDefault();
+              setOverStatus(column.status);
+            }}
+            onDragLeave={() => setOverStatus(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setOverStatus(null);
+              if (dragging && droppable) onMove(dragging, column.status);
+            }}
+            className={cn(
+              "flex min-h-40 flex-col rounded-xl border bg-neutral-950/60 p-2 transition-colors",
+              overStatus === column.status && droppable
+                ? "border-neutral-600 bg-neutral-900/60"
+                : "border-neutral-800",
+            )}
+          >
+            <header className="flex items-center gap-2 px-1.5 pb-2.5 pt-1">
+              <span className={cn("h-2 w-2 rounded-full", column.accent)} />
+              <h3 className="text-[13px] font-medium text-white">
+                {column.label}
+              </h3>
+              <span className="text-[12px] text-neutral-500">
+                {cards.length}
+              </span>
+              {savings > 0 && (
+                <span className="ml-auto text-[11.5px] text-neutral-500 tabular-nums">
+                  {formatCurrency(savings)}/mo
+                </span>
+              )}
+            </header>
+            <div className="space-y-2">
+              {cards.map((rec) => (
+                <BoardCard
+                  key={rec.id}
+                  rec={rec}
+                  priority={suggestionFor(rec, suggestions)?.priority}
+                  dragging={rec.id === draggingId}
+                  onOpen={() => onOpen(rec)}
+                  onDragStart={() => setDraggingId(rec.id)}
+                  onDragEnd={() => {
+                    setDraggingId(null);
+                    setOverStatus(null);
+                  }}
+                />
+              ))}
+              {cards.length === 0 && (
+                <p className="rounded-lg border border-dashed border-neutral-800 px-3 py-6 text-center text-[12px] text-neutral-600">
+                  Nothing here
+                </p>
+              )}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,465 @@
+"use client";
+
+import { useEffect, useState, type ReactNode } from "react";
+import {
+  AlarmClock,
+  ArrowRight,
+  Check,
+  MessageSquare,
+  RefreshCw,
+  Sparkles,
+  UserRound,
+  X,
+} from "lucide-react";
+import { ApiErrorState } from "@/components/ui/ApiErrorState";
+import {
+  api,
+  type ProjectMember,
+  type Recommendation,
+  type RecommendationActivity,
+  type RecommendationStatus,
+  type RecommendationUpdate,
+} from "@/lib/api";
+import { useApiData } from "@/hooks/useApiData";
+import {
+  cn,
+  formatCurrency,
+  formatDate,
+  formatRelativeTime,
+  parseApiError,
+} from "@/lib/utils";
+import { OptimizationTypeIcon } from "./OptimizationTypeIcon";
+import {
+  Avatar,
+  BOARD_COLUMNS,
+  OPEN_STATUSES,
+  canMove,
+  personName,
+  statusLabel,
+  statusOf,
+} from "./RecommendationBoard";
+
+/** "2026-10-20" for the day after today, the earliest a snooze can end. */
+function tomorrow(): string {
+  const d = new Date();
+  d.setDate(d.getDate() + 1);
+  return d.toLocaleDateString("en-CA");
+}
+
+function SectionTitle({ children }: { children: ReactNode }) {
+  return (
+    <h4 className="mb-3 text-xs font-medium uppercase tracking-wider text-neutral-400">
+      {children}
+    </h4>
+  );
+}
+
+function StatusPill({ status }: { status: RecommendationStatus }) {
+  const column = BOARD_COLUMNS.find((c) => c.status === status);
+  return (
+    <span className="inline-flex items-center gap-1.5 rounded-full border border-neutral-800 px-2 py-0.5 text-xs text-neutral-300">
+      <span className={cn("h-1.5 w-1.5 rounded-full", column?.accent)} />
+      {statusLabel(status)}
+    </span>
+  );
+}
+
+/** One line of history, worded from the actor's side. */
+function describe(entry: RecommendationActivity): ReactNode {
+  const who = entry.actor ? personName(entry.actor) : "AgentCost";
+  switch (entry.kind) {
+    case "created":
+      return "Recommended by the optimization engine";
+    case "assigned":
+      if (!entry.assignee) return `${who} unassigned it`;
+      return entry.actor?.user_id === entry.assignee.user_id
+        ? `${who} took it`
+        : `${who} assigned it to ${personName(entry.assignee)}`;
+    case "status":
+      if (!entry.actor && entry.from_status === "snoozed") {
+        return "The snooze ended; it's back in New";
+      }
+      if (entry.to_status === "snoozed") {
+        return `${who} snoozed it${entry.snoozed_until ? ` until ${formatDate(entry.snoozed_until)}` : ""}`;
+      }
+      return (
+        <>
+          {who} moved it
+          {entry.from_status &&
+            ` from ${statusLabel(entry.from_status)}`} to{" "}
+          {entry.to_status ? statusLabel(entry.to_status) : "—"}
+        </>
+      );
+    default:
+      return who;
+  }
+}
+
+function ActivityEntry({ entry }: { entry: RecommendationActivity }) {
+  if (entry.kind === "comment") {
+    return (
+      <li className="flex gap-3">
+        {entry.actor ? (
+          <Avatar person={entry.actor} />
+        ) : (
+          <MessageSquare size={14} className="mt-0.5 text-neutral-500" />
+        )}
+        <div className="min-w-0 flex-1 rounded-lg border border-neutral-800 bg-neutral-900/60 px-3 py-2">
+          <p className="text-xs text-neutral-500">
+            <span className="font-medium text-neutral-300">
+              {entry.actor ? personName(entry.actor) : "AgentCost"}
+            </span>{" "}
+            ·{" "}
+            <span title={formatDate(entry.at)}>
+              {formatRelativeTime(entry.at)}
+            </span>
+          </p>
+          <p className="mt-1 whitespace-pre-wrap text-sm text-neutral-200">
+            {entry.text}
+          </p>
+        </div>
+      </li>
+    );
+  }
+  return (
+    <li className="flex gap-3 text-sm">
+      <span className="flex h-5 w-5 shrink-0 items-center justify-center text-neutral-500">
+        {entry.kind === "created" ? (
+          <Sparkles size={13} />
+        ) : entry.kind === "assigned" ? (
+          <UserRound size={13} />
+        ) : entry.to_status === "snoozed" ? (
+          <AlarmClock size={13} />
+        ) : (
+          <ArrowRight size={13} />
+        )}
+      </span>
+      <div className="min-w-0">
+        <p className="text-neutral-400">
+          {describe(entry)}{" "}
+          <span
+            className="text-xs text-neutral-600"
+            title={formatDate(entry.at)}
+          >
+            {formatRelativeTime(entry.at)}
+          </span>
+        </p>
+        {entry.text && (
+          <p className="mt-1 border-l-2 border-neutral-800 pl-2 text-[13px] text-neutral-500">
+            {entry.text}
+          </p>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Slide-over for one recommendation on the board: who owns it, where it is,
+ * its comments and everything that happened to it. `detail` is the engine's
+ * write-up of the opportunity, when it still reports one.
+ */
+export function RecommendationDrawer({
+  recommendation: rec,
+  members,
+  detail,
+  busy,
+  onClose,
+  onUpdate,
+  onImplement,
+  onDismiss,
+  onCommented,
+}: {
+  recommendation: Recommendation;
+  members: ProjectMember[];
+  detail?: ReactNode;
+  busy: boolean;
+  onClose: () => void;
+  onUpdate: (changes: RecommendationUpdate) => Promise<void>;
+  onImplement: () => void;
+  onDismiss: () => void;
+  onCommented: () => void;
+}) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const {
+    data: activity,
+    loading: activityLoading,
+    error: activityError,
+    refetch: refetchActivity,
+  } = useApiData(
+    (signal) => api.getRecommendationActivity(rec.id, signal),
+    [rec.id, rec.updated_at],
+    [] as RecommendationActivity[],
+  );
+
+  const [minSnooze] = useState(tomorrow);
+  const [snoozeDate, setSnoozeDate] = useState("");
+  const [comment, setComment] = useState("");
+  const [posting, setPosting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const status = statusOf(rec);
+  const assignable = members.filter((m) => !m.is_pending);
+
+  const run = async (action: () => Promise<void>) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(parseApiError(err));
+    }
+  };
+
+  const handleComment = () =>
+    run(async () => {
+      if (!comment.trim()) return;
+      setPosting(true);
+      try {
+        await api.addRecommendationComment(rec.id, comment.trim());
+        setComment("");
+        refetchActivity();
+        onCommented();
+      } finally {
+        setPosting(false);
+      }
+    });
+
+  const handleSnooze = () =>
+    run(async () => {
+      await onUpdate({
+        status: "snoozed",
+        snoozed_until: new Date(`${snoozeDate}T00:00`).toISOString(),
+      });
+      setSnoozeDate("");
+    });
+
+  const buttonClass =
+    "flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-[13px] font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-end bg-black/50"
+      onClick={onClose}
+    >
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label="Recommendation"
+        className="flex h-full w-full max-w-xl flex-col border-l border-neutral-800 bg-neutral-950 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 border-b border-neutral-800 px-5 py-4">
+          <div className="flex min-w-0 items-start gap-3">
+            <span className="mt-0.5 shrink-0">
+              <OptimizationTypeIcon type={rec.type} size={18} />
+            </span>
+            <div className="min-w-0">
+              <h3 className="font-medium text-white">{rec.title}</h3>
+              <p className="mt-1 flex flex-wrap items-center gap-2 text-sm text-neutral-500">
+                <StatusPill status={status} />
+                {status === "snoozed" && rec.snoozed_until && (
+                  <span>until {formatDate(rec.snoozed_until)}</span>
+                )}
+                {rec.estimated_monthly_savings > 0 && (
+                  <span className="text-emerald-400">
+                    {formatCurrency(rec.estimated_monthly_savings)}/mo
+                  </span>
+                )}
+                {rec.agent_name && (
+                  <span className="font-mono">{rec.agent_name}</span>
+                )}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="p-1 text-neutral-400 transition-colors hover:text-white"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-6 overflow-y-auto px-5 py-5">
+          {/* Ownership and status */}
+          <section>
+            <SectionTitle>Owner</SectionTitle>
+            <select
+              value={rec.assignee?.user_id ?? ""}
+              disabled={busy}
+              onChange={(e) =>
+                run(() =>
+                  onUpdate({ assignee_user_id: e.target.value || null }),
+                )
+              }
+              className="w-full rounded-lg border border-neutral-800 bg-neutral-900 px-3 py-2 text-sm text-white focus:border-neutral-600 focus:outline-none"
+            >
+              <option value="">Unassigned</option>
+              {assignable.map((m) => (
+                <option key={m.user_id} value={m.user_id}>
+                  {m.name || m.email}
+                </option>
+              ))}
+            </select>
+          </section>
+
+          <section>
+            <SectionTitle>Status</SectionTitle>
+            {status === "implemented" ? (
+              <p className="text-sm text-neutral-400">
+                Implemented
+                {rec.updated_at && ` ${formatDate(rec.updated_at)}`}. What it
+                saves is tracked under Recommendation Effectiveness.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  {OPEN_STATUSES.filter((s) => canMove(status, s)).map((s) => (
+                    <button
+                      key={s}
+                      type="button"
+                      disabled={busy}
+                      onClick={() => run(() => onUpdate({ status: s }))}
+                      className={cn(
+                        buttonClass,
+                        "bg-neutral-800 text-neutral-200 hover:bg-neutral-700",
+                      )}
+                    >
+                      <ArrowRight size={14} />
+                      {status === "snoozed" && s === "new"
+                        ? "Wake now"
+                        : statusLabel(s)}
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={onImplement}
+                    className={cn(
+                      buttonClass,
+                      "bg-emerald-600 text-white hover:bg-emerald-700",
+                    )}
+                  >
+                    <Check size={14} />
+                    Mark implemented
+                  </button>
+                  {status !== "dismissed" && (
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={onDismiss}
+                      className={cn(
+                        buttonClass,
+                        "bg-neutral-800 text-neutral-300 hover:bg-neutral-700",
+                      )}
+                    >
+                      <X size={14} />
+                      Dismiss
+                    </button>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="date"
+                    aria-label="Snooze until"
+                    min={minSnooze}
+                    value={snoozeDate}
+                    onChange={(e) => setSnoozeDate(e.target.value)}
+                    className="rounded-lg border border-neutral-800 bg-neutral-900 px-3 py-1.5 text-sm text-white [color-scheme:dark] focus:border-neutral-600 focus:outline-none"
+                  />
+                  <button
+                    type="button"
+                    disabled={busy || !snoozeDate || snoozeDate < minSnooze}
+                    onClick={handleSnooze}
+                    className={cn(
+                      buttonClass,
+                      "bg-neutral-800 text-neutral-200 hover:bg-neutral-700",
+                    )}
+                  >
+                    <AlarmClock size={14} />
+                    {status === "snoozed" ? "Snooze again" : "Snooze"}
+                  </button>
+                  <span className="text-xs text-neutral-500">
+                    It comes back to New that morning.
+                  </span>
+                </div>
+              </div>
+            )}
+            {actionError && (
+              <p className="mt-2 text-sm text-red-400">{actionError}</p>
+            )}
+          </section>
+
+          {detail && (
+            <section>
+              <SectionTitle>Opportunity</SectionTitle>
+              {detail}
+            </section>
+          )}
+          {!detail && rec.description && (
+            <section>
+              <SectionTitle>Opportunity</SectionTitle>
+              <p className="text-sm text-neutral-400">{rec.description}</p>
+            </section>
+          )}
+
+          {/* Comments and history */}
+          <section>
+            <SectionTitle>Activity</SectionTitle>
+            {activityError ? (
+              <ApiErrorState error={activityError} onRetry={refetchActivity} />
+            ) : activityLoading && activity.length === 0 ? (
+              <p className="text-sm text-neutral-500">Loading…</p>
+            ) : (
+              <ol className="space-y-4">
+                {activity.map((entry) => (
+                  <ActivityEntry key={entry.id} entry={entry} />
+                ))}
+              </ol>
+            )}
+            <div className="mt-5">
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Add a comment…"
+                rows={3}
+                className="w-full resize-none rounded-lg border border-neutral-800 bg-neutral-900 px-3 py-2 text-sm text-white placeholder-neutral-600 focus:border-neutral-600 focus:outline-none"
+              />
+              <div className="mt-2 flex justify-end">
+                <button
+                  type="button"
+                  disabled={posting || !comment.trim()}
+                  onClick={handleComment}
+                  className={cn(
+                    buttonClass,
+                    "bg-primary-600 text-white hover:bg-primary-700",
+                  )}
+                >
+                  {posting ? (
+                    <RefreshCw size={14} className="animate-spin" />
+                  ) : (
+                    <MessageSquare size={14} />
+                  )}
+                  Comment
+                </button>
+              </div>
+            </div>
+          </section>
+
+          <p className="text-xs text-neutral-600">
+            Created {formatDate(rec.created_at)} · expires{" "}
+            {formatDate(rec.expires_at)}
+          </p>
+        </div>
+      </aside>
+    </div>
+  );
+}
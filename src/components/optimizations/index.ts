@@ -1,2 +1,10 @@
 export { ImplementationModal } from "./ImplementationModal";
 export { FeedbackDialog } from "./FeedbackDialog";
+export { EffectivenessPanel } from "./EffectivenessPanel";
+export { OptimizationTypeIcon } from "./OptimizationTypeIcon";
+export {
+  RecommendationBoard,
+  isOpen,
+  suggestionFor,
+} from "./RecommendationBoard";
+export { RecommendationDrawer } from "./RecommendationDrawer";
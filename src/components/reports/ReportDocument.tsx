@@ -1,5 +1,6 @@
 "use client";
 
+import { useMemo } from "react";
 import Link from "next/link";
 import {
   DollarSign,
@@ -25,7 +26,7 @@ import {
   TableHead,
   TableCell,
 } from "@/components/ui/Table";
-import { HeroStatCard, type Delta } from "@/components/dashboard/HeroStatCard";
+import { HeroStatCard, toHeroDelta } from "@/components/dashboard/HeroStatCard";
 import { MainTimeSeriesChart } from "@/components/charts/MainTimeSeriesChart";
 import { ModelDonut } from "@/components/charts/ModelDonut";
 import { DeltaBadge } from "./DeltaBadge";
@@ -36,21 +37,16 @@ import {
   formatLatency,
   formatPercentage,
 } from "@/lib/utils";
-import type {
-  ExecutiveReport,
-  MetricDelta,
-  ModelStats,
-} from "@/lib/api";
-
-/** Map the backend MetricDelta onto HeroStatCard's Delta shape. */
-function toHeroDelta(d: MetricDelta): Delta {
-  return { value: Math.abs(d.change_percent), direction: d.direction };
-}
+import type { ExecutiveReport, ModelStats } from "@/lib/api";
+import { forecastSpend } from "@/lib/forecast";
+import { budgetPeriodMeta } from "@/lib/budgetPeriod";
+import { currencySymbol, reportFx } from "@/lib/currency";
+import { FxNote } from "@/components/ui/FxNote";
+import { pricingBasisLabel } from "@/lib/pricing";
 
 function fmtMoney(value: number, currency: string): string {
   if (currency === "USD") return formatCurrency(value);
-  const symbol = currency === "INR" ? "₹" : `${currency} `;
-  return `${symbol}${value.toLocaleString(undefined, {
+  return `${currencySymbol(currency)}${value.toLocaleString(undefined, {
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
   })}`;
@@ -107,6 +103,7 @@ interface ReportDocumentProps {
 export function ReportDocument({ report }: ReportDocumentProps) {
   const { summary, overview, run_rate, budget, latency, efficiency } = report;
   const currency = report.currency;
+  const fx = reportFx(report);
 
   const spanMs =
     report.timeseries.length > 1
@@ -114,6 +111,10 @@ export function ReportDocument({ report }: ReportDocumentProps) {
         new Date(report.timeseries[0].timestamp).getTime()
       : 0;
   const chartRange = spanMs > 0 && spanMs <= 2 * 86400_000 ? "24h" : "30d";
+  const forecast = useMemo(
+    () => forecastSpend(report.timeseries, new Date(report.generated_at)),
+    [report],
+  );
 
   const sortedModels: ModelStats[] = [...report.models].sort(
     (a, b) => b.total_cost - a.total_cost,
@@ -154,9 +155,13 @@ export function ReportDocument({ report }: ReportDocumentProps) {
             {fmtDate(report.period_end)}
           </p>
           <p>Generated {new Date(report.generated_at).toLocaleString()}</p>
+          <p className="mt-0.5">
+            Costs at {pricingBasisLabel(report.pricing_basis).toLowerCase()}
+          </p>
           <p className="mt-0.5">
             Compared to previous {run_rate.window_days}-day window
           </p>
+          <FxNote fx={fx} className="mt-0.5" />
         </div>
       </div>
 
@@ -174,6 +179,7 @@ export function ReportDocument({ report }: ReportDocumentProps) {
         <HeroStatCard
           label="Total Spend"
           value={fmtMoney(overview.total_cost, currency)}
+          fx={fx}
           sub={`${fmtMoney(overview.avg_cost_per_call, currency)} / call`}
           icon={<DollarSign size={15} />}
           iconClassName="bg-sky-500/10 text-sky-400"
@@ -216,13 +222,25 @@ export function ReportDocument({ report }: ReportDocumentProps) {
           delta={toHeroDelta(summary.avg_latency_ms)}
           upIsBad
         />
-        <HeroStatCard
-          label="Projected / mo"
-          value={fmtMoney(run_rate.projected_monthly_cost, currency)}
-          sub="At current run rate"
-          icon={<TrendingUp size={15} />}
-          iconClassName="bg-indigo-500/10 text-indigo-400"
-        />
+        {forecast ? (
+          <HeroStatCard
+            label={`Projected · ${forecast.month.label}`}
+            value={fmtMoney(forecast.month.p50, currency)}
+            fx={fx}
+            sub={`p10–p90 ${fmtMoney(forecast.month.p10, currency)} – ${fmtMoney(forecast.month.p90, currency)}`}
+            icon={<TrendingUp size={15} />}
+            iconClassName="bg-indigo-500/10 text-indigo-400"
+          />
+        ) : (
+          <HeroStatCard
+            label="Projected / mo"
+            value={fmtMoney(run_rate.projected_monthly_cost, currency)}
+            fx={fx}
+            sub="At current run rate"
+            icon={<TrendingUp size={15} />}
+            iconClassName="bg-indigo-500/10 text-indigo-400"
+          />
+        )}
       </div>
 
       {/* ── Spend trend ───────────────────────────────────────────────── */}
@@ -234,7 +252,11 @@ export function ReportDocument({ report }: ReportDocumentProps) {
           iconClass="bg-sky-500/10 text-sky-400"
         />
         {report.timeseries.length > 0 ? (
-          <MainTimeSeriesChart data={report.timeseries} range={chartRange} />
+          <MainTimeSeriesChart
+            data={report.timeseries}
+            range={chartRange}
+            forecast={forecast}
+          />
         ) : (
           <div className="flex h-48 items-center justify-center text-neutral-500">
             No data available
@@ -249,8 +271,14 @@ export function ReportDocument({ report }: ReportDocumentProps) {
           title="Budget Status"
           subtitle={
             budget.enabled
-              ? `Monthly budget · ${budget.mode} enforcement`
-              : "No monthly budget configured"
+              ? [
+                  `${budgetPeriodMeta(budget.period ?? "monthly").label} budget`,
+                  budget.period_key,
+                  `${budget.mode} enforcement`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")
+              : "No budget configured"
           }
           iconClass="bg-emerald-500/10 text-emerald-400"
         />
@@ -259,7 +287,7 @@ export function ReportDocument({ report }: ReportDocumentProps) {
             <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
               <Stat label="Budget" value={fmtMoney(budget.budget, currency)} />
               <Stat
-                label="Spent (MTD)"
+                label={`Spent (${budgetPeriodMeta(budget.period ?? "monthly").toDate})`}
                 value={fmtMoney(budget.current_spend, currency)}
               />
               <Stat
@@ -292,9 +320,52 @@ export function ReportDocument({ report }: ReportDocumentProps) {
           </div>
         ) : (
           <p className="text-sm text-neutral-500">
-            Set a monthly budget in Settings to track utilization and get alerts.
+            Set a budget in Settings to track utilization and get alerts.
           </p>
         )}
+        {budget.sub_budgets && budget.sub_budgets.length > 0 && (
+          <div className="mt-5 border-t border-white/6 pt-4">
+            <p className="mb-3 text-[11px] font-medium uppercase tracking-wider text-neutral-500">
+              Scoped budgets
+            </p>
+            <div className="space-y-3">
+              {budget.sub_budgets.map((sb) => (
+                <div key={`${sb.scope}:${sb.scope_value}`}>
+                  <div className="flex flex-wrap items-baseline justify-between gap-2 text-[13px]">
+                    <span className="text-neutral-200">
+                      <span className="text-neutral-500">{sb.scope}</span>{" "}
+                      {sb.scope_value}
+                      {sb.mode === "hard_cap" && (
+                        <span className="ml-2 text-[11px] text-red-400">
+                          hard cap
+                        </span>
+                      )}
+                    </span>
+                    <span className="text-neutral-400 tabular-nums">
+                      {fmtMoney(sb.current_spend, currency)} of{" "}
+                      {fmtMoney(sb.budget, currency)} · projected{" "}
+                      {fmtMoney(sb.projected_spend, currency)}
+                    </span>
+                  </div>
+                  <div className="mt-1.5 h-1.5 w-full overflow-hidden rounded-full bg-white/5">
+                    <div
+                      className={`h-full rounded-full ${
+                        (sb.utilization_percent ?? 0) >= 100
+                          ? "bg-red-500"
+                          : (sb.utilization_percent ?? 0) >= 80
+                            ? "bg-amber-500"
+                            : "bg-emerald-500"
+                      }`}
+                      style={{
+                        width: `${Math.min(sb.utilization_percent ?? 0, 100)}%`,
+                      }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </Card>
 
       {/* ── Cost concentration ────────────────────────────────────────── */}
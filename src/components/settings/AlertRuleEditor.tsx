@@ -0,0 +1,481 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { FlaskConical, RefreshCw, Save, X } from "lucide-react";
+import { Card } from "@/components/ui/Card";
+import {
+  api,
+  type AlertComparator,
+  type AlertMetric,
+  type AlertPreview,
+  type AlertRuleInput,
+  type AlertScope,
+  type EventFilterOptions,
+  type NotificationSeverity,
+} from "@/lib/api";
+import {
+  ALERT_COMPARATORS,
+  ALERT_COOLDOWNS,
+  ALERT_METRICS,
+  ALERT_SCOPES,
+  ALERT_WINDOWS,
+  alertScopesFor,
+  describeAlertRule,
+  formatAlertValue,
+  formatMinutes,
+} from "@/lib/alerts";
+import { CURRENCIES } from "@/lib/currency";
+import { cn, parseApiError } from "@/lib/utils";
+import { useDisplayCurrency } from "@/contexts/DisplayCurrencyContext";
+
+const PREVIEW_DAYS = 30;
+
+const SEVERITIES: NotificationSeverity[] = ["info", "warning", "critical"];
+
+const SCOPE_SUGGESTIONS: Record<
+  Exclude<AlertScope, "project">,
+  keyof EventFilterOptions
+> = {
+  agent: "agents",
+  model: "models",
+  workflow: "workflows",
+  step: "steps",
+};
+
+const fieldBase =
+  "rounded-lg border border-neutral-700 bg-neutral-800/50 px-3 py-2 text-sm text-white focus:border-primary-500 focus:outline-none";
+const fieldClass = cn(fieldBase, "w-full");
+
+interface AlertRuleEditorProps {
+  projectId: string;
+  /** The rule being edited, or the defaults for a new one. */
+  initial: AlertRuleInput;
+  isNew: boolean;
+  /** Names seen in the project's events, offered for the scope value. */
+  options: EventFilterOptions;
+  onSave: (rule: AlertRuleInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * When a preview fired, one cell per day: quiet days stay dark and days
+ * with firings light up, so bursts and one-offs read at a glance.
+ */
+function PreviewStrip({ preview }: { preview: AlertPreview }) {
+  const days = useMemo(() => {
+    const start = Date.parse(preview.start);
+    const counts = new Array<number>(PREVIEW_DAYS).fill(0);
+    for (const f of preview.firings) {
+      const day = Math.floor((Date.parse(f.timestamp) - start) / 86_400_000);
+      counts[Math.min(PREVIEW_DAYS - 1, Math.max(0, day))] += 1;
+    }
+    return counts.map((count, i) => ({
+      count,
+      date: new Date(start + i * 86_400_000),
+    }));
+  }, [preview]);
+
+  return (
+    <div>
+      <div className="flex gap-0.5">
+        {days.map(({ count, date }) => (
+          <div
+            key={date.toISOString()}
+            title={`${format(date, "MMM d")}: ${count} firing${count === 1 ? "" : "s"}`}
+            className={cn(
+              "h-6 flex-1 rounded-sm",
+              count === 0
+                ? "bg-neutral-800"
+                : count === 1
+                  ? "bg-amber-500/60"
+                  : "bg-red-500/70",
+            )}
+          />
+        ))}
+      </div>
+      <div className="mt-1 flex justify-between text-[11px] text-neutral-500">
+        <span>{format(days[0].date, "MMM d")}</span>
+        <span>Today</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Create or edit an alert rule, with a dry run of the rule over the last
+ * 30 days so a threshold can be tuned before it starts sending anything.
+ */
+export function AlertRuleEditor({
+  projectId,
+  initial,
+  isNew,
+  options,
+  onSave,
+  onCancel,
+}: AlertRuleEditorProps) {
+  const { fx } = useDisplayCurrency();
+  // Thresholds are stored in USD but typed in the display currency, the one
+  // the rule's description and the preview's values are shown in.
+  const rateFor = (metric: AlertMetric) =>
+    ALERT_METRICS[metric].unit === "usd" ? fx.rate : 1;
+
+  const [rule, setRule] = useState<AlertRuleInput>(initial);
+  const [thresholdInput, setThresholdInput] = useState(() =>
+    String(
+      Number((initial.threshold * rateFor(initial.metric)).toPrecision(6)),
+    ),
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A preview belongs to the exact rule it was run for; any edit hides it.
+  const [preview, setPreview] = useState<{
+    key: string;
+    result: AlertPreview;
+  } | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const ruleKey = JSON.stringify(rule);
+  const currentPreview = preview?.key === ruleKey ? preview.result : null;
+
+  const scopes = alertScopesFor(rule.metric);
+  const isCurrencyMetric = ALERT_METRICS[rule.metric].unit === "usd";
+  const suggestions =
+    rule.scope === "project" ? [] : options[SCOPE_SUGGESTIONS[rule.scope]];
+  const incomplete =
+    !rule.name.trim() ||
+    (rule.scope !== "project" && !rule.scope_value?.trim()) ||
+    !Number.isFinite(rule.threshold);
+
+  const set = (changes: Partial<AlertRuleInput>) =>
+    setRule((r) => ({ ...r, ...changes }));
+
+  const thresholdFrom = (input: string, metric: AlertMetric) =>
+    input === "" ? NaN : Number(input) / rateFor(metric);
+
+  const setMetric = (metric: AlertMetric) =>
+    set({
+      metric,
+      // Keep the number as typed; only costs are in the display currency.
+      threshold: thresholdFrom(thresholdInput, metric),
+      // Keep the scope when the new metric supports it.
+      ...(alertScopesFor(metric).includes(rule.scope)
+        ? {}
+        : { scope: "project", scope_value: null }),
+    });
+
+  const runPreview = async () => {
+    setIsPreviewing(true);
+    setError(null);
+    try {
+      const result = await api.previewAlertRule(projectId, rule, PREVIEW_DAYS);
+      setPreview({ key: ruleKey, result });
+    } catch (err) {
+      setError(parseApiError(err));
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        ...rule,
+        name: rule.name.trim(),
+        scope_value:
+          rule.scope === "project" ? null : rule.scope_value?.trim() || null,
+      });
+    } catch (err) {
+      setError(parseApiError(err));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-white">
+          {isNew ? "New alert rule" : "Edit alert rule"}
+        </h3>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="p-1.5 rounded-lg hover:bg-neutral-700 text-neutral-400 hover:text-white transition-colors"
+          title="Close"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-4 p-3 rounded-lg bg-red-900/30 border border-red-700 text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-4 grid gap-4 sm:grid-cols-2">
+        <div className="sm:col-span-2">
+          <label className="block text-sm text-neutral-400 mb-1">Name</label>
+          <input
+            type="text"
+            value={rule.name}
+            onChange={(e) => set({ name: e.target.value })}
+            placeholder="Research agent spend spike"
+            className={fieldClass}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm text-neutral-400 mb-1">Metric</label>
+          <select
+            value={rule.metric}
+            onChange={(e) => setMetric(e.target.value as AlertMetric)}
+            className={fieldClass}
+          >
+            {(Object.keys(ALERT_METRICS) as AlertMetric[]).map((m) => (
+              <option key={m} value={m}>
+                {ALERT_METRICS[m].label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-neutral-500">
+            {ALERT_METRICS[rule.metric].description}
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm text-neutral-400 mb-1">Scope</label>
+          <div className="flex gap-2">
+            <select
+              value={rule.scope}
+              onChange={(e) =>
+                set({
+                  scope: e.target.value as AlertScope,
+                  scope_value: null,
+                })
+              }
+              className={cn(
+                fieldBase,
+                rule.scope === "project" ? "w-full" : "w-32 shrink-0",
+              )}
+            >
+              {ALERT_SCOPES.filter((s) => scopes.includes(s.value)).map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+            {rule.scope !== "project" && (
+              <>
+                <input
+                  type="text"
+                  list="alert-scope-values"
+                  value={rule.scope_value ?? ""}
+                  onChange={(e) => set({ scope_value: e.target.value })}
+                  placeholder={`${rule.scope} name`}
+                  className={cn(fieldBase, "min-w-0 flex-1")}
+                />
+                <datalist id="alert-scope-values">
+                  {suggestions.map((v) => (
+                    <option key={v} value={v} />
+                  ))}
+                </datalist>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm text-neutral-400 mb-1">
+            Condition
+            {isCurrencyMetric && ` (${fx.code})`}
+          </label>
+          <div className="flex gap-2">
+            <select
+              value={rule.comparator}
+              onChange={(e) =>
+                set({ comparator: e.target.value as AlertComparator })
+              }
+              className={cn(fieldBase, "w-20 shrink-0")}
+            >
+              {(Object.keys(ALERT_COMPARATORS) as AlertComparator[]).map(
+                (c) => (
+                  <option key={c} value={c}>
+                    {ALERT_COMPARATORS[c]}
+                  </option>
+                ),
+              )}
+            </select>
+            <div className="flex min-w-0 flex-1 items-center rounded-lg border border-neutral-700 bg-neutral-800/50 focus-within:border-primary-500">
+              {isCurrencyMetric && (
+                <span className="pl-3 pr-1 text-neutral-500 select-none">
+                  {CURRENCIES[fx.code].symbol}
+                </span>
+              )}
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={thresholdInput}
+                onChange={(e) => {
+                  setThresholdInput(e.target.value);
+                  set({
+                    threshold: thresholdFrom(e.target.value, rule.metric),
+                  });
+                }}
+                className={cn(
+                  "w-full min-w-0 bg-transparent py-2 text-sm text-white focus:outline-none",
+                  isCurrencyMetric ? "px-2" : "px-3",
+                )}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm text-neutral-400 mb-1">
+            Evaluated over
+          </label>
+          <select
+            value={rule.window_minutes}
+            onChange={(e) => set({ window_minutes: Number(e.target.value) })}
+            className={fieldClass}
+          >
+            {ALERT_WINDOWS.map((w) => (
+              <option key={w} value={w}>
+                {formatMinutes(w)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm text-neutral-400 mb-1">
+            Cooldown after firing
+          </label>
+          <select
+            value={rule.cooldown_minutes}
+            onChange={(e) => set({ cooldown_minutes: Number(e.target.value) })}
+            className={fieldClass}
+          >
+            {ALERT_COOLDOWNS.map((c) => (
+              <option key={c} value={c}>
+                {c === 0 ? "No cooldown" : formatMinutes(c)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm text-neutral-400 mb-1">
+            Severity
+          </label>
+          <div className="inline-flex rounded-lg border border-neutral-700 bg-neutral-800/40 p-0.5">
+            {SEVERITIES.map((s) => (
+              <button
+                key={s}
+                type="button"
+                onClick={() => set({ severity: s })}
+                className={cn(
+                  "px-3 py-1.5 text-xs font-medium rounded-md capitalize transition-colors",
+                  rule.severity === s
+                    ? "bg-neutral-700 text-white"
+                    : "text-neutral-400 hover:text-white",
+                )}
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Dry run */}
+      <div className="mt-6 rounded-lg border border-neutral-800 bg-neutral-900/40 p-4">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-white">
+              Test against the last {PREVIEW_DAYS} days
+            </p>
+            <p className="text-xs text-neutral-500 truncate">
+              {Number.isFinite(rule.threshold)
+                ? describeAlertRule(rule)
+                : "Set a threshold to test the rule"}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={runPreview}
+            disabled={isPreviewing || incomplete}
+            className="flex shrink-0 items-center gap-2 px-3 py-1.5 rounded-lg bg-neutral-700 hover:bg-neutral-600 text-white text-sm disabled:opacity-50 transition-colors"
+          >
+            {isPreviewing ? (
+              <RefreshCw size={14} className="animate-spin" />
+            ) : (
+              <FlaskConical size={14} />
+            )}
+            Run test
+          </button>
+        </div>
+
+        {currentPreview && (
+          <div className="mt-4 space-y-3">
+            <p className="text-sm text-neutral-300">
+              {currentPreview.firings.length === 0
+                ? `Would not have fired in ${currentPreview.evaluations.toLocaleString()} evaluations.`
+                : `Would have fired ${currentPreview.firings.length} time${
+                    currentPreview.firings.length === 1 ? "" : "s"
+                  } in ${currentPreview.evaluations.toLocaleString()} evaluations.`}
+            </p>
+            <PreviewStrip preview={currentPreview} />
+            {currentPreview.firings.length > 0 && (
+              <ul className="divide-y divide-neutral-800 text-sm">
+                {[...currentPreview.firings]
+                  .reverse()
+                  .slice(0, 8)
+                  .map((f) => (
+                    <li
+                      key={f.timestamp}
+                      className="flex justify-between py-1.5 tabular-nums"
+                    >
+                      <span className="text-neutral-400">
+                        {format(new Date(f.timestamp), "MMM d, HH:mm")}
+                      </span>
+                      <span className="text-neutral-200">
+                        {formatAlertValue(rule.metric, f.value)}
+                      </span>
+                    </li>
+                  ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-3 mt-6 pt-4 border-t border-neutral-700">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 rounded-lg bg-neutral-700 hover:bg-neutral-600 text-white transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          disabled={isSaving || incomplete}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-500 text-white font-medium disabled:opacity-50 transition-colors"
+        >
+          {isSaving ? (
+            <RefreshCw size={16} className="animate-spin" />
+          ) : (
+            <Save size={16} />
+          )}
+          {isNew ? "Create rule" : "Save changes"}
+        </button>
+      </div>
+    </Card>
+  );
+}
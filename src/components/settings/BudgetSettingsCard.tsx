@@ -22,11 +22,27 @@ import {
   ChevronDown,
 } from "lucide-react";
 import { Card } from "@/components/ui/Card";
+import { BudgetBurnDownChart } from "@/components/charts/BudgetBurnDownChart";
 import {
   api,
   type BudgetCurrency,
+  type BudgetPeriodType,
+  type BudgetScope,
+  type EventFilterOptions,
   type ProjectBudgetSettings,
+  type SubBudget,
+  type SubBudgetInput,
+  type TimeSeriesPoint,
 } from "@/lib/api";
+import { burnDownHistoryRange } from "@/lib/budgetBurn";
+import {
+  BUDGET_PERIODS,
+  MONTH_NAMES,
+  budgetPeriod,
+  budgetPeriodMeta,
+  budgetPeriodOf,
+  formatBudgetPeriod,
+} from "@/lib/budgetPeriod";
 import { cn, parseApiError } from "@/lib/utils";
 
 interface BudgetSettingsCardProps {
@@ -71,7 +87,7 @@ const ENFORCEMENT_OPTIONS: {
     value: "hard_cap",
     label: "Block when budget is reached",
     description:
-      "Same alerts as Notify, plus reject new events once month-to-date spend hits the budget.",
+      "Same alerts as Notify, plus reject new events once spend in the budget period hits the budget.",
     icon: Ban,
     iconClass: "text-red-400 bg-red-900/30",
   },
@@ -92,6 +108,354 @@ function formatMoney(amount: number, currency: BudgetCurrency): string {
   }
 }
 
+function utilizationColor(utilization: number | null): string {
+  if (utilization == null) return "bg-neutral-700";
+  if (utilization >= 100) return "bg-red-500";
+  if (utilization >= 80) return "bg-amber-500";
+  if (utilization >= 50) return "bg-sky-500";
+  return "bg-emerald-500";
+}
+
+const SUB_BUDGET_SCOPES: {
+  value: BudgetScope;
+  label: string;
+  options: keyof EventFilterOptions;
+}[] = [
+  { value: "workflow", label: "Workflow", options: "workflows" },
+  { value: "agent", label: "Agent", options: "agents" },
+  { value: "model", label: "Model", options: "models" },
+];
+
+interface SubBudgetDraft {
+  scope: BudgetScope;
+  scopeValue: string;
+  amount: string;
+  mode: SubBudgetInput["enforcement_mode"];
+  thresholds: string;
+}
+
+const EMPTY_DRAFT: SubBudgetDraft = {
+  scope: "workflow",
+  scopeValue: "",
+  amount: "",
+  mode: "warn",
+  thresholds: DEFAULT_THRESHOLDS.join(", "),
+};
+
+function toDraft(budget: SubBudgetInput): SubBudgetDraft {
+  return {
+    scope: budget.scope,
+    scopeValue: budget.scope_value,
+    amount: String(budget.amount),
+    mode: budget.enforcement_mode,
+    thresholds: budget.alert_thresholds.join(", "),
+  };
+}
+
+/**
+ * Budgets for single agents, workflows and models, edited here and saved
+ * together with the project budget. Utilisation is shown for saved ones
+ * only: spend is tracked by the backend from the moment a scope exists.
+ */
+function SubBudgetsSection({
+  value,
+  onChange,
+  saved,
+  currency,
+  fxRate,
+  period,
+  options,
+}: {
+  value: SubBudgetInput[];
+  onChange: (next: SubBudgetInput[]) => void;
+  saved: SubBudget[];
+  currency: BudgetCurrency;
+  fxRate: number;
+  period: BudgetPeriodType;
+  options: EventFilterOptions;
+}) {
+  const [draft, setDraft] = useState<SubBudgetDraft | null>(null);
+  /** Index into `value` of the sub-budget being edited; null while adding. */
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const scopeMeta = (scope: BudgetScope) =>
+    SUB_BUDGET_SCOPES.find((s) => s.value === scope)!;
+
+  const openDraft = (index: number | null) => {
+    setEditingIndex(index);
+    setDraft(index == null ? EMPTY_DRAFT : toDraft(value[index]));
+    setDraftError(null);
+  };
+
+  const commitDraft = () => {
+    if (!draft) return;
+    const name = draft.scopeValue.trim();
+    const amount = Number(draft.amount);
+    const thresholds = draft.thresholds
+      .split(",")
+      .map((t) => t.trim())
+      .filter(Boolean)
+      .map(Number);
+    if (!name) {
+      setDraftError(`Enter the ${draft.scope} this budget covers.`);
+      return;
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setDraftError("The budget must be a positive amount.");
+      return;
+    }
+    if (
+      thresholds.length === 0 ||
+      thresholds.some((t) => !Number.isFinite(t) || t < 1 || t > 100)
+    ) {
+      setDraftError("Thresholds must be numbers between 1 and 100.");
+      return;
+    }
+    const duplicate = value.some(
+      (b, i) =>
+        i !== editingIndex && b.scope === draft.scope && b.scope_value === name,
+    );
+    if (duplicate) {
+      setDraftError(`There is already a budget for ${draft.scope} ${name}.`);
+      return;
+    }
+    const next: SubBudgetInput = {
+      id: editingIndex != null ? value[editingIndex].id : undefined,
+      scope: draft.scope,
+      scope_value: name,
+      amount: Math.round(amount * 100) / 100,
+      enforcement_mode: draft.mode,
+      alert_thresholds: [...new Set(thresholds)].sort((a, b) => a - b),
+    };
+    onChange(
+      editingIndex != null
+        ? value.map((b, i) => (i === editingIndex ? next : b))
+        : [...value, next],
+    );
+    setDraft(null);
+    setEditingIndex(null);
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <label className="block text-sm font-medium text-neutral-300">
+            Scoped budgets
+          </label>
+          <p className="text-xs text-neutral-500 mt-0.5">
+            Give a team&apos;s workflow, agent or model its own guardrail for
+            each {budgetPeriodMeta(period).noun}. A hard cap there blocks only
+            that scope&apos;s events.
+          </p>
+        </div>
+        {!draft && (
+          <button
+            type="button"
+            onClick={() => openDraft(null)}
+            className="inline-flex items-center gap-1.5 rounded-lg bg-neutral-700 px-3 py-2 text-sm text-white hover:bg-neutral-600 transition-colors"
+          >
+            <Plus size={14} /> Add scoped budget
+          </button>
+        )}
+      </div>
+
+      {value.length > 0 && (
+        <div className="mt-3 divide-y divide-neutral-800 rounded-lg border border-neutral-800 bg-neutral-900/40">
+          {value.map((b, i) => {
+            const tracked = b.id ? saved.find((s) => s.id === b.id) : undefined;
+            const spend = tracked
+              ? tracked.current_month_spend_usd * fxRate
+              : null;
+            const util = spend != null ? (100 * spend) / b.amount : null;
+            return (
+              <div key={b.id ?? `new-${i}`} className="px-4 py-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex min-w-0 items-center gap-2">
+                    <span className="shrink-0 rounded bg-neutral-800 px-1.5 py-0.5 text-[11px] uppercase tracking-wide text-neutral-400">
+                      {scopeMeta(b.scope).label}
+                    </span>
+                    <span className="truncate text-sm font-medium text-white">
+                      {b.scope_value}
+                    </span>
+                    {b.enforcement_mode === "hard_cap" && (
+                      <span className="inline-flex shrink-0 items-center gap-1 rounded-full bg-red-900/30 px-2 py-0.5 text-[11px] text-red-400">
+                        <Ban size={10} /> Hard cap
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm text-neutral-300 tabular-nums">
+                      {spend != null && `${formatMoney(spend, currency)} / `}
+                      {formatMoney(b.amount, currency)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => openDraft(i)}
+                      className="text-xs text-neutral-400 hover:text-white transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onChange(value.filter((_, j) => j !== i))}
+                      aria-label={`Remove budget for ${b.scope} ${b.scope_value}`}
+                      className="text-neutral-500 hover:text-red-400 transition-colors"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-2 h-1.5 w-full overflow-hidden rounded-full bg-neutral-800">
+                  <div
+                    className={`h-full ${utilizationColor(util)} transition-all`}
+                    style={{
+                      width: `${Math.min(100, Math.max(0, util ?? 0))}%`,
+                    }}
+                  />
+                </div>
+                <p className="mt-1.5 text-xs text-neutral-500">
+                  {util != null
+                    ? `${util.toFixed(1)}% used`
+                    : "Tracking starts once saved"}{" "}
+                  · alerts at{" "}
+                  {b.alert_thresholds.map((t) => `${t}%`).join(", ")}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {draft && (
+        <div className="mt-3 rounded-lg border border-neutral-700 bg-neutral-800/30 p-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div>
+              <label className="block text-xs text-neutral-400 mb-1">
+                Scope
+              </label>
+              <div className="flex gap-2">
+                <select
+                  value={draft.scope}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      scope: e.target.value as BudgetScope,
+                      scopeValue: "",
+                    })
+                  }
+                  className="w-28 shrink-0 rounded-lg border border-neutral-700 bg-neutral-800/50 px-2 py-2 text-sm text-white focus:border-primary-500 focus:outline-none"
+                >
+                  {SUB_BUDGET_SCOPES.map((s) => (
+                    <option key={s.value} value={s.value}>
+                      {s.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  list="sub-budget-scope-values"
+                  value={draft.scopeValue}
+                  onChange={(e) =>
+                    setDraft({ ...draft, scopeValue: e.target.value })
+                  }
+                  placeholder={`${draft.scope} name`}
+                  className="min-w-0 flex-1 rounded-lg border border-neutral-700 bg-neutral-800/50 px-3 py-2 text-sm text-white placeholder:text-neutral-600 focus:border-primary-500 focus:outline-none"
+                />
+                <datalist id="sub-budget-scope-values">
+                  {options[scopeMeta(draft.scope).options].map((v) => (
+                    <option key={v} value={v} />
+                  ))}
+                </datalist>
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs text-neutral-400 mb-1">
+                {budgetPeriodMeta(period).label} budget ({currency})
+              </label>
+              <div className="flex items-center rounded-lg border border-neutral-700 bg-neutral-800/50 focus-within:border-primary-500">
+                <span className="pl-3 pr-1 text-neutral-500 select-none">
+                  {CURRENCY_META[currency].symbol}
+                </span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.amount}
+                  onChange={(e) =>
+                    setDraft({ ...draft, amount: e.target.value })
+                  }
+                  className="w-full bg-transparent px-2 py-2 text-sm text-white focus:outline-none"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs text-neutral-400 mb-1">
+                Alert thresholds (%)
+              </label>
+              <input
+                type="text"
+                value={draft.thresholds}
+                onChange={(e) =>
+                  setDraft({ ...draft, thresholds: e.target.value })
+                }
+                placeholder="50, 80, 100"
+                className="w-full rounded-lg border border-neutral-700 bg-neutral-800/50 px-3 py-2 text-sm text-white placeholder:text-neutral-600 focus:border-primary-500 focus:outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-neutral-400 mb-1">
+                When the budget is reached
+              </label>
+              <div className="inline-flex rounded-lg border border-neutral-700 bg-neutral-800/40 p-0.5">
+                {(["warn", "hard_cap"] as const).map((m) => (
+                  <button
+                    key={m}
+                    type="button"
+                    onClick={() => setDraft({ ...draft, mode: m })}
+                    className={cn(
+                      "px-3 py-1.5 text-xs font-medium rounded-md transition-colors",
+                      draft.mode === m
+                        ? "bg-neutral-700 text-white"
+                        : "text-neutral-400 hover:text-white",
+                    )}
+                  >
+                    {m === "warn" ? "Notify" : "Block"}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          {draftError && (
+            <p className="mt-3 text-xs text-red-400">{draftError}</p>
+          )}
+          <div className="mt-4 flex gap-2">
+            <button
+              type="button"
+              onClick={commitDraft}
+              className="inline-flex items-center gap-1.5 rounded-lg bg-neutral-700 px-3 py-1.5 text-sm text-white hover:bg-neutral-600 transition-colors"
+            >
+              <Check size={14} />
+              {editingIndex != null ? "Update" : "Add"}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setDraft(null);
+                setEditingIndex(null);
+              }}
+              className="rounded-lg px-3 py-1.5 text-sm text-neutral-400 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function EnforcementDropdown({
   value,
   onChange,
@@ -249,6 +613,40 @@ function CurrencyToggle({
   );
 }
 
+function PeriodToggle({
+  value,
+  onChange,
+}: {
+  value: BudgetPeriodType;
+  onChange: (next: BudgetPeriodType) => void;
+}) {
+  return (
+    <div
+      role="tablist"
+      aria-label="Budget period"
+      className="inline-flex rounded-lg border border-neutral-700 bg-neutral-800/40 p-0.5"
+    >
+      {BUDGET_PERIODS.map((p) => (
+        <button
+          key={p.value}
+          type="button"
+          role="tab"
+          aria-selected={p.value === value}
+          onClick={() => onChange(p.value)}
+          className={cn(
+            "px-3 py-1.5 text-xs font-medium rounded-md transition-colors",
+            p.value === value
+              ? "bg-neutral-700 text-white"
+              : "text-neutral-400 hover:text-white",
+          )}
+        >
+          {p.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 export function BudgetSettingsCard({ projectId }: BudgetSettingsCardProps) {
   const [settings, setSettings] = useState<ProjectBudgetSettings | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -258,9 +656,24 @@ export function BudgetSettingsCard({ projectId }: BudgetSettingsCardProps) {
   const [liveFxRate, setLiveFxRate] = useState<number | null>(null);
   const [budgetInput, setBudgetInput] = useState<string>("");
   const [mode, setMode] = useState<EnforcementMode>("warn");
+  const [periodType, setPeriodType] = useState<BudgetPeriodType>("monthly");
+  const [fiscalStart, setFiscalStart] = useState(1);
   const [thresholds, setThresholds] = useState<number[]>(DEFAULT_THRESHOLDS);
   const [newThreshold, setNewThreshold] = useState<string>("");
   const [thresholdError, setThresholdError] = useState<string | null>(null);
+  const [subBudgets, setSubBudgets] = useState<SubBudgetInput[]>([]);
+  const [scopeOptions, setScopeOptions] = useState<EventFilterOptions>({
+    agents: [],
+    models: [],
+    workflows: [],
+    steps: [],
+    tools: [],
+  });
+  /** Spend for the burn-down, with the start of the period it was fetched for. */
+  const [burnHistory, setBurnHistory] = useState<{
+    start: string;
+    points: TimeSeriesPoint[];
+  } | null>(null);
 
   const [isSaving, setIsSaving] = useState(false);
   const [saveMessage, setSaveMessage] = useState<{
@@ -279,11 +692,14 @@ export function BudgetSettingsCard({ projectId }: BudgetSettingsCardProps) {
         data.monthly_budget_usd != null ? String(data.monthly_budget_usd) : "",
       );
       setMode(data.budget_enforcement_mode);
+      setPeriodType(data.budget_period ?? "monthly");
+      setFiscalStart(data.fiscal_year_start_month ?? 1);
       setThresholds(
         data.budget_alert_thresholds?.length
           ? [...data.budget_alert_thresholds].sort((a, b) => a - b)
           : DEFAULT_THRESHOLDS,
       );
+      setSubBudgets(data.sub_budgets ?? []);
     } catch (err) {
       setLoadError(parseApiError(err));
     } finally {
@@ -295,6 +711,36 @@ export function BudgetSettingsCard({ projectId }: BudgetSettingsCardProps) {
     load();
   }, [load]);
 
+  // Names to suggest for scoped budgets. Needs the project's API key, which
+  // an invited member may not have; the inputs still take any name.
+  useEffect(() => {
+    const controller = new AbortController();
+    api
+      .getEventFilterOptions(controller.signal)
+      .then(setScopeOptions)
+      .catch(() => {});
+    return () => controller.abort();
+  }, []);
+
+  // The saved budget's period, and its spend so far for the burn-down. That
+  // also needs the API key, so without it the chart is left out.
+  const savedPeriod = useMemo(
+    () => (settings ? budgetPeriodOf(settings) : null),
+    [settings],
+  );
+  useEffect(() => {
+    if (!savedPeriod) return;
+    const controller = new AbortController();
+    api
+      .getTimeSeries(burnDownHistoryRange(savedPeriod), controller.signal)
+      .then((points) => setBurnHistory({ start: savedPeriod.start, points }))
+      .catch(() => {});
+    return () => controller.abort();
+  }, [savedPeriod]);
+  const draftPeriod = budgetPeriod(periodType, fiscalStart);
+  const savedMeta = budgetPeriodMeta(settings?.budget_period ?? "monthly");
+  const draftMeta = budgetPeriodMeta(periodType);
+
   // Always reflect the *live* USD->target rate the moment the user toggles
   // currency, so we never show "1 USD = 1 INR" between toggle and save.
   useEffect(() => {
@@ -322,13 +768,10 @@ export function BudgetSettingsCard({ projectId }: BudgetSettingsCardProps) {
   const displayFxRate = liveFxRate ?? settings?.fx_rate ?? 1.0;
 
   const utilization = settings?.utilization_percent ?? null;
-  const utilizationBarColor = useMemo(() => {
-    if (utilization == null) return "bg-neutral-700";
-    if (utilization >= 100) return "bg-red-500";
-    if (utilization >= 80) return "bg-amber-500";
-    if (utilization >= 50) return "bg-sky-500";
-    return "bg-emerald-500";
-  }, [utilization]);
+  const utilizationBarColor = useMemo(
+    () => utilizationColor(utilization),
+    [utilization],
+  );
 
   const handleAddThreshold = () => {
     setThresholdError(null);
@@ -371,7 +814,7 @@ export function BudgetSettingsCard({ projectId }: BudgetSettingsCardProps) {
       if (!Number.isFinite(parsed) || parsed < 0) {
         setSaveMessage({
           type: "error",
-          text: "Monthly budget must be a non-negative number.",
+          text: "Budget must be a non-negative number.",
         });
         return;
       }
@@ -385,8 +828,19 @@ export function BudgetSettingsCard({ projectId }: BudgetSettingsCardProps) {
         budget_enforcement_mode: mode,
         budget_alert_thresholds: thresholds,
         budget_currency: currency,
+        budget_period: periodType,
+        fiscal_year_start_month: fiscalStart,
+        sub_budgets: subBudgets.map((b) => ({
+          id: b.id,
+          scope: b.scope,
+          scope_value: b.scope_value,
+          amount: b.amount,
+          enforcement_mode: b.enforcement_mode,
+          alert_thresholds: b.alert_thresholds,
+        })),
       });
       setSettings(updated);
+      setSubBudgets(updated.sub_budgets ?? []);
       setSaveMessage({ type: "success", text: "Budget settings saved." });
     } catch (err) {
       setSaveMessage({ type: "error", text: parseApiError(err) });
@@ -396,7 +850,7 @@ export function BudgetSettingsCard({ projectId }: BudgetSettingsCardProps) {
     }
   };
 
-  // Recompute month-to-date spend in the currently-selected currency so
+  // Recompute period-to-date spend in the currently-selected currency so
   // toggling the picker updates the display immediately, without waiting
   // for the user to save and refetch.
   const spendUsd = settings?.current_month_spend_usd ?? 0;
@@ -416,9 +870,9 @@ export function BudgetSettingsCard({ projectId }: BudgetSettingsCardProps) {
                 Budget Guardrails
               </h3>
               <p className="text-sm text-neutral-400">
-                Set a monthly cap and alert thresholds. Owners and project
-                admins are notified in-app and via email when thresholds are
-                crossed.
+                Set a cap for each month, quarter or fiscal year, and alert
+                thresholds. Owners and project admins are notified in-app and
+                via email when thresholds are crossed.
               </p>
             </div>
             {!isLoading && settings?.period_key && (
@@ -445,7 +899,7 @@ export function BudgetSettingsCard({ projectId }: BudgetSettingsCardProps) {
                   <div className="flex flex-wrap items-baseline justify-between gap-2">
                     <div>
                       <p className="text-xs uppercase tracking-wide text-neutral-500">
-                        Month-to-date spend
+                        {savedMeta.noun}-to-date spend
                       </p>
                       <p className="mt-1 text-2xl font-semibold text-white">
                         {formatMoney(currentSpendDisplay, currency)}
@@ -462,7 +916,7 @@ export function BudgetSettingsCard({ projectId }: BudgetSettingsCardProps) {
                     </div>
                     <div className="text-right">
                       <p className="text-xs uppercase tracking-wide text-neutral-500">
-                        Monthly budget
+                        {savedMeta.label} budget
                       </p>
                       <p className="mt-1 text-sm font-medium text-neutral-200">
                         {budgetDisplay != null
@@ -481,12 +935,32 @@ export function BudgetSettingsCard({ projectId }: BudgetSettingsCardProps) {
                   </div>
                   <p className="mt-2 text-xs text-neutral-400">
                     {utilization != null
-                      ? `${utilization.toFixed(1)}% of monthly budget used`
+                      ? `${utilization.toFixed(1)}% of the ${savedMeta.noun}'s budget used`
                       : "Set a budget to track utilization."}
                   </p>
                 </div>
               )}
 
+              {/* Burn-down of the saved budget, in its saved currency */}
+              {settings?.monthly_budget_usd != null &&
+                savedPeriod &&
+                burnHistory?.start === savedPeriod.start && (
+                  <div className="mt-4 rounded-lg border border-neutral-800 bg-neutral-900/40 p-4">
+                    <p className="mb-3 text-xs uppercase tracking-wide text-neutral-500">
+                      Burn-down
+                    </p>
+                    <BudgetBurnDownChart
+                      history={burnHistory.points}
+                      budget={settings.monthly_budget_usd}
+                      thresholds={settings.budget_alert_thresholds}
+                      currency={settings.budget_currency}
+                      fxRate={settings.fx_rate}
+                      period={savedPeriod}
+                      periodLabel={savedMeta.noun}
+                    />
+                  </div>
+                )}
+
               {/* Currency picker */}
               <div className="mt-6 flex flex-wrap items-center justify-between gap-3">
                 <div>
@@ -506,11 +980,47 @@ export function BudgetSettingsCard({ projectId }: BudgetSettingsCardProps) {
                 <CurrencyToggle value={currency} onChange={setCurrency} />
               </div>
 
+              {/* Period picker */}
+              <div className="mt-6 flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <p className="text-sm font-medium text-neutral-300">
+                    Budget period
+                  </p>
+                  <p className="text-xs text-neutral-500">
+                    The budget, thresholds and hard cap apply to spend within
+                    each {draftMeta.noun}, in UTC.
+                  </p>
+                  <p className="mt-1 text-[11px] text-neutral-600">
+                    Current {draftMeta.noun}: {draftPeriod.key} ·{" "}
+                    {formatBudgetPeriod(draftPeriod)}
+                  </p>
+                </div>
+                <div className="flex flex-col items-end gap-2">
+                  <PeriodToggle value={periodType} onChange={setPeriodType} />
+                  {periodType !== "monthly" && (
+                    <label className="flex items-center gap-2 text-xs text-neutral-400">
+                      Fiscal year starts in
+                      <select
+                        value={fiscalStart}
+                        onChange={(e) => setFiscalStart(Number(e.target.value))}
+                        className="rounded-lg border border-neutral-700 bg-neutral-800/50 px-2 py-1.5 text-xs text-white focus:border-primary-500 focus:outline-none"
+                      >
+                        {MONTH_NAMES.map((name, i) => (
+                          <option key={name} value={i + 1}>
+                            {name}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                </div>
+              </div>
+
               {/* Budget input + Enforcement mode */}
               <div className="mt-5 grid gap-5 md:grid-cols-2">
                 <div>
                   <label className="block text-sm font-medium text-neutral-300">
-                    Monthly budget ({currency})
+                    {draftMeta.label} budget ({currency})
                   </label>
                   <div className="mt-1.5 flex items-center rounded-lg border border-neutral-700 bg-neutral-800/50 focus-within:border-primary-500">
                     <span className="pl-3 pr-1 text-neutral-500 select-none">
@@ -546,11 +1056,11 @@ export function BudgetSettingsCard({ projectId }: BudgetSettingsCardProps) {
               {/* Thresholds */}
               <div className="mt-6">
                 <label className="block text-sm font-medium text-neutral-300">
-                  Alert thresholds (% of monthly budget)
+                  Alert thresholds (% of {draftMeta.label.toLowerCase()} budget)
                 </label>
                 <p className="text-xs text-neutral-500 mt-0.5">
-                  Each threshold fires exactly once per project per calendar
-                  month, deduplicated.
+                  Each threshold fires exactly once per project per{" "}
+                  {draftMeta.noun}, deduplicated.
                 </p>
                 <div className="mt-2.5 flex flex-wrap gap-2">
                   {thresholds.map((t) => (
@@ -599,6 +1109,16 @@ export function BudgetSettingsCard({ projectId }: BudgetSettingsCardProps) {
                 )}
               </div>
 
+              <SubBudgetsSection
+                value={subBudgets}
+                onChange={setSubBudgets}
+                saved={settings?.sub_budgets ?? []}
+                currency={currency}
+                fxRate={displayFxRate}
+                period={periodType}
+                options={scopeOptions}
+              />
+
               {/* Save action */}
               <div className="mt-6 flex flex-wrap items-center gap-4">
                 <button
@@ -0,0 +1,550 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Handshake,
+  RefreshCw,
+  Plus,
+  X,
+  AlertCircle,
+  Check,
+} from "lucide-react";
+import { Card } from "@/components/ui/Card";
+import {
+  api,
+  type ModelPricing,
+  type PricingOverride,
+  type PricingOverrideInput,
+} from "@/lib/api";
+import { useApiData } from "@/hooks/useApiData";
+import { usePricingBasis } from "@/hooks/usePricingBasis";
+import { usePricingOverrides } from "@/hooks/usePricingOverrides";
+import {
+  PRICING_BASES,
+  overlappingOverrides,
+  overrideDiscount,
+  overrideStatus,
+} from "@/lib/pricing";
+import { cn, parseApiError } from "@/lib/utils";
+
+/** USD per 1K tokens, precise enough for sub-cent rates. */
+function formatRate(rate: number): string {
+  if (rate === 0) return "Free";
+  if (rate < 0.01) return `$${rate.toFixed(5)}`;
+  return `$${rate.toFixed(4)}`;
+}
+
+function formatDay(day: string): string {
+  return new Date(day).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+const STATUS_META: Record<
+  ReturnType<typeof overrideStatus>,
+  { label: string; className: string }
+> = {
+  active: { label: "Active", className: "bg-emerald-900/30 text-emerald-400" },
+  scheduled: { label: "Scheduled", className: "bg-sky-900/30 text-sky-400" },
+  ended: { label: "Ended", className: "bg-neutral-800 text-neutral-500" },
+};
+
+interface OverrideDraft {
+  model: string;
+  input: string;
+  output: string;
+  cachedInput: string;
+  from: string;
+  to: string;
+  note: string;
+}
+
+function emptyDraft(): OverrideDraft {
+  return {
+    model: "",
+    input: "",
+    output: "",
+    cachedInput: "",
+    from: new Date().toISOString().slice(0, 10),
+    to: "",
+    note: "",
+  };
+}
+
+function toDraft(o: PricingOverride): OverrideDraft {
+  return {
+    model: o.model,
+    input: String(o.input),
+    output: String(o.output),
+    cachedInput: o.cached_input != null ? String(o.cached_input) : "",
+    from: o.effective_from,
+    to: o.effective_to ?? "",
+    note: o.note ?? "",
+  };
+}
+
+const inputClass =
+  "w-full rounded-lg border border-neutral-700 bg-neutral-800/50 px-3 py-2 text-sm text-white placeholder:text-neutral-600 focus:border-primary-500 focus:outline-none";
+
+/**
+ * The active project's negotiated rates, layered over the list prices in the
+ * pricing catalog, and the basis costs across the dashboard are shown at.
+ */
+export function PricingOverridesCard() {
+  const { overrides, loading, error, create, update, remove } =
+    usePricingOverrides();
+  const [basis, setBasis] = usePricingBasis();
+  const { data: catalog } = useApiData(
+    (signal) => api.getPricing(signal),
+    [],
+    [] as ModelPricing[],
+  );
+
+  const [draft, setDraft] = useState<OverrideDraft | null>(null);
+  /** Id of the override being edited; null while adding. */
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const listPrice = useMemo(() => {
+    const byModel = new Map(
+      catalog.map((m) => [m.model_name.toLowerCase(), m]),
+    );
+    return (model: string) => byModel.get(model.toLowerCase());
+  }, [catalog]);
+
+  const sorted = useMemo(
+    () =>
+      [...overrides].sort(
+        (a, b) =>
+          a.model.localeCompare(b.model) ||
+          a.effective_from.localeCompare(b.effective_from),
+      ),
+    [overrides],
+  );
+
+  const openDraft = (override: PricingOverride | null) => {
+    setEditingId(override?.id ?? null);
+    setDraft(override ? toDraft(override) : emptyDraft());
+    setDraftError(null);
+  };
+
+  const closeDraft = () => {
+    setDraft(null);
+    setEditingId(null);
+  };
+
+  const commitDraft = async () => {
+    if (!draft) return;
+    const model = draft.model.trim();
+    const rate = (value: string) =>
+      value.trim() === "" ? null : Number(value);
+    const input = rate(draft.input);
+    const output = rate(draft.output);
+    const cachedInput = rate(draft.cachedInput);
+    if (!model) {
+      setDraftError("Pick the model these rates apply to.");
+      return;
+    }
+    if (
+      [input, output].some((r) => r == null || !Number.isFinite(r) || r < 0) ||
+      (cachedInput != null &&
+        (!Number.isFinite(cachedInput) || cachedInput < 0))
+    ) {
+      setDraftError("Rates must be zero or more, in USD per 1K tokens.");
+      return;
+    }
+    if (!draft.from) {
+      setDraftError("Set the day the rates take effect.");
+      return;
+    }
+    if (draft.to && draft.to < draft.from) {
+      setDraftError("The end date is before the start date.");
+      return;
+    }
+    const next: PricingOverrideInput = {
+      model,
+      input: input!,
+      output: output!,
+      cached_input: cachedInput,
+      effective_from: draft.from,
+      effective_to: draft.to || null,
+      note: draft.note.trim() || null,
+    };
+    const clash = overlappingOverrides(overrides, next, editingId ?? undefined);
+    if (clash.length > 0) {
+      const o = clash[0];
+      setDraftError(
+        `Overlaps the ${o.model} rates from ${formatDay(o.effective_from)}${
+          o.effective_to ? ` to ${formatDay(o.effective_to)}` : " onwards"
+        }. End one before the other starts.`,
+      );
+      return;
+    }
+    setSaving(true);
+    setDraftError(null);
+    try {
+      if (editingId) await update(editingId, next);
+      else await create(next);
+      closeDraft();
+    } catch (err) {
+      setDraftError(parseApiError(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (override: PricingOverride) => {
+    if (
+      !window.confirm(
+        `Remove the contract rates for ${override.model}? Costs go back to list price for those days.`,
+      )
+    ) {
+      return;
+    }
+    setActionError(null);
+    try {
+      await remove(override.id);
+    } catch (err) {
+      setActionError(parseApiError(err));
+    }
+  };
+
+  const draftList = draft ? listPrice(draft.model.trim()) : undefined;
+
+  return (
+    <Card>
+      <div className="flex items-start gap-4">
+        <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-teal-900/30 text-teal-400 shrink-0">
+          <Handshake size={24} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <h3 className="text-lg font-medium text-white">
+                Contract Pricing
+              </h3>
+              <p className="text-sm text-neutral-400">
+                Negotiated rates for this project, layered over the list prices
+                in the model catalog. At contract price, costs, reports and
+                optimization savings use them for the days they cover.
+              </p>
+            </div>
+            <div
+              role="radiogroup"
+              aria-label="Pricing basis"
+              className="inline-flex shrink-0 rounded-lg border border-neutral-700 bg-neutral-800/40 p-0.5"
+            >
+              {PRICING_BASES.map((b) => (
+                <button
+                  key={b.value}
+                  type="button"
+                  role="radio"
+                  aria-checked={basis === b.value}
+                  onClick={() => setBasis(b.value)}
+                  className={cn(
+                    "px-3 py-1.5 text-xs font-medium rounded-md transition-colors",
+                    basis === b.value
+                      ? "bg-neutral-700 text-white"
+                      : "text-neutral-400 hover:text-white",
+                  )}
+                >
+                  {b.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="mt-2 text-xs text-neutral-500">
+            The price basis is kept in this browser. Budgets are always enforced
+            on billed list price.
+          </p>
+
+          {loading ? (
+            <div className="mt-6 flex items-center gap-2 text-sm text-neutral-500">
+              <RefreshCw size={14} className="animate-spin" />
+              Loading contract rates…
+            </div>
+          ) : error ? (
+            <div className="mt-4 flex items-center gap-2 rounded-lg border border-red-900/50 bg-red-950/30 px-3 py-2 text-sm text-red-300">
+              <AlertCircle size={14} /> {error.message}
+            </div>
+          ) : (
+            <>
+              <div className="mt-5 flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-neutral-300">
+                    Rate overrides
+                  </label>
+                  <p className="text-xs text-neutral-500 mt-0.5">
+                    USD per 1K tokens. A model can have several, one after
+                    another, but their dates can&apos;t overlap.
+                  </p>
+                </div>
+                {!draft && (
+                  <button
+                    type="button"
+                    onClick={() => openDraft(null)}
+                    className="inline-flex items-center gap-1.5 rounded-lg bg-neutral-700 px-3 py-2 text-sm text-white hover:bg-neutral-600 transition-colors"
+                  >
+                    <Plus size={14} /> Add override
+                  </button>
+                )}
+              </div>
+
+              {actionError && (
+                <p className="mt-3 text-xs text-red-400">{actionError}</p>
+              )}
+
+              {sorted.length === 0 && !draft ? (
+                <p className="mt-3 rounded-lg border border-dashed border-neutral-800 px-4 py-6 text-center text-sm text-neutral-500">
+                  No contract rates yet. Costs are at list price.
+                </p>
+              ) : (
+                sorted.length > 0 && (
+                  <div className="mt-3 overflow-x-auto rounded-lg border border-neutral-800 bg-neutral-900/40">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-neutral-800 text-left text-xs uppercase tracking-wide text-neutral-500">
+                          <th className="px-4 py-2 font-medium">Model</th>
+                          <th className="px-4 py-2 font-medium text-right">
+                            Input
+                          </th>
+                          <th className="px-4 py-2 font-medium text-right">
+                            Cached in
+                          </th>
+                          <th className="px-4 py-2 font-medium text-right">
+                            Output
+                          </th>
+                          <th className="px-4 py-2 font-medium text-right">
+                            vs list
+                          </th>
+                          <th className="px-4 py-2 font-medium">Effective</th>
+                          <th className="px-4 py-2" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-neutral-800">
+                        {sorted.map((o) => {
+                          const status = STATUS_META[overrideStatus(o)];
+                          const discount = overrideDiscount(
+                            o,
+                            listPrice(o.model),
+                          );
+                          return (
+                            <tr key={o.id} className="align-top">
+                              <td className="px-4 py-3">
+                                <div className="flex items-center gap-2">
+                                  <span className="font-medium text-white">
+                                    {o.model}
+                                  </span>
+                                  <span
+                                    className={cn(
+                                      "rounded-full px-2 py-0.5 text-[11px]",
+                                      status.className,
+                                    )}
+                                  >
+                                    {status.label}
+                                  </span>
+                                </div>
+                                {o.note && (
+                                  <p className="mt-0.5 text-xs text-neutral-500">
+                                    {o.note}
+                                  </p>
+                                )}
+                              </td>
+                              <td className="px-4 py-3 text-right text-neutral-300 tabular-nums">
+                                {formatRate(o.input)}
+                              </td>
+                              <td className="px-4 py-3 text-right text-neutral-300 tabular-nums">
+                                {o.cached_input != null
+                                  ? formatRate(o.cached_input)
+                                  : "—"}
+                              </td>
+                              <td className="px-4 py-3 text-right text-neutral-300 tabular-nums">
+                                {formatRate(o.output)}
+                              </td>
+                              <td
+                                className={cn(
+                                  "px-4 py-3 text-right tabular-nums",
+                                  discount == null
+                                    ? "text-neutral-500"
+                                    : discount <= 0
+                                      ? "text-emerald-400"
+                                      : "text-amber-400",
+                                )}
+                                title="Blended at three input tokens to one output"
+                              >
+                                {discount == null
+                                  ? "—"
+                                  : `${discount > 0 ? "+" : ""}${(discount * 100).toFixed(1)}%`}
+                              </td>
+                              <td className="px-4 py-3 text-xs text-neutral-400 whitespace-nowrap">
+                                {formatDay(o.effective_from)} –{" "}
+                                {o.effective_to
+                                  ? formatDay(o.effective_to)
+                                  : "ongoing"}
+                              </td>
+                              <td className="px-4 py-3">
+                                <div className="flex items-center justify-end gap-3">
+                                  <button
+                                    type="button"
+                                    onClick={() => openDraft(o)}
+                                    className="text-xs text-neutral-400 hover:text-white transition-colors"
+                                  >
+                                    Edit
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => handleRemove(o)}
+                                    aria-label={`Remove contract rates for ${o.model}`}
+                                    className="text-neutral-500 hover:text-red-400 transition-colors"
+                                  >
+                                    <X size={14} />
+                                  </button>
+                                </div>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )
+              )}
+
+              {draft && (
+                <div className="mt-3 rounded-lg border border-neutral-700 bg-neutral-800/30 p-4">
+                  <div className="grid gap-3 sm:grid-cols-3">
+                    <div className="sm:col-span-3">
+                      <label className="block text-xs text-neutral-400 mb-1">
+                        Model
+                      </label>
+                      <input
+                        type="text"
+                        list="pricing-override-models"
+                        value={draft.model}
+                        onChange={(e) =>
+                          setDraft({ ...draft, model: e.target.value })
+                        }
+                        placeholder="gpt-4o"
+                        className={inputClass}
+                      />
+                      <datalist id="pricing-override-models">
+                        {catalog.map((m) => (
+                          <option key={m.model_name} value={m.model_name} />
+                        ))}
+                      </datalist>
+                      {draftList && (
+                        <p className="mt-1 text-xs text-neutral-500">
+                          List price: {formatRate(draftList.input)} in
+                          {draftList.cached_input != null &&
+                            ` · ${formatRate(draftList.cached_input)} cached`}{" "}
+                          · {formatRate(draftList.output)} out
+                        </p>
+                      )}
+                    </div>
+                    {(
+                      [
+                        ["input", "Input / 1K"],
+                        ["cachedInput", "Cached input / 1K"],
+                        ["output", "Output / 1K"],
+                      ] as const
+                    ).map(([field, label]) => (
+                      <div key={field}>
+                        <label className="block text-xs text-neutral-400 mb-1">
+                          {label}
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={draft[field]}
+                          onChange={(e) =>
+                            setDraft({ ...draft, [field]: e.target.value })
+                          }
+                          placeholder={
+                            field === "cachedInput" ? "List price" : "0.0025"
+                          }
+                          className={inputClass}
+                        />
+                      </div>
+                    ))}
+                    <div>
+                      <label className="block text-xs text-neutral-400 mb-1">
+                        Effective from (UTC)
+                      </label>
+                      <input
+                        type="date"
+                        value={draft.from}
+                        onChange={(e) =>
+                          setDraft({ ...draft, from: e.target.value })
+                        }
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-neutral-400 mb-1">
+                        Until (inclusive, optional)
+                      </label>
+                      <input
+                        type="date"
+                        value={draft.to}
+                        min={draft.from || undefined}
+                        onChange={(e) =>
+                          setDraft({ ...draft, to: e.target.value })
+                        }
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-neutral-400 mb-1">
+                        Note
+                      </label>
+                      <input
+                        type="text"
+                        value={draft.note}
+                        onChange={(e) =>
+                          setDraft({ ...draft, note: e.target.value })
+                        }
+                        placeholder="Enterprise agreement"
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+                  {draftError && (
+                    <p className="mt-3 text-xs text-red-400">{draftError}</p>
+                  )}
+                  <div className="mt-4 flex gap-2">
+                    <button
+                      type="button"
+                      onClick={commitDraft}
+                      disabled={saving}
+                      className="inline-flex items-center gap-1.5 rounded-lg bg-neutral-700 px-3 py-1.5 text-sm text-white hover:bg-neutral-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {saving ? (
+                        <RefreshCw size={14} className="animate-spin" />
+                      ) : (
+                        <Check size={14} />
+                      )}
+                      {editingId ? "Update" : "Add"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={closeDraft}
+                      className="rounded-lg px-3 py-1.5 text-sm text-neutral-400 hover:text-white transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
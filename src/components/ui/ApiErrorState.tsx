@@ -0,0 +1,120 @@
+"use client";
+
+import Link from "next/link";
+import { Ban, Clock, RefreshCw, SearchX, ServerCrash } from "lucide-react";
+import { Card } from "@/components/ui/Card";
+import { OnboardingScreen } from "@/hooks/useApiConfiguration";
+import type { ApiFailure } from "@/lib/utils";
+
+interface ApiErrorStateProps {
+  error: ApiFailure;
+  /** Shown as a Retry button where trying again could help. */
+  onRetry?: () => void;
+}
+
+function RetryButton({ onRetry }: { onRetry?: () => void }) {
+  if (!onRetry) return null;
+  return (
+    <button
+      onClick={onRetry}
+      className="flex shrink-0 items-center gap-2 rounded-lg border border-neutral-700 bg-neutral-800/50 px-3 py-1.5 text-sm font-medium text-neutral-200 hover:border-neutral-600 hover:bg-neutral-800"
+    >
+      <RefreshCw size={14} />
+      Retry
+    </button>
+  );
+}
+
+/**
+ * The one place a failed page fetch turns into UI. Each status gets the
+ * response the user can act on: onboarding for a rejected key, an
+ * access-denied or not-found card, a wait notice when rate limited, and a
+ * retry banner when the backend is down.
+ */
+export function ApiErrorState({ error, onRetry }: ApiErrorStateProps) {
+  switch (error.kind) {
+    case "unauthorized":
+      return <OnboardingScreen />;
+
+    case "forbidden":
+      return (
+        <Card className="border-amber-900/50 bg-amber-950/20">
+          <div className="flex items-start gap-3">
+            <Ban className="mt-0.5 shrink-0 text-amber-400" size={18} />
+            <div>
+              <p className="font-medium text-amber-300">Access denied</p>
+              <p className="mt-1 text-sm text-neutral-400">{error.message}</p>
+              <p className="mt-2 text-sm text-neutral-500">
+                Switch project from the sidebar, or ask a project admin to{" "}
+                <Link
+                  href="/settings/team"
+                  className="text-primary-400 hover:text-primary-300"
+                >
+                  invite you
+                </Link>
+                .
+              </p>
+            </div>
+          </div>
+        </Card>
+      );
+
+    case "not_found":
+      return (
+        <Card>
+          <div className="flex items-start gap-3">
+            <SearchX className="mt-0.5 shrink-0 text-neutral-500" size={18} />
+            <div>
+              <p className="font-medium text-neutral-200">Not found</p>
+              <p className="mt-1 text-sm text-neutral-400">{error.message}</p>
+            </div>
+          </div>
+        </Card>
+      );
+
+    case "rate_limited":
+      return (
+        <Card className="border-amber-900/50 bg-amber-950/20">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex items-start gap-3">
+              <Clock className="mt-0.5 shrink-0 text-amber-400" size={18} />
+              <div>
+                <p className="font-medium text-amber-300">Slow down</p>
+                <p className="mt-1 text-sm text-neutral-400">
+                  {error.retryAfter != null
+                    ? `Too many requests. Try again in ${Math.ceil(error.retryAfter)}s.`
+                    : error.message}
+                </p>
+              </div>
+            </div>
+            <RetryButton onRetry={onRetry} />
+          </div>
+        </Card>
+      );
+
+    case "unavailable":
+      return (
+        <Card className="border-red-900/50 bg-red-950/20">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex items-start gap-3">
+              <ServerCrash className="mt-0.5 shrink-0 text-red-400" size={18} />
+              <div>
+                <p className="text-red-400">{error.message}</p>
+                <p className="mt-1 text-sm text-neutral-400">
+                  Make sure the backend is running and accessible.
+                </p>
+              </div>
+            </div>
+            <RetryButton onRetry={onRetry} />
+          </div>
+        </Card>
+      );
+
+    default:
+      return (
+        <Card className="border-red-900/50 bg-red-950/20">
+          <p className="text-red-400">{error.message}</p>
+        </Card>
+      );
+  }
+}
@@ -11,6 +11,7 @@ import {
   Loader2,
 } from "lucide-react";
 import { api, AttachmentMeta } from "@/lib/api";
+import { parseApiError } from "@/lib/utils";
 
 /* ── Constants ─────────────────────────────────────────────────────────── */
 
@@ -126,7 +127,7 @@ export default function FileUpload({
             );
             return meta;
           } catch (err) {
-            const msg = err instanceof Error ? err.message : "Upload failed";
+            const msg = parseApiError(err);
             setPending((prev) =>
               prev.map((p) =>
                 p.file === file
@@ -0,0 +1,21 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { describeFx, type DisplayFx } from "@/lib/currency";
+
+interface FxNoteProps {
+  /** Defaults to the display currency's rate. */
+  fx?: DisplayFx;
+  className?: string;
+}
+
+/** The FX rate and date amounts were converted at. Renders nothing in USD. */
+export function FxNote({ fx, className }: FxNoteProps) {
+  const text = describeFx(fx);
+  if (!text) return null;
+  return (
+    <p className={cn("text-[11px] text-neutral-500 tabular-nums", className)}>
+      {text}
+    </p>
+  );
+}
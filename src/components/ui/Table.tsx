@@ -27,12 +27,36 @@ export function TableBody({ children }: { children: ReactNode }) {
 export function TableRow({
   children,
   className,
+  onClick,
 }: {
   children: ReactNode;
   className?: string;
+  onClick?: () => void;
 }) {
   return (
-    <tr className={cn("transition-colors hover:bg-neutral-800/30", className)}>
+    <tr
+      onClick={onClick}
+      // A clickable row is reachable and operable from the keyboard too.
+      tabIndex={onClick ? 0 : undefined}
+      role={onClick ? "button" : undefined}
+      onKeyDown={
+        onClick
+          ? (e) => {
+              if (e.target !== e.currentTarget) return;
+              if (e.key === "Enter" || e.key === " ") {
+                e.preventDefault();
+                onClick();
+              }
+            }
+          : undefined
+      }
+      className={cn(
+        "transition-colors hover:bg-neutral-800/30",
+        onClick &&
+          "cursor-pointer focus-visible:bg-neutral-800/30 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-primary-500",
+        className,
+      )}
+    >
       {children}
     </tr>
   );
@@ -0,0 +1,309 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { DatabaseZap } from "lucide-react";
+import { Card } from "@/components/ui/Card";
+import { ApiErrorState } from "@/components/ui/ApiErrorState";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from "@/components/ui/Table";
+import { TableSkeleton } from "@/components/ui/Skeleton";
+import {
+  api,
+  type CacheScope,
+  type CacheSimulationRow,
+  type ModelPricing,
+} from "@/lib/api";
+import {
+  CACHE_SCOPES,
+  CACHE_TTLS,
+  priceCacheSimulation,
+} from "@/lib/cacheSimulation";
+import { timeRangeHours, type TimeRange } from "@/lib/timeRange";
+import { usePricingBasis } from "@/hooks/usePricingBasis";
+import { useApiData } from "@/hooks/useApiData";
+import {
+  cn,
+  formatCurrency,
+  formatLatency,
+  formatNumber,
+  formatPercentage,
+} from "@/lib/utils";
+
+/** Summed wait time, in the largest unit that reads naturally. */
+function formatWaitTime(ms: number): string {
+  const hours = ms / 3_600_000;
+  if (hours >= 1) return `${formatNumber(Math.round(hours))} h`;
+  if (ms >= 60_000) return `${Math.round(ms / 60_000)} min`;
+  return formatLatency(ms);
+}
+
+function Toggle<T extends string | number>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string; title?: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="inline-flex rounded-lg border border-white/6 p-0.5">
+      {options.map((o) => (
+        <button
+          key={o.value}
+          type="button"
+          title={o.title}
+          aria-pressed={value === o.value}
+          onClick={() => onChange(o.value)}
+          className={cn(
+            "rounded-md px-2.5 py-1 text-[13px] transition-colors",
+            value === o.value
+              ? "bg-white/8 text-white"
+              : "text-neutral-500 hover:text-neutral-300",
+          )}
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function Stat({
+  label,
+  value,
+  sub,
+  className,
+}: {
+  label: string;
+  value: string;
+  sub?: string;
+  className?: string;
+}) {
+  return (
+    <div>
+      <p className="text-[11.5px] text-neutral-500">{label}</p>
+      <p
+        className={cn(
+          "mt-1 text-xl font-semibold tabular-nums",
+          className ?? "text-white",
+        )}
+      >
+        {value}
+      </p>
+      {sub && <p className="mt-0.5 text-[11.5px] text-neutral-500">{sub}</p>}
+    </div>
+  );
+}
+
+/**
+ * Whether a cache layer would pay for itself: the project's calls replayed
+ * through a response cache with the chosen TTL and scope, plus what provider
+ * prompt caching would take off the calls it still misses.
+ */
+export function CacheSimulator({ timeRange }: { timeRange: TimeRange }) {
+  const [scope, setScope] = useState<CacheScope>("step");
+  const [ttlSeconds, setTtlSeconds] = useState(CACHE_TTLS[1].seconds);
+  const {
+    data: replay,
+    loading,
+    error,
+    refetch,
+  } = useApiData(
+    (signal) => api.getCacheSimulation(timeRange, scope, ttlSeconds, signal),
+    [timeRange, scope, ttlSeconds],
+    [] as CacheSimulationRow[],
+  );
+  const { data: catalog } = useApiData(
+    (signal) => api.getPricing(signal),
+    [],
+    [] as ModelPricing[],
+  );
+  const [basis] = usePricingBasis();
+
+  const savings = useMemo(
+    () => priceCacheSimulation(replay, catalog, timeRangeHours(timeRange)),
+    [replay, catalog, timeRange],
+  );
+  const totalSaved = savings.response_saved + savings.prompt_saved;
+
+  return (
+    <Card padding="none">
+      <div className="border-b border-white/6 px-4 py-4 sm:px-6">
+        <h3 className="flex items-center gap-2 text-[15px] font-semibold tracking-tight text-white">
+          <DatabaseZap size={15} className="text-teal-400" aria-hidden />
+          Cache simulator
+        </h3>
+        <p className="mt-1 text-sm text-neutral-500">
+          Replays this window&apos;s calls through a cache keyed on the exact
+          input. These are duplicates across runs, not repeats inside one — the
+          kind a cache layer fixes.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-6 px-4 py-5 sm:px-6">
+        <div>
+          <p className="mb-1 text-[11.5px] text-neutral-500">Cache scope</p>
+          <Toggle
+            options={CACHE_SCOPES.map((s) => ({
+              value: s.value,
+              label: s.label,
+              title: s.description,
+            }))}
+            value={scope}
+            onChange={setScope}
+          />
+        </div>
+        <div>
+          <p className="mb-1 text-[11.5px] text-neutral-500">
+            Entries live for
+          </p>
+          <Toggle
+            options={CACHE_TTLS.map((t) => ({
+              value: t.seconds,
+              label: t.label,
+            }))}
+            value={ttlSeconds}
+            onChange={setTtlSeconds}
+          />
+        </div>
+      </div>
+
+      {error ? (
+        <div className="border-t border-white/6 p-6">
+          <ApiErrorState error={error} onRetry={refetch} />
+        </div>
+      ) : loading ? (
+        <div className="border-t border-white/6 p-6">
+          <TableSkeleton rows={4} />
+        </div>
+      ) : replay.length === 0 ? (
+        <div className="flex h-32 items-center justify-center border-t border-white/6 text-[13px] text-neutral-500">
+          No calls to replay in this window
+        </div>
+      ) : (
+        <div className="border-t border-white/6">
+          <div className="grid grid-cols-1 gap-4 px-4 py-5 sm:grid-cols-2 sm:px-6 xl:grid-cols-4">
+            <Stat
+              label="Hit rate"
+              value={formatPercentage(savings.hit_rate)}
+              sub={`${formatNumber(Math.round(savings.hits))} of ${formatNumber(
+                Math.round(savings.calls),
+              )} calls a month`}
+            />
+            <Stat
+              label="Response cache saves"
+              value={`${formatCurrency(savings.response_saved)}/mo`}
+              className="text-emerald-400"
+              sub={
+                savings.cost > 0
+                  ? `${formatPercentage((savings.response_saved / savings.cost) * 100)} of spend`
+                  : undefined
+              }
+            />
+            <Stat
+              label="Prompt caching saves"
+              value={`${formatCurrency(savings.prompt_saved)}/mo`}
+              className="text-emerald-400"
+              sub="On the misses, at cached input rates"
+            />
+            <Stat
+              label="Latency saved"
+              value={`${formatWaitTime(savings.latency_saved_ms)}/mo`}
+              sub={
+                savings.hits > 0
+                  ? `${formatLatency(savings.latency_saved_ms / savings.hits)} per hit`
+                  : undefined
+              }
+            />
+          </div>
+          <p className="px-4 pb-4 text-[11.5px] text-neutral-500 sm:px-6">
+            Together about {formatCurrency(totalSaved)} a month
+            {savings.cost > 0 &&
+              ` (${formatPercentage((totalSaved / savings.cost) * 100)} of ${formatCurrency(savings.cost)})`}{" "}
+            · prompt caching priced at list cached input rates from the catalog
+            {savings.unpriced_models.length > 0 &&
+              ` · no cached rate published for ${savings.unpriced_models.join(", ")}`}
+            {basis === "contract" && " · spend is at contract price"}
+          </p>
+
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Step</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead className="text-right">Calls / mo</TableHead>
+                  <TableHead className="text-right">Hit rate</TableHead>
+                  <TableHead className="text-right">Response cache</TableHead>
+                  <TableHead className="text-right">Latency saved</TableHead>
+                  <TableHead className="text-right">Prompt caching</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {savings.rows.map((r) => (
+                  <TableRow
+                    key={`${r.workflow}:${r.step_name}:${r.agent_name}:${r.model}`}
+                  >
+                    <TableCell>
+                      <span className="font-medium text-white">
+                        {r.step_name ?? r.agent_name ?? "—"}
+                      </span>
+                      <span className="ml-2 text-[12px] text-neutral-500">
+                        {r.workflow ?? "outside a workflow"}
+                      </span>
+                    </TableCell>
+                    <TableCell className="font-mono text-[12px] text-neutral-400">
+                      {r.model}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-neutral-300">
+                      {formatNumber(Math.round(r.calls))}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-neutral-300">
+                      {formatPercentage(
+                        r.calls > 0 ? (r.hits / r.calls) * 100 : 0,
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-white">
+                      {formatCurrency(r.hit_cost)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-neutral-400">
+                      {formatWaitTime(r.hit_latency_ms)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {r.cached_prefix_tokens === 0 ? (
+                        <span
+                          className="text-neutral-600"
+                          title="No repeated prefix long enough for the provider to cache"
+                        >
+                          —
+                        </span>
+                      ) : r.cached_rate == null ? (
+                        <span
+                          className="text-neutral-600"
+                          title="No cached input rate in the pricing catalog"
+                        >
+                          n/a
+                        </span>
+                      ) : (
+                        <span className="text-white">
+                          {formatCurrency(r.prompt_saved)}
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -9,6 +9,7 @@ import {
   useState,
 } from "react";
 import { api, type ProjectListItem } from "@/lib/api";
+import { parseApiError } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
 
 interface ActiveProjectContextValue {
@@ -16,6 +17,8 @@ interface ActiveProjectContextValue {
   projects: ProjectListItem[];
   /** The currently active project, or null if none selected / accessible. */
   activeProject: ProjectListItem | null;
+  /** The selected project's id, known before the project list has loaded. */
+  activeProjectId: string | null;
   /** True while the project list is being fetched. */
   isLoading: boolean;
   /** Non-null when the project list failed to load. */
@@ -80,7 +83,7 @@ export function ActiveProjectProvider({
         }
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load projects");
+      setError(parseApiError(err));
     } finally {
       setIsLoading(false);
     }
@@ -121,12 +124,21 @@ export function ActiveProjectProvider({
     () => ({
       projects,
       activeProject,
+      activeProjectId: activeId,
       isLoading,
       error,
       selectProject,
       refresh: fetchProjects,
     }),
-    [projects, activeProject, isLoading, error, selectProject, fetchProjects],
+    [
+      projects,
+      activeProject,
+      activeId,
+      isLoading,
+      error,
+      selectProject,
+      fetchProjects,
+    ],
   );
 
   return (
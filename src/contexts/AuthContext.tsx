@@ -499,6 +499,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       localStorage.removeItem("access_token");
       localStorage.removeItem("refresh_token");
       localStorage.removeItem("user");
+      api.clearCache();
       // Stored API keys and project selection deliberately survive logout —
       // they're scoped to the account via reconcileStoredConfigOwner(), which
       // wipes them if a DIFFERENT account signs in on this browser. This way
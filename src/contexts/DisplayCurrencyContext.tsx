@@ -0,0 +1,194 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { api, type CurrencyCode, type ProjectInfo } from "@/lib/api";
+import {
+  getDisplayFx,
+  isCurrencyCode,
+  setDisplayFx,
+  subscribeDisplayFx,
+  USD_FX,
+  type DisplayFx,
+} from "@/lib/currency";
+import { parseApiError } from "@/lib/utils";
+import { useApiData } from "@/hooks/useApiData";
+import { useActiveProject } from "@/contexts/ActiveProjectContext";
+
+/** Rates are refetched after this; an older one still beats none. */
+const RATE_TTL_MS = 12 * 60 * 60 * 1000;
+const RATE_CACHE_KEY = "agentcost_fx_rates";
+
+interface CachedRate {
+  fx: DisplayFx;
+  fetched_at: number;
+}
+
+interface DisplayCurrencyContextValue {
+  /** The project's currency, the same for every member. USD until set. */
+  currency: CurrencyCode;
+  /**
+   * The rate amounts are shown at. USD while the first rate for `currency`
+   * loads, or if it can't be fetched and none is cached; a stale cached rate
+   * is used while it's refreshed.
+   */
+  fx: DisplayFx;
+  loading: boolean;
+  /** Non-null when the rate for `currency` failed to load. */
+  error: string | null;
+  /** Only project admins can change the currency. */
+  canEdit: boolean;
+  /** Save a new currency on the project. Rejects if it wasn't stored. */
+  saveCurrency: (currency: CurrencyCode) => Promise<void>;
+}
+
+const DisplayCurrencyContext =
+  createContext<DisplayCurrencyContextValue | null>(null);
+
+function projectCurrency(project: ProjectInfo | null): CurrencyCode {
+  const code = project?.display_currency;
+  return code && isCurrencyCode(code) ? code : "USD";
+}
+
+function readRates(): Partial<Record<CurrencyCode, CachedRate>> {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(localStorage.getItem(RATE_CACHE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function storeRate(fx: DisplayFx) {
+  localStorage.setItem(
+    RATE_CACHE_KEY,
+    JSON.stringify({
+      ...readRates(),
+      [fx.code]: { fx, fetched_at: Date.now() },
+    }),
+  );
+}
+
+/**
+ * Keeps the display currency's rate current for formatCurrency and friends.
+ * The currency is a project setting, so every member — and every report they
+ * export — shows the same one. Rates come from the backend's cached FX feed and are cached again here per
+ * currency, so switching back and forth costs nothing. Formatting reads the
+ * rate outside React: it's published there first, and only then handed to
+ * context, so the pages that read `fx` re-render — and their children with
+ * them — against the new rate. Nothing is remounted.
+ */
+export function DisplayCurrencyProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const { activeProject } = useActiveProject();
+  const activeProjectId = activeProject?.id ?? null;
+  // Members without the project's API key still read it over the JWT path;
+  // SDK-only setups with no project list fall back to the key's own project.
+  const { data: project } = useApiData(
+    (signal) =>
+      activeProjectId
+        ? api.getProjectById(activeProjectId, signal)
+        : api.getProject(signal),
+    [activeProjectId],
+    null as ProjectInfo | null,
+  );
+  const [saved, setSaved] = useState<ProjectInfo | null>(null);
+  const currency = projectCurrency(
+    saved && saved.id === project?.id ? saved : project,
+  );
+  const canEdit = activeProject ? activeProject.role === "admin" : true;
+
+  const saveCurrency = useCallback(
+    async (next: CurrencyCode) => {
+      if (!project) throw new Error("No project to save the currency on.");
+      const updated = await api.updateProject(project.id, {
+        display_currency: next,
+      });
+      // Older backends drop the field; say so rather than pretend it stuck.
+      if (updated.display_currency !== next) {
+        throw new Error("This server doesn't store a project currency yet.");
+      }
+      setSaved(updated);
+    },
+    [project],
+  );
+
+  const [latest, setLatest] = useState<CachedRate | null>(null);
+  const [failure, setFailure] = useState<{
+    currency: CurrencyCode;
+    message: string;
+  } | null>(null);
+
+  const stored = useMemo(
+    () => (currency === "USD" ? null : (readRates()[currency] ?? null)),
+    [currency],
+  );
+  const cached = latest?.fx.code === currency ? latest : stored;
+
+  useEffect(() => {
+    if (currency === "USD") return;
+    if (cached && Date.now() - cached.fetched_at < RATE_TTL_MS) return;
+    const controller = new AbortController();
+    api
+      .getFxRate(currency, controller.signal)
+      .then((rate) => {
+        const fx: DisplayFx = {
+          code: currency,
+          rate: rate.rate,
+          as_of: rate.as_of ?? null,
+          source: rate.source,
+        };
+        storeRate(fx);
+        setLatest({ fx, fetched_at: Date.now() });
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setFailure({ currency, message: parseApiError(err) });
+      });
+    return () => controller.abort();
+  }, [currency, cached]);
+
+  const target = currency === "USD" ? USD_FX : (cached?.fx ?? USD_FX);
+  useLayoutEffect(() => {
+    setDisplayFx(target);
+  }, [target]);
+  const fx = useSyncExternalStore(
+    subscribeDisplayFx,
+    getDisplayFx,
+    () => USD_FX,
+  );
+  const error = failure?.currency === currency ? failure.message : null;
+  const loading = currency !== "USD" && cached == null && error == null;
+
+  const value = useMemo<DisplayCurrencyContextValue>(
+    () => ({ currency, fx, loading, error, canEdit, saveCurrency }),
+    [currency, fx, loading, error, canEdit, saveCurrency],
+  );
+
+  return (
+    <DisplayCurrencyContext.Provider value={value}>
+      {children}
+    </DisplayCurrencyContext.Provider>
+  );
+}
+
+export function useDisplayCurrency(): DisplayCurrencyContextValue {
+  const ctx = useContext(DisplayCurrencyContext);
+  if (!ctx) {
+    throw new Error(
+      "useDisplayCurrency must be used inside <DisplayCurrencyProvider>",
+    );
+  }
+  return ctx;
+}
@@ -0,0 +1,65 @@
+import { useCallback } from "react";
+import { api, AlertRule, AlertRuleInput } from "@/lib/api";
+import { useActiveProject } from "@/contexts/ActiveProjectContext";
+import { useApiData } from "@/hooks/useApiData";
+import type { ApiFailure } from "@/lib/utils";
+
+interface UseAlertRulesReturn {
+  projectId: string | null;
+  rules: AlertRule[];
+  loading: boolean;
+  error: ApiFailure | null;
+  create: (rule: AlertRuleInput) => Promise<void>;
+  update: (ruleId: string, changes: Partial<AlertRuleInput>) => Promise<void>;
+  remove: (ruleId: string) => Promise<void>;
+}
+
+/**
+ * The active project's alert rules. Reloads when the project changes and
+ * after every write; failures of the writes are thrown to the caller.
+ */
+export function useAlertRules(): UseAlertRulesReturn {
+  const { activeProject } = useActiveProject();
+  const projectId = activeProject?.id ?? null;
+
+  const {
+    data: rules,
+    loading,
+    error,
+    refetch,
+  } = useApiData(
+    (signal) =>
+      projectId ? api.getAlertRules(projectId, signal) : Promise.resolve([]),
+    [projectId],
+    [] as AlertRule[],
+  );
+
+  const create = useCallback(
+    async (rule: AlertRuleInput) => {
+      if (!projectId) return;
+      await api.createAlertRule(projectId, rule);
+      refetch();
+    },
+    [projectId, refetch],
+  );
+
+  const update = useCallback(
+    async (ruleId: string, changes: Partial<AlertRuleInput>) => {
+      if (!projectId) return;
+      await api.updateAlertRule(projectId, ruleId, changes);
+      refetch();
+    },
+    [projectId, refetch],
+  );
+
+  const remove = useCallback(
+    async (ruleId: string) => {
+      if (!projectId) return;
+      await api.deleteAlertRule(projectId, ruleId);
+      refetch();
+    },
+    [projectId, refetch],
+  );
+
+  return { projectId, rules, loading, error, create, update, remove };
+}
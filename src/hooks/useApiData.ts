@@ -0,0 +1,84 @@
+import {
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  DependencyList,
+} from "react";
+import { api, isAbortError, onPricingBasisChange } from "@/lib/api";
+import { toApiFailure, type ApiFailure } from "@/lib/utils";
+
+interface UseApiDataReturn<T> {
+  data: T;
+  loading: boolean;
+  /** Already classified; hand it to ApiErrorState to render. */
+  error: ApiFailure | null;
+  /** Fetch the same query again, keeping the current data on screen. */
+  refetch: () => void;
+}
+
+/**
+ * Load page data and keep it in step with `deps`.
+ *
+ * Each change of `deps` aborts the request still running for the previous
+ * ones, so a slow response for an old time range can never land on top of
+ * the new one. The data also drops back to `initial` at that point: while
+ * the new request runs, the page shows its loading state rather than
+ * numbers that belong to a selection the user has already left.
+ *
+ * A switch of pricing basis refetches in place, like `refetch`: the amounts
+ * are the same query at other prices.
+ *
+ * `fetcher` must pass the signal on to every api call it makes.
+ */
+export function useApiData<T>(
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  deps: DependencyList,
+  initial: T,
+): UseApiDataReturn<T> {
+  const [data, setData] = useState<T>(initial);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiFailure | null>(null);
+  const [reloads, setReloads] = useState(0);
+  const lastReload = useRef(reloads);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const isRefetch = lastReload.current !== reloads;
+    lastReload.current = reloads;
+
+    async function run() {
+      if (!api.hasProjectAccess()) {
+        setLoading(false);
+        return;
+      }
+
+      if (!isRefetch) setData(initial);
+      setLoading(true);
+      setError(null);
+
+      try {
+        const result = await fetcher(controller.signal);
+        if (controller.signal.aborted) return;
+        setData(result);
+      } catch (err) {
+        if (controller.signal.aborted || isAbortError(err)) return;
+        setError(toApiFailure(err));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }
+
+    run();
+    return () => controller.abort();
+    // `fetcher` and `initial` are fresh closures every render; `deps` is
+    // what decides when the query has actually changed.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [...deps, reloads]);
+
+  const refetch = useCallback(() => setReloads((n) => n + 1), []);
+
+  useEffect(() => onPricingBasisChange(refetch), [refetch]);
+
+  return { data, loading, error, refetch };
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from "react";
+import { api, onPricingBasisChange } from "@/lib/api";
 
 interface UseAutoRefreshOptions {
   enabled?: boolean;
@@ -63,6 +64,14 @@ export function useAutoRefresh({
     }
   }, [isRefreshing, onRefresh]);
 
+  // A manual refresh means "ask the server again", not "show the cached
+  // copy". Timed ones go through the cache, which refetches what has gone
+  // stale.
+  const manualRefresh = useCallback(async () => {
+    api.clearCache();
+    await refresh();
+  }, [refresh]);
+
   // Refetch when the active project changes (project switcher, or the
   // post-login reconciliation in ActiveProjectContext replacing a stale id).
   // Without this, the page that mounted with the old id keeps its error
@@ -83,6 +92,9 @@ export function useAutoRefresh({
       );
   }, [refresh]);
 
+  // A new pricing basis changes every amount on the page.
+  useEffect(() => onPricingBasisChange(refresh), [refresh]);
+
   // Set up auto-refresh interval
   useEffect(() => {
     if (intervalRef.current) {
@@ -106,7 +118,7 @@ export function useAutoRefresh({
   return {
     isRefreshing,
     lastRefresh,
-    refresh,
+    refresh: manualRefresh,
     autoRefreshEnabled,
     setAutoRefreshEnabled,
     refreshInterval,
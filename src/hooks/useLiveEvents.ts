@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback } from "react";
+import { api, Event, EventFilters, EventStreamStatus } from "@/lib/api";
+import { toApiFailure, type ApiFailure } from "@/lib/utils";
+
+/** Rows kept on screen, and unseen rows held while paused. */
+const LIVE_ROW_LIMIT = 500;
+
+interface UseLiveEventsOptions {
+  enabled: boolean;
+  filters: EventFilters;
+}
+
+interface UseLiveEventsReturn {
+  /** Newest first. */
+  rows: Event[];
+  /** Arrived while paused; shown on resume. */
+  unseen: Event[];
+  paused: boolean;
+  status: EventStreamStatus;
+  error: ApiFailure | null;
+  pause: () => void;
+  /** Show the unseen rows and keep prepending new ones. */
+  resume: () => void;
+  /** Open the stream again after it gave up. */
+  reconnect: () => void;
+}
+
+interface LiveState {
+  /** The stream these rows came from; anything else is stale. */
+  key: string | null;
+  rows: Event[];
+  unseen: Event[];
+  paused: boolean;
+  status: EventStreamStatus;
+  error: ApiFailure | null;
+}
+
+const EMPTY: Omit<LiveState, "key"> = {
+  rows: [],
+  unseen: [],
+  paused: false,
+  status: "connecting",
+  error: null,
+};
+
+/** Prepend `incoming` (newest first) to `rows`, dropping repeats. */
+function prepend(incoming: Event[], rows: Event[]): Event[] {
+  const seen = new Set(rows.map((e) => e.id));
+  const fresh = incoming.filter((e) => !seen.has(e.id));
+  return fresh.length ? [...fresh, ...rows].slice(0, LIVE_ROW_LIMIT) : rows;
+}
+
+/**
+ * Tail the event stream while `enabled`, with the page's filters applied.
+ *
+ * Changing a filter opens a new stream and starts the rows over. A switch
+ * of the active project does the same, since the old stream belongs to the
+ * other project.
+ */
+export function useLiveEvents({
+  enabled,
+  filters,
+}: UseLiveEventsOptions): UseLiveEventsReturn {
+  const [connection, setConnection] = useState(0);
+  const [state, setState] = useState<LiveState>({ key: null, ...EMPTY });
+
+  const key = enabled ? JSON.stringify([connection, filters]) : null;
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const handleProjectChange = () => setConnection((n) => n + 1);
+    window.addEventListener(
+      "agentcost_active_project_changed",
+      handleProjectChange,
+    );
+    return () =>
+      window.removeEventListener(
+        "agentcost_active_project_changed",
+        handleProjectChange,
+      );
+  }, []);
+
+  useEffect(() => {
+    if (key === null || !api.hasProjectAccess()) return;
+
+    // The first update of a new stream starts the rows over; anything the
+    // previous stream says after it was closed is dropped.
+    let active = true;
+    let fresh = true;
+    const update = (fn: (prev: LiveState) => Partial<LiveState>) => {
+      if (!active) return;
+      const reset = fresh;
+      fresh = false;
+      setState((prev) => {
+        const current = reset || prev.key !== key ? { key, ...EMPTY } : prev;
+        return { ...current, ...fn(current) };
+      });
+    };
+
+    const close = api.streamEvents(filters, {
+      onEvent: (event) =>
+        update((prev) =>
+          prev.paused
+            ? { unseen: prepend([event], prev.unseen) }
+            : { rows: prepend([event], prev.rows) },
+        ),
+      onStatus: (status) => update(() => ({ status })),
+      onError: (err) => update(() => ({ error: toApiFailure(err) })),
+    });
+    return () => {
+      active = false;
+      close();
+    };
+    // `key` already encodes the filters.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  const current = state.key === key ? state : { key, ...EMPTY };
+
+  const pause = useCallback(
+    () =>
+      setState((prev) => ({
+        ...(prev.key === key ? prev : { key, ...EMPTY }),
+        paused: true,
+      })),
+    [key],
+  );
+
+  const resume = useCallback(
+    () =>
+      setState((prev) =>
+        prev.key === key
+          ? {
+              ...prev,
+              paused: false,
+              rows: prepend(prev.unseen, prev.rows),
+              unseen: [],
+            }
+          : prev,
+      ),
+    [key],
+  );
+
+  const reconnect = useCallback(() => setConnection((n) => n + 1), []);
+
+  return {
+    rows: current.rows,
+    unseen: current.unseen,
+    paused: current.paused,
+    status: current.status,
+    error: current.error,
+    pause,
+    resume,
+    reconnect,
+  };
+}
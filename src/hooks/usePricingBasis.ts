@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from "react";
+import { getPricingBasis, setPricingBasis, PricingBasis } from "@/lib/api";
+
+/**
+ * The prices costs are shown at, kept in step across components and tabs.
+ * Changing it drops cached reads, and data loaded through useApiData or an
+ * auto-refreshing page is fetched again at the new prices.
+ */
+export function usePricingBasis(): [
+  PricingBasis,
+  (basis: PricingBasis) => void,
+] {
+  const [basis, setBasis] = useState<PricingBasis>("list");
+
+  useEffect(() => {
+    const read = () => setBasis(getPricingBasis());
+    read();
+    window.addEventListener("agentcost_config_updated", read);
+    window.addEventListener("storage", read);
+    return () => {
+      window.removeEventListener("agentcost_config_updated", read);
+      window.removeEventListener("storage", read);
+    };
+  }, []);
+
+  const change = useCallback((next: PricingBasis) => {
+    setPricingBasis(next);
+  }, []);
+
+  return [basis, change];
+}
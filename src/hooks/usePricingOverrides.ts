@@ -0,0 +1,70 @@
+import { useCallback } from "react";
+import { api, PricingOverride, PricingOverrideInput } from "@/lib/api";
+import { useActiveProject } from "@/contexts/ActiveProjectContext";
+import { useApiData } from "@/hooks/useApiData";
+import type { ApiFailure } from "@/lib/utils";
+
+interface UsePricingOverridesReturn {
+  projectId: string | null;
+  overrides: PricingOverride[];
+  loading: boolean;
+  error: ApiFailure | null;
+  create: (override: PricingOverrideInput) => Promise<void>;
+  update: (
+    overrideId: string,
+    changes: Partial<PricingOverrideInput>,
+  ) => Promise<void>;
+  remove: (overrideId: string) => Promise<void>;
+}
+
+/**
+ * The active project's pricing overrides. Reloads when the project changes
+ * and after every write; failures of the writes are thrown to the caller.
+ */
+export function usePricingOverrides(): UsePricingOverridesReturn {
+  const { activeProject } = useActiveProject();
+  const projectId = activeProject?.id ?? null;
+
+  const {
+    data: overrides,
+    loading,
+    error,
+    refetch,
+  } = useApiData(
+    (signal) =>
+      projectId
+        ? api.getPricingOverrides(projectId, signal)
+        : Promise.resolve([]),
+    [projectId],
+    [] as PricingOverride[],
+  );
+
+  const create = useCallback(
+    async (override: PricingOverrideInput) => {
+      if (!projectId) return;
+      await api.createPricingOverride(projectId, override);
+      refetch();
+    },
+    [projectId, refetch],
+  );
+
+  const update = useCallback(
+    async (overrideId: string, changes: Partial<PricingOverrideInput>) => {
+      if (!projectId) return;
+      await api.updatePricingOverride(projectId, overrideId, changes);
+      refetch();
+    },
+    [projectId, refetch],
+  );
+
+  const remove = useCallback(
+    async (overrideId: string) => {
+      if (!projectId) return;
+      await api.deletePricingOverride(projectId, overrideId);
+      refetch();
+    },
+    [projectId, refetch],
+  );
+
+  return { projectId, overrides, loading, error, create, update, remove };
+}
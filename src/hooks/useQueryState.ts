@@ -0,0 +1,99 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "next/navigation";
+import { isTimeRangePreset, type TimeRange } from "@/lib/timeRange";
+
+type QueryPatch = Record<string, string | number | null | undefined>;
+
+/**
+ * Write `patch` into the current URL's query string; null, undefined and ""
+ * remove a key. Uses history.replaceState, which Next picks up for
+ * useSearchParams without a server round trip or a new history entry.
+ *
+ * Reads the live location rather than a render's snapshot, so several calls
+ * in one handler (a filter and its page reset) compose.
+ */
+export function setQueryParams(patch: QueryPatch): void {
+  const params = new URLSearchParams(window.location.search);
+  for (const [key, value] of Object.entries(patch)) {
+    if (value == null || value === "") params.delete(key);
+    else params.set(key, String(value));
+  }
+  const query = params.toString();
+  window.history.replaceState(
+    null,
+    "",
+    `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`,
+  );
+}
+
+/**
+ * A string of page state kept in the query string, so a reload keeps it and
+ * the URL can be shared. The default is left out of the URL. With `allowed`,
+ * a hand-edited value outside it reads as the default.
+ */
+export function useQueryState<T extends string = string>(
+  key: string,
+  defaultValue: NoInfer<T>,
+  allowed?: readonly T[],
+): [T, (value: T) => void] {
+  const raw = useSearchParams().get(key);
+  const value =
+    raw != null && (!allowed || allowed.includes(raw as T))
+      ? (raw as T)
+      : defaultValue;
+  const setValue = useCallback(
+    (next: T) => setQueryParams({ [key]: next === defaultValue ? null : next }),
+    [key, defaultValue],
+  );
+  return [value, setValue];
+}
+
+/** `useQueryState` for a non-negative integer such as a page index. */
+export function useQueryNumber(
+  key: string,
+  defaultValue: number = 0,
+): [number, (value: number) => void] {
+  const raw = useSearchParams().get(key);
+  const parsed = raw == null ? NaN : Number(raw);
+  const value = Number.isInteger(parsed) && parsed >= 0 ? parsed : defaultValue;
+  const setValue = useCallback(
+    (next: number) =>
+      setQueryParams({ [key]: next === defaultValue ? null : next }),
+    [key, defaultValue],
+  );
+  return [value, setValue];
+}
+
+/**
+ * An analytics page's time range: `range` for a preset, `start`/`end` for an
+ * absolute window — the same parameters the Reports page and the API use.
+ * The value keeps its identity until the window itself changes.
+ */
+export function useQueryTimeRange(
+  defaultValue: string = "7d",
+): [TimeRange, (value: TimeRange) => void] {
+  const params = useSearchParams();
+  const preset = params.get("range");
+  const start = params.get("start");
+  const end = params.get("end");
+  const value = useMemo<TimeRange>(() => {
+    if (start && !Number.isNaN(Date.parse(start))) {
+      return end && !Number.isNaN(Date.parse(end)) ? { start, end } : { start };
+    }
+    return preset && isTimeRangePreset(preset) ? preset : defaultValue;
+  }, [preset, start, end, defaultValue]);
+  const setValue = useCallback(
+    (next: TimeRange) =>
+      setQueryParams(
+        typeof next === "string"
+          ? {
+              range: next === defaultValue ? null : next,
+              start: null,
+              end: null,
+            }
+          : { range: null, start: next.start, end: next.end },
+      ),
+    [defaultValue],
+  );
+  return [value, setValue];
+}
@@ -0,0 +1,55 @@
+import { useCallback } from "react";
+import { api, SavedView } from "@/lib/api";
+import { useActiveProject } from "@/contexts/ActiveProjectContext";
+import { useApiData } from "@/hooks/useApiData";
+import type { ApiFailure } from "@/lib/utils";
+
+interface UseSavedViewsReturn {
+  views: SavedView[];
+  loading: boolean;
+  error: ApiFailure | null;
+  /** Save `path` + `query` under `name` for the whole project. */
+  save: (name: string, path: string, query: string) => Promise<void>;
+  remove: (viewId: string) => Promise<void>;
+}
+
+/**
+ * The active project's saved views. Reloads when the project changes and
+ * after every save or delete; failures of those two are thrown to the caller.
+ */
+export function useSavedViews(): UseSavedViewsReturn {
+  const { activeProject } = useActiveProject();
+  const projectId = activeProject?.id ?? null;
+
+  const {
+    data: views,
+    loading,
+    error,
+    refetch,
+  } = useApiData(
+    (signal) =>
+      projectId ? api.getSavedViews(projectId, signal) : Promise.resolve([]),
+    [projectId],
+    [] as SavedView[],
+  );
+
+  const save = useCallback(
+    async (name: string, path: string, query: string) => {
+      if (!projectId) return;
+      await api.createSavedView(projectId, { name, path, query });
+      refetch();
+    },
+    [projectId, refetch],
+  );
+
+  const remove = useCallback(
+    async (viewId: string) => {
+      if (!projectId) return;
+      await api.deleteSavedView(projectId, viewId);
+      refetch();
+    },
+    [projectId, refetch],
+  );
+
+  return { views, loading, error, save, remove };
+}
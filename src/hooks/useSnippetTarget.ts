@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from "react";
+import { getSnippetTarget, setSnippetTarget, SnippetTarget } from "@/lib/api";
+
+/**
+ * The stack implementation snippets are written for. Picked once per browser;
+ * every open modal and tab follows a change.
+ */
+export function useSnippetTarget(): [
+  SnippetTarget,
+  (target: SnippetTarget) => void,
+] {
+  const [target, setTarget] = useState<SnippetTarget>("python-openai");
+
+  useEffect(() => {
+    const read = () => setTarget(getSnippetTarget());
+    read();
+    window.addEventListener("agentcost_config_updated", read);
+    window.addEventListener("storage", read);
+    return () => {
+      window.removeEventListener("agentcost_config_updated", read);
+      window.removeEventListener("storage", read);
+    };
+  }, []);
+
+  const change = useCallback((next: SnippetTarget) => {
+    setSnippetTarget(next);
+  }, []);
+
+  return [target, change];
+}
@@ -0,0 +1,161 @@
+/**
+ * Labels, units and wording for alert rules, shared by the Alerts settings
+ * page and the demo, which evaluates rules the way the backend does.
+ */
+
+import { formatCurrency, formatLatency, formatNumber } from "@/lib/utils";
+import type {
+  AlertComparator,
+  AlertMetric,
+  AlertRule,
+  AlertRuleInput,
+  AlertScope,
+} from "@/lib/api";
+
+type AlertUnit = "usd" | "count" | "percent" | "ms";
+
+export const ALERT_METRICS: Record<
+  AlertMetric,
+  { label: string; unit: AlertUnit; description: string }
+> = {
+  cost: {
+    label: "Cost",
+    unit: "usd",
+    description: "Total spend in the window",
+  },
+  calls: {
+    label: "Calls",
+    unit: "count",
+    description: "LLM calls in the window",
+  },
+  error_rate: {
+    label: "Error rate",
+    unit: "percent",
+    description: "Share of calls that failed",
+  },
+  p95_latency_ms: {
+    label: "p95 latency",
+    unit: "ms",
+    description: "95th percentile call latency",
+  },
+  cost_per_run: {
+    label: "Cost per run",
+    unit: "usd",
+    description: "Average spend of a workflow run",
+  },
+  repeated_work_waste: {
+    label: "Repeated-work waste",
+    unit: "usd",
+    description: "Spend on identical calls repeated inside one run",
+  },
+};
+
+export const ALERT_SCOPES: { value: AlertScope; label: string }[] = [
+  { value: "project", label: "Whole project" },
+  { value: "agent", label: "Agent" },
+  { value: "model", label: "Model" },
+  { value: "workflow", label: "Workflow" },
+  { value: "step", label: "Step" },
+];
+
+/** Runs and the waste inside them only exist for workflows. */
+const RUN_SCOPES: AlertScope[] = ["project", "workflow", "step"];
+
+export function alertScopesFor(metric: AlertMetric): AlertScope[] {
+  return metric === "cost_per_run" || metric === "repeated_work_waste"
+    ? RUN_SCOPES
+    : ALERT_SCOPES.map((s) => s.value);
+}
+
+export const ALERT_COMPARATORS: Record<AlertComparator, string> = {
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+};
+
+export const ALERT_WINDOWS = [60, 360, 1440, 10080];
+
+export const ALERT_COOLDOWNS = [0, 60, 360, 1440];
+
+export const DEFAULT_ALERT_RULE: AlertRuleInput = {
+  name: "",
+  metric: "cost",
+  scope: "project",
+  scope_value: null,
+  comparator: "gt",
+  threshold: 100,
+  window_minutes: 1440,
+  cooldown_minutes: 1440,
+  severity: "warning",
+  enabled: true,
+};
+
+export function alertRuleInput(rule: AlertRule): AlertRuleInput {
+  return {
+    name: rule.name,
+    metric: rule.metric,
+    scope: rule.scope,
+    scope_value: rule.scope_value,
+    comparator: rule.comparator,
+    threshold: rule.threshold,
+    window_minutes: rule.window_minutes,
+    cooldown_minutes: rule.cooldown_minutes,
+    severity: rule.severity,
+    enabled: rule.enabled,
+  };
+}
+
+/** "1 hour", "6 hours", "7 days"; zero reads "none". */
+export function formatMinutes(minutes: number): string {
+  if (minutes === 0) return "none";
+  const [value, unit] =
+    minutes % 1440 === 0
+      ? [minutes / 1440, "day"]
+      : minutes % 60 === 0
+        ? [minutes / 60, "hour"]
+        : [minutes, "minute"];
+  return `${value} ${unit}${value === 1 ? "" : "s"}`;
+}
+
+export function formatAlertValue(metric: AlertMetric, value: number): string {
+  switch (ALERT_METRICS[metric].unit) {
+    case "usd":
+      return formatCurrency(value);
+    case "percent":
+      return `${value.toFixed(1)}%`;
+    case "ms":
+      return formatLatency(value);
+    default:
+      return formatNumber(value);
+  }
+}
+
+export function crossesThreshold(
+  comparator: AlertComparator,
+  value: number,
+  threshold: number,
+): boolean {
+  switch (comparator) {
+    case "gt":
+      return value > threshold;
+    case "gte":
+      return value >= threshold;
+    case "lt":
+      return value < threshold;
+    default:
+      return value <= threshold;
+  }
+}
+
+/** e.g. "Cost of agent faq-bot > $50.00 over 24 hours". */
+export function describeAlertRule(rule: AlertRuleInput): string {
+  const subject =
+    rule.scope === "project" || !rule.scope_value
+      ? ALERT_METRICS[rule.metric].label
+      : `${ALERT_METRICS[rule.metric].label} of ${rule.scope} ${rule.scope_value}`;
+  return `${subject} ${ALERT_COMPARATORS[rule.comparator]} ${formatAlertValue(
+    rule.metric,
+    rule.threshold,
+  )} over ${formatMinutes(rule.window_minutes)}`;
+}
@@ -0,0 +1,292 @@
+/**
+ * Spike detection for the time series: the project total and every agent,
+ * model and workflow in it. Each bucket is held against the median of the
+ * buckets before it, scaled by their median absolute deviation — robust
+ * statistics, so one spike doesn't raise the bar for the next the way a
+ * mean and standard deviation would.
+ */
+
+import { format } from "date-fns";
+import { dayBucketDate } from "@/lib/utils";
+import type { TimeSeriesBreakdownPoint, TimeSeriesBucket } from "@/lib/api";
+import type { EventFilters } from "@/lib/eventFilters";
+import {
+  isHourlyRange,
+  toAbsoluteRange,
+  type AbsoluteRange,
+  type TimeRange,
+} from "@/lib/timeRange";
+
+export type AnomalyDimension = "agent" | "model" | "workflow";
+
+const BUCKET_MS: Record<TimeSeriesBucket, number> = {
+  hour: 3_600_000,
+  day: 86_400_000,
+};
+/** How many buckets before each one make up its baseline. */
+const BASELINE_BUCKETS: Record<TimeSeriesBucket, number> = {
+  hour: 24,
+  day: 14,
+};
+/** With fewer earlier buckets than this there is no baseline yet. */
+const MIN_BASELINE = 6;
+/** Modified z-score above which a bucket is a spike (Iglewicz & Hoaglin). */
+const Z_THRESHOLD = 3.5;
+/** Scales the MAD to a standard deviation for normally distributed data. */
+const MAD_SCALE = 1.4826;
+/** The spread never counts as less than this share of the median... */
+const MIN_SPREAD = 0.1;
+/** ...and a spike must add this share of an average bucket's total spend. */
+const MIN_SHARE_OF_TOTAL = 0.02;
+
+/** The agent × model (× workflow) cell that added most of a spike. */
+export interface AnomalyContributor {
+  agent_name: string;
+  model: string;
+  workflow: string | null;
+  /** Its part of the spike's extra spend, 0–1. */
+  share: number;
+}
+
+export interface Anomaly {
+  id: string;
+  /** The bucket that spiked. */
+  timestamp: string;
+  /** The series that spiked; both null for the project total. */
+  dimension: AnomalyDimension | null;
+  key: string | null;
+  cost: number;
+  /** Median cost of the baseline buckets. */
+  baseline: number;
+  /** Null when the series had no spend at all before. */
+  change_percent: number | null;
+  z_score: number;
+  contributor: AnomalyContributor | null;
+}
+
+/** Hour buckets for windows of a day or less, like the time series. */
+export function anomalyBucket(range: TimeRange): TimeSeriesBucket {
+  return isHourlyRange(range) ? "hour" : "day";
+}
+
+/** `range` with room in front of it for the first bucket's baseline. */
+export function anomalyHistoryRange(range: TimeRange): AbsoluteRange {
+  const { start, end } = toAbsoluteRange(range);
+  const bucket = anomalyBucket(range);
+  const lead = BASELINE_BUCKETS[bucket] * BUCKET_MS[bucket];
+  return {
+    start: new Date(Date.parse(start) - lead).toISOString(),
+    end,
+  };
+}
+
+/**
+ * The events behind a spike: its bucket, narrowed to the series that
+ * spiked — or, for the project total, to the cell that drove it.
+ */
+export function anomalyEventFilters(
+  anomaly: Anomaly,
+  bucket: TimeSeriesBucket,
+): EventFilters {
+  const start = Date.parse(anomaly.timestamp);
+  const filters: EventFilters = {
+    start: new Date(start).toISOString(),
+    end: new Date(start + BUCKET_MS[bucket]).toISOString(),
+  };
+  if (anomaly.dimension === "agent") filters.agentName = anomaly.key!;
+  else if (anomaly.dimension === "model") filters.model = anomaly.key!;
+  else if (anomaly.dimension === "workflow") filters.workflow = anomaly.key!;
+  else if (anomaly.contributor) {
+    filters.agentName = anomaly.contributor.agent_name;
+    filters.model = anomaly.contributor.model;
+  }
+  return filters;
+}
+
+function median(sorted: number[]): number {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function baselineOf(values: number[]): { median: number; mad: number } {
+  const m = median([...values].sort((a, b) => a - b));
+  const deviations = values.map((v) => Math.abs(v - m)).sort((a, b) => a - b);
+  return { median: m, mad: median(deviations) };
+}
+
+interface Series {
+  dimension: AnomalyDimension | null;
+  key: string | null;
+  values: number[];
+}
+
+interface Cell {
+  agent_name: string;
+  model: string;
+  workflow: string | null;
+  values: number[];
+}
+
+function belongsTo(cell: Cell, series: Series): boolean {
+  switch (series.dimension) {
+    case "agent":
+      return cell.agent_name === series.key;
+    case "model":
+      return cell.model === series.key;
+    case "workflow":
+      return cell.workflow === series.key;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Cost spikes in `points`, newest first. Buckets before `since` only serve
+ * as baseline. A spike has to stand out from its own series and be big
+ * enough to matter to the project, so a dormant agent's first few cents
+ * never show up.
+ */
+export function detectAnomalies(
+  points: TimeSeriesBreakdownPoint[],
+  bucket: TimeSeriesBucket,
+  since?: string,
+): Anomaly[] {
+  const timestamps = [...new Set(points.map((p) => p.timestamp))].sort(
+    (a, b) => Date.parse(a) - Date.parse(b),
+  );
+  if (timestamps.length <= MIN_BASELINE) return [];
+  const index = new Map(timestamps.map((t, i) => [t, i]));
+  const empty = () => new Array<number>(timestamps.length).fill(0);
+
+  const series = new Map<string, Series>();
+  const cells = new Map<string, Cell>();
+  const add = (
+    dimension: AnomalyDimension | null,
+    key: string | null,
+    i: number,
+    cost: number,
+  ) => {
+    const id = `${dimension}:${key}`;
+    let s = series.get(id);
+    if (!s) {
+      s = { dimension, key, values: empty() };
+      series.set(id, s);
+    }
+    s.values[i] += cost;
+  };
+  for (const p of points) {
+    const i = index.get(p.timestamp)!;
+    add(null, null, i, p.cost);
+    add("agent", p.agent_name, i, p.cost);
+    add("model", p.model, i, p.cost);
+    if (p.workflow) add("workflow", p.workflow, i, p.cost);
+    const id = [p.agent_name, p.model, p.workflow ?? ""].join("\u0000");
+    let cell = cells.get(id);
+    if (!cell) {
+      cell = {
+        agent_name: p.agent_name,
+        model: p.model,
+        workflow: p.workflow,
+        values: empty(),
+      };
+      cells.set(id, cell);
+    }
+    cell.values[i] += p.cost;
+  }
+
+  const total = series.get("null:null")!.values;
+  const minExcess =
+    (MIN_SHARE_OF_TOTAL * total.reduce((s, v) => s + v, 0)) / total.length;
+  const window = BASELINE_BUCKETS[bucket];
+  const from = since ? Date.parse(since) : -Infinity;
+
+  const anomalies: Anomaly[] = [];
+  for (const s of series.values()) {
+    for (let t = MIN_BASELINE; t < timestamps.length; t++) {
+      if (Date.parse(timestamps[t]) < from) continue;
+      const { median: base, mad } = baselineOf(
+        s.values.slice(Math.max(0, t - window), t),
+      );
+      const cost = s.values[t];
+      const excess = cost - base;
+      if (excess < minExcess) continue;
+      const spread = Math.max(MAD_SCALE * mad, MIN_SPREAD * base);
+      const z = spread > 0 ? excess / spread : Infinity;
+      if (z < Z_THRESHOLD) continue;
+
+      // Which agent × model cell grew the most over its own baseline.
+      let top: Cell | null = null;
+      let topExcess = 0;
+      let grown = 0;
+      for (const cell of cells.values()) {
+        if (!belongsTo(cell, s)) continue;
+        const cellBase = baselineOf(
+          cell.values.slice(Math.max(0, t - window), t),
+        ).median;
+        const cellExcess = cell.values[t] - cellBase;
+        if (cellExcess <= 0) continue;
+        grown += cellExcess;
+        if (cellExcess > topExcess) {
+          top = cell;
+          topExcess = cellExcess;
+        }
+      }
+
+      anomalies.push({
+        id: `${s.dimension ?? "total"}:${s.key ?? ""}:${timestamps[t]}`,
+        timestamp: timestamps[t],
+        dimension: s.dimension,
+        key: s.key,
+        cost,
+        baseline: base,
+        change_percent: base > 0 ? (excess / base) * 100 : null,
+        z_score: z,
+        contributor: top && {
+          agent_name: top.agent_name,
+          model: top.model,
+          workflow: top.workflow,
+          share: topExcess / grown,
+        },
+      });
+    }
+  }
+  return anomalies.sort(
+    (a, b) =>
+      Date.parse(b.timestamp) - Date.parse(a.timestamp) ||
+      b.z_score - a.z_score,
+  );
+}
+
+/**
+ * One line for a spike, e.g. "Cost up 340% at 14:00, 92% from agent
+ * researcher on gpt-4o". The contributor names only what the spiking
+ * series doesn't already.
+ */
+export function describeAnomaly(
+  anomaly: Anomaly,
+  bucket: TimeSeriesBucket,
+): string {
+  const subject = anomaly.dimension
+    ? `${anomaly.dimension} ${anomaly.key} cost`
+    : "cost";
+  const change =
+    anomaly.change_percent == null
+      ? "rose from nothing"
+      : `up ${Math.round(anomaly.change_percent)}%`;
+  const when =
+    bucket === "hour"
+      ? `at ${format(new Date(anomaly.timestamp), "HH:mm")}`
+      : `on ${format(dayBucketDate(anomaly.timestamp), "MMM d")}`;
+  const line = `${subject} ${change} ${when}`;
+  const sentence = line.charAt(0).toUpperCase() + line.slice(1);
+
+  const c = anomaly.contributor;
+  if (!c) return sentence;
+  const parts: string[] = [];
+  if (anomaly.dimension !== "agent") parts.push(`from agent ${c.agent_name}`);
+  if (anomaly.dimension !== "model") parts.push(`on ${c.model}`);
+  if (anomaly.dimension !== "workflow" && c.workflow) {
+    parts.push(`in ${c.workflow}`);
+  }
+  return `${sentence}, ${Math.round(c.share * 100)}% ${parts.join(" ")}`;
+}
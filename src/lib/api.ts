@@ -3,7 +3,20 @@
  */
 
 import { isDemoMode } from "@/lib/demo/demo";
-import { resolveDemoRequest } from "@/lib/demo/demoApi";
+import { resolveDemoRequest, startDemoEventStream } from "@/lib/demo/demoApi";
+import { ApiError, apiErrorFromResponse } from "@/lib/apiError";
+import {
+  eventFilterParams,
+  matchesEventFilters,
+  type EventFilters,
+  type EventFilterOptions,
+} from "@/lib/eventFilters";
+import { timeRangeParams, type TimeRange } from "@/lib/timeRange";
+
+export { ApiError } from "@/lib/apiError";
+export type { ApiValidationIssue } from "@/lib/apiError";
+export type { EventFilters, EventFilterOptions } from "@/lib/eventFilters";
+export type { TimeRange, AbsoluteRange } from "@/lib/timeRange";
 
 const DEFAULT_API_BASE_URL =
   process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000";
@@ -79,6 +92,35 @@ export interface RepeatedWorkFinding {
   first_seen: string | null;
 }
 
+/** Which calls a simulated cache lets answer each other. */
+export type CacheScope = "step" | "workflow" | "global";
+
+/**
+ * One call site (a workflow step, or an agent outside any workflow) in a
+ * replay of the project's events through a simulated cache.
+ */
+export interface CacheSimulationRow {
+  workflow: string | null;
+  step_name: string | null;
+  agent_name: string | null;
+  model: string;
+  calls: number;
+  /** Calls whose exact `input_hash` was seen in the same scope within the TTL. */
+  hits: number;
+  input_tokens: number;
+  cost: number;
+  /** What the hits cost — a response cache would not have made them. */
+  hit_cost: number;
+  /** Summed latency of the hits. */
+  hit_latency_ms: number;
+  /**
+   * Input tokens on the misses that repeat a prompt prefix sent within the
+   * TTL, counting only prefixes at least the provider's minimum cacheable
+   * length. Provider prompt caching bills these at the cached input rate.
+   */
+  cached_prefix_tokens: number;
+}
+
 export interface OutcomeStats {
   workflow: string | null;
   runs: number;
@@ -137,6 +179,19 @@ export interface TraceSummary {
   duration_ms: number | null;
 }
 
+/** One trace with every call it made, in call order. */
+export interface TraceDetail extends TraceSummary {
+  events: Event[];
+}
+
+export type TraceSortKey =
+  | "cost"
+  | "calls"
+  | "duration"
+  | "depth"
+  | "failed"
+  | "recent";
+
 export interface ModelStats {
   model: string;
   total_calls: number;
@@ -148,6 +203,21 @@ export interface ModelStats {
   cost_share?: number;
 }
 
+/**
+ * Calls and tokens for one agent on one model, per workflow step; the step
+ * and workflow are null for calls made outside a traced workflow.
+ */
+export interface UsageMixRow {
+  agent_name: string;
+  workflow: string | null;
+  step_name: string | null;
+  model: string;
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost: number;
+}
+
 export interface TimeSeriesPoint {
   timestamp: string;
   cost: number;
@@ -155,6 +225,16 @@ export interface TimeSeriesPoint {
   tokens: number;
 }
 
+/** One bucket's activity for one agent on one model. */
+export interface TimeSeriesBreakdownPoint extends TimeSeriesPoint {
+  agent_name: string;
+  model: string;
+  /** Null for calls made outside a traced workflow. */
+  workflow: string | null;
+}
+
+export type TimeSeriesBucket = "hour" | "day";
+
 // ── Executive Report ──────────────────────────────────────────────────────
 
 export interface MetricDelta {
@@ -235,15 +315,33 @@ export interface RunRateProjection {
   window_days: number;
 }
 
+/** A scoped budget's standing, in the report currency like its parent. */
+export interface ReportSubBudget {
+  scope: BudgetScope;
+  scope_value: string;
+  budget: number;
+  current_spend: number;
+  projected_spend: number;
+  utilization_percent: number | null;
+  mode: string;
+}
+
 export interface ReportBudgetStatus {
   enabled: boolean;
+  /** For the whole budget period, not the report's window. */
   budget: number | null;
   current_spend: number;
+  /** By the end of the budget period. */
   projected_spend: number;
   utilization_percent: number | null;
   currency: string;
   fx_rate: number;
   mode: string;
+  /** Absent from reports generated before budgets had periods: monthly. */
+  period?: BudgetPeriodType;
+  period_key?: string;
+  /** Absent from reports generated before scoped budgets existed. */
+  sub_budgets?: ReportSubBudget[];
 }
 
 export interface SavingsRollup {
@@ -264,6 +362,8 @@ export interface ExecutiveReport {
   is_custom_range: boolean;
   project_name: string;
   currency: string;
+  /** Prices the report's costs were computed at; missing means list. */
+  pricing_basis?: PricingBasis;
   summary: ReportSummary;
   overview: AnalyticsOverview;
   timeseries: TimeSeriesPoint[];
@@ -301,6 +401,63 @@ export interface Event {
   tool_name?: string | null;
 }
 
+/** List prices from the public pricing catalog, in USD per 1K tokens. */
+export interface ModelPricing {
+  model_name: string;
+  input: number;
+  output: number;
+  provider: string;
+  /** Null when the provider publishes no cached-input rate. */
+  cached_input: number | null;
+  mode: string | null;
+  deprecation_date: string | null;
+}
+
+/** Which prices costs are computed at: the catalog's, or the project's own. */
+export type PricingBasis = "list" | "contract";
+
+/** The SDK or framework implementation snippets are written for. */
+export type SnippetTarget =
+  | "python-openai"
+  | "python-anthropic"
+  | "langchain"
+  | "llamaindex"
+  | "ts-openai"
+  | "ts-vercel-ai";
+
+const SNIPPET_TARGETS: SnippetTarget[] = [
+  "python-openai",
+  "python-anthropic",
+  "langchain",
+  "llamaindex",
+  "ts-openai",
+  "ts-vercel-ai",
+];
+
+/**
+ * A negotiated (or self-hosted) rate that replaces a model's list price over
+ * a range of days. Rates are USD per 1K tokens, like the catalog.
+ */
+export interface PricingOverrideInput {
+  /** As events record it; needn't be in the catalog. */
+  model: string;
+  input: number;
+  output: number;
+  /** Null bills cached input at the `input` rate. */
+  cached_input: number | null;
+  /** First UTC day it applies, "2026-01-01". */
+  effective_from: string;
+  /** Last UTC day it applies; null while open-ended. */
+  effective_to: string | null;
+  /** e.g. "Enterprise agreement" or "Self-hosted, amortised GPU cost". */
+  note: string | null;
+}
+
+export interface PricingOverride extends PricingOverrideInput {
+  id: string;
+  created_at: string;
+}
+
 export interface OptimizationSuggestion {
   type: string;
   title: string;
@@ -388,6 +545,129 @@ export interface Recommendation {
   estimated_savings_percent: number;
   created_at: string;
   expires_at: string;
+  /** Absent from servers that predate the board; read as "new". */
+  status?: RecommendationStatus;
+  assignee?: RecommendationPerson | null;
+  /** When a snoozed recommendation comes back to New. */
+  snoozed_until?: string | null;
+  comment_count?: number;
+  updated_at?: string;
+}
+
+/**
+ * Where a recommendation is in its lifecycle. New, Investigating and In
+ * progress are open; the rest are closed, a snoozed one until its date.
+ */
+export type RecommendationStatus =
+  | "new"
+  | "investigating"
+  | "in_progress"
+  | "implemented"
+  | "dismissed"
+  | "snoozed";
+
+/** A project member as recommendations refer to them. */
+export interface RecommendationPerson {
+  user_id: string;
+  name: string | null;
+  email: string;
+}
+
+/** One entry in a recommendation's audit history. */
+export interface RecommendationActivity {
+  id: string;
+  at: string;
+  /** Null for the engine: creating it, or waking it when a snooze ends. */
+  actor: RecommendationPerson | null;
+  kind: "created" | "status" | "assigned" | "comment";
+  from_status?: RecommendationStatus | null;
+  to_status?: RecommendationStatus | null;
+  /** For "assigned": who it went to, null when it was unassigned. */
+  assignee?: RecommendationPerson | null;
+  snoozed_until?: string | null;
+  /** The comment, or the feedback given on dismissal. */
+  text?: string | null;
+}
+
+/**
+ * A move on the board. Implementing and dismissing keep their own endpoints,
+ * which record what the effectiveness tracking and the engine learn from.
+ */
+export interface RecommendationUpdate {
+  status?: Exclude<RecommendationStatus, "implemented" | "dismissed">;
+  assignee_user_id?: string | null;
+  /** Required with status "snoozed". */
+  snoozed_until?: string | null;
+}
+
+/** One day of the scope an implemented recommendation changed. */
+export interface RecommendationOutcomePoint {
+  /** UTC day, "2026-10-19". */
+  date: string;
+  cost: number;
+  /**
+   * What the day would have cost without the change: that day's traffic at
+   * the pre-change cost per call. Null before the implementation date.
+   */
+  baseline_cost: number | null;
+}
+
+export interface RecommendationOutcome {
+  recommendation_id: string;
+  type: string;
+  title: string;
+  agent_name?: string | null;
+  model?: string | null;
+  alternative_model?: string | null;
+  implemented_at: string;
+  estimated_monthly_savings: number;
+  /** Measured savings scaled to 30 days; null until a week of data is in. */
+  actual_monthly_savings: number | null;
+  /** 100 less the miss as a percent of the estimate, floored at 0. */
+  accuracy: number | null;
+  /** From two weeks before implementation to today. */
+  daily: RecommendationOutcomePoint[];
+}
+
+export interface RecommendationTypeAccuracy {
+  type: string;
+  implemented: number;
+  /** Counted over recommendations measured long enough to have actuals. */
+  measured: number;
+  estimated_savings: number;
+  actual_savings: number;
+  accuracy: number | null;
+}
+
+export interface RecommendationEffectiveness {
+  total_recommendations: number;
+  implemented: number;
+  dismissed: number;
+  pending: number;
+  expired: number;
+  implementation_rate: number;
+  total_estimated_savings: number;
+  total_actual_savings: number;
+  savings_accuracy: number;
+  by_type?: RecommendationTypeAccuracy[];
+  /** Implemented recommendations, newest first. */
+  recommendations?: RecommendationOutcome[];
+}
+
+/** A recommendation written by hand rather than by the engine. */
+export interface RecommendationDraft {
+  type: string;
+  title: string;
+  description: string;
+  agent_name?: string | null;
+  workflow?: string | null;
+  step_name?: string | null;
+  model?: string | null;
+  alternative_model?: string | null;
+  estimated_monthly_savings: number;
+  estimated_savings_percent: number;
+  action_items: string[];
+  source: "simulator";
 }
 
 export interface ProjectInfo {
@@ -401,10 +681,59 @@ export interface ProjectInfo {
   monthly_budget_usd?: number | null;
   budget_enforcement_mode?: "off" | "warn" | "hard_cap";
   budget_alert_thresholds?: number[] | null;
+  /**
+   * The currency every member sees amounts, and exports reports, in. Missing
+   * from older backends; read as USD.
+   */
+  display_currency?: CurrencyCode | null;
 }
 
 export type BudgetCurrency = "USD" | "INR";
 
+/** Currencies amounts can be shown in; they all arrive in USD. */
+export type CurrencyCode = BudgetCurrency | "EUR" | "GBP" | "JPY" | "CAD" | "AUD";
+
+export interface FxRate {
+  base: "USD";
+  target: string;
+  rate: number;
+  source: string;
+  /** Day the rate was published; missing from older backends. */
+  as_of?: string;
+}
+
+/** Quarters and years run from the project's fiscal-year start month. */
+export type BudgetPeriodType = "monthly" | "quarterly" | "annual";
+
+export type BudgetScope = "agent" | "workflow" | "model";
+
+/**
+ * A budget for one agent, workflow or model inside the project, with its
+ * own thresholds and enforcement. A hard cap only rejects that scope's
+ * events; the rest of the project keeps running. It runs over the
+ * project's budget period.
+ */
+export interface SubBudgetInput {
+  /** Left out for a sub-budget that hasn't been saved yet. */
+  id?: string;
+  scope: BudgetScope;
+  scope_value: string;
+  /** In the project's budget currency. */
+  amount: number;
+  enforcement_mode: "warn" | "hard_cap";
+  alert_thresholds: number[];
+}
+
+export interface SubBudget extends SubBudgetInput {
+  id: string;
+  current_month_spend_usd: number;
+  utilization_percent: number | null;
+}
+
+/**
+ * The `monthly_*` and `current_month_*` names predate budget periods: they
+ * hold the budget and spend of whichever period is configured.
+ */
 export interface ProjectBudgetSettings {
   project_id: string;
   monthly_budget_usd: number | null;
@@ -413,9 +742,16 @@ export interface ProjectBudgetSettings {
   current_month_spend: number;
   current_month_spend_usd: number;
   utilization_percent: number | null;
+  /** "2026-10", "FY2027-Q3", "FY2027"; see budgetPeriodKey. */
   period_key: string;
+  /** Missing when the backend predates budget periods: monthly. */
+  budget_period?: BudgetPeriodType;
+  /** 1–12; January when missing. */
+  fiscal_year_start_month?: number;
   budget_currency: BudgetCurrency;
   fx_rate: number;
+  /** Missing when the backend predates scoped budgets. */
+  sub_budgets?: SubBudget[];
 }
 
 export interface ProjectListItem {
@@ -449,6 +785,69 @@ export interface PendingInvitation {
   invited_at: string;
 }
 
+/** A named page + query string, shared by everyone on the project. */
+export interface SavedView {
+  id: string;
+  name: string;
+  /** Route, e.g. "/events". */
+  path: string;
+  /** Query string without the leading "?". */
+  query: string;
+  created_at: string;
+  created_by: { name: string | null; email: string } | null;
+}
+
+export type AlertMetric =
+  | "cost"
+  | "calls"
+  | "error_rate"
+  | "p95_latency_ms"
+  | "cost_per_run"
+  | "repeated_work_waste";
+
+export type AlertScope = "project" | "agent" | "model" | "workflow" | "step";
+
+export type AlertComparator = "gt" | "gte" | "lt" | "lte";
+
+/** What an alert rule watches and when it fires; the editable part. */
+export interface AlertRuleInput {
+  name: string;
+  metric: AlertMetric;
+  scope: AlertScope;
+  /** Agent, model, workflow or step name; null for the project scope. */
+  scope_value: string | null;
+  comparator: AlertComparator;
+  threshold: number;
+  /** The metric is aggregated over this trailing window. */
+  window_minutes: number;
+  /** Quiet time after a firing before the rule can fire again. */
+  cooldown_minutes: number;
+  severity: NotificationSeverity;
+  enabled: boolean;
+}
+
+export interface AlertRule extends AlertRuleInput {
+  id: string;
+  created_at: string;
+  last_fired_at: string | null;
+}
+
+export interface AlertFiring {
+  /** End of the window that crossed the threshold. */
+  timestamp: string;
+  value: number;
+}
+
+/** When a rule would have fired over a past stretch of data. */
+export interface AlertPreview {
+  start: string;
+  end: string;
+  /** Windows evaluated, firing or not. */
+  evaluations: number;
+  /** Oldest first, cooldown applied. */
+  firings: AlertFiring[];
+}
+
 export type FeedbackType =
   | "feature_request"
   | "bug_report"
@@ -589,6 +988,8 @@ type RawStoredConfig = {
   baseUrl?: string;
   autoRefresh?: boolean;
   refreshInterval?: number;
+  pricingBasis?: PricingBasis;
+  snippetTarget?: SnippetTarget;
 };
 
 function readRawConfig(): RawStoredConfig {
@@ -656,6 +1057,45 @@ export function storeProjectApiKey(
   writeRawConfig(cfg);
 }
 
+/** The prices this browser shows costs at. */
+export function getPricingBasis(): PricingBasis {
+  return readRawConfig().pricingBasis === "contract" ? "contract" : "list";
+}
+
+export function setPricingBasis(basis: PricingBasis): void {
+  writeRawConfig({ ...readRawConfig(), pricingBasis: basis });
+}
+
+/**
+ * Call `listener` when the pricing basis changes, in this tab or another.
+ * Other preference writes don't trigger it. Returns the unsubscribe.
+ */
+export function onPricingBasisChange(listener: () => void): () => void {
+  let basis = getPricingBasis();
+  const check = () => {
+    const next = getPricingBasis();
+    if (next === basis) return;
+    basis = next;
+    listener();
+  };
+  window.addEventListener("agentcost_config_updated", check);
+  window.addEventListener("storage", check);
+  return () => {
+    window.removeEventListener("agentcost_config_updated", check);
+    window.removeEventListener("storage", check);
+  };
+}
+
+/** The stack this browser's implementation snippets are written for. */
+export function getSnippetTarget(): SnippetTarget {
+  const saved = readRawConfig().snippetTarget;
+  return saved && SNIPPET_TARGETS.includes(saved) ? saved : "python-openai";
+}
+
+export function setSnippetTarget(target: SnippetTarget): void {
+  writeRawConfig({ ...readRawConfig(), snippetTarget: target });
+}
+
 /** Drop a single project's key (e.g. after the project is deleted). */
 export function removeStoredProjectApiKey(projectId: string): void {
   const cfg = readRawConfig();
@@ -688,6 +1128,8 @@ export function reconcileStoredConfigOwner(userId: string): void {
     writeRawConfig({
       autoRefresh: cfg.autoRefresh,
       refreshInterval: cfg.refreshInterval,
+      pricingBasis: cfg.pricingBasis,
+      snippetTarget: cfg.snippetTarget,
       baseUrl: cfg.baseUrl,
       ownerUserId: userId,
     });
@@ -755,7 +1197,232 @@ function getStoredConfig(): {
   };
 }
 
+// ── Response cache ─────────────────────────────────────────────────────────
+// Pages fetch on mount and on every time-range change, so moving between
+// Overview, Agents and Models used to re-download identical analytics
+// payloads. GET responses are kept in memory per project: fresh entries are
+// served as-is, stale ones are served immediately and refetched behind the
+// scenes, and anything older is fetched again before returning.
+const CACHE_FRESH_MS = 30_000;
+const CACHE_STALE_MS = 5 * 60_000;
+
+/** Reads that must always reflect the server right now. */
+const UNCACHED_PREFIXES = ["/v1/health", "/v1/auth/", "/v1/notifications"];
+
+/** Endpoints whose costs the backend reprices with `pricing=contract`. */
+const PRICED_PREFIXES = ["/v1/analytics", "/v1/events", "/v1/optimizations"];
+
+/**
+ * Ask for contract prices when that's the chosen basis. Budgets aren't
+ * repriced: caps and thresholds act on what the backend actually bills.
+ */
+function withPricingBasis(endpoint: string): string {
+  if (getPricingBasis() !== "contract") return endpoint;
+  if (!PRICED_PREFIXES.some((prefix) => endpoint.startsWith(prefix))) {
+    return endpoint;
+  }
+  const separator = endpoint.includes("?") ? "&" : "?";
+  return `${endpoint}${separator}pricing=contract`;
+}
+
+/**
+ * Writes whose effect reaches beyond their own resource, or that change
+ * nothing another read returns.
+ */
+const WRITE_INVALIDATIONS: { match: RegExp; clears: string[] }[] = [
+  // Both compute from stored data and save nothing.
+  { match: /^\/v1\/optimizations\/recommendations\/generate$/, clears: [] },
+  { match: /^\/v1\/projects\/[^/]+\/alerts\/preview$/, clears: [] },
+  // The report compares spend against the budget.
+  {
+    match: /^\/v1\/projects\/[^/]+\/budget$/,
+    clears: ["/v1/projects", "/v1/analytics/report"],
+  },
+  // Contract prices change every cost the backend reprices.
+  {
+    match: /^\/v1\/projects\/[^/]+\/pricing-overrides/,
+    clears: ["/v1/projects", ...PRICED_PREFIXES],
+  },
+];
+
+/**
+ * Cached reads a write may have changed: those of the resource it went to,
+ * e.g. `/v1/feedback` for a new comment, unless WRITE_INVALIDATIONS says
+ * otherwise.
+ */
+function invalidatedBy(endpoint: string): string[] {
+  const path = endpoint.split("?")[0];
+  const rule = WRITE_INVALIDATIONS.find(({ match }) => match.test(path));
+  return rule ? rule.clears : [path.split("/").slice(0, 3).join("/")];
+}
+
+interface CacheEntry {
+  data: unknown;
+  fetchedAt: number;
+}
+
+/**
+ * A GET several callers are waiting on. It runs on its own controller so one
+ * caller giving up does not cancel it for the others; it is aborted only
+ * once every waiter has.
+ */
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+function abortError(): DOMException {
+  return new DOMException("The request was aborted.", "AbortError");
+}
+
+/**
+ * True for the rejection of a request whose signal fired. Callers that abort
+ * superseded fetches use this to tell "replaced" apart from "failed".
+ */
+export function isAbortError(err: unknown): boolean {
+  return (
+    typeof err === "object" &&
+    err !== null &&
+    (err as { name?: unknown }).name === "AbortError"
+  );
+}
+
+// ── Retries ────────────────────────────────────────────────────────────────
+// The backend host cold-starts, and the first requests after a sleep come
+// back 502/503 while it boots. GETs are safe to repeat, so they are retried
+// with exponential backoff and full jitter (a random wait up to the backoff
+// cap, so a page's parallel requests don't all return at once). Writes are
+// never retried: a timed-out POST may well have happened.
+
+export interface RetryPolicy {
+  /** Extra attempts after the first. 0 turns retrying off. */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+};
+
+/**
+ * A Retry-After longer than this is the server saying "not any time soon";
+ * waiting it out would just leave the page spinning, so the 429 surfaces.
+ */
+const MAX_RETRY_AFTER_S = 30;
+
+/**
+ * Fired on window with `{ pending }` whenever the number of requests waiting
+ * to retry changes.
+ */
+export const API_RECONNECTING_EVENT = "agentcost_api_reconnecting";
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// ── Live event stream ──────────────────────────────────────────────────────
+// /v1/events/stream is server-sent events: each default message carries one
+// Event as JSON, and comment lines keep the connection alive. It is read
+// with fetch rather than EventSource because EventSource cannot send the
+// Authorization header. Dropped connections are reopened with the GET
+// backoff, resuming from the last event id the server sent.
+
+export type EventStreamStatus =
+  | "connecting"
+  | "live"
+  | "reconnecting"
+  | "closed";
+
+export interface EventStreamHandlers {
+  onEvent: (event: Event) => void;
+  onStatus?: (status: EventStreamStatus) => void;
+  /** The stream gave up: the server refused it in a way a retry won't fix. */
+  onError?: (error: ApiError) => void;
+}
+
+interface ServerSentMessage {
+  event: string;
+  data: string;
+  id: string | null;
+  retry: number | null;
+}
+
+/**
+ * Parse the complete messages at the front of an SSE buffer, returning the
+ * unfinished tail to prepend to the next chunk.
+ */
+function parseServerSentEvents(
+  buffer: string,
+  onMessage: (message: ServerSentMessage) => void,
+): string {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() ?? "";
+  for (const block of blocks) {
+    const message: ServerSentMessage = {
+      event: "message",
+      data: "",
+      id: null,
+      retry: null,
+    };
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (!line || line.startsWith(":")) continue;
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? "" : line.slice(colon + 1);
+      if (value.startsWith(" ")) value = value.slice(1);
+      if (field === "event") message.event = value;
+      else if (field === "data") data.push(value);
+      else if (field === "id") message.id = value;
+      else if (field === "retry" && /^\d+$/.test(value)) {
+        message.retry = Number(value);
+      }
+    }
+    if (data.length === 0 && message.id == null && message.retry == null) {
+      continue;
+    }
+    message.data = data.join("\n");
+    onMessage(message);
+  }
+  return rest;
+}
+
 class ApiClient {
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+  private retrying = 0;
+  private cache = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, InFlightRequest>();
+  /** Bumped on every clear, so a response that started before it is dropped. */
+  private cacheGeneration = 0;
+
+  constructor() {
+    if (typeof window !== "undefined") {
+      // Keys are per project, but a switch or a key rotation can change what
+      // the same URL returns — drop everything rather than reason about it.
+      window.addEventListener("agentcost_active_project_changed", () =>
+        this.clearCache(),
+      );
+      window.addEventListener("agentcost_config_updated", () =>
+        this.clearCache(),
+      );
+    }
+  }
+
   private getConfig() {
     return getStoredConfig();
   }
@@ -776,6 +1443,7 @@ class ApiClient {
     endpoint: string,
   ): "project" | "jwt" | "none" {
     if (endpoint.includes("/health")) return "none";
+    if (endpoint.startsWith("/v1/pricing")) return "none";
     if (endpoint.includes("/auth/")) return "jwt";
     if (endpoint.startsWith("/v1/feedback")) return "jwt";
     if (endpoint.startsWith("/v1/attachments")) return "jwt";
@@ -791,6 +1459,8 @@ class ApiClient {
       endpoint.includes("/invitations") ||
       endpoint.includes("/leave") ||
       endpoint.includes("/budget") ||
+      endpoint.includes("/alerts") ||
+      endpoint.includes("/pricing-overrides") ||
       endpoint.includes("/api-key/rotate")
     ) {
       return "jwt";
@@ -863,43 +1533,260 @@ class ApiClient {
     return false;
   }
 
-  private async request<T>(
+  private cacheKey(endpoint: string): string {
+    const scope =
+      typeof window !== "undefined" && isDemoMode()
+        ? "demo"
+        : (this.getConfig().activeProjectId ?? "");
+    return `${scope} ${endpoint}`;
+  }
+
+  /** Fetch once per key at a time; concurrent callers share the request. */
+  private revalidate(
+    key: string,
     endpoint: string,
+    options: RequestInit,
+    authOverride?: "api_key" | "jwt" | "none" | "project",
+  ): InFlightRequest {
+    const pending = this.inFlight.get(key);
+    if (pending && !pending.controller.signal.aborted) return pending;
+
+    const generation = this.cacheGeneration;
+    const controller = new AbortController();
+    const flight: InFlightRequest = {
+      controller,
+      waiters: 0,
+      promise: this.sendWithRetry(
+        endpoint,
+        { ...options, signal: controller.signal },
+        authOverride,
+      )
+        .then((data) => {
+          // A clear while this was in flight — everything, or just this
+          // key's prefix — means the response may predate what it forgot.
+          if (
+            generation === this.cacheGeneration &&
+            this.inFlight.get(key) === flight
+          ) {
+            this.pruneCache();
+            this.cache.set(key, { data, fetchedAt: Date.now() });
+          }
+          return data;
+        })
+        .finally(() => {
+          if (this.inFlight.get(key) === flight) this.inFlight.delete(key);
+        }),
+    };
+    this.inFlight.set(key, flight);
+    return flight;
+  }
+
+  /** Drop entries too old to serve, so keys for past ranges don't pile up. */
+  private pruneCache(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.cache) {
+      if (now - entry.fetchedAt >= CACHE_STALE_MS) this.cache.delete(key);
+    }
+  }
+
+  /** Wait on a shared request, leaving it early if `signal` fires. */
+  private join<T>(
+    flight: InFlightRequest,
+    signal?: AbortSignal | null,
+  ): Promise<T> {
+    flight.waiters++;
+    if (!signal) return flight.promise as Promise<T>;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        flight.waiters--;
+        if (flight.waiters === 0) flight.controller.abort();
+        reject(abortError());
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+      flight.promise.then(
+        (data) => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(data as T);
+        },
+        (err) => {
+          signal.removeEventListener("abort", onAbort);
+          reject(err);
+        },
+      );
+    });
+  }
+
+  private async request<T>(
+    path: string,
     options: RequestInit = {},
     authOverride?: "api_key" | "jwt" | "none" | "project",
-    retryOnUnauthorized = true,
   ): Promise<T> {
-    // Demo mode: serve everything from the client-side demo dataset. No
-    // network, no auth — the demo works even if the backend is down.
-    if (typeof window !== "undefined" && isDemoMode()) {
-      return resolveDemoRequest<T>(endpoint, options);
+    const endpoint = withPricingBasis(path);
+    const method = (options.method ?? "GET").toUpperCase();
+
+    if (method !== "GET") {
+      const result = await this.send<T>(endpoint, options, authOverride);
+      for (const prefix of invalidatedBy(endpoint)) this.clearCache(prefix);
+      return result;
     }
 
-    const { apiKey, baseUrl, authToken, activeProjectId } = this.getConfig();
-    const authType = authOverride ?? this.getAuthType(endpoint);
+    if (UNCACHED_PREFIXES.some((prefix) => endpoint.startsWith(prefix))) {
+      return this.sendWithRetry<T>(endpoint, options, authOverride);
+    }
 
-    // Resolve the effective auth path for "project" mode:
-    //   - apiKey present  -> use the API key (back-compat / SDK / solo users)
-    //   - no apiKey + JWT -> JWT path; we'll inject ?project_id= below
-    const effectiveAuth: "api_key" | "jwt" | "none" =
-      authType === "project"
-        ? apiKey
-          ? "api_key"
-          : "jwt"
-        : (authType as "api_key" | "jwt" | "none");
+    const { signal, ...shared } = options;
+    if (signal?.aborted) throw abortError();
 
-    let resolvedEndpoint = endpoint;
-    if (authType === "project" && effectiveAuth === "jwt") {
-      if (!activeProjectId) {
-        throw new Error(
-          "API Error: 400 Bad Request - No active project selected. Open Settings to pick or create a project.",
-        );
-      }
-      if (!authToken) {
-        throw new Error(
-          "API Error: 401 Unauthorized - Not signed in.",
-        );
-      }
+    const key = this.cacheKey(endpoint);
+    const entry = this.cache.get(key);
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+    if (entry && age < CACHE_FRESH_MS) {
+      return entry.data as T;
+    }
+    if (entry && age < CACHE_STALE_MS) {
+      // Serve what we have; a failed background refresh keeps it. The
+      // refresh waits on nobody's signal, so it always runs to completion.
+      this.join(this.revalidate(key, endpoint, shared, authOverride)).catch(
+        () => {},
+      );
+      return entry.data as T;
+    }
+    if (entry) this.cache.delete(key);
+    return this.join<T>(
+      this.revalidate(key, endpoint, shared, authOverride),
+      signal,
+    );
+  }
+
+  /**
+   * Forget cached reads — all of them, or those whose endpoint starts with
+   * `prefix`. Manual refresh buttons call this so they really refetch, and
+   * writes call it for the resources they change.
+   * Requests already in flight for a forgotten key still answer their
+   * callers, but no longer write into the cache.
+   */
+  clearCache(prefix?: string): void {
+    if (!prefix) {
+      this.cacheGeneration++;
+      this.cache.clear();
+      this.inFlight.clear();
+      return;
+    }
+    for (const key of [...this.cache.keys(), ...this.inFlight.keys()]) {
+      if (key.slice(key.indexOf(" ") + 1).startsWith(prefix)) {
+        this.cache.delete(key);
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  /** Change how GETs retry, e.g. `{ retries: 0 }` to fail fast. */
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  /** Requests currently waiting to retry — non-zero means "reconnecting". */
+  getPendingRetries(): number {
+    return this.retrying;
+  }
+
+  private setRetrying(delta: number): void {
+    this.retrying += delta;
+    if (typeof window !== "undefined") {
+      window.dispatchEvent(
+        new CustomEvent(API_RECONNECTING_EVENT, {
+          detail: { pending: this.retrying },
+        }),
+      );
+    }
+  }
+
+  /** How long to wait before attempt `attempt + 1`, or null to give up. */
+  private retryDelay(err: unknown, attempt: number): number | null {
+    const { retries, baseDelayMs, maxDelayMs } = this.retryPolicy;
+    if (!(err instanceof ApiError) || !err.retryable || attempt >= retries) {
+      return null;
+    }
+    if (err.status === 429 && err.retryAfter != null) {
+      return err.retryAfter <= MAX_RETRY_AFTER_S ? err.retryAfter * 1000 : null;
+    }
+    const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.random() * cap;
+  }
+
+  /** `send` for GETs: transient failures are retried per the retry policy. */
+  private async sendWithRetry<T>(
+    endpoint: string,
+    options: RequestInit,
+    authOverride?: "api_key" | "jwt" | "none" | "project",
+  ): Promise<T> {
+    let counted = false;
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await this.send<T>(endpoint, options, authOverride);
+        } catch (err) {
+          const delay = this.retryDelay(err, attempt);
+          if (delay == null) throw err;
+          if (!counted) {
+            counted = true;
+            this.setRetrying(1);
+          }
+          await sleep(delay, options.signal);
+        }
+      }
+    } finally {
+      if (counted) this.setRetrying(-1);
+    }
+  }
+
+  /**
+   * Resolve the URL and Authorization header for an endpoint, injecting
+   * ``project_id`` when a project read falls through to the JWT path.
+   */
+  private authorize(
+    endpoint: string,
+    authOverride?: "api_key" | "jwt" | "none" | "project",
+  ): {
+    url: string;
+    authHeader: string;
+    effectiveAuth: "api_key" | "jwt" | "none";
+  } {
+    const { apiKey, baseUrl, authToken, activeProjectId } = this.getConfig();
+    const authType = authOverride ?? this.getAuthType(endpoint);
+
+    // Resolve the effective auth path for "project" mode:
+    //   - apiKey present  -> use the API key (back-compat / SDK / solo users)
+    //   - no apiKey + JWT -> JWT path; we'll inject ?project_id= below
+    const effectiveAuth: "api_key" | "jwt" | "none" =
+      authType === "project"
+        ? apiKey
+          ? "api_key"
+          : "jwt"
+        : (authType as "api_key" | "jwt" | "none");
+
+    let resolvedEndpoint = endpoint;
+    if (authType === "project" && effectiveAuth === "jwt") {
+      if (!activeProjectId) {
+        throw new ApiError({
+          status: 400,
+          statusText: "Bad Request",
+          endpoint,
+          code: "no_active_project",
+          detail:
+            "No active project selected. Open Settings to pick or create a project.",
+        });
+      }
+      if (!authToken) {
+        throw new ApiError({
+          status: 401,
+          statusText: "Unauthorized",
+          endpoint,
+          code: "not_signed_in",
+          detail: "Not signed in.",
+        });
+      }
       const separator = resolvedEndpoint.includes("?") ? "&" : "?";
       // Don't overwrite a project_id already in the URL.
       if (!/[?&]project_id=/.test(resolvedEndpoint)) {
@@ -915,14 +1802,50 @@ class ApiClient {
       authHeader = `Bearer ${authToken}`;
     }
 
-    const response = await fetch(`${baseUrl}${resolvedEndpoint}`, {
-      ...options,
-      headers: {
-        "Content-Type": "application/json",
-        ...(authHeader && { Authorization: authHeader }),
-        ...options.headers,
-      },
-    });
+    return { url: `${baseUrl}${resolvedEndpoint}`, authHeader, effectiveAuth };
+  }
+
+  private async send<T>(
+    endpoint: string,
+    options: RequestInit = {},
+    authOverride?: "api_key" | "jwt" | "none" | "project",
+    retryOnUnauthorized = true,
+  ): Promise<T> {
+    // Demo mode: serve everything from the client-side demo dataset. No
+    // network, no auth — the demo works even if the backend is down.
+    if (typeof window !== "undefined" && isDemoMode()) {
+      const data = await resolveDemoRequest<T>(endpoint, options);
+      // The demo answers after a short fake latency; honour an abort that
+      // landed during it, as fetch would.
+      if (options.signal?.aborted) throw abortError();
+      return data;
+    }
+
+    const { url, authHeader, effectiveAuth } = this.authorize(
+      endpoint,
+      authOverride,
+    );
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...options,
+        headers: {
+          "Content-Type": "application/json",
+          ...(authHeader && { Authorization: authHeader }),
+          ...options.headers,
+        },
+      });
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      // fetch only rejects when no response came back: offline, DNS, CORS,
+      // or the backend not listening.
+      throw new ApiError({
+        status: 0,
+        endpoint,
+        detail: "Could not reach the AgentCost backend.",
+      });
+    }
 
     // Handle 401 with token refresh for JWT auth (covers both pure JWT and
     // "project" mode that fell through to JWT).
@@ -933,15 +1856,12 @@ class ApiClient {
     ) {
       const refreshed = await this.tryRefreshToken();
       if (refreshed) {
-        return this.request<T>(endpoint, options, authOverride, false);
+        return this.send<T>(endpoint, options, authOverride, false);
       }
     }
 
     if (!response.ok) {
-      const errorText = await response.text().catch(() => "");
-      throw new Error(
-        `API Error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ""}`,
-      );
+      throw await apiErrorFromResponse(response, endpoint);
     }
 
     if (response.status === 204) {
@@ -951,23 +1871,170 @@ class ApiClient {
     return response.json();
   }
 
-  async getHealth(): Promise<{
+  /** Open the SSE response, refreshing an expired JWT once like `send`. */
+  private async openEventStream(
+    endpoint: string,
+    lastEventId: string | null,
+    signal: AbortSignal,
+    retryOnUnauthorized = true,
+  ): Promise<ReadableStream<Uint8Array>> {
+    const { url, authHeader, effectiveAuth } = this.authorize(endpoint);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        signal,
+        cache: "no-store",
+        headers: {
+          Accept: "text/event-stream",
+          ...(authHeader && { Authorization: authHeader }),
+          ...(lastEventId && { "Last-Event-ID": lastEventId }),
+        },
+      });
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      throw new ApiError({
+        status: 0,
+        endpoint,
+        detail: "Could not reach the AgentCost backend.",
+      });
+    }
+
+    if (
+      response.status === 401 &&
+      effectiveAuth === "jwt" &&
+      retryOnUnauthorized
+    ) {
+      const refreshed = await this.tryRefreshToken();
+      if (refreshed) {
+        return this.openEventStream(endpoint, lastEventId, signal, false);
+      }
+    }
+
+    if (!response.ok) {
+      throw await apiErrorFromResponse(response, endpoint);
+    }
+    if (!response.body) {
+      throw new ApiError({
+        status: 0,
+        endpoint,
+        detail: "The event stream returned no body.",
+      });
+    }
+    return response.body;
+  }
+
+  /** Keep the stream open until `signal` fires, reconnecting as needed. */
+  private async runEventStream(
+    endpoint: string,
+    handlers: EventStreamHandlers,
+    signal: AbortSignal,
+  ): Promise<void> {
+    let lastEventId: string | null = null;
+    let serverRetryMs: number | null = null;
+    let attempt = 0;
+
+    while (!signal.aborted) {
+      handlers.onStatus?.(attempt === 0 ? "connecting" : "reconnecting");
+      try {
+        const body = await this.openEventStream(endpoint, lastEventId, signal);
+        handlers.onStatus?.("live");
+        attempt = 0;
+
+        const reader = body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        try {
+          for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            buffer = parseServerSentEvents(buffer, (message) => {
+              if (message.id != null) lastEventId = message.id;
+              if (message.retry != null) serverRetryMs = message.retry;
+              if (message.event !== "message" || !message.data) return;
+              try {
+                handlers.onEvent(JSON.parse(message.data) as Event);
+              } catch {
+                // A malformed message is skipped, not worth a reconnect.
+              }
+            });
+          }
+        } finally {
+          reader.releaseLock();
+        }
+        // The server closed the stream (a deploy, an idle timeout): reopen.
+      } catch (err) {
+        if (signal.aborted || isAbortError(err)) break;
+        if (err instanceof ApiError && !err.retryable) {
+          handlers.onError?.(err);
+          break;
+        }
+      }
+
+      const { baseDelayMs, maxDelayMs } = this.retryPolicy;
+      const delay =
+        serverRetryMs ??
+        Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      attempt++;
+      try {
+        await sleep(delay, signal);
+      } catch {
+        break;
+      }
+    }
+    handlers.onStatus?.("closed");
+  }
+
+  async getHealth(signal?: AbortSignal): Promise<{
     status: string;
     version: string;
     timestamp: string;
   }> {
-    return this.request("/v1/health");
+    return this.request("/v1/health", { signal });
   }
 
-  async getOverview(range: string = "7d"): Promise<AnalyticsOverview> {
-    return this.request(`/v1/analytics/overview?range=${range}`);
+  async getOverview(
+    range: TimeRange = "7d",
+    signal?: AbortSignal,
+  ): Promise<AnalyticsOverview> {
+    return this.request(
+      `/v1/analytics/overview?${timeRangeParams(range).toString()}`,
+      { signal },
+    );
   }
 
   async getAgentStats(
-    range: string = "7d",
+    range: TimeRange = "7d",
     limit: number = 10,
+    signal?: AbortSignal,
   ): Promise<AgentStats[]> {
-    return this.request(`/v1/analytics/agents?range=${range}&limit=${limit}`);
+    return this.request(
+      `/v1/analytics/agents?${timeRangeParams(range).toString()}&limit=${limit}`,
+      { signal },
+    );
+  }
+
+  /**
+   * One agent's stats, for a deep link to an agent outside the loaded list.
+   * Null when it made no calls in the window.
+   */
+  async getAgentStat(
+    range: TimeRange,
+    agentName: string,
+    signal?: AbortSignal,
+  ): Promise<AgentStats | null> {
+    const params = timeRangeParams(
+      range,
+      new URLSearchParams({ agent_name: agentName, limit: "1" }),
+    );
+    const data = await this.request<AgentStats[]>(
+      `/v1/analytics/agents?${params.toString()}`,
+      { signal },
+    );
+    return Array.isArray(data)
+      ? (data.find((a) => a.agent_name === agentName) ?? null)
+      : null;
   }
 
   // ── Trace analytics ──────────────────────────────────────────────────
@@ -975,65 +2042,106 @@ class ApiClient {
   // coerced: an object would otherwise reach .map() in the page and throw.
 
   async getWorkflowStats(
-    range: string = "7d",
+    range: TimeRange = "7d",
     limit: number = 20,
+    signal?: AbortSignal,
   ): Promise<WorkflowStats[]> {
     const data = await this.request<WorkflowStats[]>(
-      `/v1/analytics/workflows?range=${range}&limit=${limit}`,
+      `/v1/analytics/workflows?${timeRangeParams(range).toString()}&limit=${limit}`,
+      { signal },
     );
     return Array.isArray(data) ? data : [];
   }
 
   async getStepStats(
-    range: string = "7d",
+    range: TimeRange = "7d",
     workflow?: string,
     limit: number = 50,
+    signal?: AbortSignal,
   ): Promise<StepStats[]> {
     const scope = workflow ? `&workflow=${encodeURIComponent(workflow)}` : "";
     const data = await this.request<StepStats[]>(
-      `/v1/analytics/workflows/steps?range=${range}&limit=${limit}${scope}`,
+      `/v1/analytics/workflows/steps?${timeRangeParams(range).toString()}&limit=${limit}${scope}`,
+      { signal },
+    );
+    return Array.isArray(data) ? data : [];
+  }
+
+  /** Token mix by agent, workflow step and model, for repricing. */
+  async getUsageMix(
+    range: TimeRange = "30d",
+    signal?: AbortSignal,
+  ): Promise<UsageMixRow[]> {
+    const data = await this.request<UsageMixRow[]>(
+      `/v1/analytics/usage-mix?${timeRangeParams(range).toString()}`,
+      { signal },
     );
     return Array.isArray(data) ? data : [];
   }
 
   async getToolStats(
-    range: string = "7d",
+    range: TimeRange = "7d",
     limit: number = 50,
+    signal?: AbortSignal,
   ): Promise<ToolStats[]> {
     const data = await this.request<ToolStats[]>(
-      `/v1/analytics/workflows/tools?range=${range}&limit=${limit}`,
+      `/v1/analytics/workflows/tools?${timeRangeParams(range).toString()}&limit=${limit}`,
+      { signal },
     );
     return Array.isArray(data) ? data : [];
   }
 
   async getRepeatedWork(
-    range: string = "7d",
+    range: TimeRange = "7d",
     limit: number = 25,
+    signal?: AbortSignal,
   ): Promise<RepeatedWorkFinding[]> {
     const data = await this.request<RepeatedWorkFinding[]>(
-      `/v1/analytics/workflows/repeated-work?range=${range}&limit=${limit}`,
+      `/v1/analytics/workflows/repeated-work?${timeRangeParams(range).toString()}&limit=${limit}`,
+      { signal },
+    );
+    return Array.isArray(data) ? data : [];
+  }
+
+  async getCacheSimulation(
+    range: TimeRange = "7d",
+    scope: CacheScope = "step",
+    ttlSeconds: number = 3600,
+    signal?: AbortSignal,
+  ): Promise<CacheSimulationRow[]> {
+    const params = timeRangeParams(
+      range,
+      new URLSearchParams({ scope, ttl_seconds: String(ttlSeconds) }),
+    );
+    const data = await this.request<CacheSimulationRow[]>(
+      `/v1/analytics/workflows/cache-simulation?${params.toString()}`,
+      { signal },
     );
     return Array.isArray(data) ? data : [];
   }
 
   async getOutcomeStats(
-    range: string = "7d",
+    range: TimeRange = "7d",
     limit: number = 20,
+    signal?: AbortSignal,
   ): Promise<OutcomeStats[]> {
     const data = await this.request<OutcomeStats[]>(
-      `/v1/analytics/workflows/outcomes?range=${range}&limit=${limit}`,
+      `/v1/analytics/workflows/outcomes?${timeRangeParams(range).toString()}&limit=${limit}`,
+      { signal },
     );
     return Array.isArray(data) ? data : [];
   }
 
   async getRunCostDistribution(
-    range: string = "7d",
+    range: TimeRange = "7d",
     workflow?: string,
     buckets: number = 24,
+    signal?: AbortSignal,
   ): Promise<RunCostDistribution | null> {
     const scope = workflow ? `&workflow=${encodeURIComponent(workflow)}` : "";
     const data = await this.request<RunCostDistribution | null>(
-      `/v1/analytics/workflows/distribution?range=${range}&buckets=${buckets}${scope}`,
+      `/v1/analytics/workflows/distribution?${timeRangeParams(range).toString()}&buckets=${buckets}${scope}`,
+      { signal },
     );
     // Demo mode answers unmapped endpoints with {}, and the chart reads
     // .histogram — treat anything without one as "no distribution".
@@ -1041,38 +2149,135 @@ class ApiClient {
   }
 
   async getTraces(
-    range: string = "7d",
-    workflow?: string,
-    limit: number = 50,
+    range: TimeRange = "7d",
+    opts: {
+      workflow?: string;
+      /** Only runs costing at least this much — how tail links scope the list. */
+      minCost?: number;
+      sort?: TraceSortKey;
+      order?: "asc" | "desc";
+      limit?: number;
+      offset?: number;
+    } = {},
+    signal?: AbortSignal,
   ): Promise<TraceSummary[]> {
-    const scope = workflow ? `&workflow=${encodeURIComponent(workflow)}` : "";
+    const p = new URLSearchParams();
+    timeRangeParams(range, p);
+    p.set("limit", String(opts.limit ?? 50));
+    if (opts.offset) p.set("offset", String(opts.offset));
+    if (opts.workflow) p.set("workflow", opts.workflow);
+    if (opts.minCost != null) p.set("min_cost", String(opts.minCost));
+    if (opts.sort) p.set("sort", opts.sort);
+    if (opts.order) p.set("order", opts.order);
     const data = await this.request<TraceSummary[]>(
-      `/v1/analytics/traces?range=${range}&limit=${limit}${scope}`,
+      `/v1/analytics/traces?${p.toString()}`,
+      { signal },
     );
     return Array.isArray(data) ? data : [];
   }
 
+  /** One trace and every call it made, for the trace detail view. */
+  async getTrace(
+    traceId: string,
+    signal?: AbortSignal,
+  ): Promise<TraceDetail | null> {
+    const data = await this.request<TraceDetail | null>(
+      `/v1/analytics/traces/${encodeURIComponent(traceId)}`,
+      { signal },
+    );
+    return data && Array.isArray(data.events) ? data : null;
+  }
+
+  /** The pricing catalog — what each model's calls should cost. */
+  async getPricing(signal?: AbortSignal): Promise<ModelPricing[]> {
+    const data = await this.request<{
+      pricing?: Record<string, Partial<Omit<ModelPricing, "model_name">>>;
+    } | null>("/v1/pricing", { signal });
+    return Object.entries(data?.pricing ?? {}).map(([model_name, p]) => ({
+      model_name,
+      input: p.input ?? 0,
+      output: p.output ?? 0,
+      provider: p.provider ?? "unknown",
+      cached_input: p.cached_input ?? null,
+      mode: p.mode ?? null,
+      deprecation_date: p.deprecation_date ?? null,
+    }));
+  }
+
   async getModelStats(
-    range: string = "7d",
+    range: TimeRange = "7d",
     limit: number = 10,
+    signal?: AbortSignal,
   ): Promise<ModelStats[]> {
-    return this.request(`/v1/analytics/models?range=${range}&limit=${limit}`);
+    return this.request(
+      `/v1/analytics/models?${timeRangeParams(range).toString()}&limit=${limit}`,
+      { signal },
+    );
   }
 
-  async getTimeSeries(range: string = "7d"): Promise<TimeSeriesPoint[]> {
-    return this.request(`/v1/analytics/timeseries?range=${range}`);
+  /**
+   * One model's stats, for a deep link to a model outside the loaded list.
+   * Null when it served no calls in the window.
+   */
+  async getModelStat(
+    range: TimeRange,
+    model: string,
+    signal?: AbortSignal,
+  ): Promise<ModelStats | null> {
+    const params = timeRangeParams(
+      range,
+      new URLSearchParams({ model, limit: "1" }),
+    );
+    const data = await this.request<ModelStats[]>(
+      `/v1/analytics/models?${params.toString()}`,
+      { signal },
+    );
+    return Array.isArray(data)
+      ? (data.find((m) => m.model === model) ?? null)
+      : null;
+  }
+
+  async getTimeSeries(
+    range: TimeRange = "7d",
+    signal?: AbortSignal,
+  ): Promise<TimeSeriesPoint[]> {
+    return this.request(
+      `/v1/analytics/timeseries?${timeRangeParams(range).toString()}`,
+      { signal },
+    );
+  }
+
+  /**
+   * The time series split by agent × model × workflow, for anomaly
+   * attribution. `bucket` overrides the size the window's length would pick,
+   * so a baseline stretched before a day-long window stays in hours.
+   */
+  async getTimeSeriesBreakdown(
+    range: TimeRange = "7d",
+    bucket?: TimeSeriesBucket,
+    signal?: AbortSignal,
+  ): Promise<TimeSeriesBreakdownPoint[]> {
+    const params = timeRangeParams(range);
+    if (bucket) params.set("bucket", bucket);
+    return this.request(
+      `/v1/analytics/timeseries/breakdown?${params.toString()}`,
+      { signal },
+    );
   }
 
   /**
    * Fetch the composite Executive Cost & Usage Report. Pass either a preset
    * `range` (incl. "mtd") or an explicit `start`/`end` custom window.
    */
-  async getExecutiveReport(opts: {
-    range?: string;
-    start?: string;
-    end?: string;
-    topN?: number;
-  } = {}): Promise<ExecutiveReport> {
+  async getExecutiveReport(
+    opts: {
+      range?: string;
+      start?: string;
+      end?: string;
+      topN?: number;
+    } = {},
+    signal?: AbortSignal,
+  ): Promise<ExecutiveReport> {
     const p = new URLSearchParams();
     if (opts.start && opts.end) {
       p.set("start", opts.start);
@@ -1081,37 +2286,97 @@ class ApiClient {
       p.set("range", opts.range ?? "30d");
     }
     p.set("top_n", String(opts.topN ?? 10));
-    return this.request(`/v1/analytics/report?${p.toString()}`);
+    return this.request(`/v1/analytics/report?${p.toString()}`, { signal });
   }
 
   async getEvents(
     limit: number = 100,
     offset: number = 0,
-    agentName?: string,
-    model?: string,
+    filters: EventFilters = {},
+    signal?: AbortSignal,
   ): Promise<Event[]> {
     const params = new URLSearchParams();
     params.set("limit", limit.toString());
     params.set("offset", offset.toString());
-    if (agentName) params.set("agent_name", agentName);
-    if (model) params.set("model", model);
-    return this.request(`/v1/events?${params.toString()}`);
+    eventFilterParams(filters, params);
+    return this.request(`/v1/events?${params.toString()}`, { signal });
+  }
+
+  /** Events matching `filters` — the total the Events page paginates over. */
+  async getEventCount(
+    filters: EventFilters = {},
+    signal?: AbortSignal,
+  ): Promise<{ count: number }> {
+    const query = eventFilterParams(filters).toString();
+    return this.request(`/v1/events/count${query ? `?${query}` : ""}`, {
+      signal,
+    });
   }
 
-  async getEventCount(): Promise<{ count: number }> {
-    return this.request("/v1/events/count");
+  /** Every agent, model, workflow, step and tool seen in the project. */
+  async getEventFilterOptions(
+    signal?: AbortSignal,
+  ): Promise<EventFilterOptions> {
+    const data = await this.request<Partial<EventFilterOptions> | null>(
+      "/v1/events/distinct",
+      { signal },
+    );
+    const list = (values: unknown) => (Array.isArray(values) ? values : []);
+    return {
+      agents: list(data?.agents),
+      models: list(data?.models),
+      workflows: list(data?.workflows),
+      steps: list(data?.steps),
+      tools: list(data?.tools),
+    };
+  }
+
+  /**
+   * Follow new events as they are recorded, narrowed by the same filters as
+   * `getEvents`. Returns a function that closes the stream.
+   */
+  streamEvents(
+    filters: EventFilters,
+    handlers: EventStreamHandlers,
+  ): () => void {
+    const controller = new AbortController();
+    // The filters also go to the server; checking them here as well keeps a
+    // backend that ignores them from leaking other agents into the view.
+    const guarded: EventStreamHandlers = {
+      ...handlers,
+      onEvent: (event) => {
+        if (matchesEventFilters(event, filters)) handlers.onEvent(event);
+      },
+    };
+
+    if (typeof window !== "undefined" && isDemoMode()) {
+      guarded.onStatus?.("live");
+      const stop = startDemoEventStream(filters, guarded.onEvent);
+      return () => {
+        stop();
+        guarded.onStatus?.("closed");
+      };
+    }
+
+    const query = eventFilterParams(filters).toString();
+    this.runEventStream(
+      withPricingBasis(`/v1/events/stream${query ? `?${query}` : ""}`),
+      guarded,
+      controller.signal,
+    );
+    return () => controller.abort();
   }
 
-  async getProject(): Promise<ProjectInfo> {
-    return this.request("/v1/projects/me");
+  async getProject(signal?: AbortSignal): Promise<ProjectInfo> {
+    return this.request("/v1/projects/me", { signal });
   }
 
   /**
    * List all projects the authenticated user can access (owned + member).
    * Used by the project switcher and onboarding.
    */
-  async listMyProjects(): Promise<ProjectListItem[]> {
-    return this.request("/v1/projects", {}, "jwt");
+  async listMyProjects(signal?: AbortSignal): Promise<ProjectListItem[]> {
+    return this.request("/v1/projects", { signal }, "jwt");
   }
 
   /**
@@ -1119,27 +2384,39 @@ class ApiClient {
    * raw API key — the dual-auth backend dependency reads project_id from
    * the URL path and validates JWT + permission.
    */
-  async getProjectById(projectId: string): Promise<ProjectInfo> {
-    return this.request(`/v1/projects/${projectId}`, {}, "jwt");
+  async getProjectById(
+    projectId: string,
+    signal?: AbortSignal,
+  ): Promise<ProjectInfo> {
+    return this.request(`/v1/projects/${projectId}`, { signal }, "jwt");
   }
 
   async createProject(
     name: string,
     description?: string,
+    signal?: AbortSignal,
   ): Promise<ProjectInfo> {
     return this.request("/v1/projects", {
       method: "POST",
       body: JSON.stringify({ name, description }),
+      signal,
     });
   }
 
-  async deleteProject(projectId: string): Promise<{ status: string }> {
+  async deleteProject(
+    projectId: string,
+    signal?: AbortSignal,
+  ): Promise<{ status: string }> {
     return this.request(`/v1/projects/${projectId}`, {
       method: "DELETE",
+      signal,
     });
   }
 
-  async rotateProjectApiKey(projectId: string): Promise<{
+  async rotateProjectApiKey(
+    projectId: string,
+    signal?: AbortSignal,
+  ): Promise<{
     status: string;
     project_id: string;
     api_key: string;
@@ -1148,27 +2425,29 @@ class ApiClient {
   }> {
     return this.request(
       `/v1/projects/${projectId}/api-key/rotate`,
-      { method: "POST" },
+      { method: "POST", signal },
       "jwt",
     );
   }
 
   /**
    * Fetch the current cached USD -> target FX rate. Used by the budget UI
-   * to preview the conversion the moment a user picks a currency.
+   * to preview the conversion the moment a user picks a currency, and for
+   * the display currency.
    */
-  async getFxRate(
-    target: BudgetCurrency,
-  ): Promise<{ base: "USD"; target: string; rate: number; source: string }> {
+  async getFxRate(target: CurrencyCode, signal?: AbortSignal): Promise<FxRate> {
     return this.request(
       `/v1/currency/rate?target=${encodeURIComponent(target)}`,
-      {},
+      { signal },
       "jwt",
     );
   }
 
-  async getProjectBudget(projectId: string): Promise<ProjectBudgetSettings> {
-    return this.request(`/v1/projects/${projectId}/budget`, {}, "jwt");
+  async getProjectBudget(
+    projectId: string,
+    signal?: AbortSignal,
+  ): Promise<ProjectBudgetSettings> {
+    return this.request(`/v1/projects/${projectId}/budget`, { signal }, "jwt");
   }
 
   async updateProjectBudget(
@@ -1178,52 +2457,266 @@ class ApiClient {
       budget_enforcement_mode: "off" | "warn" | "hard_cap";
       budget_alert_thresholds: number[];
       budget_currency: BudgetCurrency;
+      budget_period: BudgetPeriodType;
+      fiscal_year_start_month: number;
+      /** Replaces the project's sub-budgets; those left out are removed. */
+      sub_budgets: SubBudgetInput[];
     },
+    signal?: AbortSignal,
   ): Promise<ProjectBudgetSettings> {
     return this.request(
       `/v1/projects/${projectId}/budget`,
       {
         method: "PUT",
         body: JSON.stringify(payload),
+        signal,
+      },
+      "jwt",
+    );
+  }
+
+  async getSavedViews(
+    projectId: string,
+    signal?: AbortSignal,
+  ): Promise<SavedView[]> {
+    const response = await this.request<{ views: SavedView[] }>(
+      `/v1/projects/${projectId}/views`,
+      { signal },
+      "jwt",
+    );
+    return response.views;
+  }
+
+  async createSavedView(
+    projectId: string,
+    payload: { name: string; path: string; query: string },
+    signal?: AbortSignal,
+  ): Promise<SavedView> {
+    return this.request(
+      `/v1/projects/${projectId}/views`,
+      {
+        method: "POST",
+        body: JSON.stringify(payload),
+        signal,
+      },
+      "jwt",
+    );
+  }
+
+  async deleteSavedView(
+    projectId: string,
+    viewId: string,
+    signal?: AbortSignal,
+  ): Promise<null> {
+    return this.request(
+      `/v1/projects/${projectId}/views/${viewId}`,
+      {
+        method: "DELETE",
+        signal,
+      },
+      "jwt",
+    );
+  }
+
+  async getAlertRules(
+    projectId: string,
+    signal?: AbortSignal,
+  ): Promise<AlertRule[]> {
+    const response = await this.request<{ rules: AlertRule[] }>(
+      `/v1/projects/${projectId}/alerts`,
+      { signal },
+      "jwt",
+    );
+    return response.rules;
+  }
+
+  async createAlertRule(
+    projectId: string,
+    payload: AlertRuleInput,
+    signal?: AbortSignal,
+  ): Promise<AlertRule> {
+    return this.request(
+      `/v1/projects/${projectId}/alerts`,
+      {
+        method: "POST",
+        body: JSON.stringify(payload),
+        signal,
+      },
+      "jwt",
+    );
+  }
+
+  async updateAlertRule(
+    projectId: string,
+    ruleId: string,
+    payload: Partial<AlertRuleInput>,
+    signal?: AbortSignal,
+  ): Promise<AlertRule> {
+    return this.request(
+      `/v1/projects/${projectId}/alerts/${ruleId}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(payload),
+        signal,
+      },
+      "jwt",
+    );
+  }
+
+  async deleteAlertRule(
+    projectId: string,
+    ruleId: string,
+    signal?: AbortSignal,
+  ): Promise<null> {
+    return this.request(
+      `/v1/projects/${projectId}/alerts/${ruleId}`,
+      {
+        method: "DELETE",
+        signal,
+      },
+      "jwt",
+    );
+  }
+
+  async getPricingOverrides(
+    projectId: string,
+    signal?: AbortSignal,
+  ): Promise<PricingOverride[]> {
+    const response = await this.request<{ overrides: PricingOverride[] }>(
+      `/v1/projects/${projectId}/pricing-overrides`,
+      { signal },
+      "jwt",
+    );
+    return response.overrides;
+  }
+
+  /** Rejected with a 409 when it overlaps another override of the model. */
+  async createPricingOverride(
+    projectId: string,
+    payload: PricingOverrideInput,
+    signal?: AbortSignal,
+  ): Promise<PricingOverride> {
+    return this.request(
+      `/v1/projects/${projectId}/pricing-overrides`,
+      {
+        method: "POST",
+        body: JSON.stringify(payload),
+        signal,
+      },
+      "jwt",
+    );
+  }
+
+  async updatePricingOverride(
+    projectId: string,
+    overrideId: string,
+    payload: Partial<PricingOverrideInput>,
+    signal?: AbortSignal,
+  ): Promise<PricingOverride> {
+    return this.request(
+      `/v1/projects/${projectId}/pricing-overrides/${overrideId}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(payload),
+        signal,
+      },
+      "jwt",
+    );
+  }
+
+  async deletePricingOverride(
+    projectId: string,
+    overrideId: string,
+    signal?: AbortSignal,
+  ): Promise<null> {
+    return this.request(
+      `/v1/projects/${projectId}/pricing-overrides/${overrideId}`,
+      {
+        method: "DELETE",
+        signal,
+      },
+      "jwt",
+    );
+  }
+
+  /**
+   * Replay a rule, saved or not, over the last `days` days of data. Nothing
+   * is stored and no notification is sent.
+   */
+  async previewAlertRule(
+    projectId: string,
+    rule: AlertRuleInput,
+    days = 30,
+    signal?: AbortSignal,
+  ): Promise<AlertPreview> {
+    return this.request(
+      `/v1/projects/${projectId}/alerts/preview`,
+      {
+        method: "POST",
+        body: JSON.stringify({ rule, days }),
+        signal,
       },
       "jwt",
     );
   }
 
-  async getOptimizations(): Promise<OptimizationSuggestion[]> {
-    return this.request("/v1/optimizations");
+  async getOptimizations(
+    signal?: AbortSignal,
+  ): Promise<OptimizationSuggestion[]> {
+    return this.request("/v1/optimizations", { signal });
   }
 
-  async generateOptimizationRecommendations(): Promise<
-    OptimizationSuggestion[]
-  > {
+  async generateOptimizationRecommendations(
+    signal?: AbortSignal,
+  ): Promise<OptimizationSuggestion[]> {
     return this.request("/v1/optimizations/recommendations/generate", {
       method: "POST",
+      signal,
     });
   }
 
-  async getOptimizationSummary(): Promise<OptimizationSummary> {
-    return this.request("/v1/optimizations/summary");
+  async getOptimizationSummary(
+    signal?: AbortSignal,
+  ): Promise<OptimizationSummary> {
+    return this.request("/v1/optimizations/summary", { signal });
+  }
+
+  async getPendingRecommendations(
+    signal?: AbortSignal,
+  ): Promise<Recommendation[]> {
+    return this.request("/v1/optimizations/recommendations", { signal });
   }
 
-  async getPendingRecommendations(): Promise<Recommendation[]> {
-    return this.request("/v1/optimizations/recommendations");
+  /** Adds a recommendation to the pending list, to be acted on like any other. */
+  async createRecommendation(
+    draft: RecommendationDraft,
+    signal?: AbortSignal,
+  ): Promise<Recommendation> {
+    return this.request("/v1/optimizations/recommendations", {
+      method: "POST",
+      body: JSON.stringify(draft),
+      signal,
+    });
   }
 
-  async markRecommendationImplemented(recommendationId: string): Promise<{
+  async markRecommendationImplemented(
+    recommendationId: string,
+    signal?: AbortSignal,
+  ): Promise<{
     status: string;
     recommendation_id: string;
     implemented_at: string;
   }> {
     return this.request(
       `/v1/optimizations/recommendations/${recommendationId}/implement`,
-      { method: "POST" },
+      { method: "POST", signal },
     );
   }
 
   async dismissRecommendation(
     recommendationId: string,
     feedback?: string,
+    signal?: AbortSignal,
   ): Promise<{
     status: string;
     recommendation_id: string;
@@ -1234,30 +2727,84 @@ class ApiClient {
       {
         method: "POST",
         body: JSON.stringify({ feedback: feedback || null }),
+        signal,
       },
     );
   }
 
-  async getRecommendationEffectiveness(): Promise<{
-    total_recommendations: number;
-    implemented: number;
-    dismissed: number;
-    pending: number;
-    expired: number;
-    implementation_rate: number;
-    total_estimated_savings: number;
-    total_actual_savings: number;
-    savings_accuracy: number;
-  }> {
-    return this.request("/v1/optimizations/recommendations/effectiveness");
+  /**
+   * Every recommendation still on the board: open, snoozed, and those
+   * implemented or dismissed recently.
+   */
+  async getRecommendationBoard(
+    signal?: AbortSignal,
+  ): Promise<Recommendation[]> {
+    const data = await this.request<Recommendation[]>(
+      "/v1/optimizations/recommendations/board",
+      { signal },
+    );
+    return Array.isArray(data) ? data : [];
+  }
+
+  async updateRecommendation(
+    recommendationId: string,
+    changes: RecommendationUpdate,
+    signal?: AbortSignal,
+  ): Promise<Recommendation> {
+    return this.request(
+      `/v1/optimizations/recommendations/${recommendationId}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(changes),
+        signal,
+      },
+    );
+  }
+
+  /** Comments and changes, oldest first. */
+  async getRecommendationActivity(
+    recommendationId: string,
+    signal?: AbortSignal,
+  ): Promise<RecommendationActivity[]> {
+    const data = await this.request<RecommendationActivity[]>(
+      `/v1/optimizations/recommendations/${recommendationId}/activity`,
+      { signal },
+    );
+    return Array.isArray(data) ? data : [];
+  }
+
+  async addRecommendationComment(
+    recommendationId: string,
+    text: string,
+    signal?: AbortSignal,
+  ): Promise<RecommendationActivity> {
+    return this.request(
+      `/v1/optimizations/recommendations/${recommendationId}/comments`,
+      {
+        method: "POST",
+        body: JSON.stringify({ text }),
+        signal,
+      },
+    );
+  }
+
+  async getRecommendationEffectiveness(
+    signal?: AbortSignal,
+  ): Promise<RecommendationEffectiveness> {
+    return this.request("/v1/optimizations/recommendations/effectiveness", {
+      signal,
+    });
   }
 
   // Member Management Methods
-  async getProjectMembers(projectId: string): Promise<ProjectMember[]> {
+  async getProjectMembers(
+    projectId: string,
+    signal?: AbortSignal,
+  ): Promise<ProjectMember[]> {
     const response = await this.request<{
       members: ProjectMember[];
       total: number;
-    }>(`/v1/projects/${projectId}/members`, {}, "jwt");
+    }>(`/v1/projects/${projectId}/members`, { signal }, "jwt");
     return response.members;
   }
 
@@ -1265,12 +2812,14 @@ class ApiClient {
     projectId: string,
     email: string,
     role: "admin" | "member" | "viewer",
+    signal?: AbortSignal,
   ): Promise<{ status: string; message: string }> {
     return this.request(
       `/v1/projects/${projectId}/members`,
       {
         method: "POST",
         body: JSON.stringify({ email, role }),
+        signal,
       },
       "jwt",
     );
@@ -1280,74 +2829,98 @@ class ApiClient {
     projectId: string,
     userId: string,
     role: "admin" | "member" | "viewer",
+    signal?: AbortSignal,
   ): Promise<{ status: string; message: string }> {
     return this.request(
       `/v1/projects/${projectId}/members/${userId}`,
       {
         method: "PATCH",
         body: JSON.stringify({ role }),
+        signal,
       },
       "jwt",
     );
   }
 
-  async removeMember(projectId: string, userId: string): Promise<null> {
+  async removeMember(
+    projectId: string,
+    userId: string,
+    signal?: AbortSignal,
+  ): Promise<null> {
     return this.request(
       `/v1/projects/${projectId}/members/${userId}`,
       {
         method: "DELETE",
+        signal,
       },
       "jwt",
     );
   }
 
-  async leaveProject(projectId: string): Promise<{ status: string }> {
+  async leaveProject(
+    projectId: string,
+    signal?: AbortSignal,
+  ): Promise<{ status: string }> {
     return this.request(
       `/v1/projects/${projectId}/leave`,
       {
         method: "POST",
+        signal,
       },
       "jwt",
     );
   }
 
-  async getPendingInvitations(): Promise<PendingInvitation[]> {
+  async getPendingInvitations(
+    signal?: AbortSignal,
+  ): Promise<PendingInvitation[]> {
     const response = await this.request<{
       invitations: PendingInvitation[];
       total: number;
-    }>("/v1/projects/invitations/pending", {}, "jwt");
+    }>("/v1/projects/invitations/pending", { signal }, "jwt");
     return response.invitations;
   }
 
-  async acceptInvitation(projectId: string): Promise<{ status: string }> {
+  async acceptInvitation(
+    projectId: string,
+    signal?: AbortSignal,
+  ): Promise<{ status: string }> {
     return this.request(
       `/v1/projects/${projectId}/invitations/accept`,
       {
         method: "POST",
+        signal,
       },
       "jwt",
     );
   }
 
-  async declineInvitation(projectId: string): Promise<{ status: string }> {
+  async declineInvitation(
+    projectId: string,
+    signal?: AbortSignal,
+  ): Promise<{ status: string }> {
     return this.request(
       `/v1/projects/${projectId}/invitations/decline`,
       {
         method: "POST",
+        signal,
       },
       "jwt",
     );
   }
 
-  async listFeedback(params: {
-    type?: FeedbackType | "all";
-    status?: FeedbackStatus | "all";
-    priority?: FeedbackPriority | "all";
-    sortBy?: "recent" | "popular" | "oldest";
-    search?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<FeedbackListResponse> {
+  async listFeedback(
+    params: {
+      type?: FeedbackType | "all";
+      status?: FeedbackStatus | "all";
+      priority?: FeedbackPriority | "all";
+      sortBy?: "recent" | "popular" | "oldest";
+      search?: string;
+      limit?: number;
+      offset?: number;
+    },
+    signal?: AbortSignal,
+  ): Promise<FeedbackListResponse> {
     const searchParams = new URLSearchParams();
 
     if (params.type && params.type !== "all") {
@@ -1377,30 +2950,36 @@ class ApiClient {
       ? `/v1/feedback?${queryString}`
       : "/v1/feedback";
 
-    return this.request(endpoint, {}, "jwt");
+    return this.request(endpoint, { signal }, "jwt");
   }
 
-  async getFeedbackSummary(): Promise<FeedbackSummaryResponse> {
-    return this.request("/v1/feedback/summary", {}, "jwt");
+  async getFeedbackSummary(
+    signal?: AbortSignal,
+  ): Promise<FeedbackSummaryResponse> {
+    return this.request("/v1/feedback/summary", { signal }, "jwt");
   }
 
-  async createFeedback(payload: {
-    type: FeedbackType;
-    title: string;
-    description: string;
-    model_name?: string | null;
-    model_provider?: string | null;
-    user_email?: string | null;
-    user_name?: string | null;
-    metadata?: Record<string, unknown> | null;
-    attachments?: AttachmentMeta[] | null;
-    environment?: string | null;
-  }): Promise<{ id: string; message: string }> {
+  async createFeedback(
+    payload: {
+      type: FeedbackType;
+      title: string;
+      description: string;
+      model_name?: string | null;
+      model_provider?: string | null;
+      user_email?: string | null;
+      user_name?: string | null;
+      metadata?: Record<string, unknown> | null;
+      attachments?: AttachmentMeta[] | null;
+      environment?: string | null;
+    },
+    signal?: AbortSignal,
+  ): Promise<{ id: string; message: string }> {
     return this.request(
       "/v1/feedback",
       {
         method: "POST",
         body: JSON.stringify(payload),
+        signal,
       },
       "jwt",
     );
@@ -1408,29 +2987,37 @@ class ApiClient {
 
   async toggleFeedbackUpvote(
     feedbackId: string,
+    signal?: AbortSignal,
   ): Promise<{ action: "added" | "removed"; upvotes: number }> {
     return this.request(
       `/v1/feedback/${feedbackId}/upvote`,
-      { method: "POST" },
+      { method: "POST", signal },
       "jwt",
     );
   }
 
   async getFeedbackComments(
     feedbackId: string,
+    signal?: AbortSignal,
   ): Promise<{ items: FeedbackComment[]; total: number }> {
-    return this.request(`/v1/feedback/${feedbackId}/comments`, {}, "jwt");
+    return this.request(
+      `/v1/feedback/${feedbackId}/comments`,
+      { signal },
+      "jwt",
+    );
   }
 
   async addFeedbackComment(
     feedbackId: string,
     payload: { comment: string; user_name?: string | null },
+    signal?: AbortSignal,
   ): Promise<{ message: string }> {
     return this.request(
       `/v1/feedback/${feedbackId}/comments`,
       {
         method: "POST",
         body: JSON.stringify(payload),
+        signal,
       },
       "jwt",
     );
@@ -1438,7 +3025,10 @@ class ApiClient {
 
   // ── Attachment methods ──────────────────────────────────────────────────
 
-  async uploadAttachment(file: File): Promise<AttachmentMeta> {
+  async uploadAttachment(
+    file: File,
+    signal?: AbortSignal,
+  ): Promise<AttachmentMeta> {
     // Uploads bypass request(), so demo mode is handled here directly.
     if (typeof window !== "undefined" && isDemoMode()) {
       return resolveDemoRequest<AttachmentMeta>("/v1/attachments", {
@@ -1460,6 +3050,7 @@ class ApiClient {
       method: "POST",
       headers,
       body: formData,
+      signal,
     });
 
     if (response.status === 401 && authToken) {
@@ -1472,18 +3063,17 @@ class ApiClient {
           method: "POST",
           headers: retryHeaders,
           body: formData,
+          signal,
         });
         if (!retry.ok) {
-          const text = await retry.text().catch(() => "");
-          throw new Error(`Upload failed: ${retry.status} ${text}`);
+          throw await apiErrorFromResponse(retry, "/v1/attachments");
         }
         return retry.json();
       }
     }
 
     if (!response.ok) {
-      const text = await response.text().catch(() => "");
-      throw new Error(`Upload failed: ${response.status} ${text}`);
+      throw await apiErrorFromResponse(response, "/v1/attachments");
     }
 
     return response.json();
@@ -1494,25 +3084,29 @@ class ApiClient {
     return `${baseUrl}/v1/attachments/${storedName}`;
   }
 
-  async getAttachmentLimits(): Promise<AttachmentLimits> {
-    return this.request("/v1/attachments/config/limits", {}, "jwt");
+  async getAttachmentLimits(signal?: AbortSignal): Promise<AttachmentLimits> {
+    return this.request("/v1/attachments/config/limits", { signal }, "jwt");
   }
 
   // ── User Account & Profile methods ─────────────────────────────────────
 
-  async getProfile(): Promise<UserProfile> {
-    return this.request("/v1/auth/me", {}, "jwt");
+  async getProfile(signal?: AbortSignal): Promise<UserProfile> {
+    return this.request("/v1/auth/me", { signal }, "jwt");
   }
 
-  async updateProfile(data: {
-    name?: string | null;
-    avatar_url?: string | null;
-  }): Promise<UserProfile> {
+  async updateProfile(
+    data: {
+      name?: string | null;
+      avatar_url?: string | null;
+    },
+    signal?: AbortSignal,
+  ): Promise<UserProfile> {
     return this.request(
       "/v1/auth/me",
       {
         method: "PATCH",
         body: JSON.stringify(data),
+        signal,
       },
       "jwt",
     );
@@ -1521,6 +3115,7 @@ class ApiClient {
   async changePassword(
     currentPassword: string,
     newPassword: string,
+    signal?: AbortSignal,
   ): Promise<null> {
     return this.request(
       "/v1/auth/password/change",
@@ -1530,37 +3125,45 @@ class ApiClient {
           current_password: currentPassword,
           new_password: newPassword,
         }),
+        signal,
       },
       "jwt",
     );
   }
 
-  async getSessions(): Promise<{
+  async getSessions(signal?: AbortSignal): Promise<{
     sessions: SessionInfo[];
     total: number;
   }> {
-    return this.request("/v1/auth/sessions", {}, "jwt");
+    return this.request("/v1/auth/sessions", { signal }, "jwt");
   }
 
-  async revokeSession(sessionId: string): Promise<null> {
+  async revokeSession(sessionId: string, signal?: AbortSignal): Promise<null> {
     return this.request(
       `/v1/auth/sessions/${sessionId}`,
-      { method: "DELETE" },
+      { method: "DELETE", signal },
       "jwt",
     );
   }
 
-  async logoutAll(): Promise<null> {
-    return this.request("/v1/auth/logout-all", { method: "POST" }, "jwt");
+  async logoutAll(signal?: AbortSignal): Promise<null> {
+    return this.request(
+      "/v1/auth/logout-all",
+      { method: "POST", signal },
+      "jwt",
+    );
   }
 
   // ── Notifications ──────────────────────────────────────────────────────
 
-  async listNotifications(params?: {
-    limit?: number;
-    offset?: number;
-    unreadOnly?: boolean;
-  }): Promise<NotificationListResponse> {
+  async listNotifications(
+    params?: {
+      limit?: number;
+      offset?: number;
+      unreadOnly?: boolean;
+    },
+    signal?: AbortSignal,
+  ): Promise<NotificationListResponse> {
     const searchParams = new URLSearchParams();
     if (params?.limit) searchParams.set("limit", params.limit.toString());
     if (params?.offset) searchParams.set("offset", params.offset.toString());
@@ -1569,35 +3172,43 @@ class ApiClient {
     const endpoint = query
       ? `/v1/notifications?${query}`
       : "/v1/notifications";
-    return this.request(endpoint, {}, "jwt");
+    return this.request(endpoint, { signal }, "jwt");
   }
 
-  async getUnreadNotificationCount(): Promise<{ unread_count: number }> {
-    return this.request("/v1/notifications/unread-count", {}, "jwt");
+  async getUnreadNotificationCount(
+    signal?: AbortSignal,
+  ): Promise<{ unread_count: number }> {
+    return this.request("/v1/notifications/unread-count", { signal }, "jwt");
   }
 
-  async markNotificationRead(notificationId: string): Promise<null> {
+  async markNotificationRead(
+    notificationId: string,
+    signal?: AbortSignal,
+  ): Promise<null> {
     return this.request(
       `/v1/notifications/${notificationId}/read`,
-      { method: "POST" },
+      { method: "POST", signal },
       "jwt",
     );
   }
 
-  async markAllNotificationsRead(): Promise<{ unread_count: number }> {
+  async markAllNotificationsRead(
+    signal?: AbortSignal,
+  ): Promise<{ unread_count: number }> {
     return this.request(
       "/v1/notifications/read-all",
-      { method: "POST" },
+      { method: "POST", signal },
       "jwt",
     );
   }
 
-  async resendVerification(email: string): Promise<null> {
+  async resendVerification(email: string, signal?: AbortSignal): Promise<null> {
     return this.request(
       "/v1/auth/resend-verification",
       {
         method: "POST",
         body: JSON.stringify({ email }),
+        signal,
       },
       "jwt",
     );
@@ -1605,13 +3216,19 @@ class ApiClient {
 
   async updateProject(
     projectId: string,
-    data: { name?: string; description?: string },
+    data: {
+      name?: string;
+      description?: string;
+      display_currency?: CurrencyCode;
+    },
+    signal?: AbortSignal,
   ): Promise<ProjectInfo> {
     return this.request(
       `/v1/projects/${projectId}`,
       {
         method: "PATCH",
         body: JSON.stringify(data),
+        signal,
       },
       "jwt",
     );
@@ -1619,7 +3236,10 @@ class ApiClient {
 
   // ── Analytics (full) ─────────────────────────────────────────────────
 
-  async getFullAnalytics(range: string = "7d"): Promise<{
+  async getFullAnalytics(
+    range: string = "7d",
+    signal?: AbortSignal,
+  ): Promise<{
     overview: AnalyticsOverview;
     agents: AgentStats[];
     models: ModelStats[];
@@ -1634,7 +3254,7 @@ class ApiClient {
       "90d": 90,
     };
     const days = daysMap[range] ?? 7;
-    return this.request(`/v1/analytics/full?days=${days}`);
+    return this.request(`/v1/analytics/full?days=${days}`, { signal });
   }
 
   /**
@@ -0,0 +1,112 @@
+/**
+ * Structured errors for AgentCost API calls. Kept apart from the client so
+ * lightweight modules (utils, formatting) can check for them without pulling
+ * in the client and its demo dataset.
+ */
+
+/** One entry of a FastAPI 422 body: `{"detail": [{loc, msg, ...}]}`. */
+export interface ApiValidationIssue {
+  loc?: (string | number)[];
+  msg?: string;
+  type?: string;
+  ctx?: { reason?: string };
+}
+
+/** Statuses worth trying again: the same request may well succeed later. */
+const RETRYABLE_STATUSES = new Set([0, 408, 425, 429, 500, 502, 503, 504]);
+
+function codeForStatus(status: number): string {
+  if (status === 0) return "network_error";
+  if (status === 400) return "bad_request";
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not_found";
+  if (status === 409) return "conflict";
+  if (status === 422) return "validation_error";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server_error";
+  return "http_error";
+}
+
+/**
+ * A request the backend (or the network) refused. Pages branch on `status`
+ * and `code` instead of searching the message; the message keeps the old
+ * "API Error: 401 Unauthorized - …" shape for logs.
+ */
+export class ApiError extends Error {
+  /** HTTP status, or 0 when no response arrived at all. */
+  readonly status: number;
+  /** The backend's machine-readable code when it sends one, else derived from the status. */
+  readonly code: string;
+  /** FastAPI's `detail`: a sentence, or the field issues of a 422. */
+  readonly detail: string | ApiValidationIssue[] | null;
+  readonly endpoint: string;
+  readonly retryable: boolean;
+  /** Seconds the server asked us to wait (Retry-After), when it said. */
+  readonly retryAfter: number | null;
+
+  constructor(init: {
+    status: number;
+    statusText?: string;
+    endpoint: string;
+    code?: string | null;
+    detail?: string | ApiValidationIssue[] | null;
+    body?: string;
+    retryAfter?: number | null;
+  }) {
+    const summary =
+      typeof init.detail === "string" ? init.detail : (init.body ?? "");
+    super(
+      `API Error: ${init.status}${init.statusText ? ` ${init.statusText}` : ""}${summary ? ` - ${summary}` : ""}`,
+    );
+    this.name = "ApiError";
+    this.status = init.status;
+    this.code = init.code || codeForStatus(init.status);
+    this.detail = init.detail ?? null;
+    this.endpoint = init.endpoint;
+    this.retryable = RETRYABLE_STATUSES.has(init.status);
+    this.retryAfter = init.retryAfter ?? null;
+  }
+}
+
+/** Read a Retry-After header — either delay-seconds or an HTTP date. */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? null : Math.max(0, (at - Date.now()) / 1000);
+}
+
+/** Build the error for a non-2xx response, reading the body once. */
+export async function apiErrorFromResponse(
+  response: Response,
+  endpoint: string,
+): Promise<ApiError> {
+  const body = await response.text().catch(() => "");
+  let code: string | null = null;
+  let detail: string | ApiValidationIssue[] | null = null;
+  try {
+    const parsed = JSON.parse(body);
+    // FastAPI sends {"detail": ...}; some routes nest {"detail": {code, message}}.
+    const raw = parsed?.detail;
+    if (typeof raw === "string" || Array.isArray(raw)) {
+      detail = raw;
+    } else if (raw && typeof raw === "object") {
+      detail = typeof raw.message === "string" ? raw.message : null;
+      code = typeof raw.code === "string" ? raw.code : null;
+    }
+    if (typeof parsed?.code === "string") code = parsed.code;
+  } catch {
+    // Not JSON (a proxy's HTML error page, say) — keep the raw text.
+  }
+  return new ApiError({
+    status: response.status,
+    statusText: response.statusText,
+    endpoint,
+    code,
+    detail,
+    body,
+    retryAfter: parseRetryAfter(response.headers.get("Retry-After")),
+  });
+}
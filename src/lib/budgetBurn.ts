@@ -0,0 +1,162 @@
+/**
+ * Budget burn-down: cumulative spend in the budget period against the
+ * straight line that would spend the budget exactly by its end, run on at
+ * the recent daily pace to the day the budget runs out.
+ */
+
+import type { TimeSeriesPoint } from "@/lib/api";
+import type { BudgetPeriod } from "@/lib/budgetPeriod";
+import type { AbsoluteRange } from "@/lib/timeRange";
+
+const DAY_MS = 86_400_000;
+/** Complete days the projected pace is averaged over. */
+const PACE_DAYS = 7;
+
+export interface BurnDownRow {
+  /** UTC midnight of the day, like a day bucket. */
+  timestamp: string;
+  /** Where spend would be on a straight line to the budget. */
+  ideal: number;
+  /** Spend up to the end of the day; up to now for today, none after. */
+  actual?: number;
+  /** Spend at the pace from today on; today carries both. */
+  projected?: number;
+}
+
+export interface ThresholdCrossing {
+  percent: number;
+  amount: number;
+  /** Day the spend reaches it, spent or projected; null if not this period. */
+  crossed_on: string | null;
+}
+
+export interface BurnDown {
+  rows: BurnDownRow[];
+  budget: number;
+  spent: number;
+  /** Daily spend the projection runs at, after the cut. */
+  pace: number;
+  /** Spend by the end of the period at that pace. */
+  projected_total: number;
+  /**
+   * Day the budget runs out: in the past once spent, possibly after the
+   * period when the pace is slow; null with no spend to project.
+   */
+  exhausted_on: string | null;
+  thresholds: ThresholdCrossing[];
+}
+
+function utcDay(ms: number): number {
+  return Math.floor(ms / DAY_MS) * DAY_MS;
+}
+
+function dayIso(ms: number): string {
+  return `${new Date(ms).toISOString().slice(0, 10)}T00:00:00+00:00`;
+}
+
+/** The period so far, plus enough days before it to measure the pace. */
+export function burnDownHistoryRange(
+  period: BudgetPeriod,
+  now = new Date(),
+): AbsoluteRange {
+  const paceFrom = utcDay(now.getTime()) - PACE_DAYS * DAY_MS;
+  return {
+    start: new Date(Math.min(Date.parse(period.start), paceFrom)).toISOString(),
+  };
+}
+
+/**
+ * Burn-down of `budget` over `period` from USD spend in `history`, in the
+ * budget's currency at `fxRate`. The pace is the average of the last seven
+ * complete days; `cut` (0–1) takes a share off it from today on, to see how
+ * far a saving moves the day the budget runs out.
+ */
+export function burnDown({
+  history,
+  budget,
+  thresholds,
+  period,
+  fxRate = 1,
+  cut = 0,
+  now = new Date(),
+}: {
+  history: TimeSeriesPoint[];
+  budget: number;
+  /** Percent of the budget. */
+  thresholds: number[];
+  period: BudgetPeriod;
+  fxRate?: number;
+  cut?: number;
+  now?: Date;
+}): BurnDown {
+  const today = utcDay(now.getTime());
+  const byDay = new Map<number, number>();
+  for (const point of history) {
+    const day = Date.parse(`${point.timestamp.slice(0, 10)}T00:00:00Z`);
+    if (Number.isNaN(day)) continue;
+    byDay.set(day, (byDay.get(day) ?? 0) + point.cost * fxRate);
+  }
+
+  // Days before the first recorded spend don't count against the pace,
+  // so a project a few days old isn't averaged down by empty days.
+  const firstDay = byDay.size > 0 ? Math.min(...byDay.keys()) : today;
+  const paceFrom = Math.max(today - PACE_DAYS * DAY_MS, firstDay);
+  let paceSpend = 0;
+  for (let d = paceFrom; d < today; d += DAY_MS) {
+    paceSpend += byDay.get(d) ?? 0;
+  }
+  const paceDays = Math.round((today - paceFrom) / DAY_MS);
+  const pace = paceDays > 0 ? (paceSpend / paceDays) * (1 - cut) : 0;
+
+  const start = Date.parse(period.start);
+  const end = Date.parse(period.end);
+  const days = Math.round((end - start) / DAY_MS);
+  const rows: BurnDownRow[] = [];
+  let cumulative = 0;
+  for (let i = 0; i < days; i++) {
+    const day = start + i * DAY_MS;
+    const row: BurnDownRow = {
+      timestamp: dayIso(day),
+      ideal: (budget * (i + 1)) / days,
+    };
+    if (day <= today) {
+      cumulative += byDay.get(day) ?? 0;
+      row.actual = cumulative;
+      if (day === today) row.projected = cumulative;
+    } else {
+      cumulative += pace;
+      row.projected = cumulative;
+    }
+    rows.push(row);
+  }
+
+  const reached = (amount: number): string | null => {
+    const row = rows.find((r) => (r.actual ?? r.projected ?? 0) >= amount);
+    if (row) return row.timestamp;
+    if (pace <= 0 || rows.length === 0) return null;
+    // Past the period: carry on at the pace from its last day.
+    const extra = Math.ceil((amount - cumulative) / pace);
+    return dayIso(end - DAY_MS + extra * DAY_MS);
+  };
+
+  const spent = rows.reduce((s, r) => (r.actual != null ? r.actual : s), 0);
+  return {
+    rows,
+    budget,
+    spent,
+    pace,
+    projected_total: cumulative,
+    exhausted_on: budget > 0 ? reached(budget) : null,
+    thresholds: [...thresholds]
+      .sort((a, b) => a - b)
+      .map((percent) => {
+        const amount = (budget * percent) / 100;
+        const on = reached(amount);
+        return {
+          percent,
+          amount,
+          crossed_on: on && Date.parse(on) < end ? on : null,
+        };
+      }),
+  };
+}
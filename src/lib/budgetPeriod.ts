@@ -0,0 +1,126 @@
+/**
+ * Budget periods: calendar months, or quarters and years of a fiscal year
+ * that may start in any month. In UTC, like the backend that evaluates
+ * thresholds and caps against them.
+ */
+
+import type { BudgetPeriodType, ProjectBudgetSettings } from "@/lib/api";
+
+/** UTC midnights; `end` is exclusive. */
+export interface BudgetPeriod {
+  start: string;
+  end: string;
+  /** As the backend keys it: "2026-10", "FY2027-Q3", "FY2027". */
+  key: string;
+}
+
+export const BUDGET_PERIODS: {
+  value: BudgetPeriodType;
+  label: string;
+  /** "month", for "Month-to-date" and "lasts the month". */
+  noun: string;
+  /** "MTD" */
+  toDate: string;
+}[] = [
+  { value: "monthly", label: "Monthly", noun: "month", toDate: "MTD" },
+  { value: "quarterly", label: "Quarterly", noun: "quarter", toDate: "QTD" },
+  { value: "annual", label: "Annual", noun: "year", toDate: "YTD" },
+];
+
+export const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+export function budgetPeriodMeta(type: BudgetPeriodType) {
+  return BUDGET_PERIODS.find((p) => p.value === type) ?? BUDGET_PERIODS[0];
+}
+
+/**
+ * A fiscal year starting in January is just the calendar year, "2026".
+ * Otherwise it's named for the year it ends in: from February, "FY2027"
+ * runs Feb 2026 – Jan 2027.
+ */
+function fiscalYearLabel(startYear: number, startMonth: number): string {
+  return startMonth === 1 ? `${startYear}` : `FY${startYear + 1}`;
+}
+
+/**
+ * The period of `type` that `now` falls in. `fiscalStartMonth` (1–12) is
+ * where quarters and years begin; months ignore it.
+ */
+export function budgetPeriod(
+  type: BudgetPeriodType,
+  fiscalStartMonth = 1,
+  now = new Date(),
+): BudgetPeriod {
+  const y = now.getUTCFullYear();
+  const m = now.getUTCMonth();
+  const iso = (year: number, month: number) =>
+    new Date(Date.UTC(year, month, 1)).toISOString();
+
+  if (type === "monthly") {
+    return {
+      start: iso(y, m),
+      end: iso(y, m + 1),
+      key: `${y}-${String(m + 1).padStart(2, "0")}`,
+    };
+  }
+
+  const fs = fiscalStartMonth - 1;
+  const fyStartYear = m >= fs ? y : y - 1;
+  const fy = fiscalYearLabel(fyStartYear, fiscalStartMonth);
+  if (type === "annual") {
+    return {
+      start: iso(fyStartYear, fs),
+      end: iso(fyStartYear, fs + 12),
+      key: fy,
+    };
+  }
+  const quarter = Math.floor(((m - fs + 12) % 12) / 3);
+  const from = fs + quarter * 3;
+  return {
+    start: iso(fyStartYear, from),
+    end: iso(fyStartYear, from + 3),
+    key: `${fy}-Q${quarter + 1}`,
+  };
+}
+
+/** The period a project's budget currently runs over. */
+export function budgetPeriodOf(
+  settings: Pick<
+    ProjectBudgetSettings,
+    "budget_period" | "fiscal_year_start_month"
+  >,
+  now = new Date(),
+): BudgetPeriod {
+  return budgetPeriod(
+    settings.budget_period ?? "monthly",
+    settings.fiscal_year_start_month ?? 1,
+    now,
+  );
+}
+
+/** "Aug 1 – Oct 31, 2026", the last day inclusive. */
+export function formatBudgetPeriod(period: BudgetPeriod): string {
+  const fmt = (iso: string, year: boolean) =>
+    new Date(iso).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: year ? "numeric" : undefined,
+      timeZone: "UTC",
+    });
+  const last = new Date(Date.parse(period.end) - 86_400_000).toISOString();
+  const sameYear = period.start.slice(0, 4) === last.slice(0, 4);
+  return `${fmt(period.start, !sameYear)} – ${fmt(last, true)}`;
+}
@@ -0,0 +1,124 @@
+/**
+ * Cache what-ifs: a replay of the project's calls through a response cache
+ * keyed on the exact input, and through provider prompt caching of repeated
+ * prefixes, priced with each model's cached input rate from the catalog.
+ * The two stack — prompt caching applies to the calls a response cache misses.
+ */
+
+import type { CacheScope, CacheSimulationRow, ModelPricing } from "@/lib/api";
+
+export const CACHE_SCOPES: {
+  value: CacheScope;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "step",
+    label: "Per step",
+    description: "A call is answered only from the same step's earlier calls.",
+  },
+  {
+    value: "workflow",
+    label: "Per workflow",
+    description: "Any step in the same workflow can answer a call.",
+  },
+  {
+    value: "global",
+    label: "Global",
+    description: "Any earlier call in the project with the same input can.",
+  },
+];
+
+export const CACHE_TTLS: { seconds: number; label: string }[] = [
+  { seconds: 5 * 60, label: "5 min" },
+  { seconds: 60 * 60, label: "1 hour" },
+  { seconds: 24 * 60 * 60, label: "24 hours" },
+  { seconds: 7 * 24 * 60 * 60, label: "7 days" },
+];
+
+export interface CacheSavingsRow extends CacheSimulationRow {
+  /** Catalog cached input price per 1K tokens, or null if none is published. */
+  cached_rate: number | null;
+  /** Saved by billing the repeated prefixes at the cached rate. */
+  prompt_saved: number;
+}
+
+export interface CacheSavings {
+  rows: CacheSavingsRow[];
+  calls: number;
+  hits: number;
+  /** Percent of calls a response cache would have answered. */
+  hit_rate: number;
+  cost: number;
+  response_saved: number;
+  prompt_saved: number;
+  latency_saved_ms: number;
+  /** Models with repeated prefixes but no cached rate in the catalog. */
+  unpriced_models: string[];
+}
+
+/**
+ * Price a cache replay. Amounts are per month, from a window `windowHours`
+ * long; the hit rate is the window's own.
+ */
+export function priceCacheSimulation(
+  rows: CacheSimulationRow[],
+  catalog: ModelPricing[],
+  windowHours: number,
+): CacheSavings {
+  const monthly = windowHours > 0 ? (30 * 24) / windowHours : 0;
+  const byModel = new Map(catalog.map((m) => [m.model_name, m]));
+  const unpriced = new Set<string>();
+  const result: CacheSavings = {
+    rows: [],
+    calls: 0,
+    hits: 0,
+    hit_rate: 0,
+    cost: 0,
+    response_saved: 0,
+    prompt_saved: 0,
+    latency_saved_ms: 0,
+    unpriced_models: [],
+  };
+
+  for (const row of rows) {
+    const pricing = byModel.get(row.model);
+    const cachedRate = pricing?.cached_input ?? null;
+    const promptSaved =
+      pricing && cachedRate != null
+        ? (row.cached_prefix_tokens * Math.max(0, pricing.input - cachedRate)) /
+          1000
+        : 0;
+    if (cachedRate == null && row.cached_prefix_tokens > 0) {
+      unpriced.add(row.model);
+    }
+
+    result.rows.push({
+      ...row,
+      calls: row.calls * monthly,
+      hits: row.hits * monthly,
+      input_tokens: row.input_tokens * monthly,
+      cost: row.cost * monthly,
+      hit_cost: row.hit_cost * monthly,
+      hit_latency_ms: row.hit_latency_ms * monthly,
+      cached_prefix_tokens: row.cached_prefix_tokens * monthly,
+      cached_rate: cachedRate,
+      prompt_saved: promptSaved * monthly,
+    });
+    result.calls += row.calls;
+    result.hits += row.hits;
+    result.cost += row.cost * monthly;
+    result.response_saved += row.hit_cost * monthly;
+    result.prompt_saved += promptSaved * monthly;
+    result.latency_saved_ms += row.hit_latency_ms * monthly;
+  }
+
+  result.hit_rate = result.calls > 0 ? (result.hits / result.calls) * 100 : 0;
+  result.calls *= monthly;
+  result.hits *= monthly;
+  result.unpriced_models = [...unpriced].sort();
+  result.rows.sort(
+    (a, b) => b.hit_cost + b.prompt_saved - (a.hit_cost + a.prompt_saved),
+  );
+  return result;
+}
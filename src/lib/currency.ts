@@ -0,0 +1,104 @@
+/**
+ * The display currency. Amounts arrive in USD and are shown converted at a
+ * single cached rate, which is noted beside the figures it was used for.
+ * The rate lives here rather than in React state so formatCurrency can read
+ * it anywhere; DisplayCurrencyProvider keeps it current and re-renders the
+ * pages below it when it changes.
+ */
+
+import type { CurrencyCode, ExecutiveReport } from "@/lib/api";
+
+export const CURRENCIES: Record<
+  CurrencyCode,
+  { symbol: string; label: string; decimals: number }
+> = {
+  USD: { symbol: "$", label: "US Dollar", decimals: 2 },
+  EUR: { symbol: "€", label: "Euro", decimals: 2 },
+  GBP: { symbol: "£", label: "British Pound", decimals: 2 },
+  INR: { symbol: "₹", label: "Indian Rupee", decimals: 2 },
+  JPY: { symbol: "¥", label: "Japanese Yen", decimals: 0 },
+  CAD: { symbol: "CA$", label: "Canadian Dollar", decimals: 2 },
+  AUD: { symbol: "A$", label: "Australian Dollar", decimals: 2 },
+};
+
+export function isCurrencyCode(code: string): code is CurrencyCode {
+  return code in CURRENCIES;
+}
+
+/** Unknown codes read "CHF 12.00". */
+export function currencySymbol(code: string): string {
+  return isCurrencyCode(code) ? CURRENCIES[code].symbol : `${code} `;
+}
+
+export interface DisplayFx {
+  code: CurrencyCode;
+  /** USD → `code`. */
+  rate: number;
+  /** Day the rate was published; null in USD or when the backend omits it. */
+  as_of: string | null;
+  source: string | null;
+}
+
+export const USD_FX: DisplayFx = {
+  code: "USD",
+  rate: 1,
+  as_of: null,
+  source: null,
+};
+
+let displayFx = USD_FX;
+const listeners = new Set<() => void>();
+
+export function getDisplayFx(): DisplayFx {
+  return displayFx;
+}
+
+export function setDisplayFx(fx: DisplayFx): void {
+  if (fx === displayFx) return;
+  displayFx = fx;
+  listeners.forEach((listener) => listener());
+}
+
+/** For useSyncExternalStore: called after each change of the rate. */
+export function subscribeDisplayFx(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** `usd` in the display currency. */
+export function toDisplayCurrency(usd: number): number {
+  return usd * displayFx.rate;
+}
+
+/** e.g. "1 USD = 0.9234 EUR · ECB, Oct 18, 2026"; null when in USD. */
+export function describeFx(fx: DisplayFx = displayFx): string | null {
+  if (fx.code === "USD") return null;
+  const rate = fx.rate >= 10 ? fx.rate.toFixed(2) : fx.rate.toFixed(4);
+  const when = fx.as_of
+    ? new Date(fx.as_of).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+        timeZone: "UTC",
+      })
+    : null;
+  const origin = [fx.source, when].filter(Boolean).join(", ");
+  return `1 USD = ${rate} ${fx.code}${origin ? ` · ${origin}` : ""}`;
+}
+
+/**
+ * The currency a report's amounts are shown in. One reported in USD follows
+ * the display currency; one the backend already converted (to the budget
+ * currency) stays as it is.
+ */
+export function reportFx(report: Pick<ExecutiveReport, "currency">): DisplayFx {
+  if (report.currency === "USD") return displayFx;
+  return {
+    code: isCurrencyCode(report.currency) ? report.currency : "USD",
+    rate: 1,
+    as_of: null,
+    source: null,
+  };
+}
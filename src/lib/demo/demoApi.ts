@@ -12,27 +12,50 @@ import {
   demoAgentStats,
   demoModelStats,
   demoTimeSeries,
+  demoTimeSeriesBreakdown,
   demoEvents,
   demoEventCount,
+  demoLiveEvent,
+  demoPricing,
   demoOptimizationSuggestions,
   demoOptimizationSummary,
   demoExecutiveReport,
   demoRecommendations,
+  demoRecommendationEffectiveness,
+  demoRecommendationBoard,
+  demoRecommendationActivity,
   demoProject,
   demoProjectList,
   demoBudget,
+  demoFxRate,
+  demoPricingOverrides,
+  setDemoPricingBasis,
   demoMembers,
+  demoSavedViews,
+  demoAlertRules,
+  demoAlertPreview,
   demoProfile,
   demoSessions,
   demoNotifications,
   demoWorkflowStats,
   demoStepStats,
+  demoUsageMix,
   demoToolStats,
   demoRepeatedWork,
+  demoCacheSimulation,
   demoTraces,
+  demoTraceDetail,
   demoRunCostDistribution,
   demoOutcomeStats,
 } from "./demoData";
+import type { AlertRuleInput, Event } from "@/lib/api";
+import {
+  eventFiltersFromParams,
+  countEventFilters,
+  matchesEventFilters,
+  type EventFilters,
+} from "@/lib/eventFilters";
+import { timeRangeHours } from "@/lib/timeRange";
 
 export const DEMO_SIGNUP_PROMPT_EVENT = "demo-signup-prompt";
 
@@ -40,7 +63,10 @@ export const DEMO_SIGNUP_PROMPT_EVENT = "demo-signup-prompt";
 function describeAction(endpoint: string, method: string): string {
   if (endpoint.includes("/optimizations")) return "act on optimizations";
   if (endpoint.includes("/members")) return "invite your team";
+  if (endpoint.includes("/alerts")) return "set up alert rules";
   if (endpoint.includes("/budget")) return "set budgets and alerts";
+  if (endpoint.includes("/pricing-overrides")) return "set contract pricing";
+  if (endpoint.includes("/views")) return "save and share views";
   if (endpoint.includes("/api-key")) return "manage API keys";
   if (endpoint.includes("/feedback")) return "submit feedback";
   if (endpoint.includes("/projects") && method === "POST")
@@ -68,6 +94,39 @@ function param(endpoint: string, key: string): string | null {
   return new URLSearchParams(endpoint.slice(queryIndex + 1)).get(key);
 }
 
+/**
+ * The demo dataset is generated relative to today, so an absolute window is
+ * answered with the preset closest to its length.
+ */
+function rangeParam(endpoint: string): string {
+  const start = param(endpoint, "start");
+  if (!start) return param(endpoint, "range") ?? "7d";
+  const hours = timeRangeHours({
+    start,
+    end: param(endpoint, "end") ?? undefined,
+  });
+  if (hours <= 1) return "1h";
+  if (hours <= 24) return "24h";
+  if (hours <= 7 * 24) return "7d";
+  return hours <= 31 * 24 ? "30d" : "90d";
+}
+
+/** How far before now an absolute window ends, in days. */
+function endDaysAgo(endpoint: string): number {
+  const end = param(endpoint, "end");
+  if (!end || Number.isNaN(Date.parse(end))) return 0;
+  return Math.max(0, (Date.now() - Date.parse(end)) / 86400_000);
+}
+
+function eventFiltersFromQuery(endpoint: string): EventFilters {
+  const queryIndex = endpoint.indexOf("?");
+  return eventFiltersFromParams(
+    new URLSearchParams(
+      queryIndex === -1 ? "" : endpoint.slice(queryIndex + 1),
+    ),
+  );
+}
+
 // In-memory read state so "mark as read" feels alive within the session.
 const readNotificationIds = new Set<string>();
 
@@ -92,6 +151,9 @@ export async function resolveDemoRequest<T>(
   options: RequestInit = {},
 ): Promise<T> {
   await delay();
+  setDemoPricingBasis(
+    param(endpoint, "pricing") === "contract" ? "contract" : "list",
+  );
   const method = (options.method || "GET").toUpperCase();
   const path = endpoint.split("?")[0];
 
@@ -114,6 +176,17 @@ export async function resolveDemoRequest<T>(
   ) {
     return demoOptimizationSuggestions() as T;
   }
+  // Previewing a rule stores nothing; it only replays the demo history.
+  if (
+    method === "POST" &&
+    /^\/v1\/projects\/[^/]+\/alerts\/preview$/.test(path)
+  ) {
+    const { rule, days } = JSON.parse(String(options.body)) as {
+      rule: AlertRuleInput;
+      days?: number;
+    };
+    return demoAlertPreview(rule, days) as T;
+  }
 
   // ── Everything else mutating → conversion prompt ──
   if (method !== "GET") {
@@ -130,67 +203,110 @@ export async function resolveDemoRequest<T>(
   }
 
   if (path === "/v1/analytics/overview") {
-    return demoOverview(param(endpoint, "range") ?? "7d") as T;
+    return demoOverview(rangeParam(endpoint), endDaysAgo(endpoint)) as T;
   }
   if (path === "/v1/analytics/agents") {
+    const agent = param(endpoint, "agent_name");
+    if (agent) {
+      return demoAgentStats(rangeParam(endpoint), Infinity).filter((a) => a.agent_name === agent) as T;
+    }
     return demoAgentStats(
-      param(endpoint, "range") ?? "7d",
+      rangeParam(endpoint),
       Number(param(endpoint, "limit") ?? 10),
     ) as T;
   }
   if (path === "/v1/analytics/models") {
+    const model = param(endpoint, "model");
+    if (model) {
+      return demoModelStats(rangeParam(endpoint), Infinity).filter((m) => m.model === model) as T;
+    }
     return demoModelStats(
-      param(endpoint, "range") ?? "7d",
+      rangeParam(endpoint),
       Number(param(endpoint, "limit") ?? 10),
     ) as T;
   }
   if (path === "/v1/analytics/workflows") {
     return demoWorkflowStats(
-      param(endpoint, "range") ?? "7d",
+      rangeParam(endpoint),
       Number(param(endpoint, "limit") ?? 20),
     ) as T;
   }
   if (path === "/v1/analytics/workflows/steps") {
     return demoStepStats(
-      param(endpoint, "range") ?? "7d",
+      rangeParam(endpoint),
       param(endpoint, "workflow") ?? undefined,
       Number(param(endpoint, "limit") ?? 50),
     ) as T;
   }
+  if (path === "/v1/analytics/usage-mix") {
+    return demoUsageMix(rangeParam(endpoint)) as T;
+  }
   if (path === "/v1/analytics/workflows/tools") {
     return demoToolStats(
-      param(endpoint, "range") ?? "7d",
+      rangeParam(endpoint),
       Number(param(endpoint, "limit") ?? 50),
     ) as T;
   }
   if (path === "/v1/analytics/workflows/repeated-work") {
     return demoRepeatedWork(
-      param(endpoint, "range") ?? "7d",
+      rangeParam(endpoint),
       Number(param(endpoint, "limit") ?? 25),
     ) as T;
   }
+  if (path === "/v1/analytics/workflows/cache-simulation") {
+    return demoCacheSimulation(
+      rangeParam(endpoint),
+      param(endpoint, "scope") ?? "step",
+      Number(param(endpoint, "ttl_seconds") ?? 3600),
+    ) as T;
+  }
   if (path === "/v1/analytics/workflows/outcomes") {
     return demoOutcomeStats(
-      param(endpoint, "range") ?? "7d",
+      rangeParam(endpoint),
       Number(param(endpoint, "limit") ?? 20),
     ) as T;
   }
   if (path === "/v1/analytics/workflows/distribution") {
     return demoRunCostDistribution(
-      param(endpoint, "range") ?? "7d",
+      rangeParam(endpoint),
       param(endpoint, "workflow") ?? undefined,
       Number(param(endpoint, "buckets") ?? 24),
     ) as T;
   }
   if (path === "/v1/analytics/traces") {
-    return demoTraces(
-      param(endpoint, "range") ?? "7d",
-      param(endpoint, "workflow") ?? undefined,
-      Number(param(endpoint, "limit") ?? 50),
+    const minCost = param(endpoint, "min_cost");
+    return demoTraces(rangeParam(endpoint), {
+      workflow: param(endpoint, "workflow") ?? undefined,
+      minCost: minCost != null ? Number(minCost) : undefined,
+      sort: param(endpoint, "sort") ?? undefined,
+      order: param(endpoint, "order") ?? undefined,
+      limit: Number(param(endpoint, "limit") ?? 50),
+      offset: Number(param(endpoint, "offset") ?? 0),
+    }) as T;
+  }
+  if (path.startsWith("/v1/analytics/traces/")) {
+    return demoTraceDetail(
+      decodeURIComponent(path.slice("/v1/analytics/traces/".length)),
     ) as T;
   }
   if (path === "/v1/analytics/timeseries") {
-    return demoTimeSeries(param(endpoint, "range") ?? "7d") as T;
+    return demoTimeSeries(rangeParam(endpoint), endDaysAgo(endpoint)) as T;
+  }
+  if (path === "/v1/analytics/timeseries/breakdown") {
+    const start = param(endpoint, "start");
+    const hours = start
+      ? timeRangeHours({ start, end: param(endpoint, "end") ?? undefined })
+      : timeRangeHours(param(endpoint, "range") ?? "7d");
+    const bucket =
+      param(endpoint, "bucket") === "hour" ||
+      (!param(endpoint, "bucket") && hours <= 24)
+        ? "hour"
+        : "day";
+    return demoTimeSeriesBreakdown(
+      bucket,
+      Math.max(1, Math.round(bucket === "hour" ? hours : hours / 24)),
+      endDaysAgo(endpoint),
+    ) as T;
   }
   if (path === "/v1/analytics/report") {
     return demoExecutiveReport({
@@ -212,19 +328,38 @@ export async function resolveDemoRequest<T>(
   }
 
   if (path === "/v1/events/count") {
-    return { count: demoEventCount() } as T;
+    const filters = eventFiltersFromQuery(endpoint);
+    // Unfiltered, the count matches the overview rather than the sample.
+    if (countEventFilters(filters) === 0) {
+      return { count: demoEventCount() } as T;
+    }
+    const events = demoEvents().filter((e) => matchesEventFilters(e, filters));
+    return { count: events.length } as T;
+  }
+  if (path === "/v1/events/distinct") {
+    const events = demoEvents();
+    const distinct = (values: (string | null | undefined)[]) =>
+      [...new Set(values.filter((v): v is string => !!v))].sort();
+    return {
+      agents: distinct(events.map((e) => e.agent_name)),
+      models: distinct(events.map((e) => e.model)),
+      workflows: distinct(events.map((e) => e.workflow)),
+      steps: distinct(events.map((e) => e.step_name)),
+      tools: distinct(events.map((e) => e.tool_name)),
+    } as T;
   }
   if (path === "/v1/events") {
     const limit = Number(param(endpoint, "limit") ?? 100);
     const offset = Number(param(endpoint, "offset") ?? 0);
-    const agentName = param(endpoint, "agent_name");
-    const model = param(endpoint, "model");
-    let events = demoEvents();
-    if (agentName) events = events.filter((e) => e.agent_name === agentName);
-    if (model) events = events.filter((e) => e.model === model);
+    const filters = eventFiltersFromQuery(endpoint);
+    const events = demoEvents().filter((e) => matchesEventFilters(e, filters));
     return events.slice(offset, offset + limit) as T;
   }
 
+  if (path === "/v1/pricing") {
+    return demoPricing() as T;
+  }
+
   if (path === "/v1/optimizations") {
     return demoOptimizationSuggestions() as T;
   }
@@ -234,19 +369,14 @@ export async function resolveDemoRequest<T>(
   if (path === "/v1/optimizations/recommendations") {
     return demoRecommendations() as T;
   }
+  if (path === "/v1/optimizations/recommendations/board") {
+    return demoRecommendationBoard() as T;
+  }
+  if (/^\/v1\/optimizations\/recommendations\/[^/]+\/activity$/.test(path)) {
+    return demoRecommendationActivity(path.split("/")[4]) as T;
+  }
   if (path === "/v1/optimizations/recommendations/effectiveness") {
-    const e = demoOptimizationSummary().effectiveness!;
-    return {
-      total_recommendations: e.total_recommendations,
-      implemented: e.implemented,
-      dismissed: e.dismissed,
-      pending: e.pending,
-      expired: e.expired,
-      implementation_rate: e.implementation_rate,
-      total_estimated_savings: e.estimated_savings_total,
-      total_actual_savings: e.actual_savings_total,
-      savings_accuracy: e.accuracy_percent,
-    } as T;
+    return demoRecommendationEffectiveness() as T;
   }
 
   if (path === "/v1/projects/me") {
@@ -265,17 +395,21 @@ export async function resolveDemoRequest<T>(
     const members = demoMembers();
     return { members, total: members.length } as T;
   }
+  if (/^\/v1\/projects\/[^/]+\/views$/.test(path)) {
+    return { views: demoSavedViews() } as T;
+  }
+  if (/^\/v1\/projects\/[^/]+\/alerts$/.test(path)) {
+    return { rules: demoAlertRules() } as T;
+  }
+  if (/^\/v1\/projects\/[^/]+\/pricing-overrides$/.test(path)) {
+    return demoPricingOverrides() as T;
+  }
   if (/^\/v1\/projects\/[^/]+$/.test(path)) {
     return demoProject() as T;
   }
 
   if (path === "/v1/currency/rate") {
-    return {
-      base: "USD",
-      target: param(endpoint, "target") ?? "USD",
-      rate: 1,
-      source: "demo",
-    } as T;
+    return demoFxRate(param(endpoint, "target") ?? "USD") as T;
   }
 
   if (path === "/v1/auth/me") {
@@ -312,3 +446,22 @@ export async function resolveDemoRequest<T>(
   console.warn(`[demo] Unhandled demo endpoint: ${method} ${endpoint}`);
   return {} as T;
 }
+
+/**
+ * Stand-in for /v1/events/stream: a new call every one to four seconds, so
+ * the Events page live tail has something to show. Returns a stop function.
+ */
+export function startDemoEventStream(
+  filters: EventFilters,
+  onEvent: (event: Event) => void,
+): () => void {
+  let seq = 0;
+  let timer: ReturnType<typeof setTimeout>;
+  const tick = () => {
+    const event = demoLiveEvent(seq++, filters);
+    if (event && matchesEventFilters(event, filters)) onEvent(event);
+    timer = setTimeout(tick, 1000 + Math.random() * 3000);
+  };
+  timer = setTimeout(tick, 800);
+  return () => clearTimeout(timer);
+}
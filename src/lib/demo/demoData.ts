@@ -15,14 +15,34 @@ import type {
   AgentStats,
   ModelStats,
   TimeSeriesPoint,
+  TimeSeriesBreakdownPoint,
   Event,
   OptimizationSuggestion,
   OptimizationSummary,
   Recommendation,
+  RecommendationActivity,
+  RecommendationPerson,
+  RecommendationStatus,
   ProjectInfo,
   ProjectListItem,
   ProjectMember,
   ProjectBudgetSettings,
+  FxRate,
+  PricingBasis,
+  PricingOverride,
+  RecommendationEffectiveness,
+  RecommendationOutcome,
+  UsageMixRow,
+  BudgetScope,
+  SubBudget,
+  SubBudgetInput,
+  SavedView,
+  AlertFiring,
+  AlertMetric,
+  AlertPreview,
+  AlertRule,
+  AlertRuleInput,
+  AlertScope,
   NotificationListResponse,
   UserProfile,
   SessionInfo,
@@ -32,10 +52,20 @@ import type {
   StepStats,
   ToolStats,
   RepeatedWorkFinding,
+  CacheSimulationRow,
   TraceSummary,
+  TraceDetail,
   RunCostDistribution,
   OutcomeStats,
 } from "@/lib/api";
+import { formatDate } from "@/lib/utils";
+import { budgetPeriod } from "@/lib/budgetPeriod";
+import { overrideOn } from "@/lib/pricing";
+import {
+  crossesThreshold,
+  describeAlertRule,
+  formatAlertValue,
+} from "@/lib/alerts";
 
 export const DEMO_PROJECT_ID = "demo-project";
 export const DEMO_PROJECT_NAME = "NovaDesk AI — Production";
@@ -59,6 +89,15 @@ const PRICING: Record<string, [number, number]> = {
   "claude-opus-4-1": [15.0, 75.0],
 };
 
+/** USD per 1M cached input tokens — what a prompt-cache read is billed at. */
+const CACHED_INPUT: Record<string, number> = {
+  "gpt-4o": 1.25,
+  "gpt-4o-mini": 0.075,
+  "gpt-4.1": 0.5,
+  "claude-sonnet-4-5": 0.3,
+  "claude-opus-4-1": 1.5,
+};
+
 interface AgentProfile {
   name: string;
   model: string;
@@ -79,8 +118,76 @@ const AGENTS: AgentProfile[] = [
   { name: "sentiment-classifier", model: "gpt-4o", callsPerDay: 5500, inTokens: 280, outTokens: 12, avgLatencyMs: 340, errorRate: 0.004 },
 ];
 
-function perCallCost(p: AgentProfile): number {
-  const [inP, outP] = PRICING[p.model];
+/**
+ * The demo's contract: a negotiated rate on its busiest model, a discount on
+ * Sonnet for a fixed term, and an Opus deal that hasn't started. Dated from
+ * today, so it stays current. Rates per 1K tokens, like the real API.
+ */
+function demoOverrideList(): PricingOverride[] {
+  const day = (offset: number) =>
+    new Date(Date.now() + offset * 86400_000).toISOString().slice(0, 10);
+  return [
+    {
+      id: "demo-override-1",
+      model: "gpt-4o",
+      input: 0.002,
+      output: 0.008,
+      cached_input: 0.001,
+      effective_from: day(-400),
+      effective_to: null,
+      note: "Enterprise agreement",
+      created_at: `${day(-400)}T09:00:00Z`,
+    },
+    {
+      id: "demo-override-2",
+      model: "claude-sonnet-4-5",
+      input: 0.00255,
+      output: 0.01275,
+      cached_input: null,
+      effective_from: day(-200),
+      effective_to: day(165),
+      note: "Committed-use discount, 12 months",
+      created_at: `${day(-200)}T09:00:00Z`,
+    },
+    {
+      id: "demo-override-3",
+      model: "claude-opus-4-1",
+      input: 0.012,
+      output: 0.06,
+      cached_input: null,
+      effective_from: day(20),
+      effective_to: null,
+      note: "Signed, starts next billing cycle",
+      created_at: `${day(-5)}T09:00:00Z`,
+    },
+  ];
+}
+
+export function demoPricingOverrides(): { overrides: PricingOverride[] } {
+  return { overrides: demoOverrideList() };
+}
+
+/** Prices the response being generated is at; the resolver sets it per request. */
+let pricingBasis: PricingBasis = "list";
+
+export function setDemoPricingBasis(basis: PricingBasis): void {
+  pricingBasis = basis;
+}
+
+/**
+ * USD per 1M tokens (input, output) for `model`, at the contract rate when
+ * that's asked for and in force today.
+ */
+function rates(model: string, basis = pricingBasis): [number, number] {
+  if (basis === "contract") {
+    const o = overrideOn(demoOverrideList(), model, new Date());
+    if (o) return [o.input * 1000, o.output * 1000];
+  }
+  return PRICING[model];
+}
+
+function perCallCost(p: AgentProfile, basis = pricingBasis): number {
+  const [inP, outP] = rates(p.model, basis);
   return (p.inTokens * inP + p.outTokens * outP) / 1_000_000;
 }
 
@@ -105,14 +212,45 @@ function dayMultiplier(daysAgo: number): number {
   return weekend * trend * wobble;
 }
 
+/**
+ * Seeded incidents for the Anomalies panel: an agent running at `factor`
+ * times its usual volume for one day, or (on hourly charts) one hour.
+ * Only the time series carry them; the window totals stay on the profiles.
+ */
+const DAY_SPIKES = [
+  { agent: "code-review-agent", daysAgo: 3, factor: 6 },
+  { agent: "research-agent", daysAgo: 9, factor: 4.4 },
+  { agent: "faq-bot", daysAgo: 23, factor: 2.6 },
+];
+const HOUR_SPIKES = [{ agent: "research-agent", hoursAgo: 9, factor: 4.4 }];
+
+function daySpike(agent: AgentProfile, daysAgo: number): number {
+  return (
+    DAY_SPIKES.find((s) => s.agent === agent.name && s.daysAgo === daysAgo)
+      ?.factor ?? 1
+  );
+}
+
+function hourSpike(agent: AgentProfile, hoursAgo: number): number {
+  return (
+    HOUR_SPIKES.find((s) => s.agent === agent.name && s.hoursAgo === hoursAgo)
+      ?.factor ?? 1
+  );
+}
+
 // ── Analytics ─────────────────────────────────────────────────────────────
 
-export function demoOverview(range: string): AnalyticsOverview {
+/** `endDaysAgo` shifts the window into the past, for absolute windows. */
+export function demoOverview(
+  range: string,
+  endDaysAgo: number = 0,
+): AnalyticsOverview {
   const days = rangeToDays(range);
+  const end = Math.round(endDaysAgo);
   let mult = 0;
-  for (let d = 0; d < days; d++) mult += dayMultiplier(d);
-  if (range === "1h") mult = dayMultiplier(0) / 24;
-  if (range === "24h") mult = dayMultiplier(0);
+  for (let d = end; d < end + days; d++) mult += dayMultiplier(d);
+  if (range === "1h") mult = dayMultiplier(end) / 24;
+  if (range === "24h") mult = dayMultiplier(end);
 
   let cost = 0, calls = 0, inTok = 0, outTok = 0, latWeighted = 0, errWeighted = 0;
   for (const p of AGENTS) {
@@ -193,38 +331,103 @@ export function demoModelStats(range: string, limit: number): ModelStats[] {
     .slice(0, limit);
 }
 
-export function demoTimeSeries(range: string): TimeSeriesPoint[] {
+/** `endDaysAgo` shifts the window into the past, as in demoOverview. */
+export function demoTimeSeries(
+  range: string,
+  endDaysAgo: number = 0,
+): TimeSeriesPoint[] {
   const days = rangeToDays(range);
+  const end = Math.round(endDaysAgo);
   const points: TimeSeriesPoint[] = [];
 
   if (range === "1h" || range === "24h") {
     // Hourly points with a day/night traffic curve.
     const hours = range === "1h" ? 1 : 24;
-    const now = new Date();
+    const until = Date.now() - endDaysAgo * 86400_000;
     for (let h = hours - 1; h >= 0; h--) {
-      const ts = new Date(now.getTime() - h * 3600_000);
-      const hourOfDay = ts.getHours();
-      const curve = 0.45 + 0.55 * Math.sin((Math.PI * (hourOfDay - 4)) / 20) ** 2;
-      const rand = mulberry32(hourOfDay * 31 + 17)();
-      const mult = (dayMultiplier(0) / 24) * curve * (0.85 + rand * 0.3) * 1.6;
-      points.push(buildPoint(ts, mult));
+      const ts = new Date(until - h * 3600_000);
+      const hoursAgo = h + Math.round(endDaysAgo * 24);
+      points.push(
+        buildPoint(ts, hourMultiplier(ts, end), (p) => hourSpike(p, hoursAgo)),
+      );
     }
     return points;
   }
 
-  for (let d = days - 1; d >= 0; d--) {
+  for (let d = end + days - 1; d >= end; d--) {
     const ts = new Date();
     ts.setDate(ts.getDate() - d);
     ts.setHours(0, 0, 0, 0);
-    points.push(buildPoint(ts, dayMultiplier(d)));
+    points.push(buildPoint(ts, dayMultiplier(d), (p) => daySpike(p, d)));
   }
   return points;
 }
 
-function buildPoint(ts: Date, mult: number): TimeSeriesPoint {
+/** Share of a day's traffic in the hour starting at `ts`: a day/night curve. */
+function hourMultiplier(ts: Date, daysAgo: number): number {
+  const hourOfDay = ts.getHours();
+  const curve = 0.45 + 0.55 * Math.sin((Math.PI * (hourOfDay - 4)) / 20) ** 2;
+  const rand = mulberry32(hourOfDay * 31 + 17)();
+  return (dayMultiplier(daysAgo) / 24) * curve * (0.85 + rand * 0.3) * 1.6;
+}
+
+/**
+ * The time series split per agent, on the same buckets as demoTimeSeries so
+ * the cells add up to its points. `count` buckets, the last one ending
+ * `endDaysAgo` days before now.
+ */
+export function demoTimeSeriesBreakdown(
+  bucket: "hour" | "day",
+  count: number,
+  endDaysAgo: number = 0,
+): TimeSeriesBreakdownPoint[] {
+  const end = Math.round(endDaysAgo);
+  const cells: TimeSeriesBreakdownPoint[] = [];
+  const push = (ts: Date, mult: number, spike: (p: AgentProfile) => number) => {
+    for (const p of AGENTS) {
+      const c = p.callsPerDay * mult * spike(p);
+      cells.push({
+        timestamp: ts.toISOString(),
+        agent_name: p.name,
+        model: p.model,
+        workflow:
+          Object.keys(WORKFLOW_AGENT).find(
+            (w) => WORKFLOW_AGENT[w] === p.name,
+          ) ?? null,
+        cost: round2(c * perCallCost(p)),
+        calls: Math.round(c),
+        tokens: Math.round(c * (p.inTokens + p.outTokens)),
+      });
+    }
+  };
+
+  if (bucket === "hour") {
+    const until = Date.now() - endDaysAgo * 86400_000;
+    for (let h = count - 1; h >= 0; h--) {
+      const ts = new Date(until - h * 3600_000);
+      const hoursAgo = h + Math.round(endDaysAgo * 24);
+      push(ts, hourMultiplier(ts, end), (p) => hourSpike(p, hoursAgo));
+    }
+    return cells;
+  }
+
+  for (let d = end + count - 1; d >= end; d--) {
+    const ts = new Date();
+    ts.setDate(ts.getDate() - d);
+    ts.setHours(0, 0, 0, 0);
+    push(ts, dayMultiplier(d), (p) => daySpike(p, d));
+  }
+  return cells;
+}
+
+function buildPoint(
+  ts: Date,
+  mult: number,
+  spike: (p: AgentProfile) => number = () => 1,
+): TimeSeriesPoint {
   let cost = 0, calls = 0, tokens = 0;
   for (const p of AGENTS) {
-    const c = p.callsPerDay * mult;
+    const c = p.callsPerDay * mult * spike(p);
     calls += c;
     cost += c * perCallCost(p);
     tokens += c * (p.inTokens + p.outTokens);
@@ -274,55 +477,128 @@ function traceFieldsFor(
   };
 }
 
+/** An agent picked in proportion to its call volume. */
+function pickAgent(rand: () => number, agents: AgentProfile[]): AgentProfile {
+  const total = agents.reduce((s, p) => s + p.callsPerDay, 0);
+  let pick = rand() * total;
+  for (const p of agents) {
+    pick -= p.callsPerDay;
+    if (pick <= 0) return p;
+  }
+  return agents[0];
+}
+
+function buildEvent(
+  index: number,
+  id: string,
+  profile: AgentProfile,
+  timestamp: Date,
+  rand: () => number,
+): Event {
+  const inTok = Math.max(20, Math.round(profile.inTokens * (0.6 + rand() * 0.8)));
+  const outTok = Math.max(5, Math.round(profile.outTokens * (0.6 + rand() * 0.8)));
+  const [inP, outP] = rates(profile.model);
+  const failed = rand() < profile.errorRate * 2; // slightly over-sample errors so they're visible
+  return {
+    id,
+    project_id: DEMO_PROJECT_ID,
+    agent_name: profile.name,
+    model: profile.model,
+    input_tokens: inTok,
+    output_tokens: failed ? 0 : outTok,
+    total_tokens: inTok + (failed ? 0 : outTok),
+    cost: failed ? 0 : (inTok * inP + outTok * outP) / 1_000_000,
+    latency_ms: Math.round(profile.avgLatencyMs * (0.5 + rand() * 1.4)),
+    timestamp: timestamp.toISOString(),
+    success: !failed,
+    error: failed ? SAMPLE_ERRORS[Math.floor(rand() * SAMPLE_ERRORS.length)] : null,
+    ...traceFieldsFor(profile.name, index, rand),
+  };
+}
+
 export function demoEvents(): Event[] {
   if (eventCache) return eventCache;
   const rand = mulberry32(424242);
   const events: Event[] = [];
   const now = Date.now();
-  const totalPerDay = AGENTS.reduce((s, p) => s + p.callsPerDay, 0);
 
   for (let i = 0; i < 480; i++) {
-    // Pick an agent weighted by call volume.
-    let pick = rand() * totalPerDay;
-    let profile = AGENTS[0];
-    for (const p of AGENTS) {
-      pick -= p.callsPerDay;
-      if (pick <= 0) {
-        profile = p;
-        break;
-      }
-    }
+    const profile = pickAgent(rand, AGENTS);
     const ageMs = Math.floor(rand() * 48 * 3600_000 * (0.3 + 0.7 * rand()));
-    const inTok = Math.max(20, Math.round(profile.inTokens * (0.6 + rand() * 0.8)));
-    const outTok = Math.max(5, Math.round(profile.outTokens * (0.6 + rand() * 0.8)));
-    const [inP, outP] = PRICING[profile.model];
-    const failed = rand() < profile.errorRate * 2; // slightly over-sample errors so they're visible
-    events.push({
-      id: `demo-evt-${i.toString().padStart(4, "0")}`,
-      project_id: DEMO_PROJECT_ID,
-      agent_name: profile.name,
-      model: profile.model,
-      input_tokens: inTok,
-      output_tokens: failed ? 0 : outTok,
-      total_tokens: inTok + (failed ? 0 : outTok),
-      cost: failed ? 0 : (inTok * inP + outTok * outP) / 1_000_000,
-      latency_ms: Math.round(profile.avgLatencyMs * (0.5 + rand() * 1.4)),
-      timestamp: new Date(now - ageMs).toISOString(),
-      success: !failed,
-      error: failed ? SAMPLE_ERRORS[Math.floor(rand() * SAMPLE_ERRORS.length)] : null,
-      ...traceFieldsFor(profile.name, i, rand),
-    });
+    events.push(
+      buildEvent(
+        i,
+        `demo-evt-${i.toString().padStart(4, "0")}`,
+        profile,
+        new Date(now - ageMs),
+        rand,
+      ),
+    );
   }
   events.sort((a, b) => (a.timestamp < b.timestamp ? 1 : -1));
   eventCache = events;
   return events;
 }
 
+/**
+ * The `seq`th call of the live tail, stamped now. Only agents matching the
+ * filters are drawn, so a filtered stream still ticks; null when none match.
+ */
+export function demoLiveEvent(
+  seq: number,
+  filters: { agentName?: string; model?: string },
+): Event | null {
+  const agents = AGENTS.filter(
+    (p) =>
+      (!filters.agentName || p.name === filters.agentName) &&
+      (!filters.model || p.model === filters.model),
+  );
+  if (agents.length === 0) return null;
+  const rand = mulberry32(0x11fe + seq);
+  const profile = pickAgent(rand, agents);
+  return buildEvent(
+    480 + seq,
+    `demo-live-${Date.now()}-${seq}`,
+    profile,
+    new Date(),
+    rand,
+  );
+}
+
 export function demoEventCount(): number {
   // Matches the 30-day overview scale, not just the 480 in the sample log.
   return demoOverview("30d").total_calls;
 }
 
+/** The /v1/pricing payload for the demo models, per 1K like the real one. */
+export function demoPricing(): {
+  pricing: Record<
+    string,
+    {
+      input: number;
+      output: number;
+      provider: string;
+      cached_input: number | null;
+      mode: string;
+    }
+  >;
+} {
+  return {
+    pricing: Object.fromEntries(
+      Object.entries(PRICING).map(([model, [inP, outP]]) => [
+        model,
+        {
+          input: inP / 1000,
+          output: outP / 1000,
+          provider: model.startsWith("claude") ? "anthropic" : "openai",
+          cached_input: model in CACHED_INPUT ? CACHED_INPUT[model] / 1000 : null,
+          mode: "chat",
+        },
+      ]),
+    ),
+  };
+}
+
 // ── Optimizations (the proof moment) ─────────────────────────────────────
 
 export function demoOptimizationSuggestions(): OptimizationSuggestion[] {
@@ -477,6 +753,7 @@ export function demoOptimizationSummary(): OptimizationSummary {
     0,
   );
   const spend = demoOverview("30d").total_cost;
+  const effectiveness = demoRecommendationEffectiveness();
   const byType: Record<string, { count: number; savings: number }> = {};
   for (const s of suggestions) {
     byType[s.type] = byType[s.type] ?? { count: 0, savings: 0 };
@@ -493,15 +770,15 @@ export function demoOptimizationSummary(): OptimizationSummary {
     high_priority_count: suggestions.filter((s) => s.priority === "high").length,
     by_type: byType,
     effectiveness: {
-      total_recommendations: 11,
-      implemented: 3,
-      dismissed: 2,
-      pending: 4,
-      expired: 2,
-      implementation_rate: 27.3,
-      estimated_savings_total: 612.4,
-      actual_savings_total: 559.1,
-      accuracy_percent: 91.3,
+      total_recommendations: effectiveness.total_recommendations,
+      implemented: effectiveness.implemented,
+      dismissed: effectiveness.dismissed,
+      pending: effectiveness.pending,
+      expired: effectiveness.expired,
+      implementation_rate: effectiveness.implementation_rate,
+      estimated_savings_total: effectiveness.total_estimated_savings,
+      actual_savings_total: effectiveness.total_actual_savings,
+      accuracy_percent: effectiveness.savings_accuracy,
     },
     suggestions,
     has_data: true,
@@ -528,8 +805,318 @@ export function demoRecommendations(): Recommendation[] {
   }));
 }
 
+/**
+ * Changes NovaDesk already made: two that have been measured for weeks, and
+ * one still in its first week. `realised` is the share of the estimate the
+ * change actually saves.
+ */
+const IMPLEMENTED_RECOMMENDATIONS: {
+  id: string;
+  type: string;
+  title: string;
+  agent: string;
+  model: string;
+  alternative: string | null;
+  daysAgo: number;
+  /** Share of the agent's spend the recommendation expected to save. */
+  cut: number;
+  realised: number;
+}[] = [
+  {
+    id: "demo-rec-impl-1",
+    type: "model_downgrade",
+    title: "Switch email-drafter to GPT-4o-mini",
+    agent: "email-drafter",
+    model: "gpt-4o",
+    alternative: "gpt-4o-mini",
+    daysAgo: 38,
+    cut: 0.94,
+    realised: 0.97,
+  },
+  {
+    id: "demo-rec-impl-2",
+    type: "caching",
+    title: "Cache report-writer's repeated section prompts",
+    agent: "report-writer",
+    model: "gpt-4.1",
+    alternative: null,
+    daysAgo: 24,
+    cut: 0.3,
+    realised: 0.78,
+  },
+  {
+    id: "demo-rec-impl-3",
+    type: "token_reduction",
+    title: "Trim research-agent's system prompt",
+    agent: "research-agent",
+    model: "claude-sonnet-4-5",
+    alternative: null,
+    daysAgo: 5,
+    cut: 0.18,
+    realised: 0.9,
+  },
+];
+
+/** Days of data before actual savings are reported. */
+const MEASURE_DAYS = 7;
+
+function savingsAccuracy(estimated: number, actual: number): number {
+  return round1(Math.max(0, 100 - (100 * Math.abs(actual - estimated)) / estimated));
+}
+
+function demoRecommendationOutcome(
+  rec: (typeof IMPLEMENTED_RECOMMENDATIONS)[number],
+): RecommendationOutcome {
+  const profile = AGENTS.find((a) => a.name === rec.agent)!;
+  // The scope's cost per day before the change, on the model it used then.
+  const [inP, outP] = rates(rec.model);
+  const before =
+    (profile.callsPerDay * (profile.inTokens * inP + profile.outTokens * outP)) /
+    1_000_000;
+  const estimatedDaily = before * rec.cut;
+  const rand = mulberry32(hashSeed(rec.id));
+  const daily: RecommendationOutcome["daily"] = [];
+  let saved = 0;
+  for (let d = rec.daysAgo + 14; d >= 0; d--) {
+    const traffic = 0.88 + rand() * 0.24;
+    const baseline = before * traffic;
+    const after = d < rec.daysAgo;
+    const cost = after
+      ? baseline - estimatedDaily * rec.realised * traffic
+      : baseline;
+    if (after) saved += baseline - cost;
+    daily.push({
+      date: new Date(Date.now() - d * 86400_000).toISOString().slice(0, 10),
+      cost: round2(cost),
+      baseline_cost: after ? round2(baseline) : null,
+    });
+  }
+  const measured = rec.daysAgo >= MEASURE_DAYS;
+  const estimated = round2(estimatedDaily * 30);
+  const actual = measured ? round2((saved / rec.daysAgo) * 30) : null;
+  return {
+    recommendation_id: rec.id,
+    type: rec.type,
+    title: rec.title,
+    agent_name: rec.agent,
+    model: rec.model,
+    alternative_model: rec.alternative,
+    implemented_at: new Date(Date.now() - rec.daysAgo * 86400_000).toISOString(),
+    estimated_monthly_savings: estimated,
+    actual_monthly_savings: actual,
+    accuracy: actual != null ? savingsAccuracy(estimated, actual) : null,
+    daily,
+  };
+}
+
+export function demoRecommendationEffectiveness(): RecommendationEffectiveness {
+  const recommendations = IMPLEMENTED_RECOMMENDATIONS.map(
+    demoRecommendationOutcome,
+  );
+  const measured = recommendations.filter(
+    (r) => r.actual_monthly_savings != null,
+  );
+  const estimated = measured.reduce((s, r) => s + r.estimated_monthly_savings, 0);
+  const actual = measured.reduce((s, r) => s + r.actual_monthly_savings!, 0);
+  const types = [...new Set(recommendations.map((r) => r.type))];
+  const total = 11;
+  return {
+    total_recommendations: total,
+    implemented: recommendations.length,
+    dismissed: 2,
+    pending: 5,
+    expired: 1,
+    implementation_rate: round1((100 * recommendations.length) / total),
+    total_estimated_savings: round2(estimated),
+    total_actual_savings: round2(actual),
+    savings_accuracy: savingsAccuracy(estimated, actual),
+    by_type: types.map((type) => {
+      const all = recommendations.filter((r) => r.type === type);
+      const done = all.filter((r) => r.actual_monthly_savings != null);
+      const e = done.reduce((s, r) => s + r.estimated_monthly_savings, 0);
+      const a = done.reduce((s, r) => s + r.actual_monthly_savings!, 0);
+      return {
+        type,
+        implemented: all.length,
+        measured: done.length,
+        estimated_savings: round2(e),
+        actual_savings: round2(a),
+        accuracy: done.length > 0 ? savingsAccuracy(e, a) : null,
+      };
+    }),
+    recommendations: recommendations.sort((a, b) =>
+      b.implemented_at.localeCompare(a.implemented_at),
+    ),
+  };
+}
+
+/**
+ * Where NovaDesk's open recommendations are on the board, keyed by id, and
+ * the two it dismissed. `by` is a demo member's user id.
+ */
+const BOARD_STATE: Record<
+  string,
+  {
+    status: RecommendationStatus;
+    assignee?: string;
+    movedDaysAgo: number;
+    snoozeDays?: number;
+    comments: { by: string; daysAgo: number; text: string }[];
+  }
+> = {
+  "demo-rec-1": {
+    status: "investigating",
+    assignee: "demo-user-2",
+    movedDaysAgo: 0.6,
+    comments: [
+      { by: "demo-user-2", daysAgo: 0.5, text: "Labelled 500 of its calls: positive / negative / neutral every time. A fine-tuned classifier should do." },
+    ],
+  },
+  "demo-rec-2": {
+    status: "in_progress",
+    assignee: "demo-user",
+    movedDaysAgo: 1.2,
+    comments: [
+      { by: "demo-user-3", daysAgo: 1.6, text: "Ran last week's PRs through Sonnet 4.5 — it caught 41 of the 43 issues Opus did." },
+      { by: "demo-user", daysAgo: 1.2, text: "Good enough. Shipping it behind a flag for the frontend repos first." },
+    ],
+  },
+  "demo-rec-4": {
+    status: "snoozed",
+    assignee: "demo-user-3",
+    movedDaysAgo: 2,
+    snoozeDays: 9,
+    comments: [
+      { by: "demo-user-3", daysAgo: 2, text: "The help centre is being rewritten this sprint; caching answers now would serve stale ones. Picking it up after." },
+    ],
+  },
+  "demo-rec-5": { status: "new", assignee: "demo-user-2", movedDaysAgo: 0.2, comments: [] },
+};
+
+/** Recommendations NovaDesk turned down, with the reason it gave. */
+const DISMISSED_RECOMMENDATIONS = [
+  { id: "demo-rec-dismissed-1", type: "model_downgrade", title: "Switch research-agent to GPT-4o-mini", agent: "research-agent", model: "claude-sonnet-4-5", alternative: "gpt-4o-mini", savings: 318.4, percent: 71, daysAgo: 12, by: "demo-user-2", feedback: "Tried it on ten briefs: it dropped half the citations. Not worth it." },
+  { id: "demo-rec-dismissed-2", type: "batching", title: "Batch email-drafter's overnight digests", agent: "email-drafter", model: "gpt-4o-mini", alternative: null, savings: 9.6, percent: 12, daysAgo: 19, by: "demo-user", feedback: "Too small to be worth the latency." },
+];
+
+function demoPerson(userId: string | undefined): RecommendationPerson | null {
+  const member = demoMembers().find((m) => m.user_id === userId);
+  return member
+    ? { user_id: member.user_id, name: member.name, email: member.email }
+    : null;
+}
+
+export function demoRecommendationBoard(): Recommendation[] {
+  const ago = (days: number) => new Date(Date.now() - days * 86400_000).toISOString();
+  const open = demoRecommendations().map((r) => {
+    const state = BOARD_STATE[r.id];
+    return {
+      ...r,
+      status: state?.status ?? "new",
+      assignee: demoPerson(state?.assignee),
+      snoozed_until: state?.snoozeDays ? ago(-state.snoozeDays) : null,
+      comment_count: state?.comments.length ?? 0,
+      updated_at: state ? ago(state.movedDaysAgo) : r.created_at,
+    };
+  });
+  const implemented = IMPLEMENTED_RECOMMENDATIONS.map((rec) => {
+    const outcome = demoRecommendationOutcome(rec);
+    return {
+      id: rec.id,
+      type: rec.type,
+      title: rec.title,
+      description: `Implemented ${formatDate(outcome.implemented_at)}; see Recommendation Effectiveness for what it saved.`,
+      agent_name: rec.agent,
+      model: rec.model,
+      alternative_model: rec.alternative,
+      estimated_monthly_savings: outcome.estimated_monthly_savings,
+      estimated_savings_percent: round1(rec.cut * 100),
+      created_at: ago(rec.daysAgo + 6),
+      expires_at: ago(rec.daysAgo - 8),
+      status: "implemented" as const,
+      assignee: demoPerson(rec.daysAgo > 20 ? "demo-user-2" : "demo-user"),
+      snoozed_until: null,
+      comment_count: 0,
+      updated_at: outcome.implemented_at,
+    };
+  });
+  const dismissed = DISMISSED_RECOMMENDATIONS.map((rec) => ({
+    id: rec.id,
+    type: rec.type,
+    title: rec.title,
+    description: `Dismissed: "${rec.feedback}"`,
+    agent_name: rec.agent,
+    model: rec.model,
+    alternative_model: rec.alternative,
+    estimated_monthly_savings: rec.savings,
+    estimated_savings_percent: rec.percent,
+    created_at: ago(rec.daysAgo + 3),
+    expires_at: ago(rec.daysAgo - 11),
+    status: "dismissed" as const,
+    assignee: demoPerson(rec.by),
+    snoozed_until: null,
+    comment_count: 0,
+    updated_at: ago(rec.daysAgo),
+  }));
+  return [...open, ...implemented, ...dismissed];
+}
+
+/** A recommendation's history, rebuilt from the board state above. */
+export function demoRecommendationActivity(id: string): RecommendationActivity[] {
+  const rec = demoRecommendationBoard().find((r) => r.id === id);
+  if (!rec) return [];
+  const at = (days: number) => new Date(Date.now() - days * 86400_000).toISOString();
+  const daysAgo = (iso: string) => (Date.now() - Date.parse(iso)) / 86400_000;
+  const created = daysAgo(rec.created_at);
+  const moved = daysAgo(rec.updated_at ?? rec.created_at);
+  const entries: RecommendationActivity[] = [
+    { id: `${id}-created`, at: rec.created_at, actor: null, kind: "created", to_status: "new" },
+  ];
+  if (rec.assignee) {
+    entries.push({
+      id: `${id}-assigned`,
+      at: at(created - (created - moved) * 0.3),
+      actor: demoPerson("demo-user"),
+      kind: "assigned",
+      assignee: rec.assignee,
+    });
+  }
+  // Open work went through Investigating on its way to In progress.
+  if (rec.status === "in_progress") {
+    entries.push({
+      id: `${id}-investigating`,
+      at: at(created - (created - moved) * 0.5),
+      actor: rec.assignee ?? null,
+      kind: "status",
+      from_status: "new",
+      to_status: "investigating",
+    });
+  }
+  const dismissed = DISMISSED_RECOMMENDATIONS.find((d) => d.id === id);
+  for (const c of BOARD_STATE[id]?.comments ?? []) {
+    entries.push({ id: `${id}-comment-${c.daysAgo}`, at: at(c.daysAgo), actor: demoPerson(c.by), kind: "comment", text: c.text });
+  }
+  if (rec.status !== "new") {
+    entries.push({
+      id: `${id}-status`,
+      at: rec.updated_at ?? rec.created_at,
+      actor: rec.assignee ?? null,
+      kind: "status",
+      from_status: rec.status === "in_progress" ? "investigating" : "new",
+      to_status: rec.status,
+      snoozed_until: rec.snoozed_until,
+      text: dismissed?.feedback ?? null,
+    });
+  }
+  return entries.sort((a, b) => a.at.localeCompare(b.at));
+}
+
 // ── Project / team / account ──────────────────────────────────────────────
 
+/** NovaDesk budgets per fiscal quarter, with its fiscal year from February. */
+const DEMO_FISCAL_START = 2;
+const DEMO_BUDGET = 8000;
+
 export function demoProject(): ProjectInfo {
   return {
     id: DEMO_PROJECT_ID,
@@ -540,7 +1127,7 @@ export function demoProject(): ProjectInfo {
     key_prefix: "sk_demo",
     created_at: new Date(Date.now() - 92 * 86400_000).toISOString(),
     is_active: true,
-    monthly_budget_usd: 3500,
+    monthly_budget_usd: DEMO_BUDGET,
     budget_enforcement_mode: "warn",
     budget_alert_thresholds: [50, 75, 90],
   };
@@ -562,30 +1149,164 @@ export function demoProjectList(): ProjectListItem[] {
   ];
 }
 
-export function demoBudget(): ProjectBudgetSettings {
-  const dayOfMonth = new Date().getDate();
+function demoBudgetPeriod() {
+  return budgetPeriod("quarterly", DEMO_FISCAL_START);
+}
+
+/** Days of the budget period so far, today included, and in total. */
+function budgetPeriodDays(): { elapsed: number; total: number } {
+  const { start, end } = demoBudgetPeriod();
+  const from = Date.parse(start);
+  return {
+    elapsed: Math.floor((Date.now() - from) / 86400_000) + 1,
+    total: Math.round((Date.parse(end) - from) / 86400_000),
+  };
+}
+
+/** Period-to-date total of a profile-derived daily cost. */
+function periodToDate(dailyCost: number): number {
+  const { elapsed } = budgetPeriodDays();
   let spend = 0;
-  for (let d = 0; d < Math.min(dayOfMonth, 31); d++) {
-    spend += AGENTS.reduce(
-      (s, p) => s + p.callsPerDay * perCallCost(p) * dayMultiplier(d),
-      0,
+  for (let d = 0; d < elapsed; d++) {
+    spend += dailyCost * dayMultiplier(d);
+  }
+  return spend;
+}
+
+/** Period-to-date spend run on at its daily average to the period's end. */
+function toPeriodEnd(spend: number): number {
+  const { elapsed, total } = budgetPeriodDays();
+  return round2((spend / elapsed) * total);
+}
+
+// Budgets act on what's billed, so they stay at list prices whatever the
+// basis of the request.
+
+/** One guardrail per product team: a workflow, an agent and a model. */
+const DEMO_SUB_BUDGETS: Omit<SubBudgetInput, "id">[] = [
+  {
+    scope: "workflow",
+    scope_value: "support-triage",
+    amount: 5400,
+    enforcement_mode: "warn",
+    alert_thresholds: [80, 100],
+  },
+  {
+    scope: "agent",
+    scope_value: "research-agent",
+    amount: 2250,
+    enforcement_mode: "hard_cap",
+    alert_thresholds: [75, 90, 100],
+  },
+  {
+    scope: "model",
+    scope_value: "claude-opus-4-1",
+    amount: 1500,
+    enforcement_mode: "warn",
+    alert_thresholds: [50, 80, 100],
+  },
+];
+
+function subBudgetDailyCost(scope: BudgetScope, value: string): number {
+  if (scope === "workflow") {
+    const w = WORKFLOWS.find((w) => w.name === value);
+    if (!w) return 0;
+    return (
+      w.runsPerDay *
+      w.steps.reduce((s, st) => s + stepCost(st, "list") * st.callsPerRun, 0)
     );
   }
-  const now = new Date();
+  return AGENTS.filter((p) =>
+    scope === "agent" ? p.name === value : p.model === value,
+  ).reduce((s, p) => s + p.callsPerDay * perCallCost(p, "list"), 0);
+}
+
+function demoSubBudgets(): SubBudget[] {
+  return DEMO_SUB_BUDGETS.map((b, i) => {
+    const spend = periodToDate(subBudgetDailyCost(b.scope, b.scope_value));
+    return {
+      id: `demo-sub-budget-${i + 1}`,
+      ...b,
+      current_month_spend_usd: round2(spend),
+      utilization_percent: round2((100 * spend) / b.amount),
+    };
+  });
+}
+
+export function demoBudget(): ProjectBudgetSettings {
+  const spend = periodToDate(
+    AGENTS.reduce((s, p) => s + p.callsPerDay * perCallCost(p, "list"), 0),
+  );
   return {
     project_id: DEMO_PROJECT_ID,
-    monthly_budget_usd: 3500,
+    monthly_budget_usd: DEMO_BUDGET,
     budget_enforcement_mode: "warn",
     budget_alert_thresholds: [50, 75, 90],
     current_month_spend: round2(spend),
     current_month_spend_usd: round2(spend),
-    utilization_percent: round2((100 * spend) / 3500),
-    period_key: `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`,
+    utilization_percent: round2((100 * spend) / DEMO_BUDGET),
+    period_key: demoBudgetPeriod().key,
+    budget_period: "quarterly",
+    fiscal_year_start_month: DEMO_FISCAL_START,
     budget_currency: "USD",
     fx_rate: 1,
+    sub_budgets: demoSubBudgets(),
+  };
+}
+
+/** Close to recent reference rates, so converted figures look plausible. */
+const DEMO_FX_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  INR: 83.2,
+  JPY: 149.6,
+  CAD: 1.37,
+  AUD: 1.52,
+};
+
+export function demoFxRate(target: string): FxRate {
+  return {
+    base: "USD",
+    target,
+    rate: DEMO_FX_RATES[target] ?? 1,
+    source: "ECB reference (demo)",
+    // Published daily, so the latest is yesterday's.
+    as_of: new Date(Date.now() - 86_400_000).toISOString().slice(0, 10),
   };
 }
 
+export function demoSavedViews(): SavedView[] {
+  const daysAgo = (n: number) =>
+    new Date(Date.now() - n * 86400_000).toISOString();
+  return [
+    {
+      id: "demo-view-1",
+      name: "Triage failures on gpt-4o",
+      path: "/events",
+      query: "agent_name=support-triage-agent&model=gpt-4o&success=false",
+      created_at: daysAgo(12),
+      created_by: { name: "Maya Chen", email: "maya@novadesk.example" },
+    },
+    {
+      id: "demo-view-2",
+      name: "Expensive research briefs",
+      path: "/traces",
+      query: "workflow=research-brief&min_cost=0.5",
+      created_at: daysAgo(6),
+      created_by: { name: "Dev Patel", email: "dev@novadesk.example" },
+    },
+    {
+      id: "demo-view-3",
+      name: "Model spend, last 30 days",
+      path: "/models",
+      query: "range=30d",
+      created_at: daysAgo(2),
+      created_by: { name: "Demo Explorer", email: "demo@agentcost.dev" },
+    },
+  ];
+}
+
 export function demoMembers(): ProjectMember[] {
   const monthsAgo = (n: number) =>
     new Date(Date.now() - n * 30 * 86400_000).toISOString();
@@ -661,6 +1382,29 @@ export function demoSessions(): { sessions: SessionInfo[]; total: number } {
 
 export function demoNotifications(): NotificationListResponse {
   const summary = demoOptimizationSummary();
+  const budget = demoBudget();
+  const pacing = Math.round(
+    (100 * toPeriodEnd(budget.current_month_spend)) / DEMO_BUDGET,
+  );
+  const alert = DEMO_ALERT_RULES[0];
+  const firing = demoAlertPreview(alert).firings.at(-1);
+  const alertItems: NotificationListResponse["items"] = firing
+    ? [
+        {
+          id: "demo-notif-3",
+          type: "alert_rule",
+          severity: alert.severity,
+          title: alert.name,
+          body: `${describeAlertRule(alert)}: ${formatAlertValue(alert.metric, firing.value)} in the window ending ${formatDate(firing.timestamp)}.`,
+          link: "/settings/alerts",
+          project_id: DEMO_PROJECT_ID,
+          payload: { rule_id: alert.id, value: firing.value },
+          is_read: false,
+          read_at: null,
+          created_at: firing.timestamp,
+        },
+      ]
+    : [];
   return {
     items: [
       {
@@ -681,7 +1425,7 @@ export function demoNotifications(): NotificationListResponse {
         type: "budget_threshold",
         severity: "warning",
         title: "Spend is pacing ahead of budget",
-        body: "At the current run rate, this project will reach ~96% of its $3,500 monthly budget.",
+        body: `At the current run rate, this project will reach ~${pacing}% of its $${DEMO_BUDGET.toLocaleString("en-US")} budget for ${budget.period_key}.`,
         link: "/settings",
         project_id: DEMO_PROJECT_ID,
         payload: null,
@@ -689,12 +1433,17 @@ export function demoNotifications(): NotificationListResponse {
         read_at: null,
         created_at: new Date(Date.now() - 26 * 3600_000).toISOString(),
       },
+      ...alertItems,
     ],
-    total: 2,
-    unread_count: 2,
+    total: 2 + alertItems.length,
+    unread_count: 2 + alertItems.length,
   };
 }
 
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
 function round2(n: number): number {
   return Math.round(n * 100) / 100;
 }
@@ -927,11 +1676,22 @@ export function demoExecutiveReport(opts: {
     enabled: true,
     budget: b.monthly_budget_usd,
     current_spend: b.current_month_spend,
-    projected_spend: round2((b.current_month_spend / new Date().getDate()) * 30),
+    projected_spend: toPeriodEnd(b.current_month_spend),
     utilization_percent: b.utilization_percent,
     currency: b.budget_currency,
     fx_rate: b.fx_rate,
     mode: b.budget_enforcement_mode,
+    period: b.budget_period,
+    period_key: b.period_key,
+    sub_budgets: (b.sub_budgets ?? []).map((sb) => ({
+      scope: sb.scope,
+      scope_value: sb.scope_value,
+      budget: sb.amount,
+      current_spend: sb.current_month_spend_usd,
+      projected_spend: toPeriodEnd(sb.current_month_spend_usd),
+      utilization_percent: sb.utilization_percent,
+      mode: sb.enforcement_mode,
+    })),
   };
 
   const optSummary = demoOptimizationSummary();
@@ -955,6 +1715,7 @@ export function demoExecutiveReport(opts: {
     is_custom_range: isCustom,
     project_name: DEMO_PROJECT_NAME,
     currency: budget.currency,
+    pricing_basis: pricingBasis,
     summary: {
       cost: mkDelta(cur.cost, prev.cost),
       calls: mkDelta(cur.calls, prev.calls),
@@ -1007,6 +1768,8 @@ interface WorkflowProfile {
     /** Above 1 = the step repeats inside a single run. */
     callsPerRun: number;
     tool?: boolean;
+    /** The step's calls fan out concurrently instead of one at a time. */
+    parallel?: boolean;
   }>;
 }
 
@@ -1025,14 +1788,17 @@ const WORKFLOWS: WorkflowProfile[] = [
     runsPerDay: 140,
     steps: [
       { name: "plan", model: "claude-sonnet-4-5", inTokens: 900, outTokens: 380, latencyMs: 1400, callsPerRun: 1 },
-      { name: "web_search", model: "claude-sonnet-4-5", inTokens: 3200, outTokens: 700, latencyMs: 3100, callsPerRun: 3.1, tool: true },
+      { name: "web_search", model: "claude-sonnet-4-5", inTokens: 3200, outTokens: 700, latencyMs: 3100, callsPerRun: 3.1, tool: true, parallel: true },
       { name: "synthesise", model: "claude-sonnet-4-5", inTokens: 9000, outTokens: 1800, latencyMs: 4200, callsPerRun: 1 },
     ],
   },
 ];
 
-function stepCost(step: WorkflowProfile["steps"][number]): number {
-  const [inP, outP] = PRICING[step.model];
+function stepCost(
+  step: WorkflowProfile["steps"][number],
+  basis = pricingBasis,
+): number {
+  const [inP, outP] = rates(step.model, basis);
   return (step.inTokens * inP + step.outTokens * outP) / 1_000_000;
 }
 
@@ -1076,6 +1842,46 @@ export function demoWorkflowStats(range: string, limit: number): WorkflowStats[]
     .slice(0, limit);
 }
 
+/**
+ * Agents outside a workflow call as their profile says; the two workflow
+ * agents' calls are their workflow's steps.
+ */
+export function demoUsageMix(range: string): UsageMixRow[] {
+  const mult = runMultiplier(range);
+  const workflowAgents = new Set(Object.values(WORKFLOW_AGENT));
+  const row = (
+    agent: string,
+    workflow: string | null,
+    step: string | null,
+    model: string,
+    calls: number,
+    inTokens: number,
+    outTokens: number,
+  ): UsageMixRow => {
+    const [inP, outP] = rates(model);
+    return {
+      agent_name: agent,
+      workflow,
+      step_name: step,
+      model,
+      calls: Math.round(calls),
+      input_tokens: Math.round(calls * inTokens),
+      output_tokens: Math.round(calls * outTokens),
+      cost: round2((calls * (inTokens * inP + outTokens * outP)) / 1_000_000),
+    };
+  };
+  return [
+    ...AGENTS.filter((p) => !workflowAgents.has(p.name)).map((p) =>
+      row(p.name, null, null, p.model, p.callsPerDay * mult, p.inTokens, p.outTokens),
+    ),
+    ...WORKFLOWS.flatMap((w) =>
+      w.steps.map((st) =>
+        row(WORKFLOW_AGENT[w.name], w.name, st.name, st.model, w.runsPerDay * mult * st.callsPerRun, st.inTokens, st.outTokens),
+      ),
+    ),
+  ];
+}
+
 export function demoStepStats(
   range: string,
   workflow: string | undefined,
@@ -1169,44 +1975,253 @@ export function demoRepeatedWork(
   return findings.sort((a, b) => b.wasted_cost - a.wasted_cost).slice(0, limit);
 }
 
-export function demoTraces(
+/**
+ * How often each call site's exact input comes back within a day, and what
+ * share of its prompt is a fixed prefix (system prompt, tool schemas,
+ * examples). Keyed by "workflow:step", or by agent outside a workflow.
+ */
+const CACHE_PROFILES: Record<string, { repeat: number; prefix: number }> = {
+  "support-triage:classify": { repeat: 0.24, prefix: 0.7 },
+  "support-triage:search_docs": { repeat: 0.31, prefix: 0.4 },
+  "support-triage:draft_reply": { repeat: 0.04, prefix: 0.5 },
+  "research-brief:plan": { repeat: 0.07, prefix: 0.6 },
+  "research-brief:web_search": { repeat: 0.19, prefix: 0.35 },
+  "research-brief:synthesise": { repeat: 0.02, prefix: 0.3 },
+  "faq-bot": { repeat: 0.36, prefix: 0.75 },
+  "report-writer": { repeat: 0.05, prefix: 0.45 },
+  "code-review-agent": { repeat: 0.03, prefix: 0.55 },
+  "email-drafter": { repeat: 0.08, prefix: 0.6 },
+  "sentiment-classifier": { repeat: 0.27, prefix: 0.8 },
+};
+
+/** Providers won't cache a prefix shorter than this. */
+const MIN_CACHEABLE_PREFIX = 1024;
+
+export function demoCacheSimulation(
   range: string,
-  workflow: string | undefined,
-  limit: number,
-): TraceSummary[] {
+  scope: string,
+  ttlSeconds: number,
+): CacheSimulationRow[] {
+  const mult = runMultiplier(range);
+  const workflowAgents = new Set(Object.values(WORKFLOW_AGENT));
+  // Most repeats come back within minutes of each other; a day catches
+  // nearly all of them, and a week a few more.
+  const ttlReach = Math.min(
+    1.2,
+    0.25 + (0.75 * Math.log10(1 + ttlSeconds / 300)) / Math.log10(1 + 86400 / 300),
+  );
+  // Wider scopes also match the same input sent from elsewhere.
+  const scopeReach = scope === "global" ? 1.25 : scope === "workflow" ? 1.1 : 1;
+
+  const row = (
+    key: string,
+    workflow: string | null,
+    step: string | null,
+    agent: string,
+    model: string,
+    callsPerDay: number,
+    inTokens: number,
+    outTokens: number,
+    latencyMs: number,
+  ): CacheSimulationRow => {
+    const profile = CACHE_PROFILES[key] ?? { repeat: 0.05, prefix: 0.4 };
+    const [inP, outP] = rates(model);
+    const perCall = (inTokens * inP + outTokens * outP) / 1_000_000;
+    const calls = Math.round(callsPerDay * mult);
+    const hits = Math.round(calls * Math.min(0.9, profile.repeat * ttlReach * scopeReach));
+    // A prefix is warm when the site sent one within the TTL; busy sites
+    // nearly always have.
+    const prefixTokens = inTokens * profile.prefix;
+    const warm = 1 - Math.exp(-(callsPerDay / 86400) * ttlSeconds);
+    return {
+      workflow,
+      step_name: step,
+      agent_name: agent,
+      model,
+      calls,
+      hits,
+      input_tokens: calls * inTokens,
+      cost: round2(calls * perCall),
+      hit_cost: round2(hits * perCall),
+      hit_latency_ms: hits * latencyMs,
+      cached_prefix_tokens:
+        prefixTokens >= MIN_CACHEABLE_PREFIX
+          ? Math.round((calls - hits) * prefixTokens * warm)
+          : 0,
+    };
+  };
+
+  return [
+    ...WORKFLOWS.flatMap((w) =>
+      w.steps.map((st) =>
+        row(`${w.name}:${st.name}`, w.name, st.name, WORKFLOW_AGENT[w.name], st.model, w.runsPerDay * st.callsPerRun, st.inTokens, st.outTokens, st.latencyMs),
+      ),
+    ),
+    ...AGENTS.filter((p) => !workflowAgents.has(p.name)).map((p) =>
+      row(p.name, null, null, p.name, p.model, p.callsPerDay, p.inTokens, p.outTokens, p.avgLatencyMs),
+    ),
+  ];
+}
+
+// Demo traces are built call-by-call from the workflow profiles, so the
+// trace list, a trace's detail view and its totals all agree with each other.
+
+/** The agent whose calls make up each demo workflow — see traceFieldsFor. */
+const WORKFLOW_AGENT: Record<string, string> = {
+  "support-triage": "support-triage-agent",
+  "research-brief": "research-agent",
+};
+
+/** FNV-1a, so an arbitrary trace id seeds the same run every time. */
+function hashSeed(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * The calls of one run, in order. `factor` scales how often the looping
+ * steps repeat — a run with a high factor is one of the expensive tail.
+ * Timestamps mark when each call returned, the way the SDK records them.
+ */
+function demoTraceCalls(
+  w: WorkflowProfile,
+  traceId: string,
+  factor: number,
+  startedAt: number,
+): Event[] {
+  const rand = mulberry32(hashSeed(traceId));
+  const events: Event[] = [];
+  let clock = startedAt;
+
+  for (const step of w.steps) {
+    const calls =
+      step.callsPerRun > 1
+        ? Math.max(1, Math.round(step.callsPerRun * factor))
+        : 1;
+    const fanOutFrom = clock;
+    let fanOutEnd = clock;
+    for (let c = 0; c < calls; c++) {
+      if (step.parallel) clock = fanOutFrom + Math.round(rand() * 120);
+      const inTok = Math.round(step.inTokens * (0.75 + rand() * 0.5));
+      const outTok = Math.round(step.outTokens * (0.75 + rand() * 0.5));
+      const [inP, outP] = rates(step.model);
+      // Runs that looped hardest are the ones whose last retry gave up.
+      const failed = factor > 2.2 && !!step.tool && c === calls - 1;
+      const latency = Math.round(step.latencyMs * (0.6 + rand() * 0.8));
+      clock += latency;
+      events.push({
+        id: `${traceId}-${events.length.toString().padStart(3, "0")}`,
+        project_id: DEMO_PROJECT_ID,
+        agent_name: WORKFLOW_AGENT[w.name],
+        model: step.model,
+        input_tokens: inTok,
+        output_tokens: failed ? 0 : outTok,
+        total_tokens: inTok + (failed ? 0 : outTok),
+        cost: failed ? 0 : (inTok * inP + outTok * outP) / 1_000_000,
+        latency_ms: latency,
+        timestamp: new Date(clock).toISOString(),
+        success: !failed,
+        error: failed ? SAMPLE_ERRORS[2] : null,
+        trace_id: traceId,
+        workflow: w.name,
+        step_name: step.name,
+        tool_name: step.tool ? step.name : null,
+      });
+      fanOutEnd = Math.max(fanOutEnd, clock);
+      clock += 20 + Math.round(rand() * 60);
+    }
+    if (step.parallel) clock = fanOutEnd + 20 + Math.round(rand() * 60);
+  }
+  return events;
+}
+
+function summariseTrace(traceId: string, events: Event[]): TraceSummary {
+  const starts = events.map((e) => Date.parse(e.timestamp) - e.latency_ms);
+  const ends = events.map((e) => Date.parse(e.timestamp));
+  const first = Math.min(...starts);
+  return {
+    trace_id: traceId,
+    workflow: events[0]?.workflow ?? null,
+    calls: events.length,
+    total_cost: Number(events.reduce((s, e) => s + e.cost, 0).toFixed(6)),
+    total_tokens: events.reduce((s, e) => s + e.total_tokens, 0),
+    max_depth: events.some((e) => e.tool_name) ? 2 : 1,
+    failed_calls: events.filter((e) => !e.success).length,
+    started_at: events.length ? new Date(first).toISOString() : null,
+    duration_ms: events.length ? Math.max(...ends) - first : null,
+  };
+}
+
+let traceCache: Map<string, Event[]> | null = null;
+
+/** Forty recent runs per workflow, keyed by trace id. */
+function demoTraceRuns(): Map<string, Event[]> {
+  if (traceCache) return traceCache;
   const rand = mulberry32(90210);
-  const rows: TraceSummary[] = [];
+  const runs = new Map<string, Event[]>();
+  const now = Date.now();
 
   for (const w of WORKFLOWS) {
-    if (workflow && w.name !== workflow) continue;
-    const costPerRun = w.steps.reduce(
-      (sum, s) => sum + stepCost(s) * s.callsPerRun,
-      0,
-    );
-    const callsPerRun = w.steps.reduce((sum, s) => sum + s.callsPerRun, 0);
-    const durationPerRun = w.steps.reduce(
-      (sum, s) => sum + s.latencyMs * s.callsPerRun,
-      0,
-    );
-
-    for (let i = 0; i < 12; i++) {
+    for (let i = 0; i < 40; i++) {
       // Spread runs either side of typical; the expensive tail is the point.
       const factor = 0.7 + rand() * 1.9;
-      rows.push({
-        trace_id: `${w.name.slice(0, 4)}-${(0x1f00 + i * 913).toString(16)}`,
-        workflow: w.name,
-        calls: Math.round(callsPerRun * factor),
-        total_cost: Number((costPerRun * factor).toFixed(6)),
-        total_tokens: Math.round(callsPerRun * factor * 1400),
-        max_depth: 2,
-        failed_calls: factor > 2.2 ? 1 : 0,
-        started_at: new Date(Date.now() - i * 1_800_000).toISOString(),
-        duration_ms: Math.round(durationPerRun * factor),
-      });
+      const traceId = `${w.name.slice(0, 4)}-${(0x1f00 + i * 913).toString(16)}`;
+      const startedAt = now - i * 1_800_000 - Math.round(rand() * 900_000);
+      runs.set(traceId, demoTraceCalls(w, traceId, factor, startedAt));
     }
   }
+  traceCache = runs;
+  return runs;
+}
 
-  return rows.sort((a, b) => b.total_cost - a.total_cost).slice(0, limit);
+export function demoTraces(
+  range: string,
+  opts: {
+    workflow?: string;
+    minCost?: number;
+    sort?: string;
+    order?: string;
+    limit: number;
+    offset: number;
+  },
+): TraceSummary[] {
+  const keyOf: Record<string, (t: TraceSummary) => number> = {
+    cost: (t) => t.total_cost,
+    calls: (t) => t.calls,
+    duration: (t) => t.duration_ms ?? 0,
+    depth: (t) => t.max_depth,
+    failed: (t) => t.failed_calls,
+    recent: (t) => (t.started_at ? Date.parse(t.started_at) : 0),
+  };
+  const key = keyOf[opts.sort ?? "cost"] ?? keyOf.cost;
+  const sign = opts.order === "asc" ? 1 : -1;
+
+  return [...demoTraceRuns()]
+    .map(([id, events]) => summariseTrace(id, events))
+    .filter((t) => !opts.workflow || t.workflow === opts.workflow)
+    .filter((t) => opts.minCost == null || t.total_cost >= opts.minCost)
+    .sort((a, b) => sign * (key(a) - key(b)))
+    .slice(opts.offset, opts.offset + opts.limit);
+}
+
+/**
+ * A run from the list, or — for ids minted elsewhere in the demo, like the
+ * repeated-work findings — a looping run of the workflow the id names.
+ */
+export function demoTraceDetail(traceId: string): TraceDetail | null {
+  let events = demoTraceRuns().get(traceId);
+  if (!events) {
+    const w = WORKFLOWS.find((p) => traceId.startsWith(p.name.slice(0, 4)));
+    if (!w) return null;
+    const rand = mulberry32(hashSeed(traceId));
+    const factor = 1.8 + rand() * 1.2;
+    const startedAt = Date.now() - Math.round(rand() * 86_400_000);
+    events = demoTraceCalls(w, traceId, factor, startedAt);
+  }
+  return { ...summariseTrace(traceId, events), events };
 }
 
 export function demoRunCostDistribution(
@@ -1332,3 +2347,235 @@ export function demoOutcomeStats(range: string, limit: number): OutcomeStats[] {
     .sort((a, b) => b.total_cost - a.total_cost)
     .slice(0, limit);
 }
+
+// ── Alert rules ───────────────────────────────────────────────────────────
+
+/** Share of a looping step's repeat calls that were identical to an earlier one. */
+const REPEAT_SHARE = 0.12;
+
+/** One hour of traffic, narrowed to an alert rule's scope. */
+interface AlertSample {
+  cost: number;
+  calls: number;
+  errors: number;
+  /** p95 latency weighted by calls, so windows can average it. */
+  latency: number;
+  runs: number;
+  runCost: number;
+  waste: number;
+}
+
+function emptySample(): AlertSample {
+  return {
+    cost: 0,
+    calls: 0,
+    errors: 0,
+    latency: 0,
+    runs: 0,
+    runCost: 0,
+    waste: 0,
+  };
+}
+
+function calendarDaysAgo(ts: Date): number {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const day = new Date(ts);
+  day.setHours(0, 0, 0, 0);
+  return Math.round((today.getTime() - day.getTime()) / 86400_000);
+}
+
+/**
+ * The hour starting at `ts`, `hoursAgo` hours back, from the same profiles
+ * and seeded incidents as the time series. Agent and model scopes read the
+ * agent profiles; workflow and step scopes read the workflow profiles, which
+ * are also where runs and repeated work come from.
+ */
+function alertSample(
+  ts: Date,
+  hoursAgo: number,
+  scope: AlertScope,
+  value: string | null,
+): AlertSample {
+  const daysAgo = calendarDaysAgo(ts);
+  const mult = hourMultiplier(ts, daysAgo);
+  const rand = mulberry32(hoursAgo * 7919 + 31);
+  const spikeOf = (p: AgentProfile) =>
+    daySpike(p, daysAgo) * hourSpike(p, hoursAgo);
+  const s = emptySample();
+  const errorNoise = 0.6 + rand() * 0.9;
+  const latencyNoise = 0.85 + rand() * 0.4;
+
+  if (scope === "project" || scope === "agent" || scope === "model") {
+    for (const p of AGENTS) {
+      if (scope === "agent" && p.name !== value) continue;
+      if (scope === "model" && p.model !== value) continue;
+      const spike = spikeOf(p);
+      const c = p.callsPerDay * mult * spike;
+      s.cost += c * perCallCost(p);
+      s.calls += c;
+      s.errors += c * p.errorRate * errorNoise;
+      // A spike in volume queues calls up, so the tail slows down with it.
+      s.latency +=
+        c * p.avgLatencyMs * 1.9 * (1 + 0.15 * (spike - 1)) * latencyNoise;
+    }
+  }
+
+  for (const w of WORKFLOWS) {
+    if (scope === "workflow" && w.name !== value) continue;
+    const agent = AGENTS.find((p) => p.name === WORKFLOW_AGENT[w.name])!;
+    const spike = spikeOf(agent);
+    const runs = w.runsPerDay * mult * spike;
+    const steps =
+      scope === "step" ? w.steps.filter((st) => st.name === value) : w.steps;
+    if (steps.length === 0) continue;
+    s.runs += runs;
+    for (const st of steps) {
+      const c = runs * st.callsPerRun;
+      s.runCost += c * stepCost(st);
+      if (st.callsPerRun > 1) {
+        s.waste +=
+          runs * (st.callsPerRun - 1) * stepCost(st) * REPEAT_SHARE * spike;
+      }
+      if (scope === "workflow" || scope === "step") {
+        s.cost += c * stepCost(st);
+        s.calls += c;
+        s.errors += c * agent.errorRate * errorNoise;
+        s.latency +=
+          c * st.latencyMs * 1.9 * (1 + 0.15 * (spike - 1)) * latencyNoise;
+      }
+    }
+  }
+  return s;
+}
+
+function alertMetricValue(metric: AlertMetric, s: AlertSample): number | null {
+  switch (metric) {
+    case "cost":
+      return s.cost;
+    case "calls":
+      return s.calls;
+    case "error_rate":
+      return s.calls > 0 ? (100 * s.errors) / s.calls : null;
+    case "p95_latency_ms":
+      return s.calls > 0 ? s.latency / s.calls : null;
+    case "cost_per_run":
+      return s.runs > 0 ? s.runCost / s.runs : null;
+    default:
+      return s.waste;
+  }
+}
+
+/**
+ * Replays `rule` hour by hour over the last `days` days: each hour closes a
+ * window of `window_minutes`, and a firing mutes the rule for its cooldown.
+ */
+export function demoAlertPreview(
+  rule: AlertRuleInput,
+  days = 30,
+): AlertPreview {
+  const hourMs = 3600_000;
+  const end = Math.floor(Date.now() / hourMs) * hourMs;
+  const hours = days * 24;
+  const windowHours = Math.max(1, Math.round(rule.window_minutes / 60));
+
+  // Oldest first, with a window's worth of lead-in before the first hour.
+  const samples: AlertSample[] = [];
+  for (let h = hours + windowHours - 1; h >= 0; h--) {
+    const ts = new Date(end - (h + 1) * hourMs);
+    samples.push(alertSample(ts, h, rule.scope, rule.scope_value));
+  }
+
+  const firings: AlertFiring[] = [];
+  let evaluations = 0;
+  let mutedUntil = -Infinity;
+  for (let i = windowHours; i < samples.length; i++) {
+    const closesAt = end - (samples.length - 1 - i) * hourMs;
+    const sum = emptySample();
+    for (const s of samples.slice(i - windowHours + 1, i + 1)) {
+      for (const key of Object.keys(sum) as (keyof AlertSample)[]) {
+        sum[key] += s[key];
+      }
+    }
+    const value = alertMetricValue(rule.metric, sum);
+    if (value == null) continue;
+    evaluations++;
+    if (closesAt < mutedUntil) continue;
+    if (!crossesThreshold(rule.comparator, value, rule.threshold)) continue;
+    firings.push({
+      timestamp: new Date(closesAt).toISOString(),
+      value: round6(value),
+    });
+    mutedUntil = closesAt + rule.cooldown_minutes * 60_000;
+  }
+
+  return {
+    start: new Date(end - hours * hourMs).toISOString(),
+    end: new Date(end).toISOString(),
+    evaluations,
+    firings,
+  };
+}
+
+const DEMO_ALERT_RULES: (AlertRuleInput & {
+  id: string;
+  createdDaysAgo: number;
+})[] = [
+  {
+    id: "demo-alert-1",
+    name: "Code review spend spike",
+    metric: "cost",
+    scope: "agent",
+    scope_value: "code-review-agent",
+    comparator: "gt",
+    threshold: 60,
+    window_minutes: 1440,
+    cooldown_minutes: 1440,
+    severity: "warning",
+    enabled: true,
+    createdDaysAgo: 41,
+  },
+  {
+    id: "demo-alert-2",
+    name: "FAQ bot failing",
+    metric: "error_rate",
+    scope: "agent",
+    scope_value: "faq-bot",
+    comparator: "gt",
+    threshold: 5,
+    window_minutes: 60,
+    cooldown_minutes: 360,
+    severity: "critical",
+    enabled: true,
+    createdDaysAgo: 33,
+  },
+  {
+    id: "demo-alert-3",
+    name: "Research brief getting pricier",
+    metric: "cost_per_run",
+    scope: "workflow",
+    scope_value: "research-brief",
+    comparator: "gt",
+    threshold: 0.15,
+    window_minutes: 360,
+    cooldown_minutes: 1440,
+    severity: "info",
+    enabled: false,
+    createdDaysAgo: 12,
+  },
+];
+
+/** `last_fired_at` is what the preview finds, so the two always agree. */
+export function demoAlertRules(): AlertRule[] {
+  return DEMO_ALERT_RULES.map(({ id, createdDaysAgo, ...input }) => {
+    const firings = input.enabled ? demoAlertPreview(input).firings : [];
+    return {
+      ...input,
+      id,
+      created_at: new Date(
+        Date.now() - createdDaysAgo * 86400_000,
+      ).toISOString(),
+      last_fired_at: firings.at(-1)?.timestamp ?? null,
+    };
+  });
+}
@@ -0,0 +1,169 @@
+/**
+ * Filters for the raw event log, shared by the list, count and live stream
+ * endpoints so a page total always matches the rows it pages through.
+ */
+
+import type { Event } from "@/lib/api";
+
+export interface EventFilters {
+  agentName?: string;
+  model?: string;
+  status?: "success" | "failure";
+  /** Case-insensitive substring of the error message. */
+  errorContains?: string;
+  workflow?: string;
+  stepName?: string;
+  toolName?: string;
+  traceId?: string;
+  minCost?: number;
+  maxCost?: number;
+  minLatencyMs?: number;
+  maxLatencyMs?: number;
+  /** ISO timestamps; `end` is exclusive. */
+  start?: string;
+  end?: string;
+}
+
+/** Distinct values for the filter dropdowns, each sorted. */
+export interface EventFilterOptions {
+  agents: string[];
+  models: string[];
+  workflows: string[];
+  steps: string[];
+  tools: string[];
+}
+
+type TextKey = Exclude<
+  keyof EventFilters,
+  "status" | "minCost" | "maxCost" | "minLatencyMs" | "maxLatencyMs"
+>;
+type NumberKey = "minCost" | "maxCost" | "minLatencyMs" | "maxLatencyMs";
+
+/** Query parameter for each filter, as the backend names them. */
+const TEXT_PARAMS: Record<TextKey, string> = {
+  agentName: "agent_name",
+  model: "model",
+  errorContains: "error_contains",
+  workflow: "workflow",
+  stepName: "step_name",
+  toolName: "tool_name",
+  traceId: "trace_id",
+  start: "start",
+  end: "end",
+};
+
+const NUMBER_PARAMS: Record<NumberKey, string> = {
+  minCost: "min_cost",
+  maxCost: "max_cost",
+  minLatencyMs: "min_latency_ms",
+  maxLatencyMs: "max_latency_ms",
+};
+
+/** Append the set filters to `params` (a new one if not given). */
+export function eventFilterParams(
+  filters: EventFilters,
+  params = new URLSearchParams(),
+): URLSearchParams {
+  for (const [key, name] of Object.entries(TEXT_PARAMS)) {
+    const value = filters[key as TextKey];
+    if (value) params.set(name, value);
+  }
+  for (const [key, name] of Object.entries(NUMBER_PARAMS)) {
+    const value = filters[key as NumberKey];
+    if (value != null && Number.isFinite(value)) {
+      params.set(name, String(value));
+    }
+  }
+  if (filters.status) {
+    params.set("success", filters.status === "success" ? "true" : "false");
+  }
+  return params;
+}
+
+/** The inverse of `eventFilterParams`; unknown or malformed values are skipped. */
+export function eventFiltersFromParams(params: URLSearchParams): EventFilters {
+  const filters: EventFilters = {};
+  for (const [key, name] of Object.entries(TEXT_PARAMS)) {
+    const value = params.get(name);
+    if (value) filters[key as TextKey] = value;
+  }
+  for (const [key, name] of Object.entries(NUMBER_PARAMS)) {
+    const raw = params.get(name);
+    const value = raw == null || raw === "" ? NaN : Number(raw);
+    if (Number.isFinite(value)) filters[key as NumberKey] = value;
+  }
+  const success = params.get("success");
+  if (success === "true") filters.status = "success";
+  else if (success === "false") filters.status = "failure";
+  return filters;
+}
+
+/**
+ * Every filter parameter, set or cleared, for `setQueryParams` — so
+ * applying `filters` to a page's URL also drops the ones no longer set.
+ */
+export function eventFilterQueryPatch(
+  filters: EventFilters,
+): Record<string, string | null> {
+  const patch: Record<string, string | null> = { success: null };
+  for (const name of [
+    ...Object.values(TEXT_PARAMS),
+    ...Object.values(NUMBER_PARAMS),
+  ]) {
+    patch[name] = null;
+  }
+  for (const [name, value] of eventFilterParams(filters)) patch[name] = value;
+  return patch;
+}
+
+/** How many filters are set — the badge on the Filters button. */
+export function countEventFilters(filters: EventFilters): number {
+  return [...eventFilterParams(filters).keys()].length;
+}
+
+/**
+ * The backend's filter semantics, for the demo dataset and for checking
+ * streamed events client-side.
+ */
+export function matchesEventFilters(
+  event: Event,
+  filters: EventFilters,
+): boolean {
+  const {
+    agentName,
+    model,
+    status,
+    errorContains,
+    workflow,
+    stepName,
+    toolName,
+    traceId,
+    minCost,
+    maxCost,
+    minLatencyMs,
+    maxLatencyMs,
+    start,
+    end,
+  } = filters;
+  if (agentName && event.agent_name !== agentName) return false;
+  if (model && event.model !== model) return false;
+  if (status && event.success !== (status === "success")) return false;
+  if (
+    errorContains &&
+    !(event.error ?? "").toLowerCase().includes(errorContains.toLowerCase())
+  ) {
+    return false;
+  }
+  if (workflow && event.workflow !== workflow) return false;
+  if (stepName && event.step_name !== stepName) return false;
+  if (toolName && event.tool_name !== toolName) return false;
+  if (traceId && event.trace_id !== traceId) return false;
+  if (minCost != null && event.cost < minCost) return false;
+  if (maxCost != null && event.cost > maxCost) return false;
+  if (minLatencyMs != null && event.latency_ms < minLatencyMs) return false;
+  if (maxLatencyMs != null && event.latency_ms > maxLatencyMs) return false;
+  const at = Date.parse(event.timestamp);
+  if (start && at < Date.parse(start)) return false;
+  if (end && at >= Date.parse(end)) return false;
+  return true;
+}
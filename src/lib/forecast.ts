@@ -0,0 +1,329 @@
+/**
+ * Spend forecasting: fits daily cost history with a weekly season and a
+ * trend, then projects it to the end of the month and the quarter with a
+ * p10–p90 band. Weekday and weekend traffic differ a lot, so a flat daily
+ * average overshoots early in a week and undershoots late in it.
+ */
+
+import { format } from "date-fns";
+import type { TimeSeriesPoint } from "@/lib/api";
+import type { AbsoluteRange } from "@/lib/timeRange";
+
+const DAY_MS = 86_400_000;
+const SEASON = 7;
+/** Two full weeks before the weekly pattern is worth fitting. */
+const MIN_SEASONAL_DAYS = 2 * SEASON;
+/** At least this much history is asked for, whatever the quarter. */
+const HISTORY_DAYS = 8 * SEASON;
+const PATHS = 500;
+/** Trend damping, so a quarter-long projection doesn't run away on a steep week. */
+const PHI = 0.98;
+
+const ALPHAS = [0.1, 0.2, 0.35, 0.5];
+const BETAS = [0, 0.05, 0.15];
+const GAMMAS = [0.05, 0.15, 0.3];
+
+export interface ForecastPoint {
+  /** UTC midnight of the day, like a day bucket. */
+  timestamp: string;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface PeriodForecast {
+  /** "October 2026" or "Q4 2026". */
+  label: string;
+  /** Exclusive, UTC midnight. */
+  end: string;
+  /** Spend so far in the period, as far as the history reaches back. */
+  actual: number;
+  /** Projected totals for the whole period, `actual` included. */
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface SpendForecast {
+  /**
+   * "holt-winters" once there are two weeks of history; before that each
+   * day is drawn from the days seen so far.
+   */
+  method: "holt-winters" | "run-rate";
+  /** Complete days the projection was fitted on. */
+  history_days: number;
+  /** From today up to the end of the quarter. */
+  daily: ForecastPoint[];
+  month: PeriodForecast;
+  quarter: PeriodForecast;
+}
+
+function utcDay(ms: number): number {
+  return Math.floor(ms / DAY_MS) * DAY_MS;
+}
+
+function dayKey(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function quarterStart(ms: number): Date {
+  const d = new Date(ms);
+  return new Date(
+    Date.UTC(d.getUTCFullYear(), Math.floor(d.getUTCMonth() / 3) * 3, 1),
+  );
+}
+
+/**
+ * The window to fetch history for: the whole current quarter, and never
+ * less than eight weeks.
+ */
+export function forecastHistoryRange(now = new Date()): AbsoluteRange {
+  const floor = utcDay(now.getTime()) - HISTORY_DAYS * DAY_MS;
+  const start = Math.min(floor, quarterStart(now.getTime()).getTime());
+  return { start: new Date(start).toISOString() };
+}
+
+/** Seeded, so the same history always draws the same band. */
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface HoltWintersState {
+  level: number;
+  trend: number;
+  /** Indexed by position in the series modulo `SEASON`. */
+  season: number[];
+}
+
+interface HoltWintersFit {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  state: HoltWintersState;
+  residuals: number[];
+  sse: number;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((s, v) => s + v, 0) / values.length;
+}
+
+/** One additive, damped-trend update; returns the one-step-ahead error. */
+function step(
+  state: HoltWintersState,
+  t: number,
+  y: number,
+  alpha: number,
+  beta: number,
+  gamma: number,
+): number {
+  const i = t % SEASON;
+  const expected = state.level + PHI * state.trend + state.season[i];
+  const level =
+    alpha * (y - state.season[i]) +
+    (1 - alpha) * (state.level + PHI * state.trend);
+  state.trend = beta * (level - state.level) + (1 - beta) * PHI * state.trend;
+  state.season[i] = gamma * (y - level) + (1 - gamma) * state.season[i];
+  state.level = level;
+  return y - expected;
+}
+
+function fitHoltWinters(
+  values: number[],
+  alpha: number,
+  beta: number,
+  gamma: number,
+): HoltWintersFit {
+  const first = values.slice(0, SEASON);
+  const level = mean(first);
+  const state: HoltWintersState = {
+    level,
+    trend: (mean(values.slice(SEASON, 2 * SEASON)) - level) / SEASON,
+    season: first.map((v) => v - level),
+  };
+  const residuals: number[] = [];
+  let sse = 0;
+  values.forEach((y, t) => {
+    const error = step(state, t, y, alpha, beta, gamma);
+    // The first week only seeds the season.
+    if (t >= SEASON) {
+      residuals.push(error);
+      sse += error * error;
+    }
+  });
+  return { alpha, beta, gamma, state, residuals, sse };
+}
+
+/** The smoothing constants with the smallest one-step-ahead error. */
+function bestHoltWinters(values: number[]): HoltWintersFit {
+  let best: HoltWintersFit | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of GAMMAS) {
+        const fit = fitHoltWinters(values, alpha, beta, gamma);
+        if (!best || fit.sse < best.sse) best = fit;
+      }
+    }
+  }
+  return best!;
+}
+
+function quantile(sorted: number[], q: number): number {
+  return sorted[Math.round(q * (sorted.length - 1))];
+}
+
+function band(samples: number[]): { p10: number; p50: number; p90: number } {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    p10: quantile(sorted, 0.1),
+    p50: quantile(sorted, 0.5),
+    p90: quantile(sorted, 0.9),
+  };
+}
+
+/**
+ * Project spend from `history` (day or hour buckets) to the end of the
+ * month and of the quarter that `now` falls in, all in UTC days.
+ *
+ * Today is still running, so its bucket is left out of the fit and the
+ * whole day is projected instead. The band comes from simulating the
+ * fitted model forward with its own past errors, so it widens the further
+ * out it looks. Null when the history is empty or ends before yesterday —
+ * a past window says nothing about this month.
+ */
+export function forecastSpend(
+  history: TimeSeriesPoint[],
+  now = new Date(),
+): SpendForecast | null {
+  const today = utcDay(now.getTime());
+  const byDay = new Map<number, number>();
+  for (const point of history) {
+    const day = Date.parse(`${point.timestamp.slice(0, 10)}T00:00:00Z`);
+    if (Number.isNaN(day) || day >= today) continue;
+    byDay.set(day, (byDay.get(day) ?? 0) + point.cost);
+  }
+  if (byDay.size === 0) return null;
+  const firstDay = Math.min(...byDay.keys());
+  const lastDay = Math.max(...byDay.keys());
+  if (lastDay < today - DAY_MS) return null;
+
+  // Days without a bucket had no spend.
+  const values: number[] = [];
+  for (let day = firstDay; day < today; day += DAY_MS) {
+    values.push(byDay.get(day) ?? 0);
+  }
+
+  const monthEnd = Date.UTC(
+    new Date(today).getUTCFullYear(),
+    new Date(today).getUTCMonth() + 1,
+    1,
+  );
+  const quarterFrom = quarterStart(today);
+  const quarterEnd = Date.UTC(
+    quarterFrom.getUTCFullYear(),
+    quarterFrom.getUTCMonth() + 3,
+    1,
+  );
+  const horizon = Math.round((quarterEnd - today) / DAY_MS);
+  const monthDays = Math.round((monthEnd - today) / DAY_MS);
+
+  const seasonal = values.length >= MIN_SEASONAL_DAYS;
+  const fit = seasonal ? bestHoltWinters(values) : null;
+  const random = mulberry32(values.length * 7919 + Math.round(mean(values)));
+
+  const days: number[][] = Array.from({ length: horizon }, () => []);
+  const monthTotals: number[] = [];
+  const quarterTotals: number[] = [];
+  for (let p = 0; p < PATHS; p++) {
+    const state = fit && {
+      ...fit.state,
+      season: [...fit.state.season],
+    };
+    let total = 0;
+    for (let h = 0; h < horizon; h++) {
+      let y: number;
+      if (fit && state) {
+        const t = values.length + h;
+        const expected =
+          state.level + PHI * state.trend + state.season[t % SEASON];
+        const noise =
+          fit.residuals[Math.floor(random() * fit.residuals.length)];
+        y = Math.max(0, expected + noise);
+        step(state, t, y, fit.alpha, fit.beta, fit.gamma);
+      } else {
+        y = values[Math.floor(random() * values.length)];
+      }
+      days[h].push(y);
+      total += y;
+      if (h === monthDays - 1) monthTotals.push(total);
+    }
+    quarterTotals.push(total);
+  }
+
+  const spentSince = (from: number) =>
+    values.reduce((s, v, i) => (firstDay + i * DAY_MS >= from ? s + v : s), 0);
+  const period = (
+    label: string,
+    from: number,
+    end: number,
+    totals: number[],
+  ): PeriodForecast => {
+    const actual = spentSince(from);
+    const projected = band(totals);
+    return {
+      label,
+      end: new Date(end).toISOString(),
+      actual,
+      p10: actual + projected.p10,
+      p50: actual + projected.p50,
+      p90: actual + projected.p90,
+    };
+  };
+
+  const todayDate = new Date(today);
+  const quarter = Math.floor(todayDate.getUTCMonth() / 3) + 1;
+  return {
+    method: seasonal ? "holt-winters" : "run-rate",
+    history_days: values.length,
+    daily: days.map((samples, h) => ({
+      timestamp: `${dayKey(today + h * DAY_MS)}T00:00:00+00:00`,
+      ...band(samples),
+    })),
+    month: period(
+      format(
+        new Date(todayDate.getUTCFullYear(), todayDate.getUTCMonth(), 1),
+        "MMMM yyyy",
+      ),
+      Date.UTC(todayDate.getUTCFullYear(), todayDate.getUTCMonth(), 1),
+      monthEnd,
+      monthTotals,
+    ),
+    quarter: period(
+      `Q${quarter} ${todayDate.getUTCFullYear()}`,
+      quarterFrom.getTime(),
+      quarterEnd,
+      quarterTotals,
+    ),
+  };
+}
+
+/**
+ * The projected days after the one `lastTimestamp` falls in, up to the end
+ * of the month — what a chart of the history runs on into.
+ */
+export function projectedDaysAfter(
+  forecast: SpendForecast,
+  lastTimestamp: string,
+): ForecastPoint[] {
+  const lastDay = lastTimestamp.slice(0, 10);
+  return forecast.daily.filter(
+    (p) =>
+      p.timestamp.slice(0, 10) > lastDay && p.timestamp < forecast.month.end,
+  );
+}
@@ -0,0 +1,132 @@
+/**
+ * Model-swap what-ifs: an agent, workflow or step's observed token mix
+ * repriced on another model from the pricing catalog, for some or all of its
+ * traffic. Calls already on the target model are left as they are.
+ */
+
+import type { ModelPricing, UsageMixRow } from "@/lib/api";
+
+export type SwapScope = "agent" | "workflow" | "step";
+
+export const SWAP_SCOPES: { value: SwapScope; label: string }[] = [
+  { value: "agent", label: "Agent" },
+  { value: "workflow", label: "Workflow" },
+  { value: "step", label: "Step" },
+];
+
+/** Steps are named within their workflow: "support-triage › classify". */
+const STEP_SEPARATOR = " › ";
+
+/** The agents, workflows or steps that appear in `rows`, sorted. */
+export function swapScopeValues(
+  rows: UsageMixRow[],
+  scope: SwapScope,
+): string[] {
+  const values = rows
+    .map((r) => scopeValue(r, scope))
+    .filter((v): v is string => v != null);
+  return [...new Set(values)].sort();
+}
+
+function scopeValue(row: UsageMixRow, scope: SwapScope): string | null {
+  if (scope === "agent") return row.agent_name;
+  if (scope === "workflow") return row.workflow;
+  return row.workflow && row.step_name
+    ? `${row.workflow}${STEP_SEPARATOR}${row.step_name}`
+    : null;
+}
+
+/** The workflow and step a step scope value names. */
+export function splitStepValue(value: string): {
+  workflow: string;
+  step_name: string;
+} {
+  const at = value.indexOf(STEP_SEPARATOR);
+  return {
+    workflow: value.slice(0, at),
+    step_name: value.slice(at + STEP_SEPARATOR.length),
+  };
+}
+
+export interface SwapAgentResult {
+  agent_name: string;
+  /** Models the agent's swapped calls were on. */
+  models: string[];
+  calls: number;
+  current: number;
+  simulated: number;
+}
+
+export interface SwapResult {
+  agents: SwapAgentResult[];
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  current: number;
+  simulated: number;
+  /** Calls already on the target model, which the swap leaves alone. */
+  unchanged_calls: number;
+}
+
+/**
+ * Reprice the scope's calls on `target`, moving `share` (0–1) of them.
+ * Amounts are per month, from a window `windowHours` long.
+ */
+export function simulateSwap(
+  rows: UsageMixRow[],
+  scope: SwapScope,
+  value: string,
+  target: ModelPricing,
+  share: number,
+  windowHours: number,
+): SwapResult {
+  const monthly = windowHours > 0 ? (30 * 24) / windowHours : 0;
+  const byAgent = new Map<string, SwapAgentResult>();
+  const result: SwapResult = {
+    agents: [],
+    calls: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+    current: 0,
+    simulated: 0,
+    unchanged_calls: 0,
+  };
+
+  for (const row of rows) {
+    if (scopeValue(row, scope) !== value) continue;
+    const current = row.cost * monthly;
+    const onTarget = row.model === target.model_name;
+    const repriced =
+      ((row.input_tokens * target.input + row.output_tokens * target.output) /
+        1000) *
+      monthly;
+    const simulated = onTarget
+      ? current
+      : current * (1 - share) + repriced * share;
+
+    const agent = byAgent.get(row.agent_name) ?? {
+      agent_name: row.agent_name,
+      models: [],
+      calls: 0,
+      current: 0,
+      simulated: 0,
+    };
+    if (!agent.models.includes(row.model)) agent.models.push(row.model);
+    agent.calls += row.calls * monthly;
+    agent.current += current;
+    agent.simulated += simulated;
+    byAgent.set(row.agent_name, agent);
+
+    result.calls += row.calls * monthly;
+    result.input_tokens += row.input_tokens * monthly;
+    result.output_tokens += row.output_tokens * monthly;
+    result.current += current;
+    result.simulated += simulated;
+    if (onTarget) result.unchanged_calls += row.calls * monthly;
+  }
+
+  result.agents = [...byAgent.values()].sort(
+    (a, b) => a.simulated - a.current - (b.simulated - b.current),
+  );
+  return result;
+}
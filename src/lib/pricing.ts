@@ -0,0 +1,99 @@
+/**
+ * Contract pricing: a project's own rates layered over the list prices in
+ * the pricing catalog, each for a range of UTC days. The backend reprices
+ * costs with them on request (see withPricingBasis in api.ts); this is what
+ * the UI needs to show and check them.
+ */
+
+import type {
+  ModelPricing,
+  PricingBasis,
+  PricingOverride,
+  PricingOverrideInput,
+} from "@/lib/api";
+
+export const PRICING_BASES: { value: PricingBasis; label: string }[] = [
+  { value: "list", label: "List price" },
+  { value: "contract", label: "Contract price" },
+];
+
+/** "Contract price" for reports; ones from before overrides are at list. */
+export function pricingBasisLabel(basis: PricingBasis | undefined): string {
+  return PRICING_BASES.find((b) => b.value === (basis ?? "list"))!.label;
+}
+
+/** Events sometimes carry a provider prefix ("openai/gpt-4o"). */
+function sameModel(a: string, b: string): boolean {
+  const bare = (m: string) => m.toLowerCase().slice(m.indexOf("/") + 1);
+  return a.toLowerCase() === b.toLowerCase() || bare(a) === bare(b);
+}
+
+/** "2026-10-19" for the UTC day of `at`. */
+export function utcDay(at: string | Date): string {
+  return new Date(at).toISOString().slice(0, 10);
+}
+
+/** The override of `model` in force on the UTC day of `at`. */
+export function overrideOn(
+  overrides: PricingOverride[],
+  model: string,
+  at: string | Date,
+): PricingOverride | null {
+  const day = utcDay(at);
+  return (
+    overrides.find(
+      (o) =>
+        sameModel(o.model, model) &&
+        o.effective_from <= day &&
+        (o.effective_to == null || day <= o.effective_to),
+    ) ?? null
+  );
+}
+
+/**
+ * Other overrides of the same model whose days overlap `draft`'s. The
+ * backend refuses those, since a call would have two prices.
+ */
+export function overlappingOverrides(
+  overrides: PricingOverride[],
+  draft: PricingOverrideInput,
+  ignoreId?: string,
+): PricingOverride[] {
+  return overrides.filter(
+    (o) =>
+      o.id !== ignoreId &&
+      sameModel(o.model, draft.model) &&
+      (draft.effective_to == null || o.effective_from <= draft.effective_to) &&
+      (o.effective_to == null || draft.effective_from <= o.effective_to),
+  );
+}
+
+/** Where an override stands today. */
+export function overrideStatus(
+  override: PricingOverride,
+  now = new Date(),
+): "scheduled" | "active" | "ended" {
+  const today = utcDay(now);
+  if (today < override.effective_from) return "scheduled";
+  if (override.effective_to != null && override.effective_to < today) {
+    return "ended";
+  }
+  return "active";
+}
+
+/**
+ * How the override compares with the list price for a typical mix of
+ * input and output, as a signed fraction: -0.2 is 20% cheaper. Null when
+ * the model isn't in the catalog.
+ */
+export function overrideDiscount(
+  override: PricingOverrideInput,
+  list: ModelPricing | undefined,
+): number | null {
+  if (!list) return null;
+  // Three input tokens to one output, roughly what agents send.
+  const blend = (input: number, output: number) => 3 * input + output;
+  const listBlend = blend(list.input, list.output);
+  if (listBlend <= 0) return null;
+  return blend(override.input, override.output) / listBlend - 1;
+}
@@ -5,6 +5,9 @@
  */
 
 import type { ExecutiveReport } from "@/lib/api";
+import { forecastSpend } from "@/lib/forecast";
+import { reportFx, type DisplayFx } from "@/lib/currency";
+import { pricingBasisLabel } from "@/lib/pricing";
 
 type Cell = string | number;
 
@@ -26,8 +29,19 @@ function costPer1k(cost: number, tokens: number): number {
   return tokens > 0 ? Number(((cost / tokens) * 1000).toFixed(6)) : 0;
 }
 
+function cents(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+/** Amounts leave in the report's currency (see reportFx). */
+function converted(value: number, fx: DisplayFx): number {
+  return fx.rate === 1 ? value : Number((value * fx.rate).toFixed(6));
+}
+
 export function buildReportCsv(report: ExecutiveReport): string {
   const sections: string[] = [];
+  const fx = reportFx(report);
+  const money = (value: number) => converted(value, fx);
 
   sections.push(
     toCsv([
@@ -37,24 +51,50 @@ export function buildReportCsv(report: ExecutiveReport): string {
       ["Period start", report.period_start],
       ["Period end", report.period_end],
       ["Generated at", report.generated_at],
-      ["Currency", report.currency],
+      ["Currency", fx.code],
+      ["Pricing", pricingBasisLabel(report.pricing_basis)],
+      ...(fx.code !== report.currency
+        ? [
+            [`FX rate (${report.currency} → ${fx.code})`, fx.rate],
+            ["FX rate date", fx.as_of ?? ""],
+            ["FX rate source", fx.source ?? ""],
+          ]
+        : []),
     ]),
   );
 
   sections.push(
     toCsv([
       ["Summary metric", "Current", "Previous", "Change %"],
-      ["Cost", report.summary.cost.current, report.summary.cost.previous, report.summary.cost.change_percent],
+      ["Cost", money(report.summary.cost.current), money(report.summary.cost.previous), report.summary.cost.change_percent],
       ["Calls", report.summary.calls.current, report.summary.calls.previous, report.summary.calls.change_percent],
       ["Tokens", report.summary.tokens.current, report.summary.tokens.previous, report.summary.tokens.change_percent],
       ["Success rate %", report.summary.success_rate.current, report.summary.success_rate.previous, report.summary.success_rate.change_percent],
       ["Avg latency ms", report.summary.avg_latency_ms.current, report.summary.avg_latency_ms.previous, report.summary.avg_latency_ms.change_percent],
-      ["Blended cost / 1K tokens", report.summary.blended_cost_per_1k, "", ""],
+      ["Blended cost / 1K tokens", money(report.summary.blended_cost_per_1k), "", ""],
       ["Input:output token ratio", report.summary.in_out_ratio, "", ""],
-      ["Projected monthly run-rate", report.run_rate.projected_monthly_cost, "", ""],
+      ["Projected monthly run-rate", money(report.run_rate.projected_monthly_cost), "", ""],
     ]),
   );
 
+  const forecast = forecastSpend(report.timeseries, new Date(report.generated_at));
+  if (forecast) {
+    sections.push(
+      toCsv([
+        ["Spend Forecast", forecast.method === "holt-winters" ? "Weekly pattern and trend" : "Run-rate", `${forecast.history_days} days of history`],
+        ["Period", "Ends", "Spent so far", "Projected p10", "Projected p50", "Projected p90"],
+        ...[forecast.month, forecast.quarter].map((p) => [p.label, p.end, cents(money(p.actual)), cents(money(p.p10)), cents(money(p.p50)), cents(money(p.p90))]),
+      ]),
+    );
+    sections.push(
+      toCsv([
+        ["Projected Daily Spend"],
+        ["Day", "p10", "p50", "p90"],
+        ...forecast.daily.map((d) => [d.timestamp.slice(0, 10), cents(money(d.p10)), cents(money(d.p50)), cents(money(d.p90))]),
+      ]),
+    );
+  }
+
   sections.push(
     toCsv([
       ["Model Breakdown"],
@@ -62,11 +102,11 @@ export function buildReportCsv(report: ExecutiveReport): string {
       ...report.models.map((m) => [
         m.model,
         m.total_calls,
-        m.total_cost,
+        money(m.total_cost),
         m.total_tokens,
         m.input_tokens,
         m.output_tokens,
-        costPer1k(m.total_cost, m.total_tokens),
+        costPer1k(money(m.total_cost), m.total_tokens),
         m.avg_latency_ms,
         m.cost_share ?? 0,
       ]),
@@ -80,7 +120,7 @@ export function buildReportCsv(report: ExecutiveReport): string {
       ...report.agents.map((a) => [
         a.agent_name,
         a.total_calls,
-        a.total_cost,
+        money(a.total_cost),
         a.total_tokens,
         a.avg_latency_ms,
         a.success_rate,
@@ -111,7 +151,7 @@ export function buildReportCsv(report: ExecutiveReport): string {
     toCsv([
       ["Usage Cadence — By Day of Week"],
       ["Day", "Calls", "Cost"],
-      ...report.cadence.by_dow.map((b) => [b.label, b.calls, b.cost]),
+      ...report.cadence.by_dow.map((b) => [b.label, b.calls, money(b.cost)]),
     ]),
   );
 
@@ -119,7 +159,7 @@ export function buildReportCsv(report: ExecutiveReport): string {
     toCsv([
       ["Usage Cadence — By Hour of Day"],
       ["Hour", "Calls", "Cost"],
-      ...report.cadence.by_hour.map((b) => [b.label, b.calls, b.cost]),
+      ...report.cadence.by_hour.map((b) => [b.label, b.calls, money(b.cost)]),
     ]),
   );
 
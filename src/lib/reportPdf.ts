@@ -13,6 +13,9 @@
 import type { ExecutiveReport, MetricDelta, CadenceBucket } from "@/lib/api";
 import type { jsPDF } from "jspdf";
 import { AGENTCOST_LOGO_PNG } from "@/lib/reportLogo";
+import { forecastSpend, projectedDaysAfter, type ForecastPoint } from "@/lib/forecast";
+import { budgetPeriodMeta } from "@/lib/budgetPeriod";
+import { CURRENCIES, describeFx, isCurrencyCode, reportFx } from "@/lib/currency";
 
 // ── palette (RGB) ──
 const INK: [number, number, number] = [31, 36, 48];
@@ -34,12 +37,12 @@ const CW = PW - 2 * M; // content width = 182
 const BOTTOM = PH - 16;
 
 // ── formatting ──
-const money = (v: number, c: string) => {
+const formatMoney = (v: number, c: string) => {
   const x = Number.isFinite(v) ? v : 0;
-  const sym = c === "USD" ? "$" : c === "INR" ? "₹" : "";
-  const d = Math.abs(x) > 0 && Math.abs(x) < 1 ? 4 : 2;
+  const known = isCurrencyCode(c) ? CURRENCIES[c] : null;
+  const d = Math.abs(x) > 0 && Math.abs(x) < 1 ? 4 : (known?.decimals ?? 2);
   const body = x.toLocaleString(undefined, { minimumFractionDigits: d, maximumFractionDigits: d });
-  return sym ? `${sym}${body}` : `${body} ${c}`;
+  return known ? `${known.symbol}${body}` : `${body} ${c}`;
 };
 const num = (v: number) => (Number.isFinite(v) ? v : 0).toLocaleString();
 const pct = (v: number) => `${(Number.isFinite(v) ? v : 0).toFixed(1)}%`;
@@ -70,7 +73,10 @@ export async function buildReportDoc(report: ExecutiveReport): Promise<jsPDF> {
   const autoTable = (await import("jspdf-autotable")).default;
 
   const doc = new jsPDF({ unit: "mm", format: "a4", compress: true });
-  const c = report.currency;
+  // Amounts are converted to the report's currency on the way out.
+  const fx = reportFx(report);
+  const c = fx.code;
+  const money = (v: number, cur: string) => formatMoney(v * fx.rate, cur);
   let y = M;
 
   // ── small helpers bound to this doc ──
@@ -132,7 +138,7 @@ export async function buildReportDoc(report: ExecutiveReport): Promise<jsPDF> {
     ["REPORTING PERIOD", compactRange(report.period_start, report.period_end)],
     ["WINDOW", `${report.range_label} (${report.run_rate.window_days}d)`],
     ["COMPARED AGAINST", `Prior ${report.run_rate.window_days}-day window`],
-    ["CURRENCY", report.currency],
+    ["CURRENCY", c],
   ];
   const cw4 = CW / 4;
   cells.forEach(([label, val], i) => {
@@ -146,7 +152,20 @@ export async function buildReportDoc(report: ExecutiveReport): Promise<jsPDF> {
     setColor(INK);
     text(doc.splitTextToSize(val, cw4 - 6)[0], cx, y + 9.6);
   });
-  y += pbH + 9;
+  y += pbH;
+  const fxText = c !== report.currency ? describeFx(fx) : null;
+  const notes = [
+    fxText && `Amounts converted at ${fxText}`,
+    report.pricing_basis === "contract" && "Costs at contract price: the project's negotiated rates where they apply, list price elsewhere",
+  ].filter((n): n is string => !!n);
+  notes.forEach((note) => {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(7);
+    setColor(MUTED);
+    text(note, M, y + 4);
+    y += 5;
+  });
+  y += 9;
 
   // ── section heading helper ──
   const section = (n: number, title: string, sub: string) => {
@@ -175,6 +194,11 @@ export async function buildReportDoc(report: ExecutiveReport): Promise<jsPDF> {
   const deltaColor = (d: MetricDelta, upIsBad = false): [number, number, number] =>
     d.direction === "neutral" ? MUTED : (d.direction === "up") === upIsBad ? RED : GREEN;
 
+  const forecast = forecastSpend(report.timeseries, new Date(report.generated_at));
+  const projection = forecast
+    ? `${forecast.month.label} is on course for ${money(forecast.month.p50, c)} (p10–p90 ${money(forecast.month.p10, c)} – ${money(forecast.month.p90, c)})`
+    : `At the current run-rate that projects to ${money(report.run_rate.projected_monthly_cost, c)}/mo`;
+
   // ── 01 Executive Summary ──
   section(1, "Executive Summary", "Headline metrics versus the prior period");
 
@@ -182,7 +206,7 @@ export async function buildReportDoc(report: ExecutiveReport): Promise<jsPDF> {
   const highlight = report.overview.total_calls
     ? `Across ${num(report.overview.total_calls)} calls this period, spend totalled ${money(report.overview.total_cost, c)}${
         topModel ? `, led by ${topModel.model} (${(topModel.cost_share ?? 0).toFixed(0)}% of cost)` : ""
-      }. At the current run-rate that projects to ${money(report.run_rate.projected_monthly_cost, c)}/mo${
+      }. ${projection}${
         report.savings.total_potential_savings_monthly > 0
           ? `, with an estimated ${money(report.savings.total_potential_savings_monthly, c)}/mo recoverable through optimization.`
           : "."
@@ -211,7 +235,9 @@ export async function buildReportDoc(report: ExecutiveReport): Promise<jsPDF> {
     ["TOKENS", num(report.overview.total_tokens), report.summary.tokens, `${num(report.overview.total_input_tokens)} in`, false],
     ["SUCCESS RATE", pct(report.overview.success_rate), report.summary.success_rate, `${pct(100 - report.overview.success_rate)} errors`, false],
     ["AVG LATENCY", lat(report.overview.avg_latency_ms), report.summary.avg_latency_ms, `p95 ${lat(report.latency.p95)}`, true],
-    ["PROJECTED / MO", money(report.run_rate.projected_monthly_cost, c), null, "at current run-rate", false],
+    forecast
+      ? ["PROJECTED / MO", money(forecast.month.p50, c), null, `p10–p90 ${money(forecast.month.p10, c)} – ${money(forecast.month.p90, c)}`, false]
+      : ["PROJECTED / MO", money(report.run_rate.projected_monthly_cost, c), null, "at current run-rate", false],
   ];
   const gap = 4;
   const kw = (CW - gap * 2) / 3;
@@ -252,27 +278,48 @@ export async function buildReportDoc(report: ExecutiveReport): Promise<jsPDF> {
   y += 2 * kh + gap + 8;
 
   // ── 02 Spend Over Time ──
-  section(2, "Spend Over Time", "Cost trend across the reporting window");
+  const series = report.timeseries;
+  const ahead = forecast && series.length ? projectedDaysAfter(forecast, series[series.length - 1].timestamp) : [];
+  section(2, "Spend Over Time", ahead.length ? "Cost trend, projected to the end of the month" : "Cost trend across the reporting window");
   ensure(46);
-  drawAreaChart(doc, report.timeseries.map((p) => p.cost), M, y, CW, 38);
+  drawAreaChart(doc, series.map((p) => p.cost), M, y, CW, 38, ahead);
   y += 38 + 2;
   doc.setFont("helvetica", "normal");
   doc.setFontSize(7.5);
   setColor(MUTED);
-  if (report.timeseries.length > 1) {
-    text(dateStr(report.timeseries[0].timestamp), M, y + 3);
-    text(dateStr(report.timeseries[report.timeseries.length - 1].timestamp), PW - M, y + 3, { align: "right" });
+  if (series.length > 1) {
+    const last = ahead.length ? ahead[ahead.length - 1].timestamp : series[series.length - 1].timestamp;
+    text(dateStr(series[0].timestamp), M, y + 3);
+    text(dateStr(last), PW - M, y + 3, { align: "right" });
   }
   y += 9;
+  if (forecast) {
+    ensure(16);
+    setColor(INK);
+    [forecast.month, forecast.quarter].forEach((p, i) => {
+      text(`End of ${p.label}: ${money(p.p50, c)} (p10–p90 ${money(p.p10, c)} – ${money(p.p90, c)})`, M, y + i * 4.2);
+    });
+    setColor(MUTED);
+    text(
+      forecast.method === "holt-winters"
+        ? `Fitted to the weekly pattern and trend of ${forecast.history_days} days; the shaded band runs from p10 to p90.`
+        : `Only ${forecast.history_days} days of history, so days are projected at the run-rate; the shaded band runs from p10 to p90.`,
+      M,
+      y + 8.4,
+    );
+    y += 14;
+  }
 
   // ── 03 Budget Status ──
   const b = report.budget;
-  section(3, "Budget Status", b.enabled ? `Month-to-date · ${b.mode} enforcement` : "Monthly budget");
+  const bp = budgetPeriodMeta(b.period ?? "monthly");
+  const toDate = `${bp.noun[0].toUpperCase()}${bp.noun.slice(1)}-to-date`;
+  section(3, "Budget Status", b.enabled ? [toDate, b.period_key, `${b.mode} enforcement`].filter(Boolean).join(" · ") : "Budget");
   if (b.enabled && b.budget) {
     ensure(24);
     const bcells: Array<[string, string]> = [
       ["BUDGET", money(b.budget, c)],
-      ["SPENT (MTD)", money(b.current_spend, c)],
+      [`SPENT (${bp.toDate})`, money(b.current_spend, c)],
       ["PROJECTED", money(b.projected_spend, c)],
       ["UTILIZATION", b.utilization_percent != null ? pct(b.utilization_percent) : "—"],
     ];
@@ -299,7 +346,28 @@ export async function buildReportDoc(report: ExecutiveReport): Promise<jsPDF> {
     doc.setFont("helvetica", "normal");
     doc.setFontSize(9);
     setColor(MUTED);
-    text("No monthly budget configured. Set one in Settings to track utilization.", M, y + 2);
+    text("No budget configured. Set one in Settings to track utilization.", M, y + 2);
+    y += 10;
+  }
+  for (const sb of b.sub_budgets ?? []) {
+    ensure(10);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(8.5);
+    setColor(INK);
+    text(`${sb.scope} ${sb.scope_value}${sb.mode === "hard_cap" ? " · hard cap" : ""}`, M, y + 2);
+    doc.setFont("helvetica", "normal");
+    setColor(MUTED);
+    text(
+      `${money(sb.current_spend, c)} of ${money(sb.budget, c)} · projected ${money(sb.projected_spend, c)}`,
+      PW - M,
+      y + 2,
+      { align: "right" },
+    );
+    const u = sb.utilization_percent ?? 0;
+    setFill([238, 240, 244]);
+    doc.roundedRect(M, y + 4, CW, 1.6, 0.8, 0.8, "F");
+    setFill(u >= 100 ? RED : u >= 80 ? AMBER : GREEN);
+    doc.roundedRect(M, y + 4, (CW * Math.min(u, 100)) / 100, 1.6, 0.8, 0.8, "F");
     y += 10;
   }
 
@@ -519,7 +587,8 @@ function drawFooter(doc: jsPDF, report: ExecutiveReport, page?: number, total?:
 }
 
 // ── vector charts ──
-function drawAreaChart(doc: jsPDF, values: number[], x: number, y: number, w: number, h: number) {
+// `projection` continues the series to the right as a dashed median in a shaded p10–p90 band.
+function drawAreaChart(doc: jsPDF, values: number[], x: number, y: number, w: number, h: number, projection: ForecastPoint[] = []) {
   // frame gridlines
   doc.setDrawColor(236, 236, 237);
   doc.setLineWidth(0.15);
@@ -534,8 +603,8 @@ function drawAreaChart(doc: jsPDF, values: number[], x: number, y: number, w: nu
     doc.text("No activity in this window", x + w / 2, y + h / 2, { align: "center" });
     return;
   }
-  const max = Math.max(...values, 0) || 1;
-  const n = values.length;
+  const max = Math.max(...values, ...projection.map((p) => p.p90), 0) || 1;
+  const n = values.length + projection.length;
   const px = (i: number) => x + (n > 1 ? (i / (n - 1)) * w : w / 2);
   const py = (v: number) => y + h - (v / max) * (h - 2) - 1;
   const pts = values.map((v, i) => [px(i), py(v)] as [number, number]);
@@ -555,6 +624,27 @@ function drawAreaChart(doc: jsPDF, values: number[], x: number, y: number, w: nu
   doc.setDrawColor(SKY[0], SKY[1], SKY[2]);
   doc.setLineWidth(0.7);
   doc.lines(lineDeltas, pts[0][0], pts[0][1], [1, 1], "S", false);
+
+  if (!projection.length) return;
+  const last = pts[pts.length - 1];
+  const at = (k: "p10" | "p50" | "p90") =>
+    [last, ...projection.map((p, i) => [px(values.length + i), py(p[k])] as [number, number])];
+  const upper = at("p90");
+  const lower = at("p10").reverse();
+  const ring = [...upper, ...lower];
+  const ringDeltas: number[][] = [];
+  for (let i = 1; i < ring.length; i++) ringDeltas.push([ring[i][0] - ring[i - 1][0], ring[i][1] - ring[i - 1][1]]);
+  doc.setFillColor(232, 243, 251);
+  doc.lines(ringDeltas, ring[0][0], ring[0][1], [1, 1], "F", true);
+
+  const median = at("p50");
+  const medianDeltas: number[][] = [];
+  for (let i = 1; i < median.length; i++) medianDeltas.push([median[i][0] - median[i - 1][0], median[i][1] - median[i - 1][1]]);
+  doc.setDrawColor(SKY[0], SKY[1], SKY[2]);
+  doc.setLineWidth(0.5);
+  doc.setLineDashPattern([1.2, 1], 0);
+  doc.lines(medianDeltas, median[0][0], median[0][1], [1, 1], "S", false);
+  doc.setLineDashPattern([], 0);
 }
 
 function drawBarChart(doc: jsPDF, buckets: CadenceBucket[], x: number, y: number, w: number, h: number) {
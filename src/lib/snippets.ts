@@ -0,0 +1,319 @@
+/**
+ * Implementation snippets in the stack an agent is actually built on. Each
+ * target renders the same handful of changes — switching model, caching
+ * responses, retrying, streaming — with its own SDK's idioms; adding a stack
+ * is adding one entry to SNIPPET_GENERATORS.
+ */
+
+import type { SnippetTarget } from "@/lib/api";
+
+export interface SnippetContext {
+  /** The model the agent runs on now. */
+  model: string;
+  /** The model a switch moves it to; the current one for other changes. */
+  alternative: string;
+  /** Environment variable the agent reads its model from. */
+  envVar: string;
+}
+
+export type SnippetLanguage = "python" | "typescript";
+
+/** A change to a config file, downloadable as a unified diff. */
+export interface ConfigPatch {
+  path: string;
+  filename: string;
+  diff: string;
+}
+
+export interface SnippetGenerator {
+  label: string;
+  language: SnippetLanguage;
+  modelSwitch: (ctx: SnippetContext) => string;
+  responseCache: (ctx: SnippetContext) => string;
+  retry: (ctx: SnippetContext) => string;
+  streaming: (ctx: SnippetContext) => string;
+}
+
+function isAnthropicModel(model: string): boolean {
+  return model.toLowerCase().startsWith("claude");
+}
+
+const PYTHON_RESPONSE_CACHE = (
+  serialized: string,
+  call: string,
+) => `import hashlib
+import json
+
+from cachetools import TTLCache
+
+# Identical inputs within the TTL are answered without calling the model.
+cache = TTLCache(maxsize=1000, ttl=60 * 60)
+
+def cached_completion(messages):
+    key = hashlib.sha256(${serialized}.encode()).hexdigest()
+    if key not in cache:
+        cache[key] = ${call}
+    return cache[key]`;
+
+const TS_RESPONSE_CACHE = (
+  imports: string,
+  messageType: string,
+  resultType: string,
+  call: string,
+) => `import { createHash } from "node:crypto";
+import { LRUCache } from "lru-cache";
+${imports}
+
+// Identical inputs within the TTL are answered without calling the model.
+const cache = new LRUCache<string, ${resultType}>({ max: 1000, ttl: 60 * 60 * 1000 });
+
+export async function cachedCompletion(messages: ${messageType}[]) {
+  const key = createHash("sha256").update(JSON.stringify(messages)).digest("hex");
+  let result = cache.get(key);
+  if (result === undefined) {
+    result = ${call};
+    cache.set(key, result);
+  }
+  return result;
+}`;
+
+/** The AI SDK provider import a model needs. */
+function aiSdkImport(model: string): string {
+  return isAnthropicModel(model)
+    ? `import { anthropic } from "@ai-sdk/anthropic";`
+    : `import { openai } from "@ai-sdk/openai";`;
+}
+
+/** The AI SDK provider call for a model, e.g. openai("gpt-4o-mini"). */
+function aiSdkModel(model: string): string {
+  return `${isAnthropicModel(model) ? "anthropic" : "openai"}(${JSON.stringify(model)})`;
+}
+
+export const SNIPPET_GENERATORS: Record<SnippetTarget, SnippetGenerator> = {
+  "python-openai": {
+    label: "Python · OpenAI SDK",
+    language: "python",
+    modelSwitch: ({ envVar }) => `import os
+
+from openai import OpenAI
+
+client = OpenAI()
+
+response = client.chat.completions.create(
+    model=os.environ["${envVar}"],
+    messages=messages,
+)`,
+    responseCache: ({ alternative }) =>
+      PYTHON_RESPONSE_CACHE(
+        "json.dumps(messages, sort_keys=True)",
+        `client.chat.completions.create(model="${alternative}", messages=messages)`,
+      ),
+    retry: () => `from openai import OpenAI
+
+# Rate limits, timeouts and 5xx errors are retried with exponential backoff.
+client = OpenAI(max_retries=3, timeout=30.0)`,
+    streaming: ({ alternative }) => `stream = client.chat.completions.create(
+    model="${alternative}",
+    messages=messages,
+    stream=True,
+)
+for chunk in stream:
+    print(chunk.choices[0].delta.content or "", end="", flush=True)`,
+  },
+
+  "python-anthropic": {
+    label: "Python · Anthropic SDK",
+    language: "python",
+    modelSwitch: ({ envVar }) => `import os
+
+from anthropic import Anthropic
+
+client = Anthropic()
+
+message = client.messages.create(
+    model=os.environ["${envVar}"],
+    max_tokens=1024,
+    messages=messages,
+)`,
+    responseCache: ({ alternative }) =>
+      PYTHON_RESPONSE_CACHE(
+        "json.dumps(messages, sort_keys=True)",
+        `client.messages.create(model="${alternative}", max_tokens=1024, messages=messages)`,
+      ),
+    retry: () => `from anthropic import Anthropic
+
+# Rate limits, overloads and 5xx errors are retried with exponential backoff.
+client = Anthropic(max_retries=3, timeout=30.0)`,
+    streaming: ({ alternative }) => `with client.messages.stream(
+    model="${alternative}",
+    max_tokens=1024,
+    messages=messages,
+) as stream:
+    for text in stream.text_stream:
+        print(text, end="", flush=True)`,
+  },
+
+  langchain: {
+    label: "LangChain",
+    language: "python",
+    modelSwitch: ({ envVar }) => `import os
+
+from langchain.chat_models import init_chat_model
+
+# The provider is inferred from the model name.
+llm = init_chat_model(os.environ["${envVar}"])`,
+    responseCache: () => `from langchain_core.caches import InMemoryCache
+from langchain_core.globals import set_llm_cache
+
+# Every chat model in the process answers repeated inputs from the cache.
+set_llm_cache(InMemoryCache())`,
+    retry: () => `llm = llm.with_retry(
+    stop_after_attempt=3,
+    wait_exponential_jitter=True,
+)`,
+    streaming: () => `for chunk in llm.stream(messages):
+    print(chunk.content, end="", flush=True)`,
+  },
+
+  llamaindex: {
+    label: "LlamaIndex",
+    language: "python",
+    modelSwitch: ({ alternative, envVar }) =>
+      isAnthropicModel(alternative)
+        ? `import os
+
+from llama_index.core import Settings
+from llama_index.llms.anthropic import Anthropic
+
+Settings.llm = Anthropic(model=os.environ["${envVar}"])`
+        : `import os
+
+from llama_index.core import Settings
+from llama_index.llms.openai import OpenAI
+
+Settings.llm = OpenAI(model=os.environ["${envVar}"])`,
+    responseCache: () =>
+      PYTHON_RESPONSE_CACHE(
+        'json.dumps([m.model_dump(mode="json") for m in messages], sort_keys=True)',
+        "Settings.llm.chat(messages)",
+      ),
+    retry: ({ alternative }) =>
+      isAnthropicModel(alternative)
+        ? `from llama_index.llms.anthropic import Anthropic
+
+Settings.llm = Anthropic(model="${alternative}", max_retries=3, timeout=30.0)`
+        : `from llama_index.llms.openai import OpenAI
+
+Settings.llm = OpenAI(model="${alternative}", max_retries=3, timeout=30.0)`,
+    streaming: () => `for chunk in Settings.llm.stream_chat(messages):
+    print(chunk.delta, end="", flush=True)`,
+  },
+
+  "ts-openai": {
+    label: "TypeScript · OpenAI SDK",
+    language: "typescript",
+    modelSwitch: ({ envVar }) => `import OpenAI from "openai";
+
+const client = new OpenAI();
+
+const response = await client.chat.completions.create({
+  model: process.env.${envVar}!,
+  messages,
+});`,
+    responseCache: ({ alternative }) =>
+      TS_RESPONSE_CACHE(
+        `import type { ChatCompletion, ChatCompletionMessageParam } from "openai/resources/chat";`,
+        "ChatCompletionMessageParam",
+        "ChatCompletion",
+        `await client.chat.completions.create({ model: "${alternative}", messages })`,
+      ),
+    retry: () => `import OpenAI from "openai";
+
+// Rate limits, timeouts and 5xx errors are retried with exponential backoff.
+const client = new OpenAI({ maxRetries: 3, timeout: 30_000 });`,
+    streaming: ({
+      alternative,
+    }) => `const stream = await client.chat.completions.create({
+  model: "${alternative}",
+  messages,
+  stream: true,
+});
+for await (const chunk of stream) {
+  process.stdout.write(chunk.choices[0]?.delta?.content ?? "");
+}`,
+  },
+
+  "ts-vercel-ai": {
+    label: "TypeScript · Vercel AI SDK",
+    language: "typescript",
+    modelSwitch: ({ alternative, envVar }) =>
+      isAnthropicModel(alternative)
+        ? `import { anthropic } from "@ai-sdk/anthropic";
+import { generateText } from "ai";
+
+const { text } = await generateText({
+  model: anthropic(process.env.${envVar}!),
+  messages,
+});`
+        : `import { openai } from "@ai-sdk/openai";
+import { generateText } from "ai";
+
+const { text } = await generateText({
+  model: openai(process.env.${envVar}!),
+  messages,
+});`,
+    responseCache: ({ alternative }) =>
+      TS_RESPONSE_CACHE(
+        `${aiSdkImport(alternative)}\nimport { generateText, type ModelMessage } from "ai";`,
+        "ModelMessage",
+        "string",
+        `(await generateText({ model: ${aiSdkModel(alternative)}, messages })).text`,
+      ),
+    retry: ({ alternative }) => `${aiSdkImport(alternative)}
+import { generateText } from "ai";
+
+// generateText and streamText retry with exponential backoff.
+const { text } = await generateText({
+  model: ${aiSdkModel(alternative)},
+  messages,
+  maxRetries: 3,
+});`,
+    streaming: ({ alternative }) => `${aiSdkImport(alternative)}
+import { streamText } from "ai";
+
+const result = streamText({ model: ${aiSdkModel(alternative)}, messages });
+for await (const text of result.textStream) {
+  process.stdout.write(text);
+}`,
+  },
+};
+
+/** e.g. "email-drafter" → EMAIL_DRAFTER_MODEL; LLM_MODEL without an agent. */
+export function modelEnvVar(agent: string | null | undefined): string {
+  const name = (agent ?? "")
+    .replace(/[^a-z0-9]+/gi, "_")
+    .replace(/^_+|_+$/g, "")
+    .toUpperCase();
+  return name ? `${name}_MODEL` : "LLM_MODEL";
+}
+
+/**
+ * The model switch as a change to `.env`, where every target's snippet reads
+ * the model from. The hunk carries no context lines, so `patch -p1` finds the
+ * line wherever it sits in the file.
+ */
+export function modelSwitchPatch(ctx: SnippetContext): ConfigPatch {
+  const slug = ctx.envVar.toLowerCase().replace(/_/g, "-");
+  return {
+    path: ".env",
+    filename: `${slug}.patch`,
+    diff: [
+      "--- a/.env",
+      "+++ b/.env",
+      "@@ -1 +1 @@",
+      `-${ctx.envVar}=${ctx.model}`,
+      `+${ctx.envVar}=${ctx.alternative}`,
+      "",
+    ].join("\n"),
+  };
+}
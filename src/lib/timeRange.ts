@@ -0,0 +1,129 @@
+/**
+ * The window an analytics query covers: a preset relative to now ("7d"), or
+ * an absolute window such as a billing month.
+ */
+
+import { format } from "date-fns";
+import type { MetricDelta } from "@/lib/api";
+
+/** ISO timestamps; `end` is exclusive, and open (up to now) when left out. */
+export interface AbsoluteRange {
+  start: string;
+  end?: string;
+}
+
+export type TimeRange = string | AbsoluteRange;
+
+export const TIME_RANGE_PRESETS = [
+  { value: "1h", label: "Last hour", hours: 1 },
+  { value: "24h", label: "Last 24 hours", hours: 24 },
+  { value: "7d", label: "Last 7 days", hours: 7 * 24 },
+  { value: "30d", label: "Last 30 days", hours: 30 * 24 },
+  { value: "90d", label: "Last 90 days", hours: 90 * 24 },
+];
+
+function preset(value: string) {
+  return TIME_RANGE_PRESETS.find((p) => p.value === value);
+}
+
+export function isTimeRangePreset(value: string): boolean {
+  return preset(value) !== undefined;
+}
+
+/** Set `range`, or `start`/`end`, on `params` (a new one if not given). */
+export function timeRangeParams(
+  range: TimeRange,
+  params = new URLSearchParams(),
+): URLSearchParams {
+  if (typeof range === "string") {
+    params.set("range", range);
+  } else {
+    params.set("start", range.start);
+    if (range.end) params.set("end", range.end);
+  }
+  return params;
+}
+
+/** Length of the window in hours; an unknown preset counts as 7 days. */
+export function timeRangeHours(range: TimeRange): number {
+  if (typeof range === "string") return preset(range)?.hours ?? 7 * 24;
+  const end = range.end ? Date.parse(range.end) : Date.now();
+  return Math.max(0, end - Date.parse(range.start)) / 3_600_000;
+}
+
+/** Windows of a day or less come back in hour buckets rather than days. */
+export function isHourlyRange(range: TimeRange): boolean {
+  return timeRangeHours(range) <= 24;
+}
+
+/** Pin a preset to the clock, for filters that only take timestamps. */
+export function toAbsoluteRange(range: TimeRange): AbsoluteRange {
+  if (typeof range !== "string") return range;
+  const hours = timeRangeHours(range);
+  return { start: new Date(Date.now() - hours * 3_600_000).toISOString() };
+}
+
+/** The window of equal length that ends where `range` starts. */
+export function previousTimeRange(range: TimeRange): AbsoluteRange {
+  const { start } = toAbsoluteRange(range);
+  const startMs = Date.parse(start);
+  const lengthMs = timeRangeHours(range) * 3_600_000;
+  return {
+    start: new Date(startMs - lengthMs).toISOString(),
+    end: start,
+  };
+}
+
+/**
+ * Period-over-period change in the report's shape. Moves within ±2% read as
+ * flat; with nothing to compare against there is no change to report.
+ */
+export function metricDelta(current: number, previous: number): MetricDelta {
+  const change = previous === 0 ? 0 : ((current - previous) / previous) * 100;
+  return {
+    current,
+    previous,
+    change_percent: change,
+    direction: change > 2 ? "up" : change < -2 ? "down" : "neutral",
+  };
+}
+
+export function sameTimeRange(a: TimeRange, b: TimeRange): boolean {
+  if (typeof a === "string" || typeof b === "string") return a === b;
+  return a.start === b.start && (a.end ?? "") === (b.end ?? "");
+}
+
+/** Local midnight at the start of the month `offset` months from this one. */
+export function monthStart(offset = 0, now = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth() + offset, 1);
+}
+
+function isMidnight(d: Date): boolean {
+  return d.getHours() === 0 && d.getMinutes() === 0 && d.getSeconds() === 0;
+}
+
+function formatDay(d: Date, now: Date): string {
+  return format(
+    d,
+    d.getFullYear() === now.getFullYear() ? "MMM d" : "MMM d, yyyy",
+  );
+}
+
+function formatBound(d: Date, now: Date): string {
+  const day = formatDay(d, now);
+  return isMidnight(d) ? day : `${day}, ${format(d, "HH:mm")}`;
+}
+
+/** "Last 7 days", "Sep 1 – Sep 30" or "Since Oct 1". */
+export function formatTimeRange(range: TimeRange): string {
+  if (typeof range === "string") return preset(range)?.label ?? range;
+  const now = new Date();
+  const from = formatBound(new Date(range.start), now);
+  if (!range.end) return `Since ${from}`;
+  // The end is exclusive: a window up to Oct 1 00:00 reads "… – Sep 30".
+  const end = new Date(range.end);
+  const to = isMidnight(end)
+    ? formatDay(new Date(end.getTime() - 1), now)
+    : formatBound(end, now);
+  return from === to ? from : `${from} – ${to}`;
+}
@@ -1,15 +1,39 @@
 import { clsx, type ClassValue } from "clsx";
+import { ApiError } from "@/lib/apiError";
+import { CURRENCIES, currencySymbol, getDisplayFx } from "@/lib/currency";
 
 export function cn(...inputs: ClassValue[]) {
   return clsx(inputs);
 }
 
+/**
+ * A USD amount in the display currency (see lib/currency). Negative amounts
+ * — savings that turned out to be a loss — read "−$12.00".
+ */
 export function formatCurrency(value: number): string {
-  if (value == null || isNaN(value)) return "$0.00";
-  if (value === 0) return "$0.00";
-  if (value < 0.01) return `$${value.toFixed(6)}`;
-  if (value < 1) return `$${value.toFixed(4)}`;
-  return `$${value.toFixed(2)}`;
+  const fx = getDisplayFx();
+  const sym = currencySymbol(fx.code);
+  const zero = `${sym}${(0).toFixed(CURRENCIES[fx.code].decimals)}`;
+  if (value == null || isNaN(value)) return zero;
+  if (value === 0) return zero;
+  const sign = value < 0 ? "−" : "";
+  const v = Math.abs(value) * fx.rate;
+  if (v < 0.01) return `${sign}${sym}${v.toFixed(6)}`;
+  if (v < 1) return `${sign}${sym}${v.toFixed(4)}`;
+  return `${sign}${sym}${v.toFixed(CURRENCIES[fx.code].decimals)}`;
+}
+
+/** Short form of formatCurrency for chart axes: "$0", "$0.25", "$12", "$1.5k". */
+export function formatCurrencyAxis(value: number): string {
+  const fx = getDisplayFx();
+  const sym = `${value < 0 ? "−" : ""}${currencySymbol(fx.code)}`;
+  const v = Math.abs(value) * fx.rate;
+  if (v === 0) return `${currencySymbol(fx.code)}0`;
+  if (v >= 1_000_000) return `${sym}${(v / 1_000_000).toFixed(1)}M`;
+  if (v >= 1000) return `${sym}${(v / 1000).toFixed(1)}k`;
+  if (v >= 1) return `${sym}${v.toFixed(0)}`;
+  if (v >= 0.01) return `${sym}${v.toFixed(2)}`;
+  return `${sym}${v.toFixed(4)}`;
 }
 
 export function formatNumber(value: number): string {
@@ -84,81 +108,110 @@ export function formatRelativeTime(date: string | Date): string {
   return formatDate(date);
 }
 
+const SESSION_EXPIRED_MESSAGE =
+  "Your session has expired. This usually happens after 7 days of inactivity. Please log out and log back in.";
+
+/** Friendlier wording for the backend details users hit most. */
+function friendlyDetail(detail: string): string {
+  if (detail.includes("don't have access")) {
+    return "You don't have access to this project.";
+  }
+  if (detail.includes("Invalid or expired token")) {
+    return SESSION_EXPIRED_MESSAGE;
+  }
+  if (detail.includes("Email not verified")) {
+    return "Please verify your email address before logging in.";
+  }
+  if (detail.includes("Invalid email or password")) {
+    return "Invalid email or password. Please try again.";
+  }
+  return detail;
+}
+
 /**
- * Parse API error responses into user-friendly messages.
- * Handles various error formats including:
- * - 422 validation errors (array format)
- * - Simple string detail format
- * - Generic HTTP status codes
+ * Parse API errors into user-friendly messages.
+ * Handles:
+ * - 422 validation errors (one sentence per field issue)
+ * - A plain `detail` sentence from the backend
+ * - Bare HTTP statuses, worded by what the user can do about them
+ * - Plain errors thrown outside the API client (auth forms)
  */
 export function parseApiError(err: unknown): string {
-  if (err instanceof Error) {
-    const message = err.message;
-
-    // Handle 422 validation errors (array format)
-    const validationMatch = message.match(/{"detail":\[(.+)\]}/);
-    if (validationMatch) {
-      try {
-        const fullJson = JSON.parse(
-          message.match(/{"detail":\[.+\]}/)?.[0] || "{}",
-        );
-        if (fullJson.detail && Array.isArray(fullJson.detail)) {
-          // Extract readable messages from validation errors
-          const messages = fullJson.detail.map(
-            (e: { msg?: string; ctx?: { reason?: string } }) => {
-              if (e.ctx?.reason) return e.ctx.reason;
-              if (e.msg)
-                return e.msg.replace(
-                  /^value is not a valid email address: /,
-                  "",
-                );
-              return "Invalid input";
-            },
-          );
-          return messages.join(". ");
-        }
-      } catch {
-        // Fall through to other parsing methods
-      }
+  if (err instanceof ApiError) {
+    if (Array.isArray(err.detail)) {
+      return err.detail
+        .map((issue) => {
+          if (issue.ctx?.reason) return issue.ctx.reason;
+          if (issue.msg) {
+            return issue.msg.replace(
+              /^value is not a valid email address: /,
+              "",
+            );
+          }
+          return "Invalid input";
+        })
+        .join(". ");
     }
-
-    // Handle simple string detail format
-    const detailMatch = message.match(/{"detail":"([^"]+)"}/);
-    if (detailMatch) {
-      const detail = detailMatch[1];
-      // Provide user-friendly messages for common errors
-      if (detail.includes("don't have access")) {
-        return "You don't have access to this project.";
-      }
-      if (detail.includes("Invalid or expired token")) {
-        return "Your session has expired. This usually happens after 7 days of inactivity. Please log out and log back in.";
-      }
-      if (detail.includes("Email not verified")) {
-        return "Please verify your email address before logging in.";
-      }
-      if (detail.includes("Invalid email or password")) {
-        return "Invalid email or password. Please try again.";
-      }
-      return detail;
+    if (err.detail) return friendlyDetail(err.detail);
+    if (err.status === 401) return SESSION_EXPIRED_MESSAGE;
+    if (err.status === 403) {
+      return "You don't have permission to perform this action.";
     }
-
-    if (message.includes("401")) {
-      return "Your session has expired. This usually happens after 7 days of inactivity. Please log out and log back in.";
+    if (err.status === 404) return "That could not be found.";
+    if (err.status === 429) {
+      return "Too many requests right now. Please wait a moment and try again.";
     }
-    if (message.includes("403")) {
-      return "You don't have permission to perform this action.";
+    if (err.status >= 500) {
+      return "The AgentCost backend ran into a problem. Please try again.";
     }
+    return err.message;
+  }
+  if (err instanceof Error) {
+    return friendlyDetail(err.message);
+  }
+  return "An unexpected error occurred. Please try again.";
+}
 
-    // Remove API Error prefix and status codes for cleaner display
-    const cleanMessage = message
-      .replace(/^API Error:\s*/i, "")
-      .replace(
-        /^\d{3}\s+(Bad Request|Unauthorized|Forbidden|Not Found|Unprocessable Content|Unprocessable Entity)\s*-\s*/i,
-        "",
-      )
-      .replace(/^{"detail":"(.+)"}$/i, "$1");
+/**
+ * What a failed request means for the page, from the error's status:
+ * - unauthorized: no usable key or session — show onboarding
+ * - forbidden: signed in, but not allowed to see this project
+ * - not_found: the thing asked for does not exist (any more)
+ * - rate_limited: asked too often; wait `retryAfter` seconds
+ * - unavailable: backend down or unreachable — worth retrying
+ * - failed: anything else; the message says what
+ */
+export type ApiFailureKind =
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "rate_limited"
+  | "unavailable"
+  | "failed";
+
+export interface ApiFailure {
+  kind: ApiFailureKind;
+  /** parseApiError's wording, ready to show. */
+  message: string;
+  retryAfter: number | null;
+}
 
-    return cleanMessage || message;
+export function toApiFailure(err: unknown): ApiFailure {
+  const message = parseApiError(err);
+  if (!(err instanceof ApiError)) {
+    return { kind: "failed", message, retryAfter: null };
   }
-  return "An unexpected error occurred. Please try again.";
+  const kind: ApiFailureKind =
+    err.status === 401
+      ? "unauthorized"
+      : err.status === 403
+        ? "forbidden"
+        : err.status === 404
+          ? "not_found"
+          : err.status === 429
+            ? "rate_limited"
+            : err.status === 0 || err.status >= 500
+              ? "unavailable"
+              : "failed";
+  return { kind, message, retryAfter: err.retryAfter };
 }